@@ -0,0 +1,52 @@
+-- Migration 006: Production run checkpoints — resumable produceVideo() runs
+
+-- ─── production_runs ─────────────────────────────────────────────────────────
+-- One row per produceVideo() invocation; resumable while status = 'running' or 'failed'
+CREATE TABLE IF NOT EXISTS production_runs (
+  id           UUID        PRIMARY KEY DEFAULT uuid_generate_v4(),
+  idea_id      UUID        NOT NULL,
+  idea_source  TEXT        NOT NULL CHECK (idea_source IN ('ring_cam', 'body_cam')),
+  status       TEXT        NOT NULL DEFAULT 'running'
+                 CHECK (status IN ('running', 'completed', 'failed', 'rejected')),
+  last_step    TEXT,                     -- most recent checkpointed step
+  error        TEXT,                     -- message of the error that ended the run
+  created_at   TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at   TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ─── run_checkpoints ─────────────────────────────────────────────────────────
+-- One row per completed producer step
+CREATE TABLE IF NOT EXISTS run_checkpoints (
+  id             UUID        PRIMARY KEY DEFAULT uuid_generate_v4(),
+  run_id         UUID        NOT NULL REFERENCES production_runs(id) ON DELETE CASCADE,
+  step           TEXT        NOT NULL
+                   CHECK (step IN ('sanitize', 'generate', 'download', 'degrade', 'gates',
+                                   'overlay', 'disclosure', 'crop', 'upload')),
+  artifact_path  TEXT,                   -- local file produced by the step, if any
+  artifact_hash  TEXT,                   -- sha256 of artifact_path at checkpoint time
+  cost           NUMERIC(8, 4) NOT NULL DEFAULT 0,
+  result         JSONB       NOT NULL DEFAULT '{}',
+  created_at     TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ─── Indexes ─────────────────────────────────────────────────────────────────
+CREATE INDEX IF NOT EXISTS idx_production_runs_idea     ON production_runs(idea_id);
+CREATE INDEX IF NOT EXISTS idx_production_runs_status   ON production_runs(status);
+CREATE INDEX IF NOT EXISTS idx_run_checkpoints_run      ON run_checkpoints(run_id, created_at);
+
+-- ─── updated_at trigger ───────────────────────────────────────────────────────
+CREATE TRIGGER trg_production_runs_updated_at
+  BEFORE UPDATE ON production_runs
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+-- ─── Row-Level Security ───────────────────────────────────────────────────────
+ALTER TABLE production_runs  ENABLE ROW LEVEL SECURITY;
+ALTER TABLE run_checkpoints  ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "service_full_access_production_runs"
+  ON production_runs FOR ALL
+  USING (auth.role() = 'service_role');
+
+CREATE POLICY "service_full_access_run_checkpoints"
+  ON run_checkpoints FOR ALL
+  USING (auth.role() = 'service_role');
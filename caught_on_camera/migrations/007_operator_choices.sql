@@ -0,0 +1,21 @@
+-- Migration 007: Operator choice days — format/category picked via Telegram keyboard
+
+-- ─── operator_choices ────────────────────────────────────────────────────────
+-- One row per 'operator_choice' schedule day, reused by every cron tick that day
+CREATE TABLE IF NOT EXISTS operator_choices (
+  id            UUID        PRIMARY KEY DEFAULT uuid_generate_v4(),
+  choice_date   DATE        NOT NULL UNIQUE,
+  format        TEXT        NOT NULL CHECK (format IN ('ring_cam', 'body_cam')),
+  category      TEXT,                    -- null = any category
+  cam_sub_type  TEXT        CHECK (cam_sub_type IN ('police_security', 'hiker_trail', 'dashcam', 'helmet_action')),
+  source        TEXT        NOT NULL CHECK (source IN ('operator', 'fallback')),
+  chosen_by     TEXT,                    -- Telegram handle; null for fallback
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- ─── Row-Level Security ───────────────────────────────────────────────────────
+ALTER TABLE operator_choices ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "service_full_access_operator_choices"
+  ON operator_choices FOR ALL
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,31 @@
+-- Migration 008: Daily production plans — how many videos to make today, and in which formats
+
+-- ─── production_plans ────────────────────────────────────────────────────────
+-- One row per calendar day (UTC); slots are worked through by the hourly pipeline tick
+CREATE TABLE IF NOT EXISTS production_plans (
+  id               UUID          PRIMARY KEY DEFAULT uuid_generate_v4(),
+  plan_date        DATE          NOT NULL UNIQUE,
+  buffer_count     INTEGER       NOT NULL,   -- approved-unpublished videos at planning time
+  buffer_deficit   INTEGER       NOT NULL,   -- videos needed to reach MIN_BUFFER_DAYS
+  budget_available NUMERIC(8, 4) NOT NULL,   -- BUDGET.target − retryReserve − spend so far
+  est_cost_ring    NUMERIC(8, 4) NOT NULL,   -- historical avg cost per ring_cam video
+  est_cost_body    NUMERIC(8, 4) NOT NULL,   -- historical avg cost per body_cam video
+  slots            JSONB         NOT NULL DEFAULT '[]',
+  created_at       TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+  updated_at       TIMESTAMPTZ   NOT NULL DEFAULT NOW(),
+
+  CONSTRAINT production_plans_non_negative
+    CHECK (buffer_count >= 0 AND buffer_deficit >= 0)
+);
+
+-- ─── updated_at trigger ───────────────────────────────────────────────────────
+CREATE TRIGGER trg_production_plans_updated_at
+  BEFORE UPDATE ON production_plans
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
+
+-- ─── Row-Level Security ───────────────────────────────────────────────────────
+ALTER TABLE production_plans ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "service_full_access_production_plans"
+  ON production_plans FOR ALL
+  USING (auth.role() = 'service_role');
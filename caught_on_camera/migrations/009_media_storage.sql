@@ -0,0 +1,11 @@
+-- Migration 009: Published media — vertical public ID and content hashes on videos
+
+-- ─── videos ──────────────────────────────────────────────────────────────────
+-- cloudinary_public_id holds the master's public ID; the vertical rendition is
+-- published separately. Public IDs are content-addressed:
+--   caught_on_camera/<master|vertical>/<sha256>
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS vertical_public_id TEXT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS master_sha256      TEXT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS vertical_sha256    TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_videos_master_sha256 ON videos(master_sha256);
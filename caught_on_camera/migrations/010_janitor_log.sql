@@ -0,0 +1,28 @@
+-- Migration 010: Storage retention janitor — what each sweep removed
+
+-- ─── videos ──────────────────────────────────────────────────────────────────
+-- Set once the janitor has deleted a video's published assets (rejected, or past
+-- STORAGE_RETENTION.approvedDays); such rows are skipped by later sweeps
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS assets_purged_at TIMESTAMPTZ;
+
+-- ─── janitor_log ─────────────────────────────────────────────────────────────
+-- One row per removed file, directory or CDN asset. Dry runs are not logged.
+CREATE TABLE IF NOT EXISTS janitor_log (
+  id          UUID        PRIMARY KEY DEFAULT uuid_generate_v4(),
+  sweep_id    UUID        NOT NULL,      -- groups the rows of one janitor run
+  category    TEXT        NOT NULL CHECK (category IN ('temp', 'raw_clip', 'rejected', 'expired')),
+  target      TEXT        NOT NULL,      -- local path, or storage public ID
+  video_id    UUID,                      -- set for rejected / expired video assets
+  bytes       BIGINT,                    -- null when the size is unknown (remote assets)
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_janitor_log_sweep_id   ON janitor_log(sweep_id);
+CREATE INDEX IF NOT EXISTS idx_janitor_log_created_at ON janitor_log(created_at DESC);
+
+-- ─── Row-Level Security ───────────────────────────────────────────────────────
+ALTER TABLE janitor_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "service_full_access_janitor_log"
+  ON janitor_log FOR ALL
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,16 @@
+-- Migration 011: Scene audit trail — one scenes row per production run
+
+-- ─── scenes ──────────────────────────────────────────────────────────────────
+-- run_id links a scene to the production run (and its checkpoints / error) that
+-- produced it; a resumed run keeps updating the same scene.
+ALTER TABLE scenes ADD COLUMN IF NOT EXISTS run_id     UUID REFERENCES production_runs(id) ON DELETE SET NULL;
+-- dbUpdate() stamps updated_at on every write
+ALTER TABLE scenes ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_scenes_run_id        ON scenes(run_id);
+CREATE INDEX IF NOT EXISTS idx_scenes_format_status ON scenes(format, status);
+
+-- ─── updated_at trigger ───────────────────────────────────────────────────────
+CREATE TRIGGER trg_scenes_updated_at
+  BEFORE UPDATE ON scenes
+  FOR EACH ROW EXECUTE FUNCTION set_updated_at();
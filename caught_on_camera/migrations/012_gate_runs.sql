@@ -0,0 +1,34 @@
+-- Migration 012: Structured gate outcomes — one row per gate evaluation
+
+-- ─── gate_runs ───────────────────────────────────────────────────────────────
+-- Written by the producer's gate step for every gate it evaluates, on every
+-- attempt, including re-checks after a remediation (shake, audio bed mix).
+-- format / cam_sub_type / veo_variant are copied from the run so analytics can
+-- group without joining through scenes and ideas.
+CREATE TABLE IF NOT EXISTS gate_runs (
+  id            UUID        PRIMARY KEY DEFAULT uuid_generate_v4(),
+  run_id        UUID        REFERENCES production_runs(id) ON DELETE CASCADE,
+  scene_id      UUID        REFERENCES scenes(id) ON DELETE SET NULL,
+  attempt       INTEGER     NOT NULL CHECK (attempt >= 1),
+  gate          SMALLINT    NOT NULL CHECK (gate BETWEEN 1 AND 7),
+  pass          BOOLEAN     NOT NULL,
+  hard_fail     BOOLEAN     NOT NULL DEFAULT FALSE,
+  action        TEXT,                    -- remediation requested by the gate, if any
+  reason        TEXT,                    -- failure reason as reported by the gate
+  metrics       JSONB       NOT NULL DEFAULT '{}',
+  format        TEXT        NOT NULL CHECK (format IN ('ring_cam', 'body_cam')),
+  cam_sub_type  TEXT,
+  veo_variant   TEXT        NOT NULL,
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_gate_runs_run_id     ON gate_runs(run_id);
+CREATE INDEX IF NOT EXISTS idx_gate_runs_created_at ON gate_runs(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_gate_runs_gate_pass  ON gate_runs(gate, pass);
+
+-- ─── Row-Level Security ───────────────────────────────────────────────────────
+ALTER TABLE gate_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "service_full_access_gate_runs"
+  ON gate_runs FOR ALL
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,7 @@
+-- Migration 013: Gate registry — gate numbers are assigned by src/gates/registry.ts
+
+-- ─── gate_runs ───────────────────────────────────────────────────────────────
+-- Registered gates beyond the built-in 1–7 (authenticity, virality, …) record
+-- their evaluations here too, so the gate number is no longer capped at 7.
+ALTER TABLE gate_runs DROP CONSTRAINT IF EXISTS gate_runs_gate_check;
+ALTER TABLE gate_runs ADD CONSTRAINT gate_runs_gate_check CHECK (gate >= 1);
@@ -0,0 +1,24 @@
+-- Migration 014: Audio bed library — which bed each mix used, for recency-aware selection
+
+-- ─── audio_bed_uses ──────────────────────────────────────────────────────────
+-- Written by the producer's mix_bed remediation. bed is the file's path
+-- relative to AUDIO_BEDS_PATH (its library ID); the most recent rows are
+-- skipped by the next selection (AUDIO_BED_SELECTION.avoidRecent).
+CREATE TABLE IF NOT EXISTS audio_bed_uses (
+  id              UUID        PRIMARY KEY DEFAULT uuid_generate_v4(),
+  bed             TEXT        NOT NULL,
+  run_id          UUID        REFERENCES production_runs(id) ON DELETE SET NULL,
+  format          TEXT        NOT NULL CHECK (format IN ('ring_cam', 'body_cam')),
+  cam_sub_type    TEXT,
+  offset_seconds  REAL        NOT NULL DEFAULT 0,   -- where in the bed the mix started
+  created_at      TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audio_bed_uses_created_at ON audio_bed_uses(created_at DESC);
+
+-- ─── Row-Level Security ───────────────────────────────────────────────────────
+ALTER TABLE audio_bed_uses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "service_full_access_audio_bed_uses"
+  ON audio_bed_uses FOR ALL
+  USING (auth.role() = 'service_role');
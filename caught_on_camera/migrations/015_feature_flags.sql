@@ -0,0 +1,26 @@
+-- Migration 015: Feature flags — runtime kill switches for formats, sub-types, categories and platforms
+
+-- ─── feature_flags ───────────────────────────────────────────────────────────
+-- Append-only: every /killswitch or /flags toggle adds a row, and the newest
+-- row per (scope, target) is the flag's state. A kill switch (enabled = false)
+-- with expires_at lapses back to enabled at that time. Cached locally in the
+-- SQLite fallback DB so decisions keep working while Supabase is down.
+CREATE TABLE IF NOT EXISTS feature_flags (
+  id          UUID        PRIMARY KEY DEFAULT uuid_generate_v4(),
+  scope       TEXT        NOT NULL CHECK (scope IN ('format', 'sub_type', 'category', 'platform')),
+  target      TEXT        NOT NULL,            -- e.g. body_cam, police_security, weather, tiktok
+  enabled     BOOLEAN     NOT NULL,
+  reason      TEXT        NOT NULL,
+  expires_at  TIMESTAMPTZ,                     -- NULL = until changed
+  set_by      TEXT        NOT NULL,            -- operator handle
+  created_at  TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_feature_flags_key ON feature_flags(scope, target, created_at DESC);
+
+-- ─── Row-Level Security ───────────────────────────────────────────────────────
+ALTER TABLE feature_flags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "service_full_access_feature_flags"
+  ON feature_flags FOR ALL
+  USING (auth.role() = 'service_role');
@@ -0,0 +1,9 @@
+-- Migration 016: Video review — who approved or rejected a video, and the Telegram review message
+
+-- ─── videos ──────────────────────────────────────────────────────────────────
+-- review_message_id is the Telegram message with the Approve / Reject /
+-- Regenerate buttons; it is edited to show the decision, whether that was
+-- made with the buttons or the /approve and /reject commands.
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS review_message_id BIGINT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS reviewed_by       TEXT;
+ALTER TABLE videos ADD COLUMN IF NOT EXISTS reviewed_at       TIMESTAMPTZ;
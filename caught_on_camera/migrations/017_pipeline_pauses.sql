@@ -0,0 +1,24 @@
+-- Migration 017: Pipeline pauses — operator pause/resume of generation, publishing and ideation
+
+-- ─── pipeline_pauses ─────────────────────────────────────────────────────────
+-- Append-only: every /pause or /resume adds a row, and the newest row per
+-- scope is that stage's state. A pause with paused_until resumes by itself at
+-- that time (an 'auto' resume row is written when it is noticed).
+CREATE TABLE IF NOT EXISTS pipeline_pauses (
+  id            UUID        PRIMARY KEY DEFAULT uuid_generate_v4(),
+  scope         TEXT        NOT NULL CHECK (scope IN ('generation', 'publishing', 'ideation')),
+  paused        BOOLEAN     NOT NULL,
+  reason        TEXT        NOT NULL,
+  paused_until  TIMESTAMPTZ,                   -- NULL = until /resume
+  set_by        TEXT        NOT NULL,          -- operator handle, or 'auto'
+  created_at    TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_pipeline_pauses_scope ON pipeline_pauses(scope, created_at DESC);
+
+-- ─── Row-Level Security ───────────────────────────────────────────────────────
+ALTER TABLE pipeline_pauses ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "service_full_access_pipeline_pauses"
+  ON pipeline_pauses FOR ALL
+  USING (auth.role() = 'service_role');
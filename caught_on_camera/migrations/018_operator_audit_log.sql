@@ -0,0 +1,25 @@
+-- Migration 018: Operator audit log — every Telegram command and button press, allowed or not
+
+-- ─── operator_audit_log ──────────────────────────────────────────────────────
+-- One row per inbound command or button press: who sent it, what it was, and
+-- how it ended. Denied attempts from unknown users are recorded too.
+CREATE TABLE IF NOT EXISTS operator_audit_log (
+  id                UUID        PRIMARY KEY DEFAULT uuid_generate_v4(),
+  telegram_user_id  BIGINT,                      -- NULL when Telegram sent no sender
+  operator          TEXT        NOT NULL,        -- @username, first name or user id
+  role              TEXT        CHECK (role IN ('viewer', 'reviewer', 'admin')),  -- NULL = not on the allowlist
+  command           TEXT        NOT NULL,        -- command text, or callback data for a button
+  result            TEXT        NOT NULL CHECK (result IN ('ok', 'denied', 'error')),
+  detail            TEXT,                        -- reply / toast, or the error
+  created_at        TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_operator_audit_log_created ON operator_audit_log(created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_operator_audit_log_user    ON operator_audit_log(telegram_user_id, created_at DESC);
+
+-- ─── Row-Level Security ───────────────────────────────────────────────────────
+ALTER TABLE operator_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "service_full_access_operator_audit_log"
+  ON operator_audit_log FOR ALL
+  USING (auth.role() = 'service_role');
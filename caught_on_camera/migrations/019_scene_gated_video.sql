@@ -0,0 +1,7 @@
+-- Migration 019: Scene gated render — the clip that came out of the quality gates
+
+-- ─── scenes ──────────────────────────────────────────────────────────────────
+-- gated_video_path is the local clip after Gate 2 face blur and any remediation.
+-- overlaid_video_url is the pre-gate render and must never be reused downstream;
+-- compilations take gated_video_path, or cloudinary_url once it is cleaned up.
+ALTER TABLE scenes ADD COLUMN IF NOT EXISTS gated_video_path TEXT;
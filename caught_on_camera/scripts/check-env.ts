@@ -83,6 +83,7 @@ function checkOptional(label: string, value: string | undefined, defaultVal: str
   console.log(`  ${YELLOW}○${RESET} ${label}  ${effective}${value ? '' : '  (default)'}`);
 }
 
+checkOptional('TELEGRAM_OPERATORS',      process.env['TELEGRAM_OPERATORS'],      '(none — every Telegram command is refused)');
 checkOptional('ENABLE_POLICE_SUBTYPE',    process.env['ENABLE_POLICE_SUBTYPE'],    'true');
 checkOptional('DAILY_BUDGET_HARD_CAP',   process.env['DAILY_BUDGET_HARD_CAP'],   '50');
 checkOptional('DAILY_BUDGET_WARNING',    process.env['DAILY_BUDGET_WARNING'],    '40');
@@ -91,6 +92,7 @@ checkOptional('VIDEOS_PER_DAY',          process.env['VIDEOS_PER_DAY'],
 checkOptional('MIN_BUFFER_DAYS',         process.env['MIN_BUFFER_DAYS'],         '3');
 checkOptional('TEMP_DIR',                process.env['TEMP_DIR'],                '/tmp/caughtoncamera');
 checkOptional('LOG_LEVEL',               process.env['LOG_LEVEL'],               'info');
+checkOptional('FACE_SECOND_OPINION',     process.env['FACE_SECOND_OPINION'],     'false');
 
 // ── Section: Asset directories ────────────────────────────────────────────────
 
@@ -165,6 +167,14 @@ if (audioBedsOk) {
   }
 }
 
+// Gate 2 face model — without it, faces are only found when FACE_SECOND_OPINION=true
+const faceModelPath = process.env['FACE_MODEL_PATH'] ?? join(projectRoot, 'models', 'res10_300x300_ssd.onnx');
+if (existsSync(faceModelPath)) {
+  pass('face detector model', faceModelPath);
+} else {
+  console.log(`  ${YELLOW}○${RESET} face detector model  (missing — Gate 2 cannot blur faces locally: ${faceModelPath})`);
+}
+
 // ── Section: Supabase connection ──────────────────────────────────────────────
 
 console.log(`\n${BOLD}[ 4 ] Supabase connection${RESET}`);
@@ -16,10 +16,15 @@
  *   0 — takedown complete (or dry-run complete)
  *   1 — usage error or one or more platforms failed
  */
-import { createClient, SupabaseClient } from '@supabase/supabase-js';
-import { config as dotenvConfig } from 'dotenv';
-
-dotenvConfig();
+// src/config.ts loads .env and validates it
+import {
+  takedownVideo,
+  getPublishedPosts,
+  getTakedownCandidates,
+  TakedownError,
+} from '../src/pipeline/takedown.js';
+import { getVideoById, type VideoRecord } from '../src/db/videos.js';
+import { sendAlert } from '../src/monitoring/telegram.js';
 
 // ── ANSI helpers ──────────────────────────────────────────────────────────────
 
@@ -47,210 +52,35 @@ if (!videoArg) {
   process.exit(1);
 }
 
-// ── Config ────────────────────────────────────────────────────────────────────
-
-const SUPABASE_URL         = process.env['SUPABASE_URL'];
-const SUPABASE_SERVICE_KEY = process.env['SUPABASE_SERVICE_KEY'];
-const BLOTATO_API_KEY      = process.env['BLOTATO_API_KEY'];
-const TELEGRAM_BOT_TOKEN   = process.env['TELEGRAM_BOT_TOKEN'];
-const TELEGRAM_CHAT_ID     = process.env['TELEGRAM_CHAT_ID'];
-
-if (!SUPABASE_URL || !SUPABASE_SERVICE_KEY) {
-  console.error(`${RED}SUPABASE_URL and SUPABASE_SERVICE_KEY must be set.${RESET}`);
-  process.exit(1);
-}
-
-const sb: SupabaseClient = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
-
-// ── Types ─────────────────────────────────────────────────────────────────────
-
-type Platform = 'youtube' | 'tiktok' | 'instagram' | 'shorts';
-
-interface PlatformPublish {
-  video_id: string;
-  platform: Platform;
-  platform_video_id: string;
-  blotato_post_id: string | null;
-  published_at: string | null;
-}
-
-interface VideoRecord {
-  id: string;
-  title: string | null;
-  status: string;
-  format: string;
-}
-
-// ── Telegram alert ────────────────────────────────────────────────────────────
-
-async function sendTelegramAlert(message: string): Promise<void> {
-  if (!TELEGRAM_BOT_TOKEN || !TELEGRAM_CHAT_ID) return;
-  try {
-    await fetch(`https://api.telegram.org/bot${TELEGRAM_BOT_TOKEN}/sendMessage`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ chat_id: TELEGRAM_CHAT_ID, text: message, parse_mode: 'Markdown' }),
-    });
-  } catch {
-    // Non-fatal — takedown already logged to DB
-  }
-}
-
-// ── Platform delete via Blotato ───────────────────────────────────────────────
-
-async function deleteBlotatoPost(blotatoPostId: string): Promise<void> {
-  if (!BLOTATO_API_KEY) throw new Error('BLOTATO_API_KEY not set');
-  const res = await fetch(`https://backend.blotato.com/api/v1/posts/${blotatoPostId}`, {
-    method: 'DELETE',
-    headers: {
-      'blotato-api-key': BLOTATO_API_KEY,
-      'Content-Type': 'application/json',
-    },
-  });
-  if (res.status === 404) return; // Already removed
-  if (!res.ok) {
-    const body = await res.text().catch(() => '');
-    throw new Error(`Blotato DELETE returned HTTP ${res.status}: ${body}`);
-  }
-}
-
-// ── Platform delete fallbacks (direct API calls) ──────────────────────────────
-
-async function deleteFromYouTube(platformVideoId: string): Promise<void> {
-  // YouTube Data API v3 videos.delete
-  // In production: use OAuth token from env / token store
-  const accessToken = process.env['YOUTUBE_ACCESS_TOKEN'];
-  if (!accessToken) throw new Error('YOUTUBE_ACCESS_TOKEN not set — cannot delete directly');
-  const res = await fetch(
-    `https://www.googleapis.com/youtube/v3/videos?id=${platformVideoId}`,
-    { method: 'DELETE', headers: { Authorization: `Bearer ${accessToken}` } },
-  );
-  if (res.status === 204 || res.status === 404) return;
-  if (!res.ok) throw new Error(`YouTube delete failed: HTTP ${res.status}`);
-}
-
-async function deleteFromTikTok(platformVideoId: string): Promise<void> {
-  const accessToken = process.env['TIKTOK_ACCESS_TOKEN'];
-  if (!accessToken) throw new Error('TIKTOK_ACCESS_TOKEN not set — cannot delete directly');
-  const res = await fetch('https://open.tiktokapis.com/v2/video/delete/', {
-    method: 'POST',
-    headers: { Authorization: `Bearer ${accessToken}`, 'Content-Type': 'application/json' },
-    body: JSON.stringify({ video_id: platformVideoId }),
-  });
-  if (!res.ok && res.status !== 404) throw new Error(`TikTok delete failed: HTTP ${res.status}`);
-}
-
-async function deleteFromInstagram(platformVideoId: string): Promise<void> {
-  const accessToken = process.env['INSTAGRAM_ACCESS_TOKEN'];
-  if (!accessToken) throw new Error('INSTAGRAM_ACCESS_TOKEN not set — cannot delete directly');
-  const res = await fetch(
-    `https://graph.instagram.com/${platformVideoId}?access_token=${accessToken}`,
-    { method: 'DELETE' },
-  );
-  if (res.status === 200 || res.status === 404) return;
-  if (!res.ok) throw new Error(`Instagram delete failed: HTTP ${res.status}`);
-}
-
-async function deleteFromShorts(platformVideoId: string): Promise<void> {
-  // YouTube Shorts share the same API as YouTube videos
-  await deleteFromYouTube(platformVideoId);
-}
-
-// ── Per-platform dispatch ─────────────────────────────────────────────────────
-
-async function deletePlatformPost(pub: PlatformPublish): Promise<void> {
-  // Try Blotato first (single API call handles any platform it manages)
-  if (pub.blotato_post_id && BLOTATO_API_KEY) {
-    await deleteBlotatoPost(pub.blotato_post_id);
-    return;
-  }
-  // Fall back to direct platform API
-  switch (pub.platform) {
-    case 'youtube':   await deleteFromYouTube(pub.platform_video_id);   break;
-    case 'tiktok':    await deleteFromTikTok(pub.platform_video_id);    break;
-    case 'instagram': await deleteFromInstagram(pub.platform_video_id); break;
-    case 'shorts':    await deleteFromShorts(pub.platform_video_id);    break;
-    default:
-      throw new Error(`Unknown platform: ${pub.platform}`);
-  }
-}
-
 // ── Take down a single video ──────────────────────────────────────────────────
 
-async function takedownVideo(video: VideoRecord): Promise<{ removed: Platform[]; failed: Platform[] }> {
-  const { data: publishes, error } = await sb
-    .from('platform_publishes')
-    .select('video_id, platform, platform_video_id, blotato_post_id, published_at')
-    .eq('video_id', video.id);
-
-  if (error) throw new Error(`Could not fetch platform_publishes: ${error.message}`);
-
-  const pubs     = (publishes ?? []) as PlatformPublish[];
-  const removed: Platform[] = [];
-  const failed: Platform[]  = [];
-
-  if (pubs.length === 0) {
-    console.log(`  ${DIM}No platform publish records found for ${video.id}${RESET}`);
-    return { removed, failed };
-  }
+async function takedownOne(video: VideoRecord): Promise<{ removed: string[]; failed: string[] }> {
+  const posts = await getPublishedPosts(video.id);
 
-  for (const pub of pubs) {
-    const label = `    ${pub.platform.padEnd(12)} (id: ${pub.platform_video_id})`;
-    if (isDryRun) {
-      console.log(`${YELLOW}[DRY-RUN]${RESET}${label}  — would delete`);
-      continue;
-    }
-    process.stdout.write(`${label}… `);
-    try {
-      await deletePlatformPost(pub);
-      console.log(`${GREEN}✓ removed${RESET}`);
-      removed.push(pub.platform);
-    } catch (err) {
-      const msg = err instanceof Error ? err.message : String(err);
-      console.error(`${RED}✗ FAILED${RESET}  ${msg}`);
-      failed.push(pub.platform);
+  if (isDryRun) {
+    if (posts.length === 0) console.log(`  ${DIM}No live platform posts for ${video.id}${RESET}`);
+    for (const post of posts) {
+      console.log(`${YELLOW}[DRY-RUN]${RESET}    ${post.platform.padEnd(12)} (post: ${post.postId})  — would delete`);
     }
+    return { removed: [], failed: [] };
   }
 
-  if (!isDryRun) {
-    // Mark video status in DB
-    await sb
-      .from('videos')
-      .update({ status: 'taken_down', taken_down_at: new Date().toISOString() })
-      .eq('id', video.id);
-
-    // Write takedown log entry
-    await sb.from('takedown_log').insert({
-      video_id:          video.id,
-      platforms_removed: removed,
-      platforms_failed:  failed,
-      reason:            'emergency-takedown script',
-      completed_at:      new Date().toISOString(),
-    });
-  }
+  const result = await takedownVideo(video.id, { reason: 'emergency-takedown script', by: 'cli' });
+  for (const platform of result.removed) console.log(`    ${platform.padEnd(12)} ${GREEN}✓ removed${RESET}`);
+  for (const { platform, error } of result.failed) console.error(`    ${platform.padEnd(12)} ${RED}✗ FAILED${RESET}  ${error}`);
+  if (result.cancelled) console.log(`  ${DIM}${result.cancelled} scheduled post(s) cancelled${RESET}`);
+  if (posts.length === 0) console.log(`  ${DIM}No live platform posts for ${video.id}${RESET}`);
 
-  return { removed, failed };
+  return { removed: result.removed, failed: result.failed.map((f) => f.platform) };
 }
 
 // ── Resolve target videos ─────────────────────────────────────────────────────
 
 async function resolveTargetVideos(): Promise<VideoRecord[]> {
-  if (videoArg === 'all') {
-    const { data, error } = await sb
-      .from('videos')
-      .select('id, title, status, format')
-      .in('status', ['published', 'approved']);
-    if (error) throw new Error(`Could not fetch videos: ${error.message}`);
-    return (data ?? []) as VideoRecord[];
-  } else {
-    const { data, error } = await sb
-      .from('videos')
-      .select('id, title, status, format')
-      .eq('id', videoArg)
-      .single();
-    if (error) throw new Error(`Video ${videoArg} not found: ${error.message}`);
-    return [data as VideoRecord];
-  }
+  if (videoArg === 'all') return getTakedownCandidates();
+  const video = await getVideoById(videoArg!);
+  if (!video) throw new TakedownError(`Video ${videoArg} not found`);
+  return [video];
 }
 
 // ── Main ──────────────────────────────────────────────────────────────────────
@@ -270,7 +100,7 @@ try {
 if (targetVideos.length === 0) {
   console.log(`${YELLOW}No videos found matching the target criteria.${RESET}`);
   if (videoArg === 'all') {
-    console.log(`(No videos with status 'published' or 'approved' in database)`);
+    console.log(`(No videos with approval status 'published' or 'approved' in database)`);
   }
   process.exit(0);
 }
@@ -287,7 +117,7 @@ for (const video of targetVideos) {
   console.log(`${CYAN}${fmt}${RESET} ${BOLD}${title}${RESET}  ${DIM}(${video.id})${RESET}`);
 
   try {
-    const { removed, failed } = await takedownVideo(video);
+    const { removed, failed } = await takedownOne(video);
     allRemoved.push(...removed.map(p => `${video.id}:${p}`));
     allFailed.push(...failed.map(p => `${video.id}:${p}`));
   } catch (err) {
@@ -316,7 +146,7 @@ if (!isDryRun) {
     ? `TAKEDOWN PARTIALLY COMPLETE: ${videoCount} video(s) — removed from [${removedPlatforms.join(', ')}] — FAILED on [${failedPlatforms.join(', ')}] — manual removal required`
     : `TAKEDOWN COMPLETE: ${videoCount} video(s) removed from all platforms [${removedPlatforms.join(', ')}]`;
 
-  await sendTelegramAlert(tgMessage);
+  await sendAlert(tgMessage, allFailed.length > 0 ? 'critical' : 'warning');
   console.log(`\nTelegram confirmation sent.`);
 } else {
   console.log(`${YELLOW}DRY-RUN complete — no changes made.${RESET}`);
@@ -0,0 +1,95 @@
+#!/usr/bin/env tsx
+/**
+ * Audio bed library scan for Caught on Camera.
+ * Indexes every bed under AUDIO_BEDS_PATH, measures loudness (EBU R128) and
+ * duration with ffmpeg, and writes each bed's sidecar manifest (<bed>.json).
+ * Manifest fields set by hand (sub-types, environment, time of day, weight)
+ * are kept; beds without a manifest get one inferred from their file name.
+ *
+ * Usage:
+ *   npm run scan-beds
+ *   npm run scan-beds -- --remeasure
+ *   npm run scan-beds -- <dir>
+ *
+ * Flags:
+ *   --remeasure   Measure loudness and duration again for every bed
+ *
+ * Exit codes:
+ *   0 — scan complete
+ *   1 — no beds found, or a manifest is malformed
+ */
+// src/config.ts loads .env and validates it
+import { env, BODY_CAM_SUB_TYPES } from '../src/config.js';
+import { scanBedLibrary, type BedEntry } from '../src/media/bed-library.js';
+
+// ── ANSI helpers ──────────────────────────────────────────────────────────────
+
+const GREEN  = '\x1b[32m';
+const RED    = '\x1b[31m';
+const YELLOW = '\x1b[33m';
+const BOLD   = '\x1b[1m';
+const DIM    = '\x1b[2m';
+const RESET  = '\x1b[0m';
+
+// ── Parse CLI arguments ───────────────────────────────────────────────────────
+
+const args      = process.argv.slice(2);
+const remeasure = args.includes('--remeasure');
+const root      = args.find(a => !a.startsWith('--')) ?? env.AUDIO_BEDS_PATH;
+
+// ── Report ────────────────────────────────────────────────────────────────────
+
+function describe(bed: BedEntry): string {
+  const m = bed.manifest;
+  const lufs = m.integratedLufs === null ? `${YELLOW}   n/a${RESET}` : m.integratedLufs.toFixed(1).padStart(6);
+  const secs = m.durationSeconds === null ? `${YELLOW}  n/a${RESET}` : m.durationSeconds.toFixed(0).padStart(5);
+  const fit = [
+    m.format,
+    m.subTypes.length > 0 ? m.subTypes.join(',') : 'any sub-type',
+    m.timeOfDay.length > 0 ? m.timeOfDay.join(',') : 'any time',
+    m.environment ?? '',
+  ].filter(Boolean).join(' · ');
+  return `  ${bed.id.padEnd(40)} ${lufs} LUFS ${secs}s  ${DIM}${fit}${m.weight !== 1 ? ` · weight ${m.weight}` : ''}${RESET}`;
+}
+
+async function main(): Promise<void> {
+  console.log(`\n${BOLD}Audio bed library — ${root}${RESET}\n`);
+
+  let library: BedEntry[];
+  try {
+    library = await scanBedLibrary(root, remeasure);
+  } catch (err) {
+    console.error(`${RED}${err instanceof Error ? err.message : String(err)}${RESET}`);
+    process.exit(1);
+  }
+
+  if (library.length === 0) {
+    console.error(`${RED}No beds (.mp3 / .wav) found under ${root}.${RESET}`);
+    process.exit(1);
+  }
+
+  for (const bed of library) console.log(describe(bed));
+
+  // Coverage: every format and body cam sub-type should have at least one bed
+  const fits = (format: 'ring_cam' | 'body_cam', subType?: string) =>
+    library.filter(b =>
+      (b.manifest.format === 'any' || b.manifest.format === format) &&
+      (b.manifest.subTypes.length === 0 || (subType !== undefined && b.manifest.subTypes.includes(subType))),
+    ).length;
+
+  console.log(`\n${BOLD}Coverage${RESET}`);
+  const rows: Array<[string, number]> = [
+    ['ring_cam', fits('ring_cam')],
+    ...BODY_CAM_SUB_TYPES.map((s): [string, number] => [`body_cam/${s}`, fits('body_cam', s)]),
+  ];
+  for (const [label, count] of rows) {
+    const colour = count === 0 ? RED : count < 3 ? YELLOW : GREEN;
+    console.log(`  ${label.padEnd(28)} ${colour}${count} bed${count === 1 ? '' : 's'}${RESET}`);
+  }
+  console.log(`\n${GREEN}${library.length} manifest(s) written.${RESET}\n`);
+}
+
+main().catch((err: unknown) => {
+  console.error(`${RED}Scan failed:${RESET}`, err);
+  process.exit(1);
+});
@@ -56,9 +56,11 @@ interface PlatformHealth {
 }
 
 interface ActivePause {
-  category: string;
+  scope: 'generation' | 'publishing' | 'ideation';
+  paused: boolean;
+  reason: string;
   paused_until: string | null;
-  paused_all: boolean;
+  set_by: string;
 }
 
 // ── Config ────────────────────────────────────────────────────────────────────
@@ -197,13 +199,19 @@ async function fetchLastVideo(): Promise<Video | null> {
 }
 
 async function fetchActivePauses(): Promise<ActivePause[]> {
-  const now = new Date().toISOString();
   const { data, error } = await sb
-    .from('content_pauses')
-    .select('category, paused_until, paused_all')
-    .or(`paused_until.gt.${now},paused_all.eq.true`);
+    .from('pipeline_pauses')
+    .select('scope, paused, reason, paused_until, set_by')
+    .order('created_at', { ascending: true });
   if (error) return [];
-  return (data ?? []) as ActivePause[];
+
+  // Newest row per scope is its state; a lapsed paused_until has resumed
+  const current = new Map<string, ActivePause>();
+  for (const row of (data ?? []) as ActivePause[]) current.set(row.scope, row);
+  const now = Date.now();
+  return [...current.values()].filter(
+    (p) => p.paused && (p.paused_until === null || new Date(p.paused_until).getTime() > now),
+  );
 }
 
 // ── Main ──────────────────────────────────────────────────────────────────────
@@ -302,14 +310,11 @@ if (pauseList.length === 0) {
 } else {
   console.log(`${bold('Active pauses:')}`);
   for (const p of pauseList) {
-    if (p.paused_all) {
-      console.log(`  ${red('ALL CONTENT')}  paused${p.paused_until ? ` until ${new Date(p.paused_until).toLocaleDateString()}` : ' indefinitely'}`);
-    } else {
-      const until = p.paused_until
-        ? `until ${new Date(p.paused_until).toLocaleDateString()}`
-        : 'indefinitely';
-      console.log(`  ${yellow(p.category)}  paused ${until}`);
-    }
+    const until = p.paused_until
+      ? `until ${new Date(p.paused_until).toLocaleString()}`
+      : 'until /resume';
+    const label = p.scope === 'publishing' ? red(p.scope.padEnd(11)) : yellow(p.scope.padEnd(11));
+    console.log(`  ${label} paused ${until}  —  ${p.reason}  ${dim(`(by ${p.set_by})`)}`);
   }
 }
 
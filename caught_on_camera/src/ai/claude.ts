@@ -5,10 +5,13 @@
  *
  * All content review, deduplication, and policy checks go through here.
  * Never import Anthropic directly in gates or pipeline modules.
+ *
+ * PROVIDER_MODE=sandbox answers from local rules (providers/sandbox/claude.ts).
  */
 import Anthropic from '@anthropic-ai/sdk';
-import { env } from '../config.js';
+import { env, SANDBOX } from '../config.js';
 import { logger } from '../utils/logger.js';
+import { sandboxReply } from '../providers/sandbox/claude.js';
 
 const anthropic = new Anthropic({ apiKey: env.ANTHROPIC_API_KEY });
 
@@ -29,6 +32,19 @@ export interface ClaudeResponse {
   outputTokens: number;
 }
 
+// ── Sandbox ───────────────────────────────────────────────────────────────────
+
+function sandboxResponse(prompt: string, frameCount: number, systemPrompt?: string): ClaudeResponse {
+  const { text, rule } = sandboxReply({ prompt, frameCount, ...(systemPrompt ? { systemPrompt } : {}) });
+  logger.debug('claude: sandbox reply', { rule, frameCount });
+  // Rough token estimate (~4 chars/token) keeps cost accounting non-zero
+  return {
+    text,
+    inputTokens:  Math.ceil(((systemPrompt?.length ?? 0) + prompt.length) / 4),
+    outputTokens: Math.ceil(text.length / 4),
+  };
+}
+
 // ── Frame analysis (vision) ───────────────────────────────────────────────────
 
 /**
@@ -45,6 +61,7 @@ export async function analyzeFrames(
   maxTokens = 500,
 ): Promise<ClaudeResponse> {
   logger.debug('claude.analyzeFrames', { frameCount: frames.length, maxTokens });
+  if (SANDBOX) return sandboxResponse(prompt, frames.length);
 
   const imageBlocks: Anthropic.ImageBlockParam[] = frames.map(f => ({
     type: 'image',
@@ -93,6 +110,7 @@ export async function generateCompletion(
   maxTokens = 1_000,
 ): Promise<ClaudeResponse> {
   logger.debug('claude.generateCompletion', { maxTokens });
+  if (SANDBOX) return sandboxResponse(prompt, 0, systemPrompt);
 
   // TODO: add token-cost tracking and route through budget ledger
   const res = await anthropic.messages.create({
@@ -3,11 +3,14 @@
  * No character reference images, no image-to-video, no Replicate fallback.
  * This module is the sole entry-point for clip generation; never call fal.ai
  * directly from pipeline or gate modules.
+ *
+ * PROVIDER_MODE=sandbox synthesizes test-pattern clips locally instead.
  */
-import { env } from '../config.js';
+import { env, SANDBOX } from '../config.js';
 import { logger } from '../utils/logger.js';
 import { withRetry } from '../utils/retry.js';
 import type { CamFormat } from '../config.js';
+import { synthesizeClip } from '../providers/sandbox/veo.js';
 
 // ── Constants ─────────────────────────────────────────────────────────────────
 
@@ -57,6 +60,14 @@ export async function generateClip(
 
   const fullPrompt = `${FORMAT_PROMPT_PREFIX[format]} ${prompt}`;
 
+  if (SANDBOX) {
+    return {
+      videoUrl:        await synthesizeClip(fullPrompt, durationSeconds, format),
+      cost:            durationSeconds * VEO_COST_PER_SECOND,
+      durationSeconds,
+    };
+  }
+
   return withRetry(async () => {
     // TODO: implement full fal.ai queue/poll cycle:
     //   1. POST to FAL_VEO_ENDPOINT with { prompt: fullPrompt, duration: durationSeconds }
@@ -96,6 +107,16 @@ export async function extendClip(
 ): Promise<ExtendedClip> {
   logger.info('veo.extendClip', { videoUrl, additionalSeconds });
 
+  if (SANDBOX) {
+    // The sandbox cannot continue a clip — a fresh pattern of the extra length stands in
+    return {
+      videoUrl:        await synthesizeClip('extension', additionalSeconds, 'body_cam'),
+      cost:            additionalSeconds * VEO_COST_PER_SECOND,
+      durationSeconds: additionalSeconds,
+      sourceVideoUrl:  videoUrl,
+    };
+  }
+
   return withRetry(async () => {
     // TODO: implement fal.ai video extension:
     //   1. POST to fal.ai video-extend endpoint (confirm endpoint with fal.ai docs)
@@ -3,6 +3,41 @@ import { config as dotenvConfig } from 'dotenv';
 
 dotenvConfig();
 
+// ── Provider mode ─────────────────────────────────────────────────────────────
+// PROVIDER_MODE=sandbox swaps every external service (fal.ai, Anthropic,
+// Supabase, Cloudinary, Telegram, Blotato) for a local stand-in under
+// src/providers/sandbox/, so credentials are filled with placeholders here.
+
+if (process.env['PROVIDER_MODE'] === 'sandbox') {
+  const dir = (process.env['SANDBOX_DIR'] ??= '/tmp/caughtoncamera/sandbox');
+  const placeholders: Record<string, string> = {
+    FAL_KEY:                      'sandbox',
+    ANTHROPIC_API_KEY:            'sandbox',
+    SUPABASE_URL:                 'http://sandbox.invalid',
+    SUPABASE_ANON_KEY:            'sandbox',
+    SUPABASE_SERVICE_KEY:         'sandbox',
+    CLOUDINARY_CLOUD_NAME:        'sandbox',
+    CLOUDINARY_API_KEY:           'sandbox',
+    CLOUDINARY_API_SECRET:        'sandbox',
+    TELEGRAM_BOT_TOKEN:           'sandbox',
+    TELEGRAM_CHAT_ID:             '0',
+    // Inbox updates sent "from": {"id": 1} act as the admin operator
+    TELEGRAM_OPERATORS:           '1:admin',
+    BLOTATO_API_KEY:              'sandbox',
+    BLOTATO_YOUTUBE_ACCOUNT_ID:   'sandbox_youtube',
+    BLOTATO_INSTAGRAM_ACCOUNT_ID: 'sandbox_instagram',
+    BLOTATO_TIKTOK_ACCOUNT_ID:    'sandbox_tiktok',
+    OVERLAYS_PATH:                `${dir}/assets/overlays`,
+    AUDIO_BEDS_PATH:              `${dir}/assets/audio_beds`,
+    STORAGE_BACKEND:              'local',
+    LOCAL_STORAGE_DIR:            `${dir}/cdn`,
+    MEDIA_CACHE_DIR:              `${dir}/media`,
+    // Nobody answers the sandbox Telegram — fall back after a few seconds
+    OPERATOR_CHOICE_TIMEOUT_MIN:  '0.1',
+  };
+  for (const [key, value] of Object.entries(placeholders)) process.env[key] ??= value;
+}
+
 // ── Env Schema ────────────────────────────────────────────────────────────────
 
 const EnvSchema = z.object({
@@ -23,6 +58,8 @@ const EnvSchema = z.object({
   // Notifications
   TELEGRAM_BOT_TOKEN:            z.string().min(1),
   TELEGRAM_CHAT_ID:              z.string().min(1),
+  // Operator allowlist: comma-separated <telegramUserId>:<viewer|reviewer|admin>
+  TELEGRAM_OPERATORS:            z.string().default(''),
 
   // Publishing (Blotato)
   BLOTATO_API_KEY:               z.string().min(1),
@@ -30,7 +67,12 @@ const EnvSchema = z.object({
   BLOTATO_INSTAGRAM_ACCOUNT_ID:  z.string().min(1),
   BLOTATO_TIKTOK_ACCOUNT_ID:     z.string().min(1),
 
-  // Feature flags / kill switches
+  // Provider mode: live services, or local stand-ins for offline runs and tests
+  PROVIDER_MODE:                 z.enum(['live', 'sandbox']).default('live'),
+  SANDBOX_DIR:                   z.string().default('/tmp/caughtoncamera/sandbox'),
+
+  // Feature flags / kill switches. ENABLE_POLICE_SUBTYPE is the default for the
+  // police_security sub-type switch; a kill switch set from Telegram overrides it
   ENABLE_POLICE_SUBTYPE:         z.string().transform(v => v === 'true').default('true'),
 
   // Budget
@@ -46,13 +88,36 @@ const EnvSchema = z.object({
   TEMP_DIR:                      z.string().default('/tmp/caughtoncamera'),
   OVERLAYS_PATH:                 z.string().min(1),
   AUDIO_BEDS_PATH:               z.string().min(1),
+  // Content-addressed cache of downloaded clips and finished renders (keyed by SHA-256)
+  MEDIA_CACHE_DIR:               z.string().default('/tmp/caughtoncamera/media'),
+
+  // Where finished masters/verticals are published: Cloudinary, or a local directory
+  STORAGE_BACKEND:               z.enum(['cloudinary', 'local']).default('cloudinary'),
+  LOCAL_STORAGE_DIR:             z.string().default('/tmp/caughtoncamera/storage'),
 
   // Logging
   LOG_LEVEL:                     z.enum(['debug', 'info', 'warn', 'error']).default('info'),
   LOG_FORMAT:                    z.enum(['text', 'json']).default('text'),
 
+  // Gate registry config: order, enablement, severity and thresholds (defaults to config/gates.yaml)
+  GATES_CONFIG_PATH:             z.string().optional(),
+  // Gate 4 content policy rules: block words, regexes, rewrites (defaults to config/policy.yaml)
+  POLICY_RULES_PATH:             z.string().optional(),
+  // Sensitivity calendar: dated category / sub-type / keyword holds (defaults to config/sensitivity.yaml)
+  SENSITIVITY_CALENDAR_PATH:     z.string().optional(),
+
+  // Gate 2 face detector: res10 SSD ONNX model (defaults to models/res10_300x300_ssd.onnx)
+  FACE_MODEL_PATH:               z.string().optional(),
+  // Also ask Claude vision about the keyframes (it is used regardless when the local model is unavailable)
+  FACE_SECOND_OPINION:           z.string().transform(v => v === 'true').default('false'),
+
   // Format schedule override (optional — falls back to hard-coded default)
   FORMAT_SCHEDULE:               z.string().optional(),
+  // What to pick when the scheduled category's queue is empty
+  CATEGORY_FALLBACK:             z.enum(['related_then_any', 'related', 'any', 'none']).default('related_then_any'),
+  // operator_choice days: how long to wait for a Telegram answer, and what to do without one
+  OPERATOR_CHOICE_TIMEOUT_MIN:   z.coerce.number().positive().default(30),
+  OPERATOR_CHOICE_FALLBACK:      z.enum(['least_recent', 'ring_cam', 'body_cam']).default('least_recent'),
 });
 
 const parsed = EnvSchema.safeParse(process.env);
@@ -63,6 +128,9 @@ if (!parsed.success) {
 
 export const env = parsed.data;
 
+/** True when PROVIDER_MODE=sandbox — external calls go to src/providers/sandbox/. */
+export const SANDBOX = env.PROVIDER_MODE === 'sandbox';
+
 // ── Domain Types ─────────────────────────────────────────────────────────────
 
 export type CamFormat = 'ring_cam' | 'body_cam';
@@ -152,24 +220,180 @@ function parseFormatSchedule(raw: string | undefined): WeekSchedule {
 
 export const FORMAT_SCHEDULE: WeekSchedule = parseFormatSchedule(env.FORMAT_SCHEDULE);
 
+// ── Schedule Category Resolution ──────────────────────────────────────────────
+// Schedule entries may use editorial shorthand ('night_patrol', 'trail') that is
+// not a real idea category. Aliases map them onto a canonical category plus an
+// optional body-cam sub-type preference.
+
+export interface CategoryAlias {
+  category: string;
+  subType?: BodyCamSubType;
+}
+
+export const SCHEDULE_CATEGORY_ALIASES: Record<CamFormat, Record<string, CategoryAlias>> = {
+  ring_cam: {},
+  body_cam: {
+    night_patrol: { category: 'night_ops',     subType: 'police_security' },
+    trail:        { category: 'discovery',     subType: 'hiker_trail' },
+    dashcam:      { category: 'dashcam_chaos', subType: 'dashcam' },
+  },
+};
+
+/** Schedule category that switches a day into compilation mode. */
+export const COMPILATION_CATEGORY = 'compilation';
+
+/**
+ * Categories that make an acceptable substitute when the scheduled one has no
+ * pending ideas, in order of preference.
+ */
+export const RELATED_CATEGORIES: Record<string, string[]> = {
+  // ring_cam
+  animals:        ['wholesome', 'night_shift'],
+  paranormal:     ['night_shift', 'weather'],
+  delivery:       ['fails', 'wholesome'],
+  weather:        ['paranormal', 'fails'],
+  wholesome:      ['animals', 'delivery'],
+  fails:          ['delivery', 'animals'],
+  night_shift:    ['paranormal', 'animals'],
+  // body_cam
+  encounter:      ['discovery', 'response'],
+  pursuit:        ['response', 'dashcam_chaos'],
+  discovery:      ['encounter', 'weather_nature'],
+  weather_nature: ['discovery', 'night_ops'],
+  night_ops:      ['encounter', 'discovery'],
+  response:       ['pursuit', 'encounter'],
+  dashcam_chaos:  ['pursuit', 'response'],
+};
+
+export interface ResolvedScheduleEntry {
+  format: CamFormat | 'operator_choice';
+  /** Canonical idea category, or null for "any category". */
+  category: string | null;
+  /** Preferred body-cam sub-type from an alias, if any. */
+  subType: BodyCamSubType | null;
+  /** True for compilation slots. */
+  compilation: boolean;
+}
+
+export function categoriesFor(format: CamFormat): readonly string[] {
+  return format === 'ring_cam' ? RING_CAM_CATEGORIES : BODY_CAM_CATEGORIES;
+}
+
+/**
+ * Resolve one schedule entry to a canonical category.
+ * Throws with a descriptive message when the format or category is unknown.
+ */
+export function resolveScheduleEntry(entry: ScheduleEntry): ResolvedScheduleEntry {
+  const format = entry.format;
+  const raw = (entry.category ?? '').trim().toLowerCase();
+
+  if (format !== 'ring_cam' && format !== 'body_cam' && format !== 'operator_choice') {
+    throw new Error(`unknown format "${String(format)}"`);
+  }
+  if (!raw) return { format, category: null, subType: null, compilation: false };
+  if (raw === COMPILATION_CATEGORY) {
+    if (format === 'operator_choice') throw new Error('operator_choice days cannot be compilation days');
+    return { format, category: null, subType: null, compilation: true };
+  }
+  if (format === 'operator_choice') {
+    throw new Error(`operator_choice days take no category (got "${raw}")`);
+  }
+
+  const alias = SCHEDULE_CATEGORY_ALIASES[format][raw];
+  const category = alias?.category ?? raw;
+  if (!categoriesFor(format).includes(category)) {
+    throw new Error(
+      `unknown ${format} category "${raw}" (valid: ${categoriesFor(format).join(', ')}, ` +
+        `${COMPILATION_CATEGORY}; aliases: ${Object.keys(SCHEDULE_CATEGORY_ALIASES[format]).join(', ')})`,
+    );
+  }
+  return { format, category, subType: alias?.subType ?? null, compilation: false };
+}
+
+/**
+ * Validate and resolve every day of a schedule. Called once at startup so a bad
+ * FORMAT_SCHEDULE override fails fast instead of on the first cron tick.
+ *
+ * @throws Error listing every invalid day.
+ */
+export function validateFormatSchedule(
+  schedule: WeekSchedule = FORMAT_SCHEDULE,
+): Record<string, ResolvedScheduleEntry> {
+  const resolved: Record<string, ResolvedScheduleEntry> = {};
+  const problems: string[] = [];
+
+  for (const [day, entry] of Object.entries(schedule)) {
+    if (!/^[0-6]$/.test(day)) {
+      problems.push(`day "${day}": must be 0 (Sunday) to 6 (Saturday)`);
+      continue;
+    }
+    try {
+      resolved[day] = resolveScheduleEntry(entry);
+    } catch (err) {
+      problems.push(`day ${day}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  }
+
+  if (problems.length) {
+    throw new Error(`Invalid FORMAT_SCHEDULE — ${problems.join('; ')}`);
+  }
+  return resolved;
+}
+
 // ── Motion & Audio Thresholds ─────────────────────────────────────────────────
 
 export const MOTION_THRESHOLDS = {
   ringCam: {
-    maxAvg:   0.5,   // ring-cam clips should be mostly static
-    maxSpike: 2.0,
+    maxAvg:         0.5,   // ring-cam clips should be mostly static
+    maxSpike:       2.0,
+    jumpPx:         1.0,   // a single-frame bump this large fails a static camera
+    maxRotationDeg: 0.5,
+    maxZoomPct:     1.0,
   },
   bodyCam: {
-    minAvg:   1.5,   // body-cam clips must show meaningful camera motion
+    minAvg:             1.5,   // body-cam clips must show meaningful camera motion
+    jumpPx:             15,    // per-frame jump that reads as a cut or teleport
+    cadenceMinHz:       1.5,   // walking cadence band for the vertical sway
+    cadenceMaxHz:       2.5,
+    minCadenceStrength: 0.25,  // share of sway power in the band; 0 disables the check
   },
+  jumpMedianMultiple: 6,       // a jump must also exceed this × the clip's median motion
 } as const;
 
 export const AUDIO_THRESHOLDS = {
-  silenceDb:   -40,  // below this is considered silence
-  ringCamMax:  -10,  // ring-cam audio should stay below this peak
-  bodyCAMmin:  -35,  // body-cam audio must exceed this floor (has ambient noise)
+  silenceDb: -40,  // mean volume below this is considered silence
+  ringCam: {
+    maxMeanDb:       -10,    // ring-cam audio should stay below this level
+    minLufs:         -50,    // integrated loudness window for distant ambience
+    maxLufs:         -20,
+    maxTruePeakDb:   -1.0,
+    maxClippedRatio: 0.0005,
+    maxSilenceRatio: 0.9,    // a quiet porch is fine; total dead air is not
+    maxSilenceSec:   8,
+    maxSpeechRatio:  0.15,   // security footage has no narration
+  },
+  bodyCam: {
+    minMeanDb:       -35,    // body-cam audio must exceed this floor (has ambient noise)
+    minLufs:         -35,
+    maxLufs:         -12,
+    maxTruePeakDb:   -0.5,
+    maxClippedRatio: 0.002,  // a little mic overload reads as authentic
+    maxSilenceRatio: 0.4,
+    maxSilenceSec:   3,      // an open close-mic is never silent for long
+    maxSpeechRatio:  1,      // radio chatter and the wearer talking are expected
+  },
 } as const;
 
+export const FACE_THRESHOLDS = {
+  minConfidence: 0.5,  // res10 SSD detection score
+} as const;
+
+export const CROP_THRESHOLDS = {
+  maxOffCenter: 0.4,  // share of frames with action outside the 9:16 zone before youtube_only
+} as const;
+
+// Defaults only — config/gates.yaml may override any of these per gate (src/gates/registry.ts)
+
 // ── Platform Limits ───────────────────────────────────────────────────────────
 
 export const PLATFORM_LIMITS = {
@@ -195,9 +419,26 @@ export const PLATFORM_LIMITS = {
   },
 } as const;
 
+// ── Feature Flags ─────────────────────────────────────────────────────────────
+
+/** Runtime kill switches (monitoring/feature-flags.ts), stored in feature_flags. */
+export const FEATURE_FLAGS = {
+  cacheTtlSeconds: 30,  // how long a process reuses the flags before re-reading the DB
+} as const;
+
+// ── Audio Bed Library ─────────────────────────────────────────────────────────
+
+/** Bed selection from the indexed library under AUDIO_BEDS_PATH (media/bed-library.ts). */
+export const AUDIO_BED_SELECTION = {
+  avoidRecent:   6,    // beds used in the last N mixes are skipped while others fit
+  mixLufs:       -38,  // loudness a bed is brought to under the clip's own audio
+  defaultGainDb: -15,  // gain for beds whose loudness has not been measured yet
+} as const;
+
 // ── Storage Retention ─────────────────────────────────────────────────────────
 
 export const STORAGE_RETENTION = {
+  tempHours:      24,  // scratch files in TEMP_DIR not tied to a resumable run
   rawClipDays:    7,   // days to keep raw generated clips before purge
   rejectedDays:   0,   // rejected clips purged immediately
   approvedDays:   90,  // approved/published clips kept in Cloudinary for 90 days
@@ -209,3 +450,15 @@ export const RETRY_POLICY = {
   maxRetries:  3,
   retryWaitMs: 10_000,
 } as const;
+
+/**
+ * How many times the gate step may apply each remediation to one clip
+ * (gates/remediation.ts). Every regenerate pays for a new Veo clip.
+ */
+export const REMEDIATION_BUDGET = {
+  add_shake:     2,
+  mix_bed:       1,
+  replace_audio: 1,
+  retry_overlay: 1,
+  regenerate:    RETRY_POLICY.maxRetries - 1,
+} as const;
@@ -0,0 +1,33 @@
+/**
+ * Audio bed use DB operations — one row per bed mixed into a clip, so bed
+ * selection can avoid repeating recent beds.
+ */
+import { dbInsert, dbSelectFiltered } from './client.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface AudioBedUseRecord {
+  id: string;
+  bed: string;
+  run_id: string | null;
+  format: 'ring_cam' | 'body_cam';
+  cam_sub_type: string | null;
+  offset_seconds: number;
+  created_at: string;
+}
+
+export type NewAudioBedUse = Omit<AudioBedUseRecord, 'id' | 'created_at'>;
+
+// ─── Operations ───────────────────────────────────────────────────────────────
+
+export async function insertAudioBedUse(entry: NewAudioBedUse): Promise<void> {
+  await dbInsert('audio_bed_uses', { ...entry });
+}
+
+/** Library IDs of the last `limit` beds used, most recent first (may repeat). */
+export async function getRecentAudioBeds(limit: number): Promise<string[]> {
+  const rows = (await dbSelectFiltered('audio_bed_uses', (q) =>
+    q.order('created_at', { ascending: false }).limit(limit),
+  )) as unknown as AudioBedUseRecord[];
+  return rows.map((r) => r.bed);
+}
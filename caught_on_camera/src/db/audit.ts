@@ -0,0 +1,30 @@
+/**
+ * Operator audit log DB operations — one row per Telegram command or button
+ * press, with who sent it and how it ended.
+ */
+import { dbInsert } from './client.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type OperatorRole = 'viewer' | 'reviewer' | 'admin';
+export type AuditResult = 'ok' | 'denied' | 'error';
+
+export interface AuditEntryRecord {
+  id: string;
+  telegram_user_id: number | null;
+  operator: string;
+  /** null = not on the allowlist. */
+  role: OperatorRole | null;
+  command: string;
+  result: AuditResult;
+  detail: string | null;
+  created_at: string;
+}
+
+export type NewAuditEntry = Omit<AuditEntryRecord, 'id' | 'created_at'>;
+
+// ─── Operations ───────────────────────────────────────────────────────────────
+
+export async function insertAuditEntry(entry: NewAuditEntry): Promise<AuditEntryRecord> {
+  return (await dbInsert('operator_audit_log', { ...entry })) as unknown as AuditEntryRecord;
+}
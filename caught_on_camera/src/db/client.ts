@@ -4,12 +4,16 @@
  * On recovery (Supabase comes back online) any writes that were queued in
  * SQLite are automatically replayed via syncPendingToSupabase().
  *
+ * With PROVIDER_MODE=sandbox all helpers read and write the JSON table store in
+ * src/providers/sandbox/db.ts instead.
+ *
  * Mirrors the pattern used in cryptidvlog/src/db/client.ts.
  */
 import { createClient, type SupabaseClient } from '@supabase/supabase-js';
-import { env } from '../config.js';
+import { env, SANDBOX } from '../config.js';
 import { logger } from '../utils/logger.js';
 import { telegram } from '../monitoring/telegram.js';
+import { sandboxInsert, sandboxQuery, sandboxUpdate } from '../providers/sandbox/db.js';
 
 // ─── Supabase singleton ───────────────────────────────────────────────────────
 
@@ -48,6 +52,7 @@ export async function dbInsert(
   table: string,
   data: Record<string, unknown>,
 ): Promise<Record<string, unknown>> {
+  if (SANDBOX) return sandboxInsert(table, data);
   try {
     const { data: result, error } = await getSupabase()
       .from(table)
@@ -76,6 +81,11 @@ export async function dbSelect(
   table: string,
   filters: Record<string, unknown> = {},
 ): Promise<Record<string, unknown>[]> {
+  if (SANDBOX) {
+    const q = sandboxQuery(table);
+    for (const [k, v] of Object.entries(filters)) q.eq(k, v);
+    return q.rows();
+  }
   try {
     let q = getSupabase().from(table).select('*');
     for (const [k, v] of Object.entries(filters)) {
@@ -98,6 +108,7 @@ export async function dbUpdate(
   id: string,
   data: Record<string, unknown>,
 ): Promise<Record<string, unknown>> {
+  if (SANDBOX) return sandboxUpdate(table, id, { ...data, updated_at: new Date().toISOString() });
   try {
     const { data: result, error } = await getSupabase()
       .from(table)
@@ -127,12 +138,17 @@ export async function dbUpdate(
  * Flexible SELECT with arbitrary filter operations (gt, lt, gte, lte, in, etc.).
  * Useful for time-range and virality-score queries.
  */
+type FilterBuilder = ReturnType<ReturnType<SupabaseClient['from']>['select']>;
+
 export async function dbSelectFiltered(
   table: string,
-  build: (
-    q: ReturnType<SupabaseClient['from']>,
-  ) => ReturnType<SupabaseClient['from']>,
+  build: (q: FilterBuilder) => PromiseLike<{ data: unknown; error: { message: string } | null }>,
 ): Promise<Record<string, unknown>[]> {
+  if (SANDBOX) {
+    // The sandbox builder implements the PostgREST subset this codebase uses
+    const { data } = await build(sandboxQuery(table) as unknown as FilterBuilder);
+    return (data ?? []) as Record<string, unknown>[];
+  }
   try {
     const q = build(getSupabase().from(table).select('*'));
     const { data, error } = await q;
@@ -147,6 +163,20 @@ export async function dbSelectFiltered(
   }
 }
 
+/**
+ * True when Supabase answers a trivial query. Callers that act on the absence
+ * of rows (dbSelectFiltered returns [] while Supabase is down) check this first.
+ */
+export async function dbIsReachable(table: string): Promise<boolean> {
+  if (SANDBOX) return true;
+  try {
+    const { error } = await getSupabase().from(table).select('id').limit(1);
+    return !error;
+  } catch {
+    return false;
+  }
+}
+
 // ─── SQLite fallback ──────────────────────────────────────────────────────────
 
 let _localDb: import('better-sqlite3').Database | null = null;
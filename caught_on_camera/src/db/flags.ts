@@ -0,0 +1,40 @@
+/**
+ * Feature flag DB operations — an append-only log of kill switch changes; the
+ * newest row per (scope, target) is the flag's state.
+ */
+import { dbInsert, dbSelectFiltered } from './client.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type FlagScope = 'format' | 'sub_type' | 'category' | 'platform';
+
+export interface FeatureFlagRecord {
+  id: string;
+  scope: FlagScope;
+  target: string;
+  enabled: boolean;
+  reason: string;
+  expires_at: string | null;
+  set_by: string;
+  created_at: string;
+}
+
+export type NewFeatureFlag = Omit<FeatureFlagRecord, 'id' | 'created_at'>;
+
+// ─── Operations ───────────────────────────────────────────────────────────────
+
+export async function insertFeatureFlag(flag: NewFeatureFlag): Promise<FeatureFlagRecord> {
+  return (await dbInsert('feature_flags', { ...flag })) as unknown as FeatureFlagRecord;
+}
+
+/** The current row for every flag that has ever been set. */
+export async function getCurrentFeatureFlags(): Promise<FeatureFlagRecord[]> {
+  const rows = (await dbSelectFiltered('feature_flags', (q) =>
+    q.order('created_at', { ascending: true }),
+  )) as unknown as FeatureFlagRecord[];
+
+  // Oldest first, so the newest row for each flag is the one left in the map
+  const current = new Map<string, FeatureFlagRecord>();
+  for (const row of rows) current.set(`${row.scope}:${row.target}`, row);
+  return [...current.values()];
+}
@@ -0,0 +1,40 @@
+/**
+ * Gate run DB operations — one row per gate evaluation, for gate analytics.
+ */
+import { dbInsert, dbSelectFiltered } from './client.js';
+import type { GateNumber } from '../gates/index.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export interface GateRunRecord {
+  id: string;
+  run_id: string | null;
+  scene_id: string | null;
+  attempt: number;
+  gate: GateNumber;
+  pass: boolean;
+  hard_fail: boolean;
+  action: string | null;
+  reason: string | null;
+  metrics: Record<string, unknown>;
+  format: 'ring_cam' | 'body_cam';
+  cam_sub_type: string | null;
+  veo_variant: string;
+  created_at: string;
+}
+
+export type NewGateRun = Omit<GateRunRecord, 'id' | 'created_at'>;
+
+// ─── Operations ───────────────────────────────────────────────────────────────
+
+export async function insertGateRun(entry: NewGateRun): Promise<void> {
+  await dbInsert('gate_runs', { ...entry });
+}
+
+/** Gate evaluations recorded in the last `days` days, oldest first. */
+export async function getGateRunsSince(days: number): Promise<GateRunRecord[]> {
+  const cutoff = new Date(Date.now() - days * 86_400_000).toISOString();
+  return (await dbSelectFiltered('gate_runs', (q) =>
+    q.gte('created_at', cutoff).order('created_at', { ascending: true }),
+  )) as unknown as GateRunRecord[];
+}
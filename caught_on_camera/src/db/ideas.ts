@@ -90,38 +90,69 @@ function daysAgo(days: number): string {
 
 // ─── Top-idea selection ───────────────────────────────────────────────────────
 
+export interface IdeaFilter {
+  /** Restrict to a single category. */
+  category?: string;
+  /** Restrict to a body-cam sub-type (ignored for ring_cam). */
+  subType?: CamSubType;
+}
+
 /**
- * Returns the single pending ring_cam idea with the highest virality_score.
- * Returns null if the queue is empty.
+ * Returns up to `limit` pending ring_cam ideas, highest virality_score first,
+ * optionally restricted to a category.
  */
-export async function getTopRingCamIdea(): Promise<RingCamIdea | null> {
-  // TODO: switch to dbSelectFiltered once Supabase ordering API is abstracted
-  const rows = await dbSelectFiltered('ring_cam_ideas', (q) =>
-    q.eq('status', 'pending').order('virality_score', { ascending: false }).limit(1),
-  );
-  const row = rows[0];
-  if (!row) return null;
-  logger.info('Selected top ring_cam idea', { id: row['id'], score: row['virality_score'] });
-  return row as unknown as RingCamIdea;
+export async function getTopRingCamIdeas(filter: IdeaFilter = {}, limit = 1): Promise<RingCamIdea[]> {
+  const rows = await dbSelectFiltered('ring_cam_ideas', (q) => {
+    let query = q.eq('status', 'pending');
+    if (filter.category) query = query.eq('category', filter.category);
+    return query.order('virality_score', { ascending: false }).limit(limit);
+  });
+  return rows as unknown as RingCamIdea[];
 }
 
 /**
- * Returns the single pending body_cam idea with the highest virality_score.
- * Returns null if the queue is empty.
+ * Returns up to `limit` pending body_cam ideas, highest virality_score first,
+ * optionally restricted to a category and/or sub-type.
  */
-export async function getTopBodyCamIdea(): Promise<BodyCamIdea | null> {
-  // TODO: switch to dbSelectFiltered once Supabase ordering API is abstracted
-  const rows = await dbSelectFiltered('body_cam_ideas', (q) =>
-    q.eq('status', 'pending').order('virality_score', { ascending: false }).limit(1),
-  );
-  const row = rows[0];
-  if (!row) return null;
+export async function getTopBodyCamIdeas(filter: IdeaFilter = {}, limit = 1): Promise<BodyCamIdea[]> {
+  const rows = await dbSelectFiltered('body_cam_ideas', (q) => {
+    let query = q.eq('status', 'pending');
+    if (filter.category) query = query.eq('category', filter.category);
+    if (filter.subType) query = query.eq('cam_sub_type', filter.subType);
+    return query.order('virality_score', { ascending: false }).limit(limit);
+  });
+  return rows as unknown as BodyCamIdea[];
+}
+
+/**
+ * Returns the single pending ring_cam idea with the highest virality_score,
+ * optionally restricted to a category. Returns null if no idea matches.
+ */
+export async function getTopRingCamIdea(filter: IdeaFilter = {}): Promise<RingCamIdea | null> {
+  const [idea] = await getTopRingCamIdeas(filter, 1);
+  if (!idea) return null;
+  logger.info('Selected top ring_cam idea', {
+    id: idea.id,
+    score: idea.virality_score,
+    category: idea.category,
+  });
+  return idea;
+}
+
+/**
+ * Returns the single pending body_cam idea with the highest virality_score,
+ * optionally restricted to a category and/or sub-type. Returns null if no idea matches.
+ */
+export async function getTopBodyCamIdea(filter: IdeaFilter = {}): Promise<BodyCamIdea | null> {
+  const [idea] = await getTopBodyCamIdeas(filter, 1);
+  if (!idea) return null;
   logger.info('Selected top body_cam idea', {
-    id: row['id'],
-    score: row['virality_score'],
-    sub_type: row['cam_sub_type'],
+    id: idea.id,
+    score: idea.virality_score,
+    category: idea.category,
+    sub_type: idea.cam_sub_type,
   });
-  return row as unknown as BodyCamIdea;
+  return idea;
 }
 
 // ─── Batch insert ─────────────────────────────────────────────────────────────
@@ -194,6 +225,25 @@ function tableFor(source: IdeaSource): string {
   return source === 'ring_cam' ? 'ring_cam_ideas' : 'body_cam_ideas';
 }
 
+/** Fetches a single idea by ID from the given source table. Returns null if not found. */
+export async function getIdeaById(
+  id: string,
+  source: IdeaSource,
+): Promise<RingCamIdea | BodyCamIdea | null> {
+  const rows = await dbSelect(tableFor(source), { id });
+  return (rows[0] ?? null) as unknown as RingCamIdea | BodyCamIdea | null;
+}
+
+/** Fetches several ideas by ID from the given source table, in no particular order. */
+export async function getIdeasByIds(
+  ids: string[],
+  source: IdeaSource,
+): Promise<Array<RingCamIdea | BodyCamIdea>> {
+  if (!ids.length) return [];
+  const rows = await dbSelectFiltered(tableFor(source), (q) => q.in('id', ids));
+  return rows as unknown as Array<RingCamIdea | BodyCamIdea>;
+}
+
 /** Marks an idea as in_production so it is not picked again concurrently. */
 export async function markIdeaInProduction(id: string, source: IdeaSource): Promise<void> {
   await dbUpdate(tableFor(source), id, { status: 'in_production' });
@@ -206,6 +256,12 @@ export async function markIdeaProduced(id: string, source: IdeaSource): Promise<
   logger.info('Idea marked produced', { id, source });
 }
 
+/** Puts an idea back in the pending queue so it is produced again (a regenerate from review). */
+export async function requeueIdea(id: string, source: IdeaSource): Promise<void> {
+  await dbUpdate(tableFor(source), id, { status: 'pending' });
+  logger.info('Idea re-queued', { id, source });
+}
+
 /**
  * Permanently disables an idea — it will never be picked for production.
  * Use when an idea fails gates repeatedly or violates policy.
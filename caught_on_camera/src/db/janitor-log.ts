@@ -0,0 +1,31 @@
+/**
+ * Janitor log DB operations — one row per item removed by a retention sweep.
+ */
+import { dbInsert } from './client.js';
+import { logger } from '../utils/logger.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type JanitorCategory = 'temp' | 'raw_clip' | 'rejected' | 'expired';
+
+export interface JanitorLogRecord {
+  id: string;
+  sweep_id: string;
+  category: JanitorCategory;
+  target: string;
+  video_id: string | null;
+  bytes: number | null;
+  created_at: string;
+}
+
+export type NewJanitorLogEntry = Omit<JanitorLogRecord, 'id' | 'created_at'>;
+
+// ─── Operations ───────────────────────────────────────────────────────────────
+
+/** Records the items removed by one sweep. */
+export async function insertJanitorLog(entries: NewJanitorLogEntry[]): Promise<void> {
+  for (const entry of entries) {
+    await dbInsert('janitor_log', { ...entry });
+  }
+  logger.info('Janitor log recorded', { sweepId: entries[0]?.sweep_id, count: entries.length });
+}
@@ -0,0 +1,45 @@
+/**
+ * Operator choice DB operations — records what was produced on
+ * 'operator_choice' schedule days, whether picked in Telegram or by fallback.
+ *
+ * One row per calendar day (UTC) so every cron tick that day reuses the answer.
+ */
+import { dbInsert, dbSelect } from './client.js';
+import { logger } from '../utils/logger.js';
+import type { CamFormat, BodyCamSubType } from '../config.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type OperatorChoiceSource = 'operator' | 'fallback';
+
+export interface OperatorChoiceRecord {
+  id: string;
+  choice_date: string;
+  format: CamFormat;
+  category: string | null;
+  cam_sub_type: BodyCamSubType | null;
+  source: OperatorChoiceSource;
+  chosen_by: string | null;
+  created_at: string;
+}
+
+export type NewOperatorChoice = Omit<OperatorChoiceRecord, 'id' | 'created_at'>;
+
+// ─── Operations ───────────────────────────────────────────────────────────────
+
+/** Returns the recorded choice for a date (YYYY-MM-DD), or null if none yet. */
+export async function getOperatorChoice(date: string): Promise<OperatorChoiceRecord | null> {
+  const rows = await dbSelect('operator_choices', { choice_date: date });
+  return (rows[0] ?? null) as unknown as OperatorChoiceRecord | null;
+}
+
+/** Records the day's choice. */
+export async function insertOperatorChoice(choice: NewOperatorChoice): Promise<OperatorChoiceRecord> {
+  const result = await dbInsert('operator_choices', { ...choice });
+  logger.info('Operator choice recorded', {
+    date: choice.choice_date,
+    format: choice.format,
+    source: choice.source,
+  });
+  return result as unknown as OperatorChoiceRecord;
+}
@@ -0,0 +1,39 @@
+/**
+ * Pipeline pause DB operations — an append-only log of /pause and /resume;
+ * the newest row per scope is that stage's state.
+ */
+import { dbInsert, dbSelectFiltered } from './client.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type PauseScope = 'generation' | 'publishing' | 'ideation';
+
+export interface PipelinePauseRecord {
+  id: string;
+  scope: PauseScope;
+  paused: boolean;
+  reason: string;
+  paused_until: string | null;
+  set_by: string;
+  created_at: string;
+}
+
+export type NewPipelinePause = Omit<PipelinePauseRecord, 'id' | 'created_at'>;
+
+// ─── Operations ───────────────────────────────────────────────────────────────
+
+export async function insertPipelinePause(pause: NewPipelinePause): Promise<PipelinePauseRecord> {
+  return (await dbInsert('pipeline_pauses', { ...pause })) as unknown as PipelinePauseRecord;
+}
+
+/** The current row for every scope that has ever been paused or resumed. */
+export async function getCurrentPipelinePauses(): Promise<PipelinePauseRecord[]> {
+  const rows = (await dbSelectFiltered('pipeline_pauses', (q) =>
+    q.order('created_at', { ascending: true }),
+  )) as unknown as PipelinePauseRecord[];
+
+  // Oldest first, so the newest row for each scope is the one left in the map
+  const current = new Map<PauseScope, PipelinePauseRecord>();
+  for (const row of rows) current.set(row.scope, row);
+  return [...current.values()];
+}
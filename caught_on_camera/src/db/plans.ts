@@ -0,0 +1,68 @@
+/**
+ * Production plan DB operations — the day's production slots.
+ *
+ * The morning planner writes one plan per calendar day (UTC). Each hourly
+ * pipeline tick claims pending slots and records how they ended, so a restart
+ * mid-day picks up where the last tick stopped.
+ */
+import { dbInsert, dbSelect, dbUpdate } from './client.js';
+import { logger } from '../utils/logger.js';
+import type { CamFormat, BodyCamSubType } from '../config.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type SlotStatus = 'pending' | 'produced' | 'failed';
+
+export interface PlanSlot {
+  format: CamFormat;
+  /** Canonical category, or null for "any". */
+  category: string | null;
+  subType: BodyCamSubType | null;
+  compilation: boolean;
+  /** Estimated USD cost used when the slot was budgeted. */
+  estCost: number;
+  status: SlotStatus;
+}
+
+export interface ProductionPlanRecord {
+  id: string;
+  plan_date: string;
+  buffer_count: number;
+  buffer_deficit: number;
+  budget_available: number;
+  est_cost_ring: number;
+  est_cost_body: number;
+  slots: PlanSlot[];
+  created_at: string;
+  updated_at: string;
+}
+
+export type NewProductionPlan = Omit<ProductionPlanRecord, 'id' | 'created_at' | 'updated_at'>;
+
+// ─── Operations ───────────────────────────────────────────────────────────────
+
+/** Returns the plan for a date (YYYY-MM-DD), or null if none has been made. */
+export async function getPlan(date: string): Promise<ProductionPlanRecord | null> {
+  const rows = await dbSelect('production_plans', { plan_date: date });
+  return (rows[0] ?? null) as unknown as ProductionPlanRecord | null;
+}
+
+/** Persists a new day plan. */
+export async function insertPlan(plan: NewProductionPlan): Promise<ProductionPlanRecord> {
+  const result = await dbInsert('production_plans', { ...plan });
+  logger.info('Production plan recorded', {
+    date: plan.plan_date,
+    slots: plan.slots.length,
+    budget: plan.budget_available,
+  });
+  return result as unknown as ProductionPlanRecord;
+}
+
+/** Overwrites a plan's slots (status changes as ticks work through them). */
+export async function updatePlanSlots(id: string, slots: PlanSlot[]): Promise<void> {
+  await dbUpdate('production_plans', id, { slots });
+  logger.debug('Production plan slots updated', {
+    planId: id,
+    pending: slots.filter((s) => s.status === 'pending').length,
+  });
+}
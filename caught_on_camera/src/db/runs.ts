@@ -0,0 +1,203 @@
+/**
+ * Production run DB operations — per-step checkpoints for produceVideo().
+ *
+ * Every producer step writes a checkpoint (artifact path + sha256, cost, step
+ * result) against a run ID. A crashed or interrupted run can then be resumed
+ * from its last completed step without paying for a second Veo generation.
+ */
+import { randomUUID } from 'node:crypto';
+import * as fs from 'fs';
+import { dbInsert, dbSelect, dbUpdate, dbSelectFiltered } from './client.js';
+import { logger } from '../utils/logger.js';
+import { hashFile } from '../utils/hash.js';
+import type { IdeaSource } from './ideas.js';
+
+// ─── Types ────────────────────────────────────────────────────────────────────
+
+export type RunStatus = 'running' | 'completed' | 'failed' | 'rejected';
+
+export type ProductionStep =
+  | 'sanitize'
+  | 'generate'
+  | 'download'
+  | 'degrade'
+  | 'overlay'
+  | 'disclosure'
+  | 'gates'
+  | 'crop'
+  | 'upload';
+
+/**
+ * Producer steps in execution order. The overlay and disclosure are composited
+ * before the gates so gates 6 and 7 check the render that gets published.
+ */
+export const PRODUCTION_STEPS: readonly ProductionStep[] = [
+  'sanitize',
+  'generate',
+  'download',
+  'degrade',
+  'overlay',
+  'disclosure',
+  'gates',
+  'crop',
+  'upload',
+];
+
+export interface ProductionRun {
+  id: string;
+  idea_id: string;
+  idea_source: IdeaSource;
+  status: RunStatus;
+  last_step: ProductionStep | null;
+  error: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RunCheckpoint {
+  id: string;
+  run_id: string;
+  step: ProductionStep;
+  artifact_path: string | null;
+  artifact_hash: string | null;
+  cost: number;
+  result: Record<string, unknown>;
+  created_at: string;
+}
+
+export interface CheckpointInput {
+  artifactPath?: string;
+  cost?: number;
+  result?: Record<string, unknown>;
+}
+
+// ─── Run operations ───────────────────────────────────────────────────────────
+
+/**
+ * Creates a new production run for an idea. The run ID is generated locally so
+ * it is usable (and loggable) even when the insert lands in the SQLite fallback.
+ */
+export async function createRun(ideaId: string, source: IdeaSource): Promise<ProductionRun> {
+  const result = await dbInsert('production_runs', {
+    id:          randomUUID(),
+    idea_id:     ideaId,
+    idea_source: source,
+    status:      'running',
+    last_step:   null,
+    error:       null,
+  });
+  logger.info('Production run created', { runId: result['id'], ideaId, source });
+  return result as unknown as ProductionRun;
+}
+
+/** Fetches a single run by ID. Returns null if not found. */
+export async function getRun(id: string): Promise<ProductionRun | null> {
+  const rows = await dbSelect('production_runs', { id });
+  return (rows[0] ?? null) as unknown as ProductionRun | null;
+}
+
+/** Updates a run's status, optionally recording the error that ended it. */
+export async function updateRunStatus(
+  id: string,
+  status: RunStatus,
+  error?: string,
+): Promise<void> {
+  const payload: Record<string, unknown> = { status };
+  if (error !== undefined) payload['error'] = error.slice(0, 2000);
+  await dbUpdate('production_runs', id, payload);
+  logger.info('Production run status updated', { runId: id, status });
+}
+
+// ─── Checkpoint operations ────────────────────────────────────────────────────
+
+/**
+ * Persists a completed step. When an artifact path is given, its sha256 is
+ * recorded so a resume can detect a missing or modified intermediate file.
+ */
+export async function recordCheckpoint(
+  runId: string,
+  step: ProductionStep,
+  input: CheckpointInput = {},
+): Promise<RunCheckpoint> {
+  const artifactPath = input.artifactPath ?? null;
+  const artifactHash =
+    artifactPath && fs.existsSync(artifactPath) ? hashFile(artifactPath) : null;
+
+  const result = await dbInsert('run_checkpoints', {
+    run_id:        runId,
+    step,
+    artifact_path: artifactPath,
+    artifact_hash: artifactHash,
+    cost:          input.cost ?? 0,
+    result:        input.result ?? {},
+  });
+  await dbUpdate('production_runs', runId, { last_step: step });
+
+  logger.info('Production checkpoint recorded', { runId, step, artifactPath, cost: input.cost ?? 0 });
+  return result as unknown as RunCheckpoint;
+}
+
+/** Returns all checkpoints for a run in step order (oldest first). */
+export async function getCheckpoints(runId: string): Promise<RunCheckpoint[]> {
+  const rows = await dbSelectFiltered('run_checkpoints', (q) =>
+    q.eq('run_id', runId).order('created_at', { ascending: true }),
+  );
+  return (rows as unknown as RunCheckpoint[]).sort(
+    (a, b) => PRODUCTION_STEPS.indexOf(a.step) - PRODUCTION_STEPS.indexOf(b.step),
+  );
+}
+
+/**
+ * True when a checkpoint's artifact is still on disk and unchanged.
+ * Checkpoints without an artifact are always considered intact.
+ */
+export function isCheckpointIntact(checkpoint: RunCheckpoint): boolean {
+  if (!checkpoint.artifact_path) return true;
+  if (!fs.existsSync(checkpoint.artifact_path)) return false;
+  if (!checkpoint.artifact_hash) return true;
+  return hashFile(checkpoint.artifact_path) === checkpoint.artifact_hash;
+}
+
+/**
+ * Artifact paths checkpointed by runs that may still be resumed (running or
+ * failed). The retention janitor keeps these until they age out as raw clips.
+ */
+export async function getResumableArtifactPaths(): Promise<Set<string>> {
+  const runs = await dbSelectFiltered('production_runs', (q) =>
+    q.in('status', ['running', 'failed']).select('id'),
+  );
+  if (!runs.length) return new Set();
+
+  const checkpoints = await dbSelectFiltered('run_checkpoints', (q) =>
+    q.in('run_id', runs.map((r) => String(r['id']))).select('artifact_path'),
+  );
+  return new Set(
+    checkpoints.map((cp) => cp['artifact_path']).filter((p): p is string => typeof p === 'string'),
+  );
+}
+
+// ─── Cost history ─────────────────────────────────────────────────────────────
+
+/**
+ * Returns the total checkpointed cost of each completed run created in the
+ * last `days` days. Used by the daily planner to estimate per-format cost.
+ */
+export async function getCompletedRunCosts(
+  days: number,
+): Promise<Array<{ runId: string; source: IdeaSource; cost: number }>> {
+  const cutoff = new Date(Date.now() - days * 86_400_000).toISOString();
+  const runs = (await dbSelectFiltered('production_runs', (q) =>
+    q.eq('status', 'completed').gte('created_at', cutoff),
+  )) as unknown as ProductionRun[];
+  if (!runs.length) return [];
+
+  const checkpoints = (await dbSelectFiltered('run_checkpoints', (q) =>
+    q.in('run_id', runs.map((r) => r.id)).select('run_id, cost'),
+  )) as unknown as Array<Pick<RunCheckpoint, 'run_id' | 'cost'>>;
+
+  const costByRun = new Map<string, number>();
+  for (const cp of checkpoints) {
+    costByRun.set(cp.run_id, (costByRun.get(cp.run_id) ?? 0) + (Number(cp.cost) || 0));
+  }
+  return runs.map((r) => ({ runId: r.id, source: r.idea_source, cost: costByRun.get(r.id) ?? 0 }));
+}
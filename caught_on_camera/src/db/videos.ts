@@ -30,6 +30,9 @@ export interface VideoRecord {
   master_16x9_url: string;
   vertical_9x16_url: string | null;
   cloudinary_public_id: string;
+  vertical_public_id: string | null;
+  master_sha256: string | null;
+  vertical_sha256: string | null;
   title: string;
   caption: string;
   hashtags: string[];
@@ -41,12 +44,18 @@ export interface VideoRecord {
   instagram_post_id: string | null;
   crop_safe: boolean;
   gate_results: Record<string, unknown>;
+  assets_purged_at: string | null;
+  /** Telegram message carrying the review buttons. */
+  review_message_id: number | null;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
   created_at: string;
   updated_at: string;
 }
 
 export interface SceneRecord {
   id: string;
+  run_id: string | null;
   idea_id: string;
   idea_source: VideoFormat;
   format: VideoFormat;
@@ -54,6 +63,7 @@ export interface SceneRecord {
   raw_video_url: string | null;
   degraded_video_url: string | null;
   overlaid_video_url: string | null;
+  gated_video_path: string | null;
   cloudinary_url: string | null;
   generation_cost: number | null;
   quality_score: number | null;
@@ -62,10 +72,42 @@ export interface SceneRecord {
   retry_count: number;
   status: SceneStatus;
   created_at: string;
+  updated_at: string;
 }
 
-export type NewVideo = Omit<VideoRecord, 'id' | 'approval_status' | 'created_at' | 'updated_at'>;
-export type NewScene = Omit<SceneRecord, 'id' | 'retry_count' | 'gate_pass' | 'gate_failures' | 'status' | 'created_at'>;
+export type CompilationStatus = 'draft' | 'ready' | 'published';
+
+export interface CompilationRecord {
+  id: string;
+  theme: string;
+  title: string;
+  format: VideoFormat;
+  scene_ids: string[];
+  transition_style: string;
+  status: CompilationStatus;
+  created_at: string;
+}
+
+export type NewVideo = Omit<
+  VideoRecord,
+  'id' | 'approval_status' | 'assets_purged_at' | 'review_message_id' | 'reviewed_by' | 'reviewed_at' | 'created_at' | 'updated_at'
+>;
+export type NewScene = Omit<SceneRecord, 'id' | 'retry_count' | 'gate_pass' | 'gate_failures' | 'status' | 'created_at' | 'updated_at'>;
+export type SceneUpdate = Partial<
+  Pick<
+    SceneRecord,
+    | 'veo_prompt'
+    | 'raw_video_url'
+    | 'degraded_video_url'
+    | 'overlaid_video_url'
+    | 'gated_video_path'
+    | 'cloudinary_url'
+    | 'generation_cost'
+    | 'retry_count'
+    | 'status'
+  >
+>;
+export type NewCompilation = Omit<CompilationRecord, 'id' | 'created_at'>;
 
 // ─── Video operations ─────────────────────────────────────────────────────────
 
@@ -81,20 +123,31 @@ export async function insertVideo(video: NewVideo): Promise<VideoRecord> {
 
 /**
  * Updates the approval_status of a video.
- * When rejecting, pass an optional reason string for operator visibility.
+ * When rejecting, pass an optional reason string for operator visibility;
+ * pass the operator to record who made the decision and when.
  */
 export async function updateVideoApproval(
   id: string,
   status: ApprovalStatus,
   reason?: string,
+  reviewedBy?: string,
 ): Promise<VideoRecord> {
   const payload: Record<string, unknown> = { approval_status: status };
   if (reason) payload['reject_reason'] = reason;
+  if (reviewedBy) {
+    payload['reviewed_by'] = reviewedBy;
+    payload['reviewed_at'] = new Date().toISOString();
+  }
   const result = await dbUpdate('videos', id, payload);
-  logger.info('Video approval updated', { id, status, reason });
+  logger.info('Video approval updated', { id, status, reason, reviewedBy });
   return result as unknown as VideoRecord;
 }
 
+/** Records the Telegram message that carries a video's review buttons. */
+export async function setReviewMessageId(id: string, messageId: number): Promise<void> {
+  await dbUpdate('videos', id, { review_message_id: messageId });
+}
+
 // ─── Scene operations ─────────────────────────────────────────────────────────
 
 /** Creates a new scene record in status 'generating'. */
@@ -136,6 +189,78 @@ export async function updateSceneStatus(
   return result as unknown as SceneRecord;
 }
 
+/** Updates a scene's media URLs, cost or retry count as production advances. */
+export async function updateScene(id: string, fields: SceneUpdate): Promise<SceneRecord> {
+  const result = await dbUpdate('scenes', id, { ...fields });
+  logger.debug('Scene updated', { id, fields: Object.keys(fields) });
+  return result as unknown as SceneRecord;
+}
+
+/** Fetches the scene recorded for a production run. Returns null if none exists. */
+export async function getSceneByRunId(runId: string): Promise<SceneRecord | null> {
+  const rows = await dbSelect('scenes', { run_id: runId });
+  return (rows[0] ?? null) as unknown as SceneRecord | null;
+}
+
+/**
+ * Returns gate-passed scenes for a format, newest first.
+ * Candidate pool for the compilation planner.
+ */
+export async function getPassedScenes(format: VideoFormat, limit = 200): Promise<SceneRecord[]> {
+  const rows = await dbSelectFiltered('scenes', (q) =>
+    q
+      .eq('format', format)
+      .eq('status', 'passed')
+      .order('created_at', { ascending: false })
+      .limit(limit),
+  );
+  return rows as unknown as SceneRecord[];
+}
+
+// ─── Compilation operations ───────────────────────────────────────────────────
+
+/** Creates a compilation record listing its scenes in playback order. */
+export async function insertCompilation(compilation: NewCompilation): Promise<CompilationRecord> {
+  const result = await dbInsert('compilations', { ...compilation });
+  logger.info('Compilation record created', {
+    id: result['id'],
+    theme: compilation.theme,
+    scenes: compilation.scene_ids.length,
+  });
+  return result as unknown as CompilationRecord;
+}
+
+/**
+ * Returns the IDs of every scene already used in a compilation of the given
+ * format, so the planner never repeats a clip across compilations.
+ */
+export async function getCompiledSceneIds(format: VideoFormat): Promise<Set<string>> {
+  const rows = await dbSelectFiltered('compilations', (q) =>
+    q.eq('format', format).select('scene_ids'),
+  );
+  const ids = new Set<string>();
+  for (const row of rows) {
+    for (const id of (row['scene_ids'] as string[] | null) ?? []) ids.add(id);
+  }
+  return ids;
+}
+
+/**
+ * Of the given ideas, those whose own (single-clip) video was rejected or taken
+ * down. Their scenes must not come back in a compilation.
+ */
+export async function getWithdrawnIdeaIds(ideaIds: string[]): Promise<Set<string>> {
+  if (ideaIds.length === 0) return new Set();
+  const rows = await dbSelectFiltered('videos', (q) =>
+    q
+      .in('idea_id', ideaIds)
+      .is('compilation_id', null)
+      .in('approval_status', ['rejected', 'taken_down'])
+      .select('idea_id'),
+  );
+  return new Set(rows.map((r) => String(r['idea_id'])));
+}
+
 // ─── Buffer / publishing helpers ──────────────────────────────────────────────
 
 /**
@@ -180,6 +305,33 @@ export async function markPublished(
   return result as unknown as VideoRecord;
 }
 
+// ─── Retention ────────────────────────────────────────────────────────────────
+
+/**
+ * Returns videos in one of `statuses` whose `dateColumn` is older than
+ * `before` and whose published assets have not been purged yet.
+ */
+export async function getVideosForAssetPurge(
+  statuses: ApprovalStatus[],
+  before: string,
+  dateColumn: 'created_at' | 'updated_at',
+): Promise<VideoRecord[]> {
+  const rows = await dbSelectFiltered('videos', (q) =>
+    q
+      .in('approval_status', statuses)
+      .lte(dateColumn, before)
+      .is('assets_purged_at', null),
+  );
+  return rows as unknown as VideoRecord[];
+}
+
+/** Marks a video's published assets as deleted by the retention janitor. */
+export async function markVideoAssetsPurged(id: string): Promise<VideoRecord> {
+  const result = await dbUpdate('videos', id, { assets_purged_at: new Date().toISOString() });
+  logger.info('Video assets marked purged', { id });
+  return result as unknown as VideoRecord;
+}
+
 // ─── Fetch helpers ────────────────────────────────────────────────────────────
 
 /** Fetches a single video by ID. Returns null if not found. */
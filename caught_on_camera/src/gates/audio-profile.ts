@@ -0,0 +1,78 @@
+/**
+ * Audio profile — what Gate 3 judges a clip's sound by, reduced from the
+ * shared decode pass's measurements: how its silences are distributed, and
+ * an estimate of how much of it carries speech.
+ *
+ * Speech is estimated from the voice-band (300–3400 Hz) envelope. Talking
+ * rises and falls with each syllable, a few times a second, by several dB;
+ * steady ambience (wind, rain, traffic hum) barely moves. Each second of the
+ * clip counts as speech when its envelope is above the noise floor and its
+ * syllable-rate modulation is deep enough.
+ */
+import { VOICE_WINDOW_SEC, type AudioStats } from '../media/analysis.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface AudioProfile {
+  /** Share of the clip that is silent (0–1). */
+  silenceRatio: number;
+  longestSilenceSec: number;
+  /** Share of the clip's seconds that sound like speech (0–1). */
+  speechRatio: number;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+/** Envelope windows per analysed second. */
+const WINDOWS_PER_SEC = Math.round(1 / VOICE_WINDOW_SEC);
+/** Syllabic modulation depth (RMS, dB) above which a second reads as speech. */
+const SPEECH_MODULATION_DB = 3;
+/** Voice-band level below which a second is treated as quiet, not speech. */
+const VOICE_FLOOR_DB = -50;
+
+// ── Speech ────────────────────────────────────────────────────────────────────
+
+function movingAverage(values: number[], width: number): number[] {
+  const half = Math.floor(width / 2);
+  return values.map((_, i) => {
+    const window = values.slice(Math.max(0, i - half), i + half + 1);
+    return window.reduce((s, v) => s + v, 0) / window.length;
+  });
+}
+
+/**
+ * Share of whole seconds of the envelope that look like speech: syllable-rate
+ * modulation (2–8 Hz band: envelope smoothed over ~3 windows minus its
+ * ~0.5 s trend) deeper than SPEECH_MODULATION_DB, above VOICE_FLOOR_DB.
+ */
+export function estimateSpeechRatio(envelope: number[]): number {
+  const seconds = Math.floor(envelope.length / WINDOWS_PER_SEC);
+  if (seconds === 0) return 0;
+
+  const fast = movingAverage(envelope, 3);
+  const trend = movingAverage(envelope, Math.round(WINDOWS_PER_SEC / 2));
+  const modulation = fast.map((v, i) => v - trend[i]!);
+
+  let speech = 0;
+  for (let s = 0; s < seconds; s++) {
+    const from = s * WINDOWS_PER_SEC;
+    const level = envelope.slice(from, from + WINDOWS_PER_SEC);
+    const depth = modulation.slice(from, from + WINDOWS_PER_SEC);
+    const mean = level.reduce((sum, v) => sum + v, 0) / level.length;
+    const rms = Math.sqrt(depth.reduce((sum, v) => sum + v * v, 0) / depth.length);
+    if (mean > VOICE_FLOOR_DB && rms >= SPEECH_MODULATION_DB) speech++;
+  }
+  return speech / seconds;
+}
+
+// ── Profile ───────────────────────────────────────────────────────────────────
+
+export function profileAudio(audio: AudioStats): AudioProfile {
+  const lengths = audio.silences.map((s) => Math.max(0, s.end - s.start));
+  const silent = lengths.reduce((sum, v) => sum + v, 0);
+  return {
+    silenceRatio:      audio.duration > 0 ? Math.min(1, silent / audio.duration) : 0,
+    longestSilenceSec: Math.max(0, ...lengths),
+    speechRatio:       estimateSpeechRatio(audio.voiceEnvelope),
+  };
+}
@@ -1,12 +1,31 @@
 /**
  * Gate 1: Motion Analysis Gate
- * Ring Cam: REJECT if camera moves (avg motion > 0.5px, max spike > 2.0px)
- * Body Cam: REJECT if too stable (avg motion < 1.5px/frame) — then add synthetic shake
- * Uses FFmpeg vidstabdetect to analyze optical flow motion vectors
+ * Ring Cam: REJECT if camera moves (avg motion > 0.5px, max spike > 2.0px), is
+ *           bumped once, or rotates / zooms
+ * Body Cam: REJECT if too stable (avg motion < 1.5px/frame) — then add synthetic shake;
+ *           REJECT on cuts / teleports or a sway with no 1.5–2.5 Hz walking cadence
+ * Uses FFmpeg vidstabdetect to analyze optical flow motion vectors (run by the
+ * shared MediaAnalysis decode pass), parsed into a per-frame timeline
+ * (motion-timeline.ts) that is returned for shake tuning
+ * Limits default to MOTION_THRESHOLDS; config/gates.yaml can override them
  */
-import { execSync } from 'child_process';
 import * as fs from 'fs';
 import { logger } from '../utils/logger.js';
+import { MOTION_THRESHOLDS } from '../config.js';
+import type { MediaAnalysis } from '../media/analysis.js';
+import {
+  parseMotionTimeline,
+  profileMotion,
+  type MotionJump,
+  type MotionProfile,
+  type MotionSample,
+} from './motion-timeline.js';
+
+export interface MotionThresholds {
+  ringCam: { maxAvg: number; maxSpike: number; jumpPx: number; maxRotationDeg: number; maxZoomPct: number };
+  bodyCam: { minAvg: number; jumpPx: number; cadenceMinHz: number; cadenceMaxHz: number; minCadenceStrength: number };
+  jumpMedianMultiple: number;
+}
 
 export interface Gate1Result {
   pass: boolean;
@@ -14,102 +33,124 @@ export interface Gate1Result {
   avgMotion: number;
   maxMotion: number;
   reason?: string;
+  /** Cadence, jumps, rotation and zoom — absent when no transforms were produced. */
+  profile?: MotionProfile;
+  /** Per-frame motion; used to tune addBodyCamShake() for this clip. */
+  timeline?: MotionSample[];
 }
 
-const TRF_PATH = '/tmp/motion.trf';
-
-function parseTrfFile(trfPath: string): { avgMotion: number; maxMotion: number } {
+function readTimeline(trfPath: string): MotionSample[] {
   if (!fs.existsSync(trfPath)) {
     logger.warn('Gate 1: motion.trf not found, defaulting to zero motion');
-    return { avgMotion: 0, maxMotion: 0 };
-  }
-
-  const content = fs.readFileSync(trfPath, 'utf-8');
-  const lines = content.split('\n').filter((l) => l.trim() && !l.startsWith('#'));
-
-  const motionValues: number[] = [];
-
-  for (const line of lines) {
-    // vidstabdetect trf format: frameNum dx dy dRotate dZoom dSkew contrast match
-    const parts = line.trim().split(/\s+/);
-    if (parts.length >= 3) {
-      const dx = parseFloat(parts[1] ?? '0');
-      const dy = parseFloat(parts[2] ?? '0');
-      if (!isNaN(dx) && !isNaN(dy)) {
-        const magnitude = Math.sqrt(dx * dx + dy * dy);
-        motionValues.push(magnitude);
-      }
-    }
-  }
-
-  if (motionValues.length === 0) {
-    return { avgMotion: 0, maxMotion: 0 };
+    return [];
   }
+  return parseMotionTimeline(fs.readFileSync(trfPath, 'utf-8'));
+}
 
-  const avgMotion = motionValues.reduce((sum, v) => sum + v, 0) / motionValues.length;
-  const maxMotion = Math.max(...motionValues);
-
-  return { avgMotion, maxMotion };
+function describeJumps(kind: string, jumps: MotionJump[]): string {
+  const at = jumps.slice(0, 3).map((j) => `${j.seconds.toFixed(1)}s`).join(', ');
+  return `${jumps.length} ${kind} (${at}${jumps.length > 3 ? ', …' : ''})`;
 }
 
 export async function runGate1(
-  videoPath: string,
+  media: MediaAnalysis,
   format: 'ring_cam' | 'body_cam',
+  thresholds: MotionThresholds = MOTION_THRESHOLDS,
 ): Promise<Gate1Result> {
-  logger.info('Gate 1: motion analysis starting', { videoPath, format });
+  logger.info('Gate 1: motion analysis starting', { videoPath: media.videoPath, format });
+  const { ringCam, bodyCam, jumpMedianMultiple } = thresholds;
 
-  // Clean up any existing trf file
-  if (fs.existsSync(TRF_PATH)) {
-    fs.unlinkSync(TRF_PATH);
+  const trfPath = await media.motionTransforms();
+  if (!trfPath) {
+    logger.error('Gate 1: vidstabdetect failed to produce trf file', { videoPath: media.videoPath });
+    return {
+      pass: false,
+      action: 'regenerate',
+      avgMotion: 0,
+      maxMotion: 0,
+      reason: 'vidstabdetect failed — could not analyze motion vectors',
+    };
   }
 
-  try {
-    // Run ffmpeg vidstabdetect to analyze optical flow motion vectors
-    execSync(
-      `ffmpeg -i "${videoPath}" -vf "vidstabdetect=result=${TRF_PATH}:shakiness=10:accuracy=15" -f null -`,
-      { stdio: ['ignore', 'pipe', 'pipe'] },
-    );
-  } catch (err) {
-    // ffmpeg exits non-zero with -f null even on success; check if trf was written
-    if (!fs.existsSync(TRF_PATH)) {
-      logger.error('Gate 1: vidstabdetect failed to produce trf file', { err });
-      return {
-        pass: false,
-        action: 'regenerate',
-        avgMotion: 0,
-        maxMotion: 0,
-        reason: 'vidstabdetect failed — could not analyze motion vectors',
-      };
-    }
-  }
+  const timeline = readTimeline(trfPath);
+  const magnitudes = timeline.map((s) => s.magnitude);
+  const avgMotion = magnitudes.length ? magnitudes.reduce((sum, v) => sum + v, 0) / magnitudes.length : 0;
+  const maxMotion = magnitudes.length ? Math.max(...magnitudes) : 0;
 
-  const { avgMotion, maxMotion } = parseTrfFile(TRF_PATH);
+  const { fps } = await media.probe();
+  const profile = profileMotion(
+    timeline,
+    fps,
+    { jumpPx: format === 'ring_cam' ? ringCam.jumpPx : bodyCam.jumpPx, jumpMedianMultiple },
+    { minHz: bodyCam.cadenceMinHz, maxHz: bodyCam.cadenceMaxHz },
+  );
+  const measured = { avgMotion, maxMotion, profile, timeline };
+  const jumps = [...profile.cuts, ...profile.teleports].sort((a, b) => a.frame - b.frame);
 
-  logger.info('Gate 1: motion analysis results', { avgMotion, maxMotion, format });
+  logger.info('Gate 1: motion analysis results', {
+    avgMotion,
+    maxMotion,
+    format,
+    dominantHz:      profile.dominantHz,
+    cadenceStrength: profile.cadenceStrength,
+    cuts:            profile.cuts.length,
+    teleports:       profile.teleports.length,
+    rotation:        profile.rotation,
+    zoom:            profile.zoom,
+  });
 
   if (format === 'ring_cam') {
     // Ring cam must be static — any camera movement is a fail
-    const pass = avgMotion < 0.5 && maxMotion < 2.0;
-    if (pass) {
-      logger.info('Gate 1: ring_cam PASS — camera is static', { avgMotion, maxMotion });
-      return { pass: true, avgMotion, maxMotion };
-    } else {
-      const reason =
-        avgMotion >= 0.5
-          ? `avgMotion ${avgMotion.toFixed(3)}px exceeds ring_cam limit of 0.5px`
-          : `maxMotion spike ${maxMotion.toFixed(3)}px exceeds ring_cam limit of 2.0px`;
-      logger.warn('Gate 1: ring_cam FAIL — camera movement detected', { avgMotion, maxMotion, reason });
-      return { pass: false, action: 'regenerate', avgMotion, maxMotion, reason };
+    let reason: string | undefined;
+    if (avgMotion >= ringCam.maxAvg) {
+      reason = `avgMotion ${avgMotion.toFixed(3)}px exceeds ring_cam limit of ${ringCam.maxAvg}px`;
+    } else if (maxMotion >= ringCam.maxSpike) {
+      reason = `maxMotion spike ${maxMotion.toFixed(3)}px exceeds ring_cam limit of ${ringCam.maxSpike}px`;
+    } else if (jumps.length) {
+      reason = `camera bumped: ${describeJumps('jump(s)', jumps)} on a static ring_cam`;
+    } else if (profile.rotation.maxDeg > ringCam.maxRotationDeg) {
+      reason = `camera rotates ${profile.rotation.maxDeg.toFixed(2)}° (ring_cam limit ${ringCam.maxRotationDeg}°)`;
+    } else if (profile.zoom.maxPct > ringCam.maxZoomPct) {
+      reason = `camera zooms ${profile.zoom.maxPct.toFixed(2)}% (ring_cam limit ${ringCam.maxZoomPct}%)`;
     }
-  } else {
-    // Body cam must have organic walking motion
-    if (avgMotion >= 1.5) {
-      logger.info('Gate 1: body_cam PASS — sufficient walking motion detected', { avgMotion, maxMotion });
-      return { pass: true, avgMotion, maxMotion };
-    } else {
-      const reason = `avgMotion ${avgMotion.toFixed(3)}px is below body_cam minimum of 1.5px/frame — synthetic shake required`;
-      logger.warn('Gate 1: body_cam FAIL — too stable, adding synthetic shake', { avgMotion, maxMotion, reason });
-      return { pass: false, action: 'add_shake', avgMotion, maxMotion, reason };
+
+    if (!reason) {
+      logger.info('Gate 1: ring_cam PASS — camera is static', { avgMotion, maxMotion });
+      return { pass: true, ...measured };
     }
+    logger.warn('Gate 1: ring_cam FAIL — camera movement detected', { avgMotion, maxMotion, reason });
+    return { pass: false, action: 'regenerate', ...measured, reason };
+  }
+
+  // Body cam must have organic walking motion — cuts and teleports cannot be shaken away
+  if (jumps.length) {
+    const parts = [
+      ...(profile.cuts.length ? [describeJumps('cut(s)', profile.cuts)] : []),
+      ...(profile.teleports.length ? [describeJumps('teleport(s)', profile.teleports)] : []),
+    ];
+    const reason = `unnatural camera motion: ${parts.join('; ')}`;
+    logger.warn('Gate 1: body_cam FAIL — cuts or teleports detected', { reason });
+    return { pass: false, action: 'regenerate', ...measured, reason };
+  }
+
+  if (avgMotion < bodyCam.minAvg) {
+    const reason = `avgMotion ${avgMotion.toFixed(3)}px is below body_cam minimum of ${bodyCam.minAvg}px/frame — synthetic shake required`;
+    logger.warn('Gate 1: body_cam FAIL — too stable, adding synthetic shake', { avgMotion, maxMotion, reason });
+    return { pass: false, action: 'add_shake', ...measured, reason };
   }
+
+  if (profile.cadenceStrength < bodyCam.minCadenceStrength) {
+    const reason =
+      `no walking cadence: ${Math.round(profile.cadenceStrength * 100)}% of sway in ` +
+      `${bodyCam.cadenceMinHz}–${bodyCam.cadenceMaxHz} Hz (dominant ${profile.dominantHz} Hz)`;
+    logger.warn('Gate 1: body_cam FAIL — sway does not match a walking cadence', { reason });
+    return { pass: false, action: 'regenerate', ...measured, reason };
+  }
+
+  logger.info('Gate 1: body_cam PASS — sufficient walking motion detected', {
+    avgMotion,
+    maxMotion,
+    dominantHz: profile.dominantHz,
+  });
+  return { pass: true, ...measured };
 }
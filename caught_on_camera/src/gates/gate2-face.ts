@@ -2,13 +2,25 @@
  * Gate 2: Face Detection and Auto-Blur Gate
  * Detects faces in video frames, auto-blurs them if found
  * Face blur increases authenticity (real security footage often blurs faces)
- * Always passes — face detection triggers blur action, not rejection
+ * Passes whenever a detector ran — faces trigger blur, not rejection.
+ * Throws when no detector can run, so an unchecked clip never passes.
+ *
+ * Detection is local and CPU-only (res10 SSD via src/media/faces.ts) on every
+ * 5th frame; faces are tracked across samples and the blur follows each
+ * track's interpolated box. With FACE_SECOND_OPINION=true Claude vision also
+ * reviews the keyframes; it always stands in when the local model is unavailable.
  */
 import { execSync } from 'child_process';
-import * as fs from 'fs';
-import * as path from 'path';
+import { env, FACE_THRESHOLDS } from '../config.js';
 import { logger } from '../utils/logger.js';
 import { analyzeFrames } from '../ai/claude.js';
+import { framesToBase64 } from '../media/frames.js';
+import { SAMPLE_FRAME_INTERVAL, keyframeIndices, type MediaAnalysis } from '../media/analysis.js';
+import { FaceDetector, trackFaces, boxAt, faceBlurFilter, type FaceBox, type FaceTrack, type FrameFaces } from '../media/faces.js';
+
+export interface FaceThresholds {
+  minConfidence: number;
+}
 
 export interface Gate2Result {
   pass: boolean;
@@ -16,175 +28,136 @@ export interface Gate2Result {
   framesWithFaces: number;
   blurred: boolean;
   blurredVideoPath?: string;
+  /** Distinct faces followed across the clip. */
+  tracks?: number;
+  /** Which detector produced the tracks. */
+  detector?: 'local' | 'claude' | 'none';
+  /** Faces Claude found that no local track covered (second opinion only). */
+  secondOpinionFaces?: number;
 }
 
-const FRAME_SAMPLE_INTERVAL = 5; // extract every 5th frame
-
-function extractFrames(videoPath: string, outputDir: string): string[] {
-  fs.mkdirSync(outputDir, { recursive: true });
-
-  // Get total frame count
-  const probeOutput = execSync(
-    `ffprobe -v error -select_streams v:0 -count_packets -show_entries stream=nb_read_packets -of csv=p=0 "${videoPath}"`,
-    { encoding: 'utf-8' },
-  ).trim();
-  const totalFrames = parseInt(probeOutput, 10) || 0;
-
-  logger.info('Gate 2: extracting frames', { totalFrames, interval: FRAME_SAMPLE_INTERVAL });
-
-  // Extract every Nth frame as JPEG
-  execSync(
-    `ffmpeg -i "${videoPath}" -vf "select=not(mod(n\\,${FRAME_SAMPLE_INTERVAL}))" -vsync vfr "${outputDir}/frame_%04d.jpg"`,
-    { stdio: ['ignore', 'pipe', 'pipe'] },
+/** Detections Claude reports on the keyframes, indexed like `frames`. */
+async function claudeFaces(framePaths: string[], frames: number[]): Promise<FrameFaces[]> {
+  const base64Frames = await framesToBase64(framePaths);
+  const { text } = await analyzeFrames(
+    base64Frames.map((data) => ({ data })),
+    'Analyze these video frames for human faces. For each frame, respond with a JSON object on one line: {"frame": <index>, "facesFound": <count>, "faceRegions": [{"x": <percent_from_left>, "y": <percent_from_top>, "w": <width_percent>, "h": <height_percent>}]}. If no faces, set facesFound to 0 and faceRegions to []. Output one JSON line per frame.',
   );
 
-  const frames = fs
-    .readdirSync(outputDir)
-    .filter((f) => f.endsWith('.jpg'))
-    .sort()
-    .map((f) => path.join(outputDir, f));
-
-  return frames;
+  const results: FrameFaces[] = [];
+  for (const line of text.split('\n').filter((l) => l.trim().startsWith('{'))) {
+    try {
+      const parsed = JSON.parse(line) as {
+        frame: number;
+        faceRegions?: Array<{ x: number; y: number; w: number; h: number }>;
+      };
+      const frame = frames[parsed.frame];
+      if (frame === undefined) continue;
+      results.push({
+        frame,
+        boxes: (parsed.faceRegions ?? []).map((r) => ({ x: r.x / 100, y: r.y / 100, w: r.w / 100, h: r.h / 100, confidence: 1 })),
+      });
+    } catch {
+      // skip malformed lines
+    }
+  }
+  return results;
 }
 
-function frameToBase64(framePath: string): string {
-  return fs.readFileSync(framePath).toString('base64');
+function covered(tracks: FaceTrack[], frame: number, box: FaceBox): boolean {
+  const cx = box.x + box.w / 2;
+  const cy = box.y + box.h / 2;
+  return tracks.some((track) => {
+    const b = boxAt(track, frame);
+    return b !== null && cx >= b.x && cx <= b.x + b.w && cy >= b.y && cy <= b.y + b.h;
+  });
 }
 
-export async function runGate2(videoPath: string): Promise<Gate2Result> {
+export async function runGate2(
+  media: MediaAnalysis,
+  thresholds: FaceThresholds = FACE_THRESHOLDS,
+): Promise<Gate2Result> {
+  const { videoPath } = media;
   logger.info('Gate 2: face detection starting', { videoPath });
 
-  const frameDir = `/tmp/gate2_frames_${Date.now()}`;
-  let totalFacesDetected = 0;
-  let framesWithFaces = 0;
+  // Every 5th frame, from the shared decode pass
+  const framePaths = (await media.frames()).sample;
+
+  if (framePaths.length === 0) {
+    logger.warn('Gate 2: no frames extracted');
+    return { pass: true, facesDetected: 0, framesWithFaces: 0, blurred: false, tracks: 0, detector: 'none' };
+  }
 
-  try {
-    const framePaths = extractFrames(videoPath, frameDir);
+  const probe = await media.probe();
+  const detector = await FaceDetector.load();
+  let samples: FrameFaces[] = [];
+  let tracks: FaceTrack[] = [];
+  let source: Gate2Result['detector'] = 'none';
 
-    if (framePaths.length === 0) {
-      logger.warn('Gate 2: no frames extracted');
-      return { pass: true, facesDetected: 0, framesWithFaces: 0, blurred: false };
+  if (detector) {
+    source = 'local';
+    for (const [i, framePath] of framePaths.entries()) {
+      samples.push({ frame: i * SAMPLE_FRAME_INTERVAL, boxes: await detector.detect(framePath, thresholds.minConfidence) });
     }
+    // A face may drop out of one sample (turned away, motion blur) and stay on its track
+    tracks = trackFaces(samples, { maxGap: 2 * SAMPLE_FRAME_INTERVAL, hold: SAMPLE_FRAME_INTERVAL });
+  } else {
+    logger.warn('Gate 2: local face detector unavailable — falling back to Claude vision', { videoPath });
+    source = 'claude';
+  }
 
-    // Send frames to Claude vision for face detection
-    const base64Frames = framePaths.map(frameToBase64);
-
-    const analysisResult = await analyzeFrames(
-      base64Frames,
-      'Analyze these video frames for human faces. For each frame, respond with a JSON object on one line: {"frame": <index>, "facesFound": <count>, "faceRegions": [{"x": <percent_from_left>, "y": <percent_from_top>, "w": <width_percent>, "h": <height_percent>}]}. If no faces, set facesFound to 0 and faceRegions to []. Output one JSON line per frame.',
-    );
-
-    // Parse face detection results
-    const faceRegionsByFrame: Array<Array<{ x: number; y: number; w: number; h: number }>> = [];
-    const lines = analysisResult.split('\n').filter((l) => l.trim().startsWith('{'));
-
-    for (const line of lines) {
-      try {
-        const parsed = JSON.parse(line) as {
-          frame: number;
-          facesFound: number;
-          faceRegions: Array<{ x: number; y: number; w: number; h: number }>;
-        };
-        if (parsed.facesFound > 0) {
-          framesWithFaces++;
-          totalFacesDetected += parsed.facesFound;
-          faceRegionsByFrame[parsed.frame] = parsed.faceRegions;
-        } else {
-          faceRegionsByFrame[parsed.frame] = [];
-        }
-      } catch {
-        // skip malformed lines
+  let secondOpinionFaces: number | undefined;
+  if (env.FACE_SECOND_OPINION || !detector) {
+    const keyframes = (await media.frames()).keyframes;
+    const indices = keyframeIndices(probe.frameCount);
+    const spacing = Math.max(SAMPLE_FRAME_INTERVAL, Math.round(probe.frameCount / (indices.length + 1)));
+    try {
+      const opinion = await claudeFaces(keyframes, indices);
+      // Keep only faces no local track covers; they are blurred around their keyframe
+      const missed = opinion
+        .map(({ frame, boxes }) => ({ frame, boxes: boxes.filter((box) => !covered(tracks, frame, box)) }))
+        .filter((s) => s.boxes.length > 0);
+      secondOpinionFaces = missed.reduce((sum, s) => sum + s.boxes.length, 0);
+      if (secondOpinionFaces > 0) {
+        logger.warn('Gate 2: second opinion found faces the local detector missed', { secondOpinionFaces });
+        tracks = [...tracks, ...trackFaces(missed, { maxGap: 2 * spacing, hold: spacing })];
+        samples = [...samples, ...missed];
       }
+    } catch (err) {
+      if (!detector) throw new Error(`Gate 2: no face detector available — Claude vision failed: ${String(err)}`);
+      logger.warn('Gate 2: second opinion failed — using local detections only', { err: String(err) });
     }
+  }
 
-    logger.info('Gate 2: face detection complete', {
-      totalFacesDetected,
-      framesWithFaces,
-      totalFrames: framePaths.length,
-    });
+  const facesDetected = samples.reduce((sum, s) => sum + s.boxes.length, 0);
+  const framesWithFaces = samples.filter((s) => s.boxes.length > 0).length;
+  const measured = {
+    facesDetected,
+    framesWithFaces,
+    tracks:   tracks.length,
+    detector: source,
+    ...(secondOpinionFaces !== undefined ? { secondOpinionFaces } : {}),
+  };
+
+  logger.info('Gate 2: face detection complete', { ...measured, totalFrames: framePaths.length });
+
+  if (tracks.length === 0) {
+    logger.info('Gate 2: no faces detected — no blur needed');
+    return { pass: true, ...measured, blurred: false };
+  }
 
-    if (totalFacesDetected === 0) {
-      logger.info('Gate 2: no faces detected — no blur needed');
-      return { pass: true, facesDetected: 0, framesWithFaces: 0, blurred: false };
-    }
+  // Blur every track along its interpolated path
+  logger.info('Gate 2: applying face blur to video', { tracks: tracks.length });
 
-    // Apply boxblur to face regions in full video
-    logger.info('Gate 2: applying face blur to video', { totalFacesDetected });
-
-    const blurredVideoPath = videoPath.replace(/(\.[^.]+)$/, '_faceblur$1');
-
-    // Build ffmpeg vf filter chain for face blurring
-    // Use conservative full-frame blur zones based on detected regions
-    // For simplicity, apply a moderate boxblur pass over the whole video where faces appeared
-    // A more precise approach would use drawbox+boxblur per-frame, but this requires complex filter_complex
-    // We use a single-pass approach: if any faces found, apply a delogo-style blur on the center-upper region
-    // where faces typically appear in security footage
-
-    // Build filter: crop the face area, apply blur, overlay back
-    // Use average face region if multiple detected
-    const allRegions = faceRegionsByFrame
-      .filter(Boolean)
-      .flat()
-      .filter((r) => r !== undefined) as Array<{ x: number; y: number; w: number; h: number }>;
-
-    if (allRegions.length > 0) {
-      // Get video dimensions
-      const dimOutput = execSync(
-        `ffprobe -v error -select_streams v:0 -show_entries stream=width,height -of csv=s=x:p=0 "${videoPath}"`,
-        { encoding: 'utf-8' },
-      ).trim();
-      const [widthStr, heightStr] = dimOutput.split('x');
-      const vidWidth = parseInt(widthStr ?? '1920', 10);
-      const vidHeight = parseInt(heightStr ?? '1080', 10);
-
-      // Build boxblur filter for each distinct face region (use first region as representative)
-      const filterParts: string[] = [];
-      const uniqueRegions = allRegions.slice(0, 4); // cap at 4 blur zones
-
-      for (const region of uniqueRegions) {
-        const bx = Math.floor((region.x / 100) * vidWidth);
-        const by = Math.floor((region.y / 100) * vidHeight);
-        const bw = Math.floor((region.w / 100) * vidWidth);
-        const bh = Math.floor((region.h / 100) * vidHeight);
-        filterParts.push(
-          `[in]crop=${bw}:${bh}:${bx}:${by},boxblur=20:5[blurred];[in][blurred]overlay=${bx}:${by}[out]`,
-        );
-      }
+  const blurredVideoPath = videoPath.replace(/(\.[^.]+)$/, '_faceblur$1');
+  const blurFilter = faceBlurFilter(tracks, probe.width || 1920, probe.height || 1080);
 
-      // For multiple regions, use a simpler approach: apply pixelate-style blur to detected zones
-      // Single-region approach for reliability
-      const firstRegion = allRegions[0]!;
-      const bx = Math.max(0, Math.floor((firstRegion.x / 100) * vidWidth) - 10);
-      const by = Math.max(0, Math.floor((firstRegion.y / 100) * vidHeight) - 10);
-      const bw = Math.min(vidWidth - bx, Math.floor((firstRegion.w / 100) * vidWidth) + 20);
-      const bh = Math.min(vidHeight - by, Math.floor((firstRegion.h / 100) * vidHeight) + 20);
-
-      const blurFilter = `[0:v]crop=${bw}:${bh}:${bx}:${by},boxblur=luma_radius=20:luma_power=5[blurred];[0:v][blurred]overlay=${bx}:${by}[out]`;
-
-      execSync(
-        `ffmpeg -i "${videoPath}" -filter_complex "${blurFilter}" -map "[out]" -map 0:a? -c:a copy -c:v libx264 -preset fast "${blurredVideoPath}"`,
-        { stdio: ['ignore', 'pipe', 'pipe'] },
-      );
-    } else {
-      // Fallback: just copy the video (face regions couldn't be parsed precisely)
-      execSync(`ffmpeg -i "${videoPath}" -c copy "${blurredVideoPath}"`, {
-        stdio: ['ignore', 'pipe', 'pipe'],
-      });
-    }
+  execSync(
+    `ffmpeg -y -i "${videoPath}" -filter_complex "${blurFilter}" -map "[out]" -map 0:a? -c:a copy -c:v libx264 -preset fast "${blurredVideoPath}"`,
+    { stdio: ['ignore', 'pipe', 'pipe'] },
+  );
 
-    logger.info('Gate 2: face blur applied', { blurredVideoPath });
-
-    return {
-      pass: true,
-      facesDetected: totalFacesDetected,
-      framesWithFaces,
-      blurred: true,
-      blurredVideoPath,
-    };
-  } finally {
-    // Clean up extracted frames
-    if (fs.existsSync(frameDir)) {
-      fs.rmSync(frameDir, { recursive: true, force: true });
-    }
-  }
+  logger.info('Gate 2: face blur applied', { blurredVideoPath });
+
+  return { pass: true, ...measured, blurred: true, blurredVideoPath };
 }
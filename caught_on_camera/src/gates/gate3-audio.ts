@@ -1,149 +1,166 @@
 /**
  * Gate 3: Audio Validation Gate
  * Validates audio matches format expectations
- * Ring Cam: ambient audio -35dB to -10dB mean volume
- * Body Cam: close-mic audio > -35dB mean volume
- * Silent clips (< -40dB) always fail and regenerate
+ * Ring Cam: distant ambience — mean volume ≤ -10dB, quiet integrated loudness,
+ *           no narration
+ * Body Cam: close-mic audio > -35dB mean volume, louder integrated loudness,
+ *           no long dead air
+ * Both: true peak and clipped-sample limits; silent clips (< -40dB) always
+ *       fail and regenerate
+ * The result names the property that failed (failedProperty) and the action
+ * that fixes it: regenerate, replace_audio (distorted, too loud, narrated)
+ * or mix_bed (too quiet, gappy); the producer picks the bed from the library
+ * Levels default to AUDIO_THRESHOLDS; config/gates.yaml can override them
  */
-import { execSync } from 'child_process';
-import * as fs from 'fs';
 import { logger } from '../utils/logger.js';
+import { AUDIO_THRESHOLDS } from '../config.js';
+import type { MediaAnalysis } from '../media/analysis.js';
+import { profileAudio } from './audio-profile.js';
+
+interface FormatAudioThresholds {
+  minLufs: number;
+  maxLufs: number;
+  maxTruePeakDb: number;
+  maxClippedRatio: number;
+  maxSilenceRatio: number;
+  maxSilenceSec: number;
+  maxSpeechRatio: number;
+}
+
+export interface AudioThresholds {
+  silenceDb: number;
+  ringCam: FormatAudioThresholds & { maxMeanDb: number };
+  bodyCam: FormatAudioThresholds & { minMeanDb: number };
+}
+
+/** The audio property a failing clip got wrong. */
+export type AudioProperty = 'missing' | 'silent' | 'clipping' | 'true_peak' | 'speech' | 'loudness' | 'silence';
+
+type AudioAction = 'regenerate' | 'replace_audio' | 'mix_bed';
 
 export interface Gate3Result {
   pass: boolean;
   meanVolume: number;
-  action?: 'regenerate' | 'replace_audio' | 'mix_bed';
+  integratedLufs?: number;
+  truePeakDb?: number;
+  clippedRatio?: number;
+  silenceRatio?: number;
+  longestSilenceSec?: number;
+  speechRatio?: number;
+  /** First failing property — the one `action` remedies. */
+  failedProperty?: AudioProperty;
+  /** Every property that failed, in check order. */
+  failedProperties?: AudioProperty[];
+  action?: AudioAction;
   reason?: string;
-  recommendedBed?: string;
 }
 
-type BodyCamSubType = 'police_security' | 'hiker_trail' | 'dashcam' | 'helmet_action';
-
-const BED_MAP: Record<BodyCamSubType, string> = {
-  police_security: 'police_patrol_walking',
-  hiker_trail: 'hiker_trail_night',
-  dashcam: 'dashcam_highway',
-  helmet_action: 'helmet_wind',
-};
-
-function parseMeanVolume(ffprobeOutput: string): number {
-  // ffprobe volumedetect output contains: mean_volume: -23.5 dB
-  const match = ffprobeOutput.match(/mean_volume:\s*([-\d.]+)\s*dB/);
-  if (!match || match[1] === undefined) {
-    logger.warn('Gate 3: could not parse mean_volume from ffprobe output');
-    return -99.0; // treat as silent
-  }
-  return parseFloat(match[1]);
+interface AudioFailure {
+  property: AudioProperty;
+  action: AudioAction;
+  reason: string;
 }
 
 export async function runGate3(
-  videoPath: string,
+  media: MediaAnalysis,
   format: 'ring_cam' | 'body_cam',
   subType?: string,
+  thresholds: AudioThresholds = AUDIO_THRESHOLDS,
 ): Promise<Gate3Result> {
-  logger.info('Gate 3: audio validation starting', { videoPath, format, subType });
-
-  const audioPath = `/tmp/gate3_audio_${Date.now()}.wav`;
-
-  try {
-    // Extract audio from video
-    try {
-      execSync(
-        `ffmpeg -i "${videoPath}" -vn -acodec pcm_s16le -ar 44100 -ac 2 "${audioPath}"`,
-        { stdio: ['ignore', 'pipe', 'pipe'] },
-      );
-    } catch {
-      // Check if audio stream actually exists
-      const streamCheck = execSync(
-        `ffprobe -v error -select_streams a -show_entries stream=codec_type -of csv=p=0 "${videoPath}"`,
-        { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] },
-      ).trim();
-
-      if (!streamCheck) {
-        logger.warn('Gate 3: no audio stream found in video');
-        return {
-          pass: false,
-          meanVolume: -99.0,
-          action: 'regenerate',
-          reason: 'no audio stream present in video',
-        };
-      }
-    }
+  logger.info('Gate 3: audio validation starting', { videoPath: media.videoPath, format, subType });
+  const { silenceDb } = thresholds;
 
-    if (!fs.existsSync(audioPath)) {
-      logger.warn('Gate 3: audio extraction produced no file');
-      return {
-        pass: false,
-        meanVolume: -99.0,
-        action: 'regenerate',
-        reason: 'audio extraction failed — no output file produced',
-      };
-    }
+  // Audio measurements from the shared decode pass
+  const audio = await media.audio();
+  if (!audio) {
+    logger.warn('Gate 3: no audio stream found in video');
+    return {
+      pass: false,
+      meanVolume: -99.0,
+      failedProperty: 'missing',
+      failedProperties: ['missing'],
+      action: 'regenerate',
+      reason: 'no audio stream present in video',
+    };
+  }
 
-    // Run volumedetect to get mean_volume
-    let volumeOutput = '';
-    try {
-      // volumedetect outputs to stderr
-      volumeOutput = execSync(
-        `ffmpeg -i "${audioPath}" -af volumedetect -f null -`,
-        { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] },
-      );
-    } catch (err) {
-      // ffmpeg with -f null exits non-zero, stderr is in the error object
-      const error = err as { stderr?: string; stdout?: string };
-      volumeOutput = (error.stderr ?? '') + (error.stdout ?? '');
-    }
+  const { meanVolume, integratedLufs, truePeakDb, clippedRatio } = audio;
+  const profile = profileAudio(audio);
+  const measured = { meanVolume, integratedLufs, truePeakDb, clippedRatio, ...profile };
 
-    const meanVolume = parseMeanVolume(volumeOutput);
+  logger.info('Gate 3: audio analysis result', { ...measured, format });
 
-    logger.info('Gate 3: volume analysis result', { meanVolume, format });
+  // Universal: truly silent clips always fail
+  if (meanVolume < silenceDb) {
+    const reason = `meanVolume ${meanVolume.toFixed(1)}dB is below ${silenceDb}dB threshold — clip is silent or broken`;
+    logger.warn('Gate 3: FAIL — silent clip detected', { meanVolume, reason });
+    return { pass: false, ...measured, failedProperty: 'silent', failedProperties: ['silent'], action: 'regenerate', reason };
+  }
 
-    // Universal: truly silent clips always fail
-    if (meanVolume < -40) {
-      const reason = `meanVolume ${meanVolume.toFixed(1)}dB is below -40dB threshold — clip is silent or broken`;
-      logger.warn('Gate 3: FAIL — silent clip detected', { meanVolume, reason });
-      return { pass: false, meanVolume, action: 'regenerate', reason };
-    }
+  const limits = format === 'ring_cam' ? thresholds.ringCam : thresholds.bodyCam;
+  const failures: AudioFailure[] = [];
+  const fail = (property: AudioProperty, action: AudioAction, reason: string): void => {
+    failures.push({ property, action, reason });
+  };
+
+  // Damage a bed cannot hide — replace the track
+  if (clippedRatio > limits.maxClippedRatio) {
+    fail('clipping', 'replace_audio', `${(clippedRatio * 100).toFixed(2)}% of samples clipped (max ${(limits.maxClippedRatio * 100).toFixed(2)}%)`);
+  }
+  if (truePeakDb > limits.maxTruePeakDb) {
+    fail('true_peak', 'replace_audio', `true peak ${truePeakDb.toFixed(1)}dBFS exceeds ${limits.maxTruePeakDb}dBFS`);
+  }
+  if (profile.speechRatio > limits.maxSpeechRatio) {
+    fail('speech', 'replace_audio', `speech in ${Math.round(profile.speechRatio * 100)}% of the clip (${format} max ${Math.round(limits.maxSpeechRatio * 100)}%)`);
+  }
 
-    if (format === 'ring_cam') {
-      // Ring cam: ambient audio should be -35dB to -10dB
-      if (meanVolume <= -10) {
-        logger.info('Gate 3: ring_cam PASS — ambient audio level acceptable', { meanVolume });
-        return { pass: true, meanVolume };
-      } else {
-        // meanVolume > -10dB: too loud for ambient security camera audio
-        const reason = `meanVolume ${meanVolume.toFixed(1)}dB exceeds ring_cam max of -10dB — audio is too loud`;
-        logger.warn('Gate 3: ring_cam FAIL — audio too loud', { meanVolume, reason });
-        return { pass: false, meanVolume, action: 'replace_audio', reason };
-      }
-    } else {
-      // Body cam: close-mic, should be > -35dB
-      if (meanVolume >= -35) {
-        logger.info('Gate 3: body_cam PASS — close-mic audio level acceptable', { meanVolume });
-        return { pass: true, meanVolume };
-      } else {
-        // meanVolume < -35dB: too quiet for body cam close-mic
-        const recommendedBed = pickRecommendedBed(subType);
-        const reason = `meanVolume ${meanVolume.toFixed(1)}dB is below body_cam minimum of -35dB — audio bed required`;
-        logger.warn('Gate 3: body_cam FAIL — audio too quiet, mix_bed required', {
-          meanVolume,
-          reason,
-          recommendedBed,
-        });
-        return { pass: false, meanVolume, action: 'mix_bed', reason, recommendedBed };
-      }
+  // Level: too loud is replaced, too quiet gets a bed
+  if (format === 'ring_cam') {
+    const { maxMeanDb } = thresholds.ringCam;
+    if (meanVolume > maxMeanDb) {
+      fail('loudness', 'replace_audio', `meanVolume ${meanVolume.toFixed(1)}dB exceeds ring_cam max of ${maxMeanDb}dB — audio is too loud`);
+    } else if (integratedLufs > limits.maxLufs) {
+      fail('loudness', 'replace_audio', `integrated loudness ${integratedLufs.toFixed(1)} LUFS exceeds ring_cam max of ${limits.maxLufs} LUFS`);
+    } else if (integratedLufs < limits.minLufs) {
+      fail('loudness', 'mix_bed', `integrated loudness ${integratedLufs.toFixed(1)} LUFS is below ring_cam min of ${limits.minLufs} LUFS`);
     }
-  } finally {
-    if (fs.existsSync(audioPath)) {
-      fs.unlinkSync(audioPath);
+  } else {
+    const { minMeanDb } = thresholds.bodyCam;
+    if (meanVolume < minMeanDb) {
+      fail('loudness', 'mix_bed', `meanVolume ${meanVolume.toFixed(1)}dB is below body_cam minimum of ${minMeanDb}dB — audio bed required`);
+    } else if (integratedLufs < limits.minLufs) {
+      fail('loudness', 'mix_bed', `integrated loudness ${integratedLufs.toFixed(1)} LUFS is below body_cam min of ${limits.minLufs} LUFS — audio bed required`);
+    } else if (integratedLufs > limits.maxLufs) {
+      fail('loudness', 'replace_audio', `integrated loudness ${integratedLufs.toFixed(1)} LUFS exceeds body_cam max of ${limits.maxLufs} LUFS`);
     }
   }
-}
 
-function pickRecommendedBed(subType?: string): string {
-  if (subType && subType in BED_MAP) {
-    return BED_MAP[subType as BodyCamSubType];
+  // Dead air: fill it with a bed
+  if (profile.silenceRatio > limits.maxSilenceRatio) {
+    fail('silence', 'mix_bed', `${Math.round(profile.silenceRatio * 100)}% of the clip is silent (${format} max ${Math.round(limits.maxSilenceRatio * 100)}%)`);
+  } else if (profile.longestSilenceSec > limits.maxSilenceSec) {
+    fail('silence', 'mix_bed', `${profile.longestSilenceSec.toFixed(1)}s silent gap (${format} max ${limits.maxSilenceSec}s)`);
+  }
+
+  const first = failures[0];
+  if (!first) {
+    logger.info(`Gate 3: ${format} PASS — audio acceptable`, measured);
+    return { pass: true, ...measured };
   }
-  // Default fallback for unknown or missing subType
-  return 'police_patrol_walking';
+
+  const result: Gate3Result = {
+    pass: false,
+    ...measured,
+    failedProperty:   first.property,
+    failedProperties: failures.map((f) => f.property),
+    action:           first.action,
+    reason:           failures.map((f) => f.reason).join('; '),
+  };
+
+  logger.warn(`Gate 3: ${format} FAIL — ${first.property}`, {
+    failedProperties: result.failedProperties,
+    action:           result.action,
+    reason:           result.reason,
+  });
+  return result;
 }
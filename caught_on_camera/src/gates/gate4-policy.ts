@@ -3,16 +3,26 @@
  * TWO-STAGE: pre-generation prompt sanitizer + post-generation content review
  * Stage A: sanitizePrompt() — run BEFORE Veo generation
  * Stage B: reviewContent() — run AFTER Veo generation on keyframes
- * Hard fail: any critical/high severity content blocks the clip permanently
+ * Hard fail: content at or above the policy's hardFailAt severity (default
+ * high) blocks the clip permanently
+ * Block words, regexes, rewrites and severity levels live in config/policy.yaml
+ * (gates/policy-rules.ts); every result carries the rules' policyVersion hash
  */
 import { logger } from '../utils/logger.js';
 import { analyzeFrames } from '../ai/claude.js';
+import { getPolicyRules, rulesFor, severityAtLeast, maxSeverity, type PolicyScope } from './policy-rules.js';
 
 export interface SanitizeResult {
   pass: boolean;
   sanitized: string | null;
   rewrites: { original: string; replacement: string }[];
   blockedWords: string[];
+  /** Block rules matched below the blocking severity. */
+  flagged: string[];
+  /** Highest severity among the matched block rules. */
+  severity: Gate4Result['severity'];
+  /** Content hash of the policy rules applied. */
+  policyVersion: string;
 }
 
 export interface Gate4Result {
@@ -21,88 +31,51 @@ export interface Gate4Result {
   severity: 'none' | 'low' | 'medium' | 'high' | 'critical';
   flags: string[];
   reason?: string;
+  /** Content hash of the policy rules the review was judged by. */
+  policyVersion?: string;
 }
 
-const ALWAYS_BLOCKED: string[] = [
-  'weapon',
-  'gun',
-  'knife',
-  'blood',
-  'injury',
-  'wound',
-  'dead',
-  'kill',
-  'arrest',
-  'handcuff',
-  'taser',
-  'pepper spray',
-  'use of force',
-  'traffic stop',
-  'pull over',
-  'suspect',
-  'perpetrator',
-  'criminal',
-  'child',
-  'minor',
-  'nude',
-  'explicit',
-];
-
-const REWRITE_MAP: Record<string, string> = {
-  ghost: 'dark shadow figure',
-  demon: 'unexplained dark shape',
-  attack: 'sudden rapid approach',
-  chase: 'rapid movement toward',
-  scream: 'loud startled vocalization',
-  'police officer': 'security patrol person',
-  cop: 'patrol worker',
-  badge: 'ID tag',
-  siren: 'alert tone',
-};
-
-export function sanitizePrompt(prompt: string): SanitizeResult {
-  logger.info('Gate 4: sanitizing prompt');
+/**
+ * Stage A: block or rewrite a generation prompt using the policy rules
+ * (config/policy.yaml) for the idea's format, sub-type and category.
+ */
+export function sanitizePrompt(prompt: string, scope: PolicyScope = {}): SanitizeResult {
+  const rules = getPolicyRules();
+  logger.info('Gate 4: sanitizing prompt', { policyVersion: rules.version });
+  const { block, rewrite } = rulesFor(rules, scope);
 
   const blockedWords: string[] = [];
+  const flagged: string[] = [];
   const rewrites: { original: string; replacement: string }[] = [];
+  let severity: Gate4Result['severity'] = 'none';
 
-  // Check for always-blocked words (case-insensitive)
-  for (const blocked of ALWAYS_BLOCKED) {
-    const regex = new RegExp(`\\b${escapeRegex(blocked)}\\b`, 'gi');
-    if (regex.test(prompt)) {
-      blockedWords.push(blocked);
-    }
+  // Check block rules (case-insensitive); matches below blockPromptAt are only flagged
+  for (const rule of block) {
+    if (!new RegExp(rule.source, 'i').test(prompt)) continue;
+    severity = maxSeverity(severity, rule.severity);
+    (severityAtLeast(rule.severity, rules.blockPromptAt) ? blockedWords : flagged).push(rule.label);
   }
 
   if (blockedWords.length > 0) {
-    logger.warn('Gate 4: prompt contains blocked words — cannot sanitize', { blockedWords });
-    return { pass: false, sanitized: null, rewrites: [], blockedWords };
+    logger.warn('Gate 4: prompt contains blocked words — cannot sanitize', { blockedWords, severity, policyVersion: rules.version });
+    return { pass: false, sanitized: null, rewrites: [], blockedWords, flagged, severity, policyVersion: rules.version };
+  }
+  if (flagged.length > 0) {
+    logger.warn('Gate 4: prompt flagged below the block level', { flagged, severity });
   }
 
-  // Apply rewrite map (case-insensitive, longest match first to handle phrases)
+  // Apply rewrites (case-insensitive, longest match first to handle phrases)
   let sanitized = prompt;
-  const sortedKeys = Object.keys(REWRITE_MAP).sort((a, b) => b.length - a.length);
-
-  for (const original of sortedKeys) {
-    const replacement = REWRITE_MAP[original];
-    if (replacement === undefined) continue;
-    const regex = new RegExp(`\\b${escapeRegex(original)}\\b`, 'gi');
-    if (regex.test(sanitized)) {
-      // Capture original casing for the rewrite log
-      const matchFound = sanitized.match(new RegExp(`\\b${escapeRegex(original)}\\b`, 'i'));
-      if (matchFound?.[0]) {
-        rewrites.push({ original: matchFound[0], replacement });
-      }
-      sanitized = sanitized.replace(regex, replacement);
-    }
+  for (const rule of rewrite) {
+    // Capture original casing for the rewrite log
+    const matchFound = sanitized.match(new RegExp(rule.source, 'i'));
+    if (!matchFound?.[0]) continue;
+    rewrites.push({ original: matchFound[0], replacement: rule.replacement });
+    sanitized = sanitized.replace(new RegExp(rule.source, 'gi'), rule.replacement);
   }
 
   logger.info('Gate 4: prompt sanitized', { rewrites });
-  return { pass: true, sanitized, rewrites, blockedWords: [] };
-}
-
-function escapeRegex(str: string): string {
-  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return { pass: true, sanitized, rewrites, blockedWords: [], flagged, severity, policyVersion: rules.version };
 }
 
 function parseSeverityFromResponse(response: string): {
@@ -158,7 +131,8 @@ export async function runGate4(
   concept: string,
   frameBase64Images: string[],
 ): Promise<Gate4Result> {
-  logger.info('Gate 4: content policy review starting', { videoPath, format, concept });
+  const { version: policyVersion, hardFailAt } = getPolicyRules();
+  logger.info('Gate 4: content policy review starting', { videoPath, format, concept, policyVersion });
 
   // Select up to 5 keyframes evenly distributed
   const keyframes = selectKeyframes(frameBase64Images, 5);
@@ -192,7 +166,7 @@ After reviewing all frames, respond with this exact JSON format:
 Use the highest severity found across all frames. If nothing concerning is found, use severity "none".`;
 
   try {
-    const response = await analyzeFrames(keyframes, reviewPrompt);
+    const { text: response } = await analyzeFrames(keyframes.map((data) => ({ data })), reviewPrompt);
     logger.info('Gate 4: Claude content review response received', { responseLength: response.length });
 
     // Try to parse structured JSON response first
@@ -222,16 +196,17 @@ Use the highest severity found across all frames. If nothing concerning is found
       flags = parsed.flags;
     }
 
-    const isHardFail = severity === 'high' || severity === 'critical';
+    const isHardFail = severityAtLeast(severity, hardFailAt);
 
     if (isHardFail) {
       const reason = `Content review found ${severity} severity content: ${flags.join(', ')}`;
-      logger.error('Gate 4: HARD FAIL — high/critical severity content detected', {
+      logger.error(`Gate 4: HARD FAIL — ${severity} severity content detected`, {
         severity,
         flags,
         reason,
+        policyVersion,
       });
-      return { pass: false, hardFail: true, severity, flags, reason };
+      return { pass: false, hardFail: true, severity, flags, reason, policyVersion };
     }
 
     if (severity !== 'none' || flags.length > 0) {
@@ -242,11 +217,12 @@ Use the highest severity found across all frames. If nothing concerning is found
         severity,
         flags,
         reason: `Content review found ${severity} severity flags: ${flags.join(', ')}`,
+        policyVersion,
       };
     }
 
     logger.info('Gate 4: content review PASS — no policy violations detected');
-    return { pass: true, hardFail: false, severity: 'none', flags: [] };
+    return { pass: true, hardFail: false, severity: 'none', flags: [], policyVersion };
   } catch (err) {
     logger.error('Gate 4: content review API call failed', { err });
     // Conservative: fail safe — if we can't review, treat as policy violation requiring manual review
@@ -256,6 +232,7 @@ Use the highest severity found across all frames. If nothing concerning is found
       severity: 'medium',
       flags: ['review_api_error'],
       reason: 'Content review API call failed — manual review required',
+      policyVersion,
     };
   }
 }
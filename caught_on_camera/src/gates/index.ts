@@ -1,9 +1,21 @@
 /**
- * Gate runner — executes all 7 gates in sequence
- * Gates 4 and 7 are HARD FAIL — any positive flag blocks immediately
- * Other gates: up to 3 retries before escalating to human review
+ * Gate runner — executes the configured gates (registry.ts), independent
+ * gates concurrently, on one shared decode of the clip (media/analysis.ts)
+ * Hard gates (4 and 7 by default) block immediately on any positive flag
+ * Soft gates return an action (add_shake, mix_bed, retry_overlay, …) that the
+ * remediation engine (remediation.ts) applies before re-running from the
+ * affected gate — see `from` / `previous` on runAllGates().
  */
 import { logger } from '../utils/logger.js';
+import { MediaAnalysis } from '../media/analysis.js';
+import { framesToBase64 } from '../media/frames.js';
+import {
+  getConfiguredGates,
+  gateResultOf,
+  gateStages,
+  type ConfiguredGate,
+  type GateResultBase,
+} from './registry.js';
 import { runGate1, type Gate1Result } from './gate1-motion.js';
 import { runGate2, type Gate2Result } from './gate2-face.js';
 import { runGate3, type Gate3Result } from './gate3-audio.js';
@@ -35,13 +47,27 @@ export type {
 export { sanitizePrompt } from './gate4-policy.js';
 export type { SanitizeResult } from './gate4-policy.js';
 
+export { registerGate, listGates, gateResultOf, gateStages, loadGateConfig, getConfiguredGates, GateConfigError } from './registry.js';
+export type { GateDefinition, GateSeverity, GateInput, GateResultBase, ConfiguredGate } from './registry.js';
+
+export { runGatesWithRemediation, failedGate, RERUN_FROM } from './remediation.js';
+export type { RemediationAction, RemediationHandler, RemediationOutcome } from './remediation.js';
+
+/** Gate number as assigned in the registry (built-ins are 1–7). */
+export type GateNumber = number;
+
 export interface GateRunnerResult {
   pass: boolean;
   hardFail: boolean;
+  /** Clip the later gates ran on: a transforming gate's output (face blur), or the input clip. */
+  videoPath: string;
   hardFailGate?: number;
+  /** Gate that stopped the pass, when it failed. */
+  failedGate?: number;
+  /** Gates run (not reused) on this pass, in order. */
+  evaluated?: number[];
   cropSafe?: boolean;
   action?: string;
-  recommendedBed?: string;
   gate1?: Gate1Result;
   gate2?: Gate2Result;
   gate3?: Gate3Result;
@@ -49,246 +75,146 @@ export interface GateRunnerResult {
   gate5?: Gate5Result;
   gate6?: Gate6Result;
   gate7?: Gate7Result;
+  // Gates registered beyond the built-ins store their result under `gate<N>`
+  // too — read any gate's result with gateResultOf()
 }
 
+/** Stop the pass on a failing gate? Returns the verdict fields to merge, or null to continue. */
+function verdict(
+  gate: ConfiguredGate,
+  gateResult: GateResultBase,
+): Pick<GateRunnerResult, 'hardFail' | 'hardFailGate' | 'failedGate' | 'action'> | null {
+  if (gateResult.pass || gate.severity === 'advisory') return null;
+  const { number } = gate.definition;
+  if (gate.severity === 'hard' && gateResult.hardFail !== false) {
+    return { hardFail: true, hardFailGate: number, failedGate: number };
+  }
+  const action = gateResult.action ?? gate.action;
+  return { hardFail: false, failedGate: number, ...(action ? { action } : {}) };
+}
+
+/**
+ * Run the configured gates (config/gates.yaml) on one clip.
+ *
+ * Gates run in stages (gateStages): the gates of a stage run concurrently on
+ * one shared MediaAnalysis, and a transforming gate (face blur) ends its
+ * stage so later gates see its output. Results are then judged in config
+ * order. Advisory gates never stop the pass. A failing soft gate stops it
+ * with the gate's action; a failing hard gate stops it with hardFail set,
+ * unless the gate itself reports hardFail: false (low-severity policy flags),
+ * which is handled as a soft failure. A hard failure anywhere in a stage
+ * outranks a soft one, so no remediation is spent on a clip that is blocked.
+ */
 export async function runAllGates(params: {
   sceneId: string;
   videoPath: string;
   format: 'ring_cam' | 'body_cam';
   subType?: string;
   concept: string;
-  frameBase64Images: string[];
+  /** Frames for gates that take `frames`; defaults to the analysis keyframes of the gated clip. */
+  frameBase64Images?: string[];
+  /**
+   * First gate to run (default: the first configured). Gates configured before
+   * it are not re-run; their results are taken from `previous`. Used after a
+   * remediation that cannot have changed what those gates checked.
+   */
+  from?: GateNumber;
+  previous?: GateRunnerResult;
 }): Promise<GateRunnerResult> {
-  const { sceneId, videoPath, format, subType, concept, frameBase64Images } = params;
+  const { sceneId, format, subType, concept, previous } = params;
+  const gates = getConfiguredGates();
+  const fromIndex = Math.max(0, gates.findIndex((g) => g.definition.number === (params.from ?? gates[0]?.definition.number)));
 
-  logger.info('Gate runner: starting all 7 gates', { sceneId, format });
+  logger.info('Gate runner: starting gates', { sceneId, format, from: params.from ?? 1, gates: gates.length });
 
   const result: GateRunnerResult = {
     pass: false,
     hardFail: false,
+    videoPath: params.videoPath,
+    evaluated: [],
   };
 
-  // ─── Gate 1: Motion Analysis ──────────────────────────────────────────────
-  logger.info('Gate runner: running Gate 1 — motion analysis', { sceneId });
-  let gate1: Gate1Result;
-  try {
-    gate1 = await runGate1(videoPath, format);
-  } catch (err) {
-    logger.error('Gate 1: unexpected error', { err, sceneId });
-    return { ...result, gate1: { pass: false, avgMotion: 0, maxMotion: 0, action: 'regenerate', reason: 'gate1 threw an error' } };
-  }
-  result.gate1 = gate1;
-
-  if (!gate1.pass) {
-    if (gate1.action === 'add_shake') {
-      // Body cam too stable — return shake action immediately so pipeline can apply it
-      // This does not count as a gate failure requiring retry; shake is applied then re-run
-      logger.info('Gate runner: Gate 1 requesting synthetic shake — returning action', { sceneId });
-      return {
-        ...result,
-        pass: false,
-        action: 'add_shake',
-        gate1,
-      };
-    }
-    // ring_cam camera movement — regenerate
-    logger.warn('Gate runner: Gate 1 FAIL — camera movement detected, regenerate required', { sceneId });
-    return { ...result, pass: false, action: 'regenerate', gate1 };
-  }
-
-  // ─── Gate 2: Face Detection (always passes) ───────────────────────────────
-  logger.info('Gate runner: running Gate 2 — face detection', { sceneId });
-  let gate2: Gate2Result;
-  try {
-    gate2 = await runGate2(videoPath);
-  } catch (err) {
-    logger.error('Gate 2: unexpected error (non-blocking)', { err, sceneId });
-    gate2 = { pass: true, facesDetected: 0, framesWithFaces: 0, blurred: false };
-  }
-  result.gate2 = gate2;
-  logger.info('Gate 2: audit log', {
-    sceneId,
-    facesDetected: gate2.facesDetected,
-    framesWithFaces: gate2.framesWithFaces,
-    blurred: gate2.blurred,
-  });
-  // Gate 2 always passes — blurred video path is surfaced for pipeline use but never blocks
-
-  // If gate2 produced a blurred video, use that for subsequent gates
-  const effectiveVideoPath = gate2.blurredVideoPath ?? videoPath;
-
-  // ─── Gate 3: Audio Validation ─────────────────────────────────────────────
-  logger.info('Gate runner: running Gate 3 — audio validation', { sceneId });
-  let gate3: Gate3Result;
-  try {
-    gate3 = await runGate3(effectiveVideoPath, format, subType);
-  } catch (err) {
-    logger.error('Gate 3: unexpected error', { err, sceneId });
-    return { ...result, gate2, gate3: { pass: false, meanVolume: -99, action: 'regenerate', reason: 'gate3 threw an error' } };
-  }
-  result.gate3 = gate3;
-
-  if (!gate3.pass) {
-    if (gate3.action === 'mix_bed') {
-      // Body cam audio too quiet — return bed recommendation for pipeline to mix
-      logger.info('Gate runner: Gate 3 requesting audio bed mix', {
-        sceneId,
-        recommendedBed: gate3.recommendedBed,
-      });
-      return {
-        ...result,
-        pass: false,
-        action: 'mix_bed',
-        recommendedBed: gate3.recommendedBed,
-        gate2,
-        gate3,
-      };
+  // Reused gates already ran on the input clip (a previous pass's output)
+  const toRun: ConfiguredGate[] = [];
+  for (const [index, gate] of gates.entries()) {
+    const reused = index < fromIndex && previous ? gateResultOf(previous, gate.definition.number) : undefined;
+    if (!reused) {
+      toRun.push(gate);
+      continue;
     }
-    // regenerate or replace_audio
-    logger.warn('Gate runner: Gate 3 FAIL', { sceneId, action: gate3.action });
-    return { ...result, pass: false, action: gate3.action, gate2, gate3 };
+    Object.assign(result, { [`gate${gate.definition.number}`]: reused }, gate.definition.annotate?.(reused));
+    const stop = verdict(gate, reused);
+    if (stop) return { ...result, ...stop };
   }
 
-  // ─── Gate 4: Content Policy (HARD FAIL) ──────────────────────────────────
-  logger.info('Gate runner: running Gate 4 — content policy (HARD FAIL gate)', { sceneId });
-  let gate4: Gate4Result;
+  const analyses: MediaAnalysis[] = [];
   try {
-    gate4 = await runGate4(effectiveVideoPath, format, concept, frameBase64Images);
-  } catch (err) {
-    logger.error('Gate 4: unexpected error — treating as hard fail for safety', { err, sceneId });
-    return {
-      ...result,
-      hardFail: true,
-      hardFailGate: 4,
-      gate2,
-      gate3,
-      gate4: { pass: false, hardFail: true, severity: 'high', flags: ['gate4_error'], reason: 'gate4 threw an error' },
-    };
-  }
-  result.gate4 = gate4;
-
-  if (!gate4.pass) {
-    if (gate4.hardFail) {
-      logger.error('Gate runner: Gate 4 HARD FAIL — blocking clip permanently', {
-        sceneId,
-        severity: gate4.severity,
-        flags: gate4.flags,
-      });
-      return {
-        ...result,
-        pass: false,
-        hardFail: true,
-        hardFailGate: 4,
-        gate2,
-        gate3,
-        gate4,
-      };
+    for (const stage of gateStages(toRun)) {
+      const media = new MediaAnalysis(result.videoPath);
+      analyses.push(media);
+
+      const needsFrames = stage.some((g) => g.definition.inputs.includes('frames'));
+      const frameBase64Images = params.frameBase64Images
+        ?? (needsFrames ? await framesToBase64((await media.frames().catch(() => null))?.keyframes ?? []) : []);
+
+      logger.info('Gate runner: running stage', { sceneId, gates: stage.map((g) => g.definition.number) });
+      const stageResults = await Promise.all(stage.map(async (gate) => {
+        const { number, name } = gate.definition;
+        logger.info(`Gate runner: running Gate ${number} — ${name.toLowerCase()}`, { sceneId, severity: gate.severity });
+        try {
+          return await gate.definition.run({
+            sceneId,
+            videoPath: result.videoPath,
+            media,
+            format,
+            subType,
+            concept,
+            frameBase64Images,
+            thresholds: gate.thresholds,
+          });
+        } catch (err) {
+          logger.error(`Gate ${number}: unexpected error`, { err, sceneId, severity: gate.severity });
+          return gate.definition.onError(err);
+        }
+      }));
+
+      let stop: ReturnType<typeof verdict> = null;
+      for (const [i, gate] of stage.entries()) {
+        const gateResult = stageResults[i]!;
+        const { number } = gate.definition;
+        result.evaluated!.push(number);
+        Object.assign(result, { [`gate${number}`]: gateResult }, gate.definition.annotate?.(gateResult));
+        result.videoPath = gate.definition.outputPath?.(gateResult) ?? result.videoPath;
+
+        const gateStop = verdict(gate, gateResult);
+        if (gateStop && (!stop || (gateStop.hardFail && !stop.hardFail))) stop = gateStop;
+      }
+
+      if (stop?.hardFail) {
+        logger.error(`Gate runner: Gate ${stop.failedGate} HARD FAIL — blocking clip permanently`, {
+          sceneId,
+          reason: gateResultOf(result, stop.failedGate!)?.reason,
+        });
+        return { ...result, ...stop };
+      }
+      if (stop) {
+        logger.warn(`Gate runner: Gate ${stop.failedGate} FAIL`, {
+          sceneId,
+          action: stop.action,
+          reason: gateResultOf(result, stop.failedGate!)?.reason,
+        });
+        return { ...result, ...stop };
+      }
     }
-    // Non-hard-fail policy issue (medium/low severity) — still blocks, requires retry
-    logger.warn('Gate runner: Gate 4 FAIL — content flags present', { sceneId, flags: gate4.flags });
-    return { ...result, pass: false, gate2, gate3, gate4 };
-  }
-
-  // ─── Gate 5: Crop Safety (always passes — attaches cropSafe) ─────────────
-  logger.info('Gate runner: running Gate 5 — crop safety', { sceneId });
-  let gate5: Gate5Result;
-  try {
-    gate5 = await runGate5(effectiveVideoPath, format);
-  } catch (err) {
-    logger.error('Gate 5: unexpected error (non-blocking — defaulting to crop-safe)', { err, sceneId });
-    gate5 = { pass: true, cropSafe: true, recommendation: 'all_platforms' };
-  }
-  result.gate5 = gate5;
-  result.cropSafe = gate5.cropSafe;
-
-  // Gate 5 always returns pass:true — just records cropSafe for platform routing
-  logger.info('Gate 5: crop safety recorded', {
-    sceneId,
-    cropSafe: gate5.cropSafe,
-    recommendation: gate5.recommendation,
-  });
-
-  // ─── Gate 6: Overlay Quality ──────────────────────────────────────────────
-  logger.info('Gate runner: running Gate 6 — overlay quality', { sceneId });
-  let gate6: Gate6Result;
-  try {
-    gate6 = await runGate6(effectiveVideoPath, format);
-  } catch (err) {
-    logger.error('Gate 6: unexpected error', { err, sceneId });
-    return {
-      ...result,
-      gate2,
-      gate3,
-      gate4,
-      gate5,
-      gate6: { pass: false, overlayDetected: false, timestampReadable: false, formatCorrect: false, reason: 'gate6 threw an error' },
-    };
-  }
-  result.gate6 = gate6;
-
-  if (!gate6.pass) {
-    logger.warn('Gate runner: Gate 6 FAIL — overlay quality check failed', {
-      sceneId,
-      reason: gate6.reason,
-    });
-    return { ...result, pass: false, action: 'retry_overlay', gate2, gate3, gate4, gate5, gate6 };
+  } finally {
+    for (const media of analyses) media.dispose();
   }
 
-  // ─── Gate 7: AI Disclosure Watermark (HARD FAIL) ─────────────────────────
-  logger.info('Gate runner: running Gate 7 — AI disclosure watermark (HARD FAIL gate)', { sceneId });
-  let gate7: Gate7Result;
-  try {
-    gate7 = await runGate7(effectiveVideoPath);
-  } catch (err) {
-    logger.error('Gate 7: unexpected error — treating as hard fail for safety', { err, sceneId });
-    return {
-      ...result,
-      hardFail: true,
-      hardFailGate: 7,
-      gate2,
-      gate3,
-      gate4,
-      gate5,
-      gate6,
-      gate7: { pass: false, hardFail: true, watermarkDetected: false },
-    };
-  }
-  result.gate7 = gate7;
-
-  if (!gate7.pass) {
-    logger.error('Gate runner: Gate 7 HARD FAIL — AI disclosure watermark missing', { sceneId });
-    return {
-      ...result,
-      pass: false,
-      hardFail: true,
-      hardFailGate: 7,
-      gate2,
-      gate3,
-      gate4,
-      gate5,
-      gate6,
-      gate7,
-    };
-  }
-
-  // ─── ALL GATES PASSED ─────────────────────────────────────────────────────
   logger.info('Gate runner: ALL GATES PASSED', {
     sceneId,
-    cropSafe: gate5.cropSafe,
-    facesBlurred: gate2.blurred,
-    facesDetected: gate2.facesDetected,
+    cropSafe: result.cropSafe,
+    evaluated: result.evaluated,
   });
 
-  return {
-    pass: true,
-    hardFail: false,
-    cropSafe: gate5.cropSafe,
-    gate1,
-    gate2,
-    gate3,
-    gate4,
-    gate5,
-    gate6,
-    gate7,
-  };
+  return { ...result, pass: true };
 }
@@ -0,0 +1,239 @@
+/**
+ * Motion timeline — per-frame camera motion parsed from a vidstabdetect .trf
+ * file, and the profile Gate 1 judges it by: walking cadence from the sway
+ * spectrum, cuts and teleports, and rotation / zoom components.
+ *
+ * Two .trf layouts are understood:
+ *   legacy   one line per frame: `frameNum dx dy dRotate(rad) dZoom(%) …`
+ *   vid.stab `Frame N (List M [(LM vx vy x y size contrast match),…])` — local
+ *            motion fields; translation is their median, rotation and zoom
+ *            are estimated from how the fields move around their centroid
+ */
+import type { ShakeTuning } from '../media/degradation.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface MotionSample {
+  frame: number;
+  dx: number;
+  dy: number;
+  /** Degrees. */
+  rotation: number;
+  /** Percent scale change. */
+  zoom: number;
+  magnitude: number;
+}
+
+export interface MotionJump {
+  frame: number;
+  seconds: number;
+  magnitude: number;
+}
+
+export interface MotionProfile {
+  fps: number;
+  frames: number;
+  /** Strongest sway frequency (vertical bob) between 0.5 Hz and Nyquist. */
+  dominantHz: number;
+  /** Share of sway power inside the walking cadence band (0–1). */
+  cadenceStrength: number;
+  /** Standard deviation of vertical motion, px/frame. */
+  swayPx: number;
+  /** Discontinuities that do not come back — hard cuts / scene changes. */
+  cuts: MotionJump[];
+  /** Jumps that snap back within a few frames — generation glitches. */
+  teleports: MotionJump[];
+  rotation: { avgDeg: number; maxDeg: number };
+  zoom: { avgPct: number; maxPct: number };
+}
+
+export interface JumpThresholds {
+  /** Minimum displacement for a jump, px/frame. */
+  jumpPx: number;
+  /** …and at least this multiple of the clip's median motion. */
+  jumpMedianMultiple: number;
+}
+
+export interface CadenceBand {
+  minHz: number;
+  maxHz: number;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+/** A jump reversed within this many frames is a teleport rather than a cut. */
+const TELEPORT_WINDOW = 3;
+const SPECTRUM_MIN_HZ = 0.5;
+const SPECTRUM_STEP_HZ = 0.05;
+/** Fallback when the probe reports no frame rate. */
+const DEFAULT_FPS = 30;
+/** Approximate px/frame of motion the default addBodyCamShake() filter adds. */
+const DEFAULT_SHAKE_PX = 1.0;
+
+// ── Parsing ───────────────────────────────────────────────────────────────────
+
+function median(values: number[]): number {
+  if (!values.length) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid]! : (sorted[mid - 1]! + sorted[mid]!) / 2;
+}
+
+function sample(frame: number, dx: number, dy: number, rotation: number, zoom: number): MotionSample {
+  return { frame, dx, dy, rotation, zoom, magnitude: Math.sqrt(dx * dx + dy * dy) };
+}
+
+/** Global motion of one frame from its local motion fields. */
+function fromLocalMotions(frame: number, fields: number[][]): MotionSample {
+  if (!fields.length) return sample(frame, 0, 0, 0, 0);
+  const dx = median(fields.map((f) => f[0]!));
+  const dy = median(fields.map((f) => f[1]!));
+
+  // Residual motion around the field centroid: tangential → rotation, radial → zoom
+  const cx = fields.reduce((s, f) => s + f[2]!, 0) / fields.length;
+  const cy = fields.reduce((s, f) => s + f[3]!, 0) / fields.length;
+  let rotation = 0;
+  let zoom = 0;
+  let weight = 0;
+  for (const [vx = 0, vy = 0, x = 0, y = 0] of fields) {
+    const rx = x - cx;
+    const ry = y - cy;
+    const r2 = rx * rx + ry * ry;
+    if (r2 < 1) continue;
+    rotation += (rx * (vy - dy) - ry * (vx - dx)) / r2;
+    zoom += (rx * (vx - dx) + ry * (vy - dy)) / r2;
+    weight++;
+  }
+  return weight
+    ? sample(frame, dx, dy, (rotation / weight) * (180 / Math.PI), (zoom / weight) * 100)
+    : sample(frame, dx, dy, 0, 0);
+}
+
+/** Parse a .trf file's contents into one sample per frame. */
+export function parseMotionTimeline(content: string): MotionSample[] {
+  const samples: MotionSample[] = [];
+  for (const raw of content.split('\n')) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#') || line.startsWith('VID.STAB')) continue;
+
+    const frameMatch = /^Frame\s+(\d+)\s+\(List\s+\d+\s+\[(.*)\]\)/.exec(line);
+    if (frameMatch) {
+      const fields = [...(frameMatch[2] ?? '').matchAll(/\(LM\s+([^)]*)\)/g)]
+        .map((m) => (m[1] ?? '').trim().split(/\s+/).map(Number))
+        .filter((f) => f.length >= 4 && f.slice(0, 4).every(Number.isFinite));
+      samples.push(fromLocalMotions(parseInt(frameMatch[1]!, 10), fields));
+      continue;
+    }
+
+    const parts = line.split(/\s+/).map(Number);
+    if (parts.length >= 3 && Number.isFinite(parts[1]) && Number.isFinite(parts[2])) {
+      const rotation = Number.isFinite(parts[3]) ? parts[3]! * (180 / Math.PI) : 0;
+      const zoom = Number.isFinite(parts[4]) ? parts[4]! : 0;
+      samples.push(sample(Number.isFinite(parts[0]) ? parts[0]! : samples.length, parts[1]!, parts[2]!, rotation, zoom));
+    }
+  }
+  return samples;
+}
+
+// ── Profile ───────────────────────────────────────────────────────────────────
+
+/** Power of a series at each frequency from 0.5 Hz up to Nyquist (plain DFT). */
+function spectrum(series: number[], fps: number): Array<{ hz: number; power: number }> {
+  const mean = series.reduce((s, v) => s + v, 0) / (series.length || 1);
+  const centered = series.map((v) => v - mean);
+  const nyquist = fps / 2;
+  const bins: Array<{ hz: number; power: number }> = [];
+  for (let hz = SPECTRUM_MIN_HZ; hz <= nyquist + 1e-9; hz += SPECTRUM_STEP_HZ) {
+    let re = 0;
+    let im = 0;
+    for (const [n, v] of centered.entries()) {
+      const phase = (2 * Math.PI * hz * n) / fps;
+      re += v * Math.cos(phase);
+      im -= v * Math.sin(phase);
+    }
+    bins.push({ hz: Math.round(hz * 100) / 100, power: re * re + im * im });
+  }
+  return bins;
+}
+
+function findJumps(
+  samples: MotionSample[],
+  fps: number,
+  thresholds: JumpThresholds,
+): { cuts: MotionJump[]; teleports: MotionJump[] } {
+  const limit = Math.max(thresholds.jumpPx, thresholds.jumpMedianMultiple * median(samples.map((s) => s.magnitude)));
+  const cuts: MotionJump[] = [];
+  const teleports: MotionJump[] = [];
+  const jump = (s: MotionSample): MotionJump => ({ frame: s.frame, seconds: s.frame / fps, magnitude: s.magnitude });
+
+  for (let i = 0; i < samples.length; i++) {
+    const s = samples[i]!;
+    if (s.magnitude <= limit) continue;
+
+    // Snapping back (opposite direction, comparable size) soon after → teleport
+    const back = samples
+      .slice(i + 1, i + 1 + TELEPORT_WINDOW)
+      .findIndex((b) => b.dx * s.dx + b.dy * s.dy < 0 && b.magnitude > limit / 2);
+    if (back >= 0) {
+      teleports.push(jump(s));
+      i += back + 1;
+    } else {
+      cuts.push(jump(s));
+    }
+  }
+  return { cuts, teleports };
+}
+
+/**
+ * Summarise a timeline: cadence (vertical sway spectrum), jumps, rotation
+ * and zoom. `fps` of 0 falls back to 30.
+ */
+export function profileMotion(
+  samples: MotionSample[],
+  fps: number,
+  thresholds: JumpThresholds,
+  cadence: CadenceBand,
+): MotionProfile {
+  const rate = fps > 0 ? fps : DEFAULT_FPS;
+  const bins = samples.length >= 2 ? spectrum(samples.map((s) => s.dy), rate) : [];
+  const total = bins.reduce((s, b) => s + b.power, 0);
+  const inBand = bins.filter((b) => b.hz >= cadence.minHz && b.hz <= cadence.maxHz).reduce((s, b) => s + b.power, 0);
+  const dominant = bins.reduce<{ hz: number; power: number } | null>((best, b) => (!best || b.power > best.power ? b : best), null);
+
+  const meanDy = samples.reduce((s, v) => s + v.dy, 0) / (samples.length || 1);
+  const swayPx = Math.sqrt(samples.reduce((s, v) => s + (v.dy - meanDy) ** 2, 0) / (samples.length || 1));
+  const absRotation = samples.map((s) => Math.abs(s.rotation));
+  const absZoom = samples.map((s) => Math.abs(s.zoom));
+  const avg = (values: number[]): number => values.reduce((s, v) => s + v, 0) / (values.length || 1);
+
+  return {
+    fps:             rate,
+    frames:          samples.length,
+    dominantHz:      dominant && dominant.power > 0 ? dominant.hz : 0,
+    cadenceStrength: total > 0 ? inBand / total : 0,
+    swayPx,
+    ...findJumps(samples, rate, thresholds),
+    rotation: { avgDeg: avg(absRotation), maxDeg: Math.max(0, ...absRotation) },
+    zoom:     { avgPct: avg(absZoom), maxPct: Math.max(0, ...absZoom) },
+  };
+}
+
+/**
+ * Shake settings for a too-stable body cam clip: keep the clip's own cadence
+ * when it has one in the walking band, and scale the sway to cover the
+ * motion deficit against `targetAvg`.
+ */
+export function shakeTuningFor(
+  profile: MotionProfile,
+  avgMotion: number,
+  targetAvg: number,
+  cadence: CadenceBand,
+): ShakeTuning {
+  const cadenceHz = profile.dominantHz >= cadence.minHz && profile.dominantHz <= cadence.maxHz
+    ? profile.dominantHz
+    : (cadence.minHz + cadence.maxHz) / 2;
+  const deficit = Math.max(0, targetAvg - avgMotion);
+  // 20% headroom so the re-check clears the threshold
+  const amplitude = Math.min(3, Math.max(0.5, (deficit * 1.2) / DEFAULT_SHAKE_PX));
+  return { cadenceHz, amplitude };
+}
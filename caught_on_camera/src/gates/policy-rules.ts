@@ -0,0 +1,261 @@
+/**
+ * Content policy rules — the block and rewrite rules behind Gate 4, read from
+ * config/policy.yaml (or POLICY_RULES_PATH) instead of code.
+ *
+ * The file is validated with zod (and every regex compiled) when it is
+ * loaded. getPolicyRules() re-checks the file's modification time on each
+ * call and reloads it when it changed; an invalid edit is logged and the last
+ * valid rules stay in force. Each load is identified by a hash of the file's
+ * content, stamped on every sanitizePrompt / runGate4 result as policyVersion.
+ */
+import * as fs from 'fs';
+import { createHash } from 'node:crypto';
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import { env } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { packagePath } from '../utils/paths.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+const SEVERITIES = ['low', 'medium', 'high', 'critical'] as const;
+
+export type PolicySeverity = (typeof SEVERITIES)[number];
+
+/** What a prompt is being sanitized for; scoped rules match on these. */
+export interface PolicyScope {
+  format?: string | undefined;
+  subType?: string | undefined;
+  category?: string | undefined;
+}
+
+export interface BlockRule {
+  /** The term, or the rule's label for a regex. */
+  label: string;
+  severity: PolicySeverity;
+  /** Regex source, matched case-insensitively. */
+  source: string;
+}
+
+export interface RewriteRule {
+  key: string;
+  source: string;
+  replacement: string;
+}
+
+interface ScopedRules {
+  when: { [K in keyof PolicyScope]?: string[] | undefined };
+  block: BlockRule[];
+  rewrite: RewriteRule[];
+}
+
+export interface PolicyRules {
+  /** Content hash of the rules file (12 hex chars). */
+  version: string;
+  revision: number;
+  file: string;
+  blockPromptAt: PolicySeverity;
+  hardFailAt: PolicySeverity;
+  block: BlockRule[];
+  rewrite: RewriteRule[];
+  scoped: ScopedRules[];
+}
+
+export class PolicyRulesError extends Error {
+  constructor(message: string, public readonly file: string) {
+    super(message);
+    this.name = 'PolicyRulesError';
+  }
+}
+
+// ── Schema ────────────────────────────────────────────────────────────────────
+
+function compiles(source: string): boolean {
+  try {
+    new RegExp(source, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** `/…/` keys are regexes; anything else is a whole-word term. */
+const regexKey = (key: string): string | null => (key.length > 2 && key.startsWith('/') && key.endsWith('/') ? key.slice(1, -1) : null);
+
+const BlockRuleSchema = z.object({
+  severity: z.enum(SEVERITIES),
+  label:    z.string().min(1).optional(),
+  terms:    z.array(z.string().min(1)).min(1).optional(),
+  regex:    z.string().min(1).refine(compiles, 'invalid regex').optional(),
+}).strict().refine((r) => (r.terms === undefined) !== (r.regex === undefined), 'give exactly one of terms or regex');
+
+const RewriteSchema = z.record(z.string().min(1)).superRefine((map, ctx) => {
+  for (const key of Object.keys(map)) {
+    const source = regexKey(key);
+    if (source !== null && !compiles(source)) ctx.addIssue({ code: 'custom', path: [key], message: 'invalid regex' });
+  }
+});
+
+const ScopeValueSchema = z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]);
+
+const ScopedSchema = z.object({
+  when: z.object({
+    format:   ScopeValueSchema.optional(),
+    subType:  ScopeValueSchema.optional(),
+    category: ScopeValueSchema.optional(),
+  }).strict().refine((w) => Object.keys(w).length > 0, 'needs at least one of format, subType, category'),
+  block:   z.array(BlockRuleSchema).default([]),
+  rewrite: RewriteSchema.default({}),
+}).strict();
+
+const PolicyFileSchema = z.object({
+  version:       z.literal(1),
+  revision:      z.number().int().positive(),
+  blockPromptAt: z.enum(SEVERITIES).default('high'),
+  review:        z.object({ hardFailAt: z.enum(SEVERITIES).default('high') }).strict().default({}),
+  block:         z.array(BlockRuleSchema).default([]),
+  rewrite:       RewriteSchema.default({}),
+  scoped:        z.array(ScopedSchema).default([]),
+}).strict();
+
+// ── Compile ───────────────────────────────────────────────────────────────────
+
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+const wordPattern = (term: string): string => `\\b${escapeRegex(term)}\\b`;
+
+function compileBlock(rules: z.infer<typeof BlockRuleSchema>[]): BlockRule[] {
+  return rules.flatMap((rule) =>
+    rule.terms
+      ? rule.terms.map((term) => ({ label: term, severity: rule.severity, source: wordPattern(term) }))
+      : [{ label: rule.label ?? rule.regex!, severity: rule.severity, source: rule.regex! }],
+  );
+}
+
+function compileRewrite(map: Record<string, string>): RewriteRule[] {
+  return Object.entries(map).map(([key, replacement]) => ({
+    key,
+    source: regexKey(key) ?? wordPattern(key),
+    replacement,
+  }));
+}
+
+const asList = (value: string | string[] | undefined): string[] | undefined =>
+  value === undefined ? undefined : Array.isArray(value) ? value : [value];
+
+// ── Load ──────────────────────────────────────────────────────────────────────
+
+/** Path of the policy rules file in use. */
+export function policyRulesPath(): string {
+  return env.POLICY_RULES_PATH ?? packagePath('config', 'policy.yaml');
+}
+
+/**
+ * Read, validate and compile a policy rules file.
+ *
+ * @throws PolicyRulesError listing every problem found.
+ */
+export function loadPolicyRules(file = policyRulesPath()): PolicyRules {
+  let content: string;
+  let raw: unknown;
+  try {
+    content = fs.readFileSync(file, 'utf-8');
+    raw = parseYaml(content);
+  } catch (err) {
+    throw new PolicyRulesError(`cannot read ${file}: ${err instanceof Error ? err.message : String(err)}`, file);
+  }
+
+  const parsed = PolicyFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`);
+    throw new PolicyRulesError(`invalid policy rules ${file} — ${issues.join('; ')}`, file);
+  }
+
+  const data = parsed.data;
+  return {
+    version:       createHash('sha256').update(content).digest('hex').slice(0, 12),
+    revision:      data.revision,
+    file,
+    blockPromptAt: data.blockPromptAt,
+    hardFailAt:    data.review.hardFailAt,
+    block:         compileBlock(data.block),
+    rewrite:       compileRewrite(data.rewrite),
+    scoped:        data.scoped.map((s) => ({
+      when: {
+        format:   asList(s.when.format),
+        subType:  asList(s.when.subType),
+        category: asList(s.when.category),
+      },
+      block:   compileBlock(s.block),
+      rewrite: compileRewrite(s.rewrite),
+    })),
+  };
+}
+
+let current: { rules: PolicyRules; mtimeMs: number } | null = null;
+
+/**
+ * The policy rules in force, reloaded when the file has changed since the
+ * last call. The first load throws on an invalid file; later invalid edits
+ * keep the previous rules.
+ */
+export function getPolicyRules(): PolicyRules {
+  const file = policyRulesPath();
+  let mtimeMs = 0;
+  try {
+    mtimeMs = fs.statSync(file).mtimeMs;
+  } catch {
+    // Missing file: loadPolicyRules reports it on first load; otherwise keep the last rules
+  }
+  if (current && current.rules.file === file && (mtimeMs === current.mtimeMs || mtimeMs === 0)) {
+    return current.rules;
+  }
+
+  try {
+    const rules = loadPolicyRules(file);
+    if (current && current.rules.version !== rules.version) {
+      logger.warn('Policy rules: reloaded', { file, from: current.rules.version, to: rules.version, revision: rules.revision });
+    } else if (!current) {
+      logger.info('Policy rules: loaded', { file, version: rules.version, revision: rules.revision });
+    }
+    current = { rules, mtimeMs };
+  } catch (err) {
+    if (!current) throw err;
+    logger.error('Policy rules: invalid edit ignored — keeping the previous rules', {
+      version: current.rules.version,
+      error:   err instanceof Error ? err.message : String(err),
+    });
+    current.mtimeMs = mtimeMs;
+  }
+  return current.rules;
+}
+
+// ── Evaluate ──────────────────────────────────────────────────────────────────
+
+export function severityAtLeast(severity: PolicySeverity | 'none', threshold: PolicySeverity): boolean {
+  return severity !== 'none' && SEVERITIES.indexOf(severity) >= SEVERITIES.indexOf(threshold);
+}
+
+export function maxSeverity(a: PolicySeverity | 'none', b: PolicySeverity): PolicySeverity {
+  return a === 'none' || SEVERITIES.indexOf(b) > SEVERITIES.indexOf(a) ? b : a;
+}
+
+function inScope(when: ScopedRules['when'], scope: PolicyScope): boolean {
+  return (Object.keys(when) as (keyof PolicyScope)[]).every((key) => {
+    const allowed = when[key];
+    const value = scope[key];
+    return allowed === undefined || (value !== undefined && allowed.includes(value));
+  });
+}
+
+/** Block and rewrite rules for a scope: the global rules plus every matching scoped set. */
+export function rulesFor(rules: PolicyRules, scope: PolicyScope): { block: BlockRule[]; rewrite: RewriteRule[] } {
+  const scoped = rules.scoped.filter((s) => inScope(s.when, scope));
+  return {
+    block:   [...rules.block, ...scoped.flatMap((s) => s.block)],
+    // Longest key first, so phrases win over the words inside them
+    rewrite: [...rules.rewrite, ...scoped.flatMap((s) => s.rewrite)].sort((a, b) => b.key.length - a.key.length),
+  };
+}
@@ -0,0 +1,394 @@
+/**
+ * Gate registry — what each gate needs, how a failure is treated, and which
+ * gates run in which order.
+ *
+ * Each gate is a GateDefinition: its number and id, declared inputs, severity
+ * (hard | soft | advisory), default remediation action, threshold schema, and
+ * the result to use if it throws. The built-in gates 1–7 are registered
+ * below; registerGate() adds more (e.g. authenticity, virality) without any
+ * change to the runner.
+ *
+ * config/gates.yaml (or GATES_CONFIG_PATH) sets the run order, enablement,
+ * severity/action overrides and thresholds. It is validated with zod against
+ * the registry at startup; required gates (face, policy, disclosure) can be neither
+ * disabled nor downgraded from hard.
+ */
+import * as fs from 'fs';
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import {
+  env,
+  MOTION_THRESHOLDS,
+  AUDIO_THRESHOLDS,
+  FACE_THRESHOLDS,
+  CROP_THRESHOLDS,
+} from '../config.js';
+import { logger } from '../utils/logger.js';
+import { packagePath } from '../utils/paths.js';
+import type { MediaAnalysis } from '../media/analysis.js';
+import { runGate1, type Gate1Result, type MotionThresholds } from './gate1-motion.js';
+import { runGate2, type Gate2Result, type FaceThresholds } from './gate2-face.js';
+import { runGate3, type Gate3Result, type AudioThresholds } from './gate3-audio.js';
+import { runGate4, type Gate4Result } from './gate4-policy.js';
+import { runGate5, type Gate5Result, type CropThresholds } from './gate5-crop.js';
+import { runGate6, type Gate6Result } from './gate6-overlay.js';
+import { runGate7, type Gate7Result } from './gate7-disclosure.js';
+import type { RemediationAction } from './remediation.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+/**
+ * hard      a failure blocks the clip permanently (unless the result says
+ *           hardFail: false, e.g. low-severity policy flags — then it is soft)
+ * soft      a failure stops the pass and requests a remediation
+ * advisory  never blocks; the result is recorded (and may transform the clip)
+ */
+export type GateSeverity = 'hard' | 'soft' | 'advisory';
+
+/**
+ * What a gate reads. `video` and `frames` gates see the output of earlier
+ * transforming gates, so they never run concurrently with one.
+ */
+export type GateInput = 'video' | 'format' | 'subType' | 'concept' | 'frames';
+
+/** Fields every gate result shares. */
+export interface GateResultBase {
+  pass: boolean;
+  hardFail?: boolean;
+  action?: string;
+  reason?: string;
+}
+
+export interface GateRunContext<T> {
+  sceneId: string;
+  videoPath: string;
+  /** Shared decode of videoPath — frames, probe, audio levels, motion transforms. */
+  media: MediaAnalysis;
+  format: 'ring_cam' | 'body_cam';
+  subType: string | undefined;
+  concept: string;
+  frameBase64Images: string[];
+  thresholds: T;
+}
+
+export interface GateDefinition<R extends GateResultBase = GateResultBase, T = unknown> {
+  /** Stable number — used in gate_runs, reports and remediation re-run points. */
+  number: number;
+  /** Key used in config/gates.yaml. */
+  id: string;
+  name: string;
+  inputs: readonly GateInput[];
+  severity: GateSeverity;
+  /** Remediation when a failed result names none. */
+  defaultAction?: RemediationAction;
+  /** Required gates cannot be disabled or downgraded from hard in config. */
+  required?: boolean;
+  /** Threshold schema; every field has a default so config may set any subset. */
+  thresholds: z.ZodType<T, z.ZodTypeDef, unknown>;
+  run(ctx: GateRunContext<T>): Promise<R>;
+  /** Result recorded when run() throws. */
+  onError(err: unknown): R;
+  /** Clip later gates should check instead, when this gate produced one (face blur). */
+  outputPath?(result: R): string | undefined;
+  /** Extra facts for the runner result (crop safety, recommended bed). */
+  annotate?(result: R): { cropSafe?: boolean };
+}
+
+/** A gate as configured for this process: definition plus resolved settings. */
+export interface ConfiguredGate {
+  definition: GateDefinition;
+  severity: GateSeverity;
+  action: RemediationAction | undefined;
+  thresholds: unknown;
+}
+
+export class GateConfigError extends Error {
+  constructor(message: string, public readonly file: string) {
+    super(message);
+    this.name = 'GateConfigError';
+  }
+}
+
+// ── Registry ──────────────────────────────────────────────────────────────────
+
+const registry = new Map<string, GateDefinition>();
+
+/** Validated config, cached by getConfiguredGates(); reset when a gate is registered. */
+let configured: ConfiguredGate[] | null = null;
+
+/** Register a gate. Ids and numbers must be unique. */
+export function registerGate<R extends GateResultBase, T>(definition: GateDefinition<R, T>): void {
+  const clash = [...registry.values()].find((g) => g.id === definition.id || g.number === definition.number);
+  if (clash) {
+    throw new Error(`Gate registry: gate ${definition.number} (${definition.id}) clashes with gate ${clash.number} (${clash.id})`);
+  }
+  registry.set(definition.id, definition as unknown as GateDefinition);
+  configured = null;
+}
+
+/** The result of gate `gate` held in a runner result (`gate<N>` key), if any. */
+export function gateResultOf(result: object, gate: number): GateResultBase | undefined {
+  return (result as Record<string, GateResultBase | undefined>)[`gate${gate}`];
+}
+
+/** All registered gates, by number. */
+export function listGates(): GateDefinition[] {
+  return [...registry.values()].sort((a, b) => a.number - b.number);
+}
+
+// ── Built-in gates ────────────────────────────────────────────────────────────
+
+registerGate<Gate1Result, MotionThresholds>({
+  number:        1,
+  id:            'motion',
+  name:          'Motion analysis',
+  inputs:        ['video', 'format'],
+  severity:      'soft',
+  defaultAction: 'regenerate',
+  thresholds:    z.object({
+    ringCam: z.object({
+      maxAvg:         z.number().nonnegative().default(MOTION_THRESHOLDS.ringCam.maxAvg),
+      maxSpike:       z.number().nonnegative().default(MOTION_THRESHOLDS.ringCam.maxSpike),
+      jumpPx:         z.number().positive().default(MOTION_THRESHOLDS.ringCam.jumpPx),
+      maxRotationDeg: z.number().nonnegative().default(MOTION_THRESHOLDS.ringCam.maxRotationDeg),
+      maxZoomPct:     z.number().nonnegative().default(MOTION_THRESHOLDS.ringCam.maxZoomPct),
+    }).strict().default({}),
+    bodyCam: z.object({
+      minAvg:             z.number().nonnegative().default(MOTION_THRESHOLDS.bodyCam.minAvg),
+      jumpPx:             z.number().positive().default(MOTION_THRESHOLDS.bodyCam.jumpPx),
+      cadenceMinHz:       z.number().positive().default(MOTION_THRESHOLDS.bodyCam.cadenceMinHz),
+      cadenceMaxHz:       z.number().positive().default(MOTION_THRESHOLDS.bodyCam.cadenceMaxHz),
+      minCadenceStrength: z.number().min(0).max(1).default(MOTION_THRESHOLDS.bodyCam.minCadenceStrength),
+    }).strict().default({}),
+    jumpMedianMultiple: z.number().positive().default(MOTION_THRESHOLDS.jumpMedianMultiple),
+  }).strict().default({}),
+  run:     (ctx) => runGate1(ctx.media, ctx.format, ctx.thresholds),
+  onError: () => ({ pass: false, avgMotion: 0, maxMotion: 0, action: 'regenerate', reason: 'gate1 threw an error' }),
+});
+
+registerGate<Gate2Result, FaceThresholds>({
+  number:     2,
+  id:         'face',
+  name:       'Face detection',
+  inputs:     ['video'],
+  severity:   'hard',
+  required:   true,
+  thresholds: z.object({
+    minConfidence: z.number().min(0).max(1).default(FACE_THRESHOLDS.minConfidence),
+  }).strict().default({}),
+  run:        (ctx) => runGate2(ctx.media, ctx.thresholds),
+  // A clip no detector checked may show real faces — never publish it unblurred
+  onError:    () => ({ pass: false, hardFail: true, facesDetected: 0, framesWithFaces: 0, blurred: false, reason: 'gate2 threw an error' }),
+  outputPath: (result) => result.blurredVideoPath,
+});
+
+/** Gate 3 limits shared by both formats, defaulting to that format's AUDIO_THRESHOLDS. */
+function audioLimits(defaults: (typeof AUDIO_THRESHOLDS)['ringCam' | 'bodyCam']) {
+  return {
+    minLufs:         z.number().default(defaults.minLufs),
+    maxLufs:         z.number().default(defaults.maxLufs),
+    maxTruePeakDb:   z.number().default(defaults.maxTruePeakDb),
+    maxClippedRatio: z.number().min(0).max(1).default(defaults.maxClippedRatio),
+    maxSilenceRatio: z.number().min(0).max(1).default(defaults.maxSilenceRatio),
+    maxSilenceSec:   z.number().nonnegative().default(defaults.maxSilenceSec),
+    maxSpeechRatio:  z.number().min(0).max(1).default(defaults.maxSpeechRatio),
+  };
+}
+
+registerGate<Gate3Result, AudioThresholds>({
+  number:        3,
+  id:            'audio',
+  name:          'Audio validation',
+  inputs:        ['video', 'format', 'subType'],
+  severity:      'soft',
+  defaultAction: 'regenerate',
+  thresholds:    z.object({
+    silenceDb: z.number().default(AUDIO_THRESHOLDS.silenceDb),
+    ringCam:   z.object({
+      maxMeanDb: z.number().default(AUDIO_THRESHOLDS.ringCam.maxMeanDb),
+      ...audioLimits(AUDIO_THRESHOLDS.ringCam),
+    }).strict().default({}),
+    bodyCam:   z.object({
+      minMeanDb: z.number().default(AUDIO_THRESHOLDS.bodyCam.minMeanDb),
+      ...audioLimits(AUDIO_THRESHOLDS.bodyCam),
+    }).strict().default({}),
+  }).strict().default({}),
+  run:      (ctx) => runGate3(ctx.media, ctx.format, ctx.subType, ctx.thresholds),
+  onError:  () => ({ pass: false, meanVolume: -99, action: 'regenerate', reason: 'gate3 threw an error' }),
+});
+
+registerGate<Gate4Result, Record<string, never>>({
+  number:        4,
+  id:            'policy',
+  name:          'Content policy',
+  inputs:        ['video', 'format', 'concept', 'frames'],
+  severity:      'hard',
+  defaultAction: 'regenerate',
+  required:      true,
+  thresholds:    z.object({}).strict().default({}),
+  run:     (ctx) => runGate4(ctx.videoPath, ctx.format, ctx.concept, ctx.frameBase64Images),
+  // Treated as a hard fail for safety
+  onError: () => ({ pass: false, hardFail: true, severity: 'high', flags: ['gate4_error'], reason: 'gate4 threw an error' }),
+});
+
+registerGate<Gate5Result, CropThresholds>({
+  number:     5,
+  id:         'crop',
+  name:       'Crop safety',
+  inputs:     ['video', 'format'],
+  severity:   'advisory',
+  thresholds: z.object({
+    maxOffCenter: z.number().min(0).max(1).default(CROP_THRESHOLDS.maxOffCenter),
+  }).strict().default({}),
+  run:      (ctx) => runGate5(ctx.media, ctx.format, ctx.thresholds),
+  onError:  () => ({ pass: true, cropSafe: true, recommendation: 'all_platforms' }),
+  annotate: (result) => ({ cropSafe: result.cropSafe }),
+});
+
+registerGate<Gate6Result, Record<string, never>>({
+  number:        6,
+  id:            'overlay',
+  name:          'Overlay quality',
+  inputs:        ['video', 'format'],
+  severity:      'soft',
+  defaultAction: 'retry_overlay',
+  thresholds:    z.object({}).strict().default({}),
+  run:     (ctx) => runGate6(ctx.media, ctx.format),
+  onError: () => ({
+    pass: false, overlayDetected: false, timestampReadable: false, formatCorrect: false, reason: 'gate6 threw an error',
+  }),
+});
+
+registerGate<Gate7Result, Record<string, never>>({
+  number:     7,
+  id:         'disclosure',
+  name:       'AI disclosure watermark',
+  inputs:     ['video'],
+  severity:   'hard',
+  required:   true,
+  thresholds: z.object({}).strict().default({}),
+  run:        (ctx) => runGate7(ctx.media),
+  onError:    () => ({ pass: false, hardFail: true, watermarkDetected: false }),
+});
+
+// ── Stages ────────────────────────────────────────────────────────────────────
+
+/**
+ * Split gates (in run order) into stages that can run concurrently. A stage
+ * ends after a transforming gate (one with outputPath) when the next gate
+ * reads the video or frames, since it must see the transformed clip.
+ */
+export function gateStages(gates: ConfiguredGate[]): ConfiguredGate[][] {
+  const stages: ConfiguredGate[][] = [];
+  let current: ConfiguredGate[] = [];
+  for (const gate of gates) {
+    const readsClip = gate.definition.inputs.some((input) => input === 'video' || input === 'frames');
+    if (readsClip && current.some((g) => g.definition.outputPath)) {
+      stages.push(current);
+      current = [];
+    }
+    current.push(gate);
+  }
+  if (current.length) stages.push(current);
+  return stages;
+}
+
+// ── Config file ───────────────────────────────────────────────────────────────
+
+const ACTIONS = ['add_shake', 'mix_bed', 'replace_audio', 'retry_overlay', 'regenerate'] as const;
+
+const GateEntrySchema = z.object({
+  id:         z.string().min(1),
+  enabled:    z.boolean().default(true),
+  severity:   z.enum(['hard', 'soft', 'advisory']).optional(),
+  action:     z.enum(ACTIONS).optional(),
+  thresholds: z.record(z.unknown()).optional(),
+}).strict();
+
+const GateConfigSchema = z.object({
+  version: z.literal(1),
+  gates:   z.array(GateEntrySchema).min(1),
+}).strict();
+
+/** Path of the gate config file in use. */
+export function gateConfigPath(): string {
+  return env.GATES_CONFIG_PATH ?? packagePath('config', 'gates.yaml');
+}
+
+/**
+ * Read and validate a gate config file against the registry.
+ * Returns the enabled gates in run order.
+ *
+ * @throws GateConfigError listing every problem found.
+ */
+export function loadGateConfig(file = gateConfigPath()): ConfiguredGate[] {
+  let raw: unknown;
+  try {
+    raw = parseYaml(fs.readFileSync(file, 'utf-8'));
+  } catch (err) {
+    throw new GateConfigError(`cannot read ${file}: ${err instanceof Error ? err.message : String(err)}`, file);
+  }
+
+  const parsed = GateConfigSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`);
+    throw new GateConfigError(`invalid gate config ${file} — ${issues.join('; ')}`, file);
+  }
+
+  const problems: string[] = [];
+  const gates: ConfiguredGate[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of parsed.data.gates) {
+    const definition = registry.get(entry.id);
+    if (!definition) {
+      problems.push(`unknown gate "${entry.id}" (registered: ${listGates().map((g) => g.id).join(', ')})`);
+      continue;
+    }
+    if (seen.has(entry.id)) {
+      problems.push(`gate "${entry.id}" is listed twice`);
+      continue;
+    }
+    seen.add(entry.id);
+
+    const severity = entry.severity ?? definition.severity;
+    if (definition.required && (!entry.enabled || severity !== 'hard')) {
+      problems.push(`gate "${entry.id}" is required: it cannot be disabled or made ${severity}`);
+      continue;
+    }
+
+    const thresholds = definition.thresholds.safeParse(entry.thresholds ?? {});
+    if (!thresholds.success) {
+      const issues = thresholds.error.issues.map((i) => `${i.path.join('.') || i.message}: ${i.message}`);
+      problems.push(`gate "${entry.id}" thresholds — ${issues.join(', ')}`);
+      continue;
+    }
+
+    if (entry.enabled) {
+      gates.push({ definition, severity, action: entry.action ?? definition.defaultAction, thresholds: thresholds.data });
+    }
+  }
+
+  for (const definition of registry.values()) {
+    if (definition.required && !seen.has(definition.id)) {
+      problems.push(`required gate "${definition.id}" is missing`);
+    }
+  }
+
+  if (problems.length) {
+    throw new GateConfigError(`invalid gate config ${file} — ${problems.join('; ')}`, file);
+  }
+  return gates;
+}
+
+/** The validated gate config, loaded once per process (call at startup to fail fast). */
+export function getConfiguredGates(): ConfiguredGate[] {
+  if (!configured) {
+    configured = loadGateConfig();
+    logger.info('Gate registry: config loaded', {
+      file:  gateConfigPath(),
+      order: configured.map((g) => `${g.definition.number}:${g.definition.id}`),
+    });
+  }
+  return configured;
+}
@@ -0,0 +1,144 @@
+/**
+ * Remediation engine — runs the gate suite, applies the fix for whichever
+ * soft gate failed, and re-runs only the gates the fix could have affected.
+ *
+ * The engine is pipeline-agnostic: callers supply the gate runner and one
+ * handler per action (the producer wires shake injection, bed mixing,
+ * overlay re-render and Veo regeneration). Every remediation counts against
+ * a per-action budget; the loop stops when the gates pass, a hard-fail gate
+ * trips, an action has no handler, a handler cannot apply, or a budget runs out.
+ */
+import { logger } from '../utils/logger.js';
+import { gateResultOf } from './registry.js';
+import type { GateNumber, GateRunnerResult } from './index.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type RemediationAction = 'add_shake' | 'mix_bed' | 'replace_audio' | 'retry_overlay' | 'regenerate';
+
+/**
+ * Apply one remediation. Receives the clip the failing pass ran on and that
+ * pass's result; returns the remediated clip, or null when it cannot act
+ * (e.g. no audio bed for the sub-type), which ends the loop.
+ */
+export type RemediationHandler = (videoPath: string, result: GateRunnerResult) => Promise<string | null>;
+
+/** Runs the gate suite from gate `from`, reusing earlier results from `previous`. */
+export type GateSuiteRunner = (
+  videoPath: string,
+  from: GateNumber,
+  previous: GateRunnerResult | null,
+) => Promise<GateRunnerResult>;
+
+export interface RemediationOutcome {
+  /** Result of the last gate pass. */
+  result: GateRunnerResult;
+  /** Number of gate passes run (1 + remediations applied). */
+  passes: number;
+  remediations: RemediationAction[];
+  /** One `gateN:reason` entry per failed pass. */
+  failures: string[];
+  /** Why the loop gave up on a soft failure; null when it passed or hard-failed. */
+  stopReason: string | null;
+}
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+/**
+ * First gate to re-run after each remediation. Gates before it cannot have
+ * been affected and keep their result:
+ *   add_shake / regenerate  change the picture → everything from motion on
+ *   retry_overlay           re-renders the composite, dropping gate 2's blur
+ *   mix_bed / replace_audio only touch the audio track
+ */
+export const RERUN_FROM: Record<RemediationAction, GateNumber> = {
+  add_shake:     1,
+  regenerate:    1,
+  retry_overlay: 2,
+  mix_bed:       3,
+  replace_audio: 3,
+};
+
+// ── Helpers ───────────────────────────────────────────────────────────────────
+
+/**
+ * The gate that stopped a failed pass, or null. Uses the runner's
+ * `failedGate` when set, else the highest-numbered failing gate result.
+ */
+export function failedGate(result: GateRunnerResult): { gate: GateNumber; reason: string } | null {
+  const gates = result.failedGate !== undefined
+    ? [result.failedGate]
+    : Object.keys(result)
+      .map((key) => /^gate(\d+)$/.exec(key)?.[1])
+      .filter((n): n is string => n !== undefined)
+      .map(Number)
+      .sort((a, b) => b - a);
+  for (const gate of gates) {
+    const gateResult = gateResultOf(result, gate);
+    if (gateResult && !gateResult.pass) {
+      return { gate, reason: gateResult.reason ?? result.action ?? 'failed' };
+    }
+  }
+  return null;
+}
+
+function isAction(value: string | undefined): value is RemediationAction {
+  return value !== undefined && value in RERUN_FROM;
+}
+
+// ── Engine ────────────────────────────────────────────────────────────────────
+
+/**
+ * Run the gates on `videoPath`, remediating soft failures until they pass.
+ * A soft failure without an action (e.g. medium-severity policy flags) is
+ * treated as `regenerate`.
+ *
+ * @param params.videoPath  Clip to gate.
+ * @param params.runGates   Gate suite runner (normally a wrapper around runAllGates).
+ * @param params.handlers   Handler per action; actions without one end the loop.
+ * @param params.budget     Maximum applications of each action.
+ */
+export async function runGatesWithRemediation(params: {
+  videoPath: string;
+  runGates: GateSuiteRunner;
+  handlers: Partial<Record<RemediationAction, RemediationHandler>>;
+  budget: Record<RemediationAction, number>;
+}): Promise<RemediationOutcome> {
+  const { runGates, handlers, budget } = params;
+  const used: Partial<Record<RemediationAction, number>> = {};
+  const remediations: RemediationAction[] = [];
+  const failures: string[] = [];
+
+  let videoPath = params.videoPath;
+  let from: GateNumber = 1;
+  let previous: GateRunnerResult | null = null;
+  let passes = 0;
+
+  for (;;) {
+    passes++;
+    const result = await runGates(videoPath, from, previous);
+    const outcome = { result, passes, remediations, failures };
+    if (result.pass) return { ...outcome, stopReason: null };
+
+    const failed = failedGate(result);
+    failures.push(failed ? `gate${failed.gate}:${failed.reason}` : `gates:${result.action ?? 'failed'}`);
+    if (result.hardFail) return { ...outcome, stopReason: null };
+
+    const action: RemediationAction = isAction(result.action) ? result.action : 'regenerate';
+    const handler = handlers[action];
+    if (!handler) return { ...outcome, stopReason: `no remediation for ${action}` };
+    if ((used[action] ?? 0) >= budget[action]) {
+      return { ...outcome, stopReason: `${action} budget of ${budget[action]} exhausted` };
+    }
+
+    used[action] = (used[action] ?? 0) + 1;
+    logger.info('Remediation: applying', { action, attempt: used[action], budget: budget[action], gate: failed?.gate });
+    const remediated = await handler(result.videoPath, result);
+    if (!remediated) return { ...outcome, stopReason: `${action} could not be applied` };
+
+    remediations.push(action);
+    videoPath = remediated;
+    from = RERUN_FROM[action];
+    previous = result;
+  }
+}
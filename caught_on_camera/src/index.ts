@@ -8,54 +8,79 @@
  */
 import cron from 'node-cron';
 import { logger } from './utils/logger.js';
-import { runDailyPipeline, runIdeators, runAnalytics } from './pipeline/index.js';
-import { handleTelegramCommand, sendAlert } from './monitoring/telegram.js';
-import { env } from './config.js';
+import { runDailyPipeline, runIdeators, runAnalytics, resumeRun, planDay } from './pipeline/index.js';
+import {
+  handleOperatorMessage,
+  handleTelegramCallback,
+  sendAlert,
+  type TelegramCallbackQuery,
+  type TelegramMessage,
+} from './monitoring/telegram.js';
+import { validateOperators } from './monitoring/operators.js';
+import { env, SANDBOX, validateFormatSchedule } from './config.js';
+import { runJanitor } from './media/janitor.js';
+import { getConfiguredGates } from './gates/registry.js';
+import { getPolicyRules } from './gates/policy-rules.js';
+import { getSensitivityCalendar } from './monitoring/sensitivity-calendar.js';
+import { pausedFor, formatUntil, type PauseScope } from './monitoring/pipeline-control.js';
+import { getGateReport, formatGateReport, DEFAULT_REPORT_DAYS } from './monitoring/gate-report.js';
+import { prepareSandbox } from './providers/sandbox/index.js';
+import { drainSandboxInbox, sandboxTelegramCall } from './providers/sandbox/telegram.js';
 
 // ── Telegram long-poll ────────────────────────────────────────────────────────
 
 let lastUpdateId = 0;
 
-async function pollTelegramCommands(): Promise<void> {
-  try {
-    const url =
-      `https://api.telegram.org/bot${env.TELEGRAM_BOT_TOKEN}/getUpdates` +
-      `?offset=${lastUpdateId + 1}&timeout=30&allowed_updates=["message"]`;
+interface TelegramUpdate {
+  update_id: number;
+  message?: TelegramMessage;
+  callback_query?: TelegramCallbackQuery;
+}
 
-    const res = await fetch(url);
-    if (!res.ok) return;
+/** Fetch pending updates — from the Bot API, or the inbox file in sandbox mode. */
+async function fetchUpdates(): Promise<TelegramUpdate[]> {
+  if (SANDBOX) return drainSandboxInbox<Omit<TelegramUpdate, 'update_id'>>(lastUpdateId);
 
-    const json = await res.json() as {
-      ok: boolean;
-      result: Array<{
-        update_id: number;
-        message?: { text?: string; chat?: { id: number } };
-      }>;
-    };
+  const url =
+    `https://api.telegram.org/bot${env.TELEGRAM_BOT_TOKEN}/getUpdates` +
+    `?offset=${lastUpdateId + 1}&timeout=30&allowed_updates=["message","callback_query"]`;
 
-    if (!json.ok) return;
+  const res = await fetch(url);
+  if (!res.ok) return [];
 
-    for (const update of json.result) {
+  const json = await res.json() as { ok: boolean; result: TelegramUpdate[] };
+  return json.ok ? json.result : [];
+}
+
+async function sendReply(text: string): Promise<void> {
+  const body = { chat_id: env.TELEGRAM_CHAT_ID, text, parse_mode: 'HTML' };
+  if (SANDBOX) {
+    sandboxTelegramCall('sendMessage', body);
+    return;
+  }
+  await fetch(`https://api.telegram.org/bot${env.TELEGRAM_BOT_TOKEN}/sendMessage`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+  });
+}
+
+async function pollTelegramCommands(): Promise<void> {
+  try {
+    for (const update of await fetchUpdates()) {
       lastUpdateId = update.update_id;
-      const text = update.message?.text?.trim();
-      if (!text?.startsWith('/')) continue;
-
-      logger.info('Telegram: received command', { text });
-      try {
-        const reply = await handleTelegramCommand(text);
-        // Send reply via Telegram sendMessage
-        await fetch(`https://api.telegram.org/bot${env.TELEGRAM_BOT_TOKEN}/sendMessage`, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            chat_id:    env.TELEGRAM_CHAT_ID,
-            text:       reply,
-            parse_mode: 'HTML',
-          }),
-        });
-      } catch (err) {
-        logger.error('Telegram: command handler error', { text, err });
+
+      // Inline keyboard button presses (operator choice, review actions, …)
+      if (update.callback_query) {
+        logger.info('Telegram: received callback', { data: update.callback_query.data });
+        await handleTelegramCallback(update.callback_query);
+        continue;
       }
+
+      if (!update.message) continue;
+      // Checks the sender's role and writes operator_audit_log
+      const reply = await handleOperatorMessage(update.message);
+      if (reply !== null) await sendReply(reply);
     }
   } catch (err) {
     logger.warn('Telegram: poll failed (will retry)', { err });
@@ -64,10 +89,32 @@ async function pollTelegramCommands(): Promise<void> {
 
 // ── Cron schedules ────────────────────────────────────────────────────────────
 
+/** True (and logged) when an operator has paused the stage a cron job belongs to. */
+async function isPaused(scope: PauseScope, job: string): Promise<boolean> {
+  const pause = await pausedFor(scope).catch((err) => {
+    logger.error('Cron: could not read pipeline pauses — running anyway', { job, err });
+    return null;
+  });
+  if (!pause) return false;
+  logger.info(`Cron: ${scope} paused — skipping ${job}`, { reason: pause.reason, until: formatUntil(pause.until) });
+  return true;
+}
+
 function startCron(): void {
-  // Main pipeline: run every hour during production window (8am–10pm UTC)
-  // The pipeline itself has budget and buffer gates to prevent over-generation
+  // Production planner: decide today's slots before the production window opens
+  cron.schedule('0 7 * * *', async () => {
+    if (await isPaused('generation', 'production planner')) return;
+    logger.info('Cron: triggering production planner');
+    await planDay().catch((err) => {
+      logger.error('Cron: planner error', { err });
+      void sendAlert(`Production planner error: ${String(err)}`, 'warning');
+    });
+  });
+
+  // Main pipeline: run every hour during production window (8am–10pm UTC,
+  // see PRODUCTION_WINDOW). Each tick produces its share of today's plan.
   cron.schedule('0 8-22 * * *', async () => {
+    if (await isPaused('generation', 'daily pipeline')) return;
     logger.info('Cron: triggering daily pipeline');
     await runDailyPipeline().catch((err) => {
       logger.error('Cron: pipeline error', { err });
@@ -77,12 +124,22 @@ function startCron(): void {
 
   // Ideators: run once daily at 6am UTC to keep idea queues topped up
   cron.schedule('0 6 * * *', async () => {
+    if (await isPaused('ideation', 'ideators')) return;
     logger.info('Cron: triggering ideators');
     await runIdeators().catch((err) => {
       logger.error('Cron: ideator error', { err });
     });
   });
 
+  // Retention janitor: purge temp files, expired clips and CDN assets at 3am UTC
+  cron.schedule('0 3 * * *', async () => {
+    logger.info('Cron: triggering retention janitor');
+    await runJanitor().catch((err) => {
+      logger.error('Cron: janitor error', { err });
+      void sendAlert(`Retention janitor error: ${String(err)}`, 'warning');
+    });
+  });
+
   // Analytics: run once daily at midnight UTC
   cron.schedule('0 0 * * *', async () => {
     logger.info('Cron: triggering analytics');
@@ -112,17 +169,38 @@ function startTelegramPolling(): void {
 
 // ── CLI entrypoint ────────────────────────────────────────────────────────────
 
-const [,, command] = process.argv;
+const [,, command, ...args] = process.argv;
 
 async function main(): Promise<void> {
   logger.info('Caught on Camera: starting', { command: command ?? 'server' });
 
+  // Fail fast on a bad FORMAT_SCHEDULE override (unknown format/category)
+  validateFormatSchedule();
+  // …and on a bad config/gates.yaml (unknown gate, required gate disabled, bad thresholds)
+  getConfiguredGates();
+  // …and on bad config/policy.yaml content policy rules
+  getPolicyRules();
+  // …and on a bad config/sensitivity.yaml calendar
+  getSensitivityCalendar();
+  // …and on a bad TELEGRAM_OPERATORS allowlist
+  validateOperators();
+
+  // Sandbox mode: generate local overlay templates + audio beds before any run
+  if (SANDBOX) await prepareSandbox();
+
   switch (command) {
     case 'run':
       // Single pipeline run (for manual invocation / testing)
       await runDailyPipeline();
       break;
 
+    case 'plan': {
+      // Create (or show) today's production plan
+      const plan = await planDay();
+      logger.info('Production plan', { date: plan.plan_date, slots: plan.slots });
+      break;
+    }
+
     case 'ideate':
       // Single ideator run
       await runIdeators();
@@ -133,6 +211,41 @@ async function main(): Promise<void> {
       await runAnalytics();
       break;
 
+    case 'janitor': {
+      // Retention sweep: janitor [--dry-run]
+      const report = await runJanitor({ dryRun: args.includes('--dry-run') });
+      for (const item of report.items) {
+        logger.info(`Janitor: ${report.dryRun ? 'would remove' : 'removed'} ${item.category}`, {
+          target: item.target,
+          bytes:  item.bytes,
+        });
+      }
+      if (report.errors.length) logger.error('Janitor: some items could not be removed', { errors: report.errors });
+      break;
+    }
+
+    case 'gates': {
+      // Gate analytics report: gates [days]
+      const days = Number(args[0] ?? DEFAULT_REPORT_DAYS);
+      if (!Number.isInteger(days) || days < 1) {
+        logger.error('Usage: gates [days]');
+        process.exit(1);
+      }
+      process.stdout.write(`${formatGateReport(await getGateReport(days))}\n`);
+      break;
+    }
+
+    case 'resume': {
+      // Resume a checkpointed production run: resume <runId>
+      const runId = args[0];
+      if (!runId) {
+        logger.error('Usage: resume <runId>');
+        process.exit(1);
+      }
+      await resumeRun(runId);
+      break;
+    }
+
     case undefined:
     case 'server':
     default:
@@ -153,4 +266,4 @@ main().catch((err) => {
 
 // ── Exports for skill integration ─────────────────────────────────────────────
 
-export { runDailyPipeline, runIdeators, runAnalytics };
+export { runDailyPipeline, runIdeators, runAnalytics, resumeRun, planDay, runJanitor, getGateReport };
@@ -0,0 +1,124 @@
+/**
+ * Ambient audio replacement — builds the track that replaces a clip's audio
+ * when Gate 3 asks for replace_audio (distorted, too loud, or narrated).
+ *
+ * The ambience is chosen from the idea's audio_notes (keywords such as
+ * "crickets", "rain", "traffic") and falls back to its time_of_day. A
+ * recorded track under <AUDIO_BEDS_PATH>/ambient/ is used when one matches
+ * (e.g. ambient/crickets_01.mp3), looped with crossfades to the clip length;
+ * otherwise the ambience is synthesized with lavfi. Either way the result is
+ * normalised to the format's loudness window before it is swapped in.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../utils/logger.js';
+import { tempPath } from '../utils/temp.js';
+import { loopAudio, normalizeLoudness, synthesizeAudio } from './ffmpeg.js';
+
+// ── Types ──────────────────────────────────────────────────────────────────────
+
+export type Ambience = 'crickets' | 'rain' | 'traffic' | 'wind' | 'birds' | 'room_tone';
+
+export interface AmbientTrack {
+  path: string;
+  ambience: Ambience;
+  /** Recorded file from the library, or null when synthesized. */
+  sourcePath: string | null;
+}
+
+export interface AmbientRequest {
+  timeOfDay: string;
+  audioNotes: string | null;
+  durationSeconds: number;
+  /** Integrated loudness to normalise to, LUFS. */
+  targetLufs: number;
+  truePeakDb: number;
+  /** Directory holding the audio beds (its ambient/ subdirectory is searched). */
+  bedDir: string;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────────
+
+const CROSSFADE_SECONDS = 1.5;
+
+/** audio_notes keywords per ambience, checked in this order. */
+const KEYWORDS: Array<[Ambience, RegExp]> = [
+  ['rain',      /\b(rain(ing|fall|y)?|drizzle|storm|thunder|downpour)\b/i],
+  ['traffic',   /\b(traffic|cars?|roads?|highway|street|engines?|sirens?)\b/i],
+  ['wind',      /\b(wind(y)?|gusts?|breeze|howling)\b/i],
+  ['crickets',  /\b(crickets?|insects?|cicadas?|frogs?|night sounds)\b/i],
+  ['birds',     /\b(birds?|chirp(ing)?|birdsong|dawn chorus)\b/i],
+  ['room_tone', /\b(indoors?|hallway|garage|room|hum)\b/i],
+];
+
+const BY_TIME_OF_DAY: Record<string, Ambience> = {
+  dawn:      'birds',
+  morning:   'birds',
+  afternoon: 'traffic',
+  dusk:      'crickets',
+  night:     'crickets',
+};
+
+/** lavfi source graphs (a single chain, or chains ending in [out0]). */
+const SYNTH: Record<Ambience, string> = {
+  crickets:
+    'anoisesrc=color=brown:amplitude=0.03,lowpass=f=500[bg];' +
+    'sine=frequency=4400,tremolo=f=28:d=0.95,tremolo=f=0.7:d=0.8,volume=0.05[chirp];' +
+    '[bg][chirp]amix=inputs=2:normalize=0[out0]',
+  rain:      'anoisesrc=color=pink:amplitude=0.15,highpass=f=300,lowpass=f=9000',
+  traffic:   'anoisesrc=color=brown:amplitude=0.2,lowpass=f=450,tremolo=f=0.08:d=0.6',
+  wind:      'anoisesrc=color=brown:amplitude=0.25,bandpass=f=350:width_type=h:w=400,tremolo=f=0.15:d=0.7',
+  birds:
+    'anoisesrc=color=pink:amplitude=0.02,lowpass=f=2000[bg];' +
+    'sine=frequency=3100,tremolo=f=14:d=1,tremolo=f=0.25:d=0.95,volume=0.04[song];' +
+    '[bg][song]amix=inputs=2:normalize=0[out0]',
+  room_tone: 'anoisesrc=color=brown:amplitude=0.04,lowpass=f=180',
+};
+
+// ── Selection ──────────────────────────────────────────────────────────────────
+
+/** The ambience an idea calls for: audio_notes keywords first, then time of day. */
+export function chooseAmbience(timeOfDay: string, audioNotes: string | null): Ambience {
+  const fromNotes = audioNotes ? KEYWORDS.find(([, pattern]) => pattern.test(audioNotes))?.[0] : undefined;
+  return fromNotes ?? BY_TIME_OF_DAY[timeOfDay.toLowerCase()] ?? 'room_tone';
+}
+
+/** A recorded track for the ambience (ambient/<ambience>*.mp3|wav), or null. */
+export function findAmbientFile(bedDir: string, ambience: Ambience): string | null {
+  const dir = path.join(bedDir, 'ambient');
+  if (!fs.existsSync(dir)) return null;
+  const match = fs
+    .readdirSync(dir)
+    .filter((f) => f.startsWith(ambience) && /\.(mp3|wav)$/i.test(f))
+    .sort()[0];
+  return match ? path.join(dir, match) : null;
+}
+
+// ── Build ──────────────────────────────────────────────────────────────────────
+
+/** Render the replacement track for one clip, normalised and exactly clip-length. */
+export async function buildAmbientTrack(request: AmbientRequest): Promise<AmbientTrack> {
+  const ambience = chooseAmbience(request.timeOfDay, request.audioNotes);
+  const sourcePath = findAmbientFile(request.bedDir, ambience);
+  logger.info('Ambient: building replacement track', {
+    ambience,
+    source:          sourcePath ?? 'synth',
+    durationSeconds: request.durationSeconds,
+    targetLufs:      request.targetLufs,
+  });
+
+  const rawPath = tempPath(`ambient_${ambience}`, 'wav');
+  if (sourcePath) {
+    await loopAudio(sourcePath, request.durationSeconds, CROSSFADE_SECONDS, rawPath);
+  } else {
+    await synthesizeAudio(SYNTH[ambience], request.durationSeconds, rawPath);
+  }
+
+  const outputPath = tempPath(`ambient_${ambience}_norm`, 'wav');
+  try {
+    await normalizeLoudness(rawPath, request.targetLufs, request.truePeakDb, outputPath);
+  } finally {
+    fs.rmSync(rawPath, { force: true });
+  }
+  return { path: outputPath, ambience, sourcePath };
+}
@@ -0,0 +1,357 @@
+/**
+ * Per-clip media analysis — decodes a clip once and serves what the gates
+ * need from it: ffprobe metadata, frame sets, vidstab motion transforms and
+ * audio measurements (levels, EBU R128 loudness, clipping, silences and a
+ * voice-band envelope).
+ *
+ * The first request triggers a single ffmpeg pass that writes every frame
+ * set, the .trf file and the audio measurements into this analysis's own
+ * directory under TEMP_DIR, so concurrent runs (and concurrent gates) never
+ * share a scratch path. Call dispose() when the gates are done with the clip.
+ */
+import { execSync } from 'child_process';
+import * as fs from 'fs';
+import * as path from 'path';
+import { logger } from '../utils/logger.js';
+import { tempDir } from '../utils/temp.js';
+
+// ── Constants ──────────────────────────────────────────────────────────────────
+
+/** Every Nth frame goes into the `sample` set (face detection). */
+export const SAMPLE_FRAME_INTERVAL = 5;
+/** Frame rate of the `timed` set (crop safety — one frame every 2 s). */
+export const TIMED_FRAME_FPS = 0.5;
+/** Size of the evenly-spaced `keyframes` set (content policy review). */
+export const KEYFRAME_COUNT = 5;
+/** silencedetect floor and minimum gap length. */
+export const SILENCE_NOISE_DB = -50;
+export const SILENCE_MIN_SEC = 0.3;
+/** Window of the voice-band (300–3400 Hz) envelope, seconds. */
+export const VOICE_WINDOW_SEC = 0.05;
+/** Samples at or above this level count as clipped. */
+const CLIP_LEVEL_DB = -0.1;
+
+// ── Types ──────────────────────────────────────────────────────────────────────
+
+export interface MediaProbe {
+  duration: number;
+  width: number;
+  height: number;
+  fps: number;
+  frameCount: number;
+  hasAudio: boolean;
+}
+
+/** Extracted JPEG frames (absolute paths), by purpose. */
+export interface FrameSets {
+  sample: string[];
+  timed: string[];
+  keyframes: string[];
+  first: string | null;
+  last: string | null;
+}
+
+export interface AudioStats {
+  meanVolume: number;
+  maxVolume: number;
+  /** EBU R128 integrated loudness, LUFS. */
+  integratedLufs: number;
+  /** True peak, dBFS. */
+  truePeakDb: number;
+  /** Share of samples at full scale. */
+  clippedRatio: number;
+  /** Gaps below SILENCE_NOISE_DB, seconds from the start of the clip. */
+  silences: Array<{ start: number; end: number }>;
+  /** Voice-band RMS level (dB) per VOICE_WINDOW_SEC window. */
+  voiceEnvelope: number[];
+  duration: number;
+}
+
+interface DecodeResult {
+  frames: FrameSets;
+  /** Null when the clip has no audio stream. */
+  audio: AudioStats | null;
+  /** Null when vidstabdetect could not run. */
+  motionTransforms: string | null;
+}
+
+// ── Helpers ────────────────────────────────────────────────────────────────────
+
+function parseRate(rate: string | undefined): number {
+  if (!rate) return 0;
+  const [num, den] = rate.split('/');
+  return den ? parseFloat(num ?? '0') / parseFloat(den) : parseFloat(num ?? '0');
+}
+
+/** Run ffmpeg and return its combined output (volumedetect reports on stderr). */
+function runFfmpegCapture(args: string, label: string): string {
+  logger.debug(`FFmpeg [${label}]`, { args });
+  try {
+    return execSync(`ffmpeg -y ${args} 2>&1`, { encoding: 'utf-8', maxBuffer: 64 * 1024 * 1024 });
+  } catch (err) {
+    const e = err as { stdout?: string; stderr?: string };
+    throw new Error(`FFmpeg ${label} failed: ${(e.stdout ?? '') + (e.stderr ?? '') || String(err)}`);
+  }
+}
+
+function listFrames(dir: string, prefix: string): string[] {
+  return fs
+    .readdirSync(dir)
+    .filter((f) => f.startsWith(prefix) && f.endsWith('.jpg'))
+    .sort()
+    .map((f) => path.join(dir, f));
+}
+
+function parseVolume(output: string, key: 'mean_volume' | 'max_volume'): number {
+  const match = output.match(new RegExp(`${key}:\\s*([-\\d.]+)\\s*dB`));
+  return match?.[1] !== undefined ? parseFloat(match[1]) : -99;
+}
+
+/** Last match of `pattern` as a number; `-inf` reads as -99. */
+function lastNumber(output: string, pattern: RegExp): number | null {
+  const matches = [...output.matchAll(pattern)];
+  const value = matches[matches.length - 1]?.[1];
+  if (value === undefined) return null;
+  return value === '-inf' ? -99 : parseFloat(value);
+}
+
+/** Loudness, clipping and silences from the ebur128, astats and silencedetect logs. */
+export function parseAudioStats(output: string, voiceLog: string, duration: number): AudioStats {
+  // ebur128 logs per-frame lines too; its summary comes last
+  const integratedLufs = lastNumber(output, /\bI:\s*(-?[\d.]+|-inf)\s*LUFS/g) ?? -99;
+  const truePeakDb = lastNumber(output, /\bPeak:\s*(-?[\d.]+|-inf)\s*dBFS/g) ?? -99;
+
+  // astats: the Overall section's peak level, how often it occurs, and the sample count.
+  // Each filter instance logs under its own [Parsed_astats_N @ …] prefix; the voice-band
+  // instance resets per window, so the full-stream one is the one with the most samples.
+  const overallByInstance = new Map<string, string[]>();
+  for (const line of output.split('\n')) {
+    const m = /^\[(Parsed_astats_\d+) @ [^\]]+\]\s*(.*)$/.exec(line.trim());
+    if (!m) continue;
+    const lines = overallByInstance.get(m[1]!);
+    if (m[2] === 'Overall') overallByInstance.set(m[1]!, []);
+    else lines?.push(m[2]!);
+  }
+  const overall = [...overallByInstance.values()]
+    .map((lines) => {
+      const section = lines.join('\n');
+      return {
+        peakLevel: lastNumber(section, /Peak level dB:\s*(-?[\d.]+|-inf)/g) ?? -99,
+        peakCount: lastNumber(section, /Peak count:\s*([\d.]+)/g) ?? 0,
+        samples:   lastNumber(section, /Number of samples:\s*([\d.]+)/g) ?? 0,
+      };
+    })
+    .reduce<{ peakLevel: number; peakCount: number; samples: number } | null>(
+      (best, section) => (!best || section.samples > best.samples ? section : best),
+      null,
+    );
+  const clippedRatio = overall && overall.peakLevel >= CLIP_LEVEL_DB && overall.samples > 0
+    ? overall.peakCount / overall.samples
+    : 0;
+
+  const silences: Array<{ start: number; end: number }> = [];
+  for (const line of output.split('\n')) {
+    const start = /silence_start:\s*(-?[\d.]+)/.exec(line);
+    if (start?.[1] !== undefined) silences.push({ start: Math.max(0, parseFloat(start[1])), end: duration });
+    const end = /silence_end:\s*([\d.]+)/.exec(line);
+    const open = silences[silences.length - 1];
+    if (end?.[1] !== undefined && open) open.end = parseFloat(end[1]);
+  }
+
+  const voiceEnvelope = [...voiceLog.matchAll(/RMS_level=(-?[\d.]+|-inf)/g)].map((m) =>
+    m[1] === '-inf' ? -99 : Math.max(-99, parseFloat(m[1]!)),
+  );
+
+  return {
+    meanVolume: parseVolume(output, 'mean_volume'),
+    maxVolume:  parseVolume(output, 'max_volume'),
+    integratedLufs,
+    truePeakDb,
+    clippedRatio,
+    silences,
+    voiceEnvelope,
+    duration,
+  };
+}
+
+/** Frame indices of `count` evenly-spaced keyframes (matching extractKeyframes). */
+export function keyframeIndices(frameCount: number, count = KEYFRAME_COUNT): number[] {
+  if (frameCount <= 0 || count <= 0) return [];
+  const interval = frameCount / (count + 1);
+  return [...new Set(Array.from({ length: count }, (_, i) => Math.min(frameCount - 1, Math.round(interval * (i + 1)))))];
+}
+
+// ── MediaAnalysis ──────────────────────────────────────────────────────────────
+
+export class MediaAnalysis {
+  /** Directory holding everything this analysis extracted. */
+  readonly dir: string;
+
+  private probed: Promise<MediaProbe> | null = null;
+  private decoded: Promise<DecodeResult> | null = null;
+
+  constructor(readonly videoPath: string) {
+    this.dir = tempDir('analysis');
+  }
+
+  /** ffprobe metadata (one ffprobe call, cached). */
+  probe(): Promise<MediaProbe> {
+    this.probed ??= Promise.resolve().then(() => this.runProbe());
+    return this.probed;
+  }
+
+  /** Extracted frame sets (decodes the clip on first use). */
+  async frames(): Promise<FrameSets> {
+    return (await this.decode()).frames;
+  }
+
+  /** Measurements of the first audio stream, or null when the clip has none. */
+  async audio(): Promise<AudioStats | null> {
+    return (await this.decode()).audio;
+  }
+
+  /** Path of the vidstabdetect .trf file, or null when motion analysis failed. */
+  async motionTransforms(): Promise<string | null> {
+    return (await this.decode()).motionTransforms;
+  }
+
+  /** Remove every file the analysis produced. */
+  dispose(): void {
+    fs.rmSync(this.dir, { recursive: true, force: true });
+  }
+
+  private decode(): Promise<DecodeResult> {
+    this.decoded ??= this.probe().then((probe) => this.runDecode(probe));
+    return this.decoded;
+  }
+
+  private runProbe(): MediaProbe {
+    let raw = '';
+    try {
+      raw = execSync(
+        `ffprobe -v error -show_entries stream=codec_type,width,height,r_frame_rate,nb_frames,duration:format=duration -of json "${this.videoPath}"`,
+        { encoding: 'utf-8', stdio: ['ignore', 'pipe', 'pipe'] },
+      );
+    } catch (err) {
+      throw new Error(`Media analysis: ffprobe failed for ${this.videoPath}: ${String(err)}`);
+    }
+
+    const parsed = JSON.parse(raw) as {
+      streams?: Array<{ codec_type?: string; width?: number; height?: number; r_frame_rate?: string; nb_frames?: string; duration?: string }>;
+      format?: { duration?: string };
+    };
+    const video = parsed.streams?.find((s) => s.codec_type === 'video');
+    const duration = parseFloat(video?.duration ?? parsed.format?.duration ?? '0') || 0;
+    const fps = parseRate(video?.r_frame_rate);
+
+    const probe: MediaProbe = {
+      duration,
+      width:      video?.width ?? 0,
+      height:     video?.height ?? 0,
+      fps,
+      // nb_frames is missing for some containers — estimate from duration
+      frameCount: parseInt(video?.nb_frames ?? '', 10) || Math.round(duration * fps),
+      hasAudio:   parsed.streams?.some((s) => s.codec_type === 'audio') ?? false,
+    };
+    logger.info('Media analysis: probed', { videoPath: this.videoPath, ...probe });
+    return probe;
+  }
+
+  private runDecode(probe: MediaProbe): DecodeResult {
+    const dir = this.dir;
+    const trfPath = path.join(dir, 'motion.trf');
+    const voicePath = path.join(dir, 'voice.log');
+    const lastIndex = Math.max(0, probe.frameCount - 1);
+    const keyframes = keyframeIndices(probe.frameCount);
+
+    const buildArgs = (withMotion: boolean): string => {
+      const branches: Array<{ filter: string; output: string }> = [
+        { filter: `select=not(mod(n\\,${SAMPLE_FRAME_INTERVAL}))`, output: `-vsync vfr "${dir}/sample_%04d.jpg"` },
+        { filter: `fps=${TIMED_FRAME_FPS}`, output: `"${dir}/timed_%04d.jpg"` },
+        { filter: 'select=eq(n\\,0)', output: `-frames:v 1 "${dir}/first.jpg"` },
+        { filter: `select=eq(n\\,${lastIndex})`, output: `-frames:v 1 -q:v 1 "${dir}/last.jpg"` },
+      ];
+      if (keyframes.length) {
+        const select = keyframes.map((n) => `eq(n\\,${n})`).join('+');
+        branches.push({ filter: `select=${select}`, output: `-vsync vfr -q:v 2 "${dir}/key_%04d.jpg"` });
+      }
+      if (withMotion) {
+        branches.push({ filter: `vidstabdetect=result=${trfPath}:shakiness=10:accuracy=15`, output: '-f null -' });
+      }
+
+      const labels = branches.map((_, i) => `[v${i}]`);
+      const chains = [
+        `[0:v]split=${branches.length}${labels.join('')}`,
+        ...branches.map((b, i) => `${labels[i]}${b.filter}[o${i}]`),
+      ];
+      const outputs = branches.map((b, i) => `-map "[o${i}]" ${b.output}`);
+      if (probe.hasAudio) {
+        // Levels, loudness, clipping and silences on one branch; the voice-band envelope on the other
+        const windowSamples = Math.round(16000 * VOICE_WINDOW_SEC);
+        chains.push(
+          '[0:a:0]asplit=2[a0][a1]',
+          `[a0]volumedetect,ebur128=peak=true:framelog=verbose,astats,silencedetect=noise=${SILENCE_NOISE_DB}dB:d=${SILENCE_MIN_SEC}[ao0]`,
+          `[a1]highpass=f=300,lowpass=f=3400,aresample=16000,asetnsamples=n=${windowSamples},` +
+            `astats=metadata=1:reset=1,ametadata=print:key=lavfi.astats.Overall.RMS_level:file=${voicePath}[ao1]`,
+        );
+        outputs.push('-map "[ao0]" -f null -', '-map "[ao1]" -f null -');
+      }
+      const graph = chains.join(';');
+
+      return `-i "${this.videoPath}" -filter_complex "${graph}" ${outputs.join(' ')}`;
+    };
+
+    logger.info('Media analysis: decoding', { videoPath: this.videoPath, dir, frameCount: probe.frameCount });
+
+    let output: string;
+    let motion = true;
+    try {
+      output = runFfmpegCapture(buildArgs(true), 'mediaAnalysis');
+    } catch (err) {
+      // vidstabdetect is the most likely failure (ffmpeg built without libvidstab) —
+      // decode the rest so the other gates still have their inputs
+      logger.warn('Media analysis: decode with motion analysis failed — retrying without it', { err: String(err) });
+      motion = false;
+      output = runFfmpegCapture(buildArgs(false), 'mediaAnalysis:noMotion');
+    }
+
+    const has = (file: string): string | null => (fs.existsSync(path.join(dir, file)) ? path.join(dir, file) : null);
+    const frames: FrameSets = {
+      sample:    listFrames(dir, 'sample_'),
+      timed:     listFrames(dir, 'timed_'),
+      keyframes: listFrames(dir, 'key_'),
+      first:     has('first.jpg'),
+      last:      has('last.jpg'),
+    };
+
+    if (!frames.last) {
+      // frameCount was an estimate past the real end — grab the final frame directly
+      try {
+        runFfmpegCapture(`-sseof -3 -i "${this.videoPath}" -update 1 -q:v 1 "${dir}/last.jpg"`, 'mediaAnalysis:last');
+        frames.last = has('last.jpg');
+      } catch {
+        logger.warn('Media analysis: could not extract last frame', { videoPath: this.videoPath });
+      }
+    }
+
+    const audio = probe.hasAudio
+      ? parseAudioStats(output, fs.existsSync(voicePath) ? fs.readFileSync(voicePath, 'utf-8') : '', probe.duration)
+      : null;
+    const motionTransforms = motion && fs.existsSync(trfPath) ? trfPath : null;
+
+    logger.info('Media analysis: decoded', {
+      videoPath: this.videoPath,
+      sample:    frames.sample.length,
+      timed:     frames.timed.length,
+      keyframes: frames.keyframes.length,
+      audio:     audio && {
+        meanVolume:     audio.meanVolume,
+        integratedLufs: audio.integratedLufs,
+        truePeakDb:     audio.truePeakDb,
+        silences:       audio.silences.length,
+      },
+      motion:    motionTransforms !== null,
+    });
+    return { frames, audio, motionTransforms };
+  }
+}
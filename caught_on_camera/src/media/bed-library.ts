@@ -0,0 +1,210 @@
+/**
+ * Audio bed library — the indexed set of beds under AUDIO_BEDS_PATH that the
+ * mix_bed remediation draws from.
+ *
+ * Each bed file (.mp3 / .wav, in any subdirectory except ambient/) may have a
+ * sidecar manifest next to it with the same name and a .json extension:
+ *
+ *   body_cam/trail_crickets_02.mp3
+ *   body_cam/trail_crickets_02.json
+ *     { "format": "body_cam", "subTypes": ["hiker_trail"], "environment": "forest",
+ *       "timeOfDay": ["dusk", "night"], "integratedLufs": -31.2, "durationSeconds": 94.5 }
+ *
+ * Beds without a manifest are indexed from their file name (a sub-type or
+ * time-of-day word in the name). `npm run scan-beds` writes the manifests and
+ * measures loudness and duration.
+ *
+ * Selection is weighted: beds for the clip's sub-type, time of day and
+ * environment are favoured, beds used recently are skipped while any other
+ * bed fits, and the mix starts at a random point in the bed.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { z } from 'zod';
+import { AUDIO_BED_SELECTION } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { getDuration, measureLoudness } from './ffmpeg.js';
+
+// ── Types ──────────────────────────────────────────────────────────────────────
+
+const manifestSchema = z.object({
+  format:          z.enum(['ring_cam', 'body_cam', 'any']).default('any'),
+  /** Body cam sub-types the bed suits; empty for any. */
+  subTypes:        z.array(z.string()).default([]),
+  /** Setting the bed sounds like (suburban, forest, highway, …), matched against the idea's notes. */
+  environment:     z.string().nullable().default(null),
+  /** Times of day the bed suits (dawn|morning|afternoon|dusk|night); empty for any. */
+  timeOfDay:       z.array(z.string()).default([]),
+  integratedLufs:  z.number().nullable().default(null),
+  durationSeconds: z.number().nullable().default(null),
+  /** Relative selection weight. */
+  weight:          z.number().positive().default(1),
+}).strict();
+
+export type BedManifest = z.infer<typeof manifestSchema>;
+
+export interface BedEntry {
+  /** Path relative to the library root — the ID recorded in audio_bed_uses. */
+  id: string;
+  path: string;
+  manifest: BedManifest;
+  /** False when the manifest was inferred from the file name. */
+  hasManifest: boolean;
+}
+
+export interface BedCriteria {
+  format: 'ring_cam' | 'body_cam';
+  subType?: string | undefined;
+  timeOfDay?: string | undefined;
+  /** Free text (audio notes, scenario) searched for each bed's environment. */
+  notes?: string | undefined;
+}
+
+// ── Constants ──────────────────────────────────────────────────────────────────
+
+const AUDIO_EXTENSIONS = /\.(mp3|wav)$/i;
+/** Replacement tracks for replace_audio (media/ambient.ts), not beds. */
+const EXCLUDED_DIRS = new Set(['ambient']);
+
+const SUB_TYPE_MATCH = 4;
+const TIME_OF_DAY_MATCH = 2;
+const ENVIRONMENT_MATCH = 1.5;
+
+/** File-name words that imply a sub-type, for beds without a manifest. */
+const SUB_TYPE_HINTS: Array<[string, RegExp]> = [
+  ['police_security', /police|patrol|security|radio/i],
+  ['hiker_trail',     /hik(er|ing)|trail|forest/i],
+  ['dashcam',         /dashcam|highway|road|traffic/i],
+  ['helmet_action',   /helmet|action|wind/i],
+];
+const TIMES_OF_DAY = ['dawn', 'morning', 'afternoon', 'dusk', 'night'];
+
+// ── Manifests ──────────────────────────────────────────────────────────────────
+
+export function manifestPath(bedPath: string): string {
+  return bedPath.replace(AUDIO_EXTENSIONS, '.json');
+}
+
+/** A manifest guessed from the bed's path, e.g. body_cam/hiker_trail_night.mp3. */
+export function inferManifest(id: string): BedManifest {
+  const [topDir] = id.split(/[\\/]/);
+  const name = path.basename(id).replace(AUDIO_EXTENSIONS, '');
+  const format = topDir === 'ring_cam' || topDir === 'body_cam' ? topDir : 'any';
+  return manifestSchema.parse({
+    format,
+    subTypes:  format === 'ring_cam' ? [] : SUB_TYPE_HINTS.filter(([, hint]) => hint.test(name)).map(([s]) => s),
+    timeOfDay: TIMES_OF_DAY.filter((t) => name.toLowerCase().includes(t)),
+  });
+}
+
+function readManifest(bedPath: string): BedManifest | null {
+  const file = manifestPath(bedPath);
+  if (!fs.existsSync(file)) return null;
+  const parsed = manifestSchema.safeParse(JSON.parse(fs.readFileSync(file, 'utf-8')));
+  if (!parsed.success) {
+    throw new Error(`Invalid bed manifest ${file}: ${parsed.error.issues.map((i) => `${i.path.join('.')}: ${i.message}`).join('; ')}`);
+  }
+  return parsed.data;
+}
+
+// ── Index ──────────────────────────────────────────────────────────────────────
+
+function listBedFiles(root: string, dir = root): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const full = path.join(dir, entry.name);
+    if (entry.isDirectory()) return dir === root && EXCLUDED_DIRS.has(entry.name) ? [] : listBedFiles(root, full);
+    return AUDIO_EXTENSIONS.test(entry.name) ? [full] : [];
+  });
+}
+
+/** Every bed under `root`, sorted by ID. Throws on a malformed manifest. */
+export function loadBedLibrary(root: string): BedEntry[] {
+  return listBedFiles(root)
+    .map((file) => {
+      const id = path.relative(root, file).split(path.sep).join('/');
+      const manifest = readManifest(file);
+      return { id, path: file, manifest: manifest ?? inferManifest(id), hasManifest: manifest !== null };
+    })
+    .sort((a, b) => a.id.localeCompare(b.id));
+}
+
+/**
+ * Write a manifest for every bed, measuring loudness and duration. Existing
+ * manifest fields are kept; measurements are refreshed when `remeasure` is
+ * set or missing.
+ */
+export async function scanBedLibrary(root: string, remeasure = false): Promise<BedEntry[]> {
+  const library = loadBedLibrary(root);
+  for (const bed of library) {
+    const { manifest } = bed;
+    if (remeasure || manifest.integratedLufs === null) manifest.integratedLufs = await measureLoudness(bed.path);
+    if (remeasure || manifest.durationSeconds === null) manifest.durationSeconds = (await getDuration(bed.path)) || null;
+    fs.writeFileSync(manifestPath(bed.path), JSON.stringify(manifest, null, 2) + '\n', 'utf-8');
+    bed.hasManifest = true;
+  }
+  logger.info('Bed library: scanned', { root, beds: library.length });
+  return library;
+}
+
+// ── Selection ──────────────────────────────────────────────────────────────────
+
+/** Selection weight of a bed for the criteria; 0 when it does not fit. */
+export function scoreBed(bed: BedEntry, criteria: BedCriteria): number {
+  const { manifest } = bed;
+  if (manifest.format !== 'any' && manifest.format !== criteria.format) return 0;
+
+  let score = manifest.weight;
+  if (manifest.subTypes.length > 0) {
+    if (!criteria.subType || !manifest.subTypes.includes(criteria.subType)) return 0;
+    score *= SUB_TYPE_MATCH;
+  }
+  if (criteria.timeOfDay && manifest.timeOfDay.includes(criteria.timeOfDay.toLowerCase())) {
+    score *= TIME_OF_DAY_MATCH;
+  }
+  if (manifest.environment && criteria.notes?.toLowerCase().includes(manifest.environment.toLowerCase())) {
+    score *= ENVIRONMENT_MATCH;
+  }
+  return score;
+}
+
+/**
+ * Weighted random pick among the beds that fit. Beds in `recent` (library
+ * IDs, most recent first) are skipped while any other bed fits; when every
+ * fitting bed is recent, the one used longest ago is taken.
+ */
+export function selectBed(
+  library: BedEntry[],
+  criteria: BedCriteria,
+  recent: string[] = [],
+  random: () => number = Math.random,
+): BedEntry | null {
+  const fitting = library.map((bed) => ({ bed, score: scoreBed(bed, criteria) })).filter((c) => c.score > 0);
+  if (fitting.length === 0) return null;
+
+  const fresh = fitting.filter((c) => !recent.includes(c.bed.id));
+  if (fresh.length === 0) {
+    return fitting.reduce((oldest, c) => (recent.indexOf(c.bed.id) > recent.indexOf(oldest.bed.id) ? c : oldest)).bed;
+  }
+
+  const total = fresh.reduce((sum, c) => sum + c.score, 0);
+  let pick = random() * total;
+  for (const c of fresh) {
+    pick -= c.score;
+    if (pick < 0) return c.bed;
+  }
+  return fresh[fresh.length - 1]!.bed;
+}
+
+/** Random start within the bed that still leaves `clipSeconds` of it to play. */
+export function bedOffset(bed: BedEntry, clipSeconds: number, random: () => number = Math.random): number {
+  const spare = (bed.manifest.durationSeconds ?? 0) - clipSeconds;
+  return spare > 0 ? Math.round(random() * spare * 10) / 10 : 0;
+}
+
+/** Gain that brings the bed to AUDIO_BED_SELECTION.mixLufs (a default when unmeasured). */
+export function bedGainDb(bed: BedEntry): number {
+  const { integratedLufs } = bed.manifest;
+  if (integratedLufs === null) return AUDIO_BED_SELECTION.defaultGainDb;
+  return Math.min(0, Math.round((AUDIO_BED_SELECTION.mixLufs - integratedLufs) * 10) / 10);
+}
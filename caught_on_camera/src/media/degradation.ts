@@ -89,25 +89,51 @@ export async function degradeBodyCam(
 
 // ── Body Cam Shake ────────────────────────────────────────────────────────────
 
+/** Per-clip shake settings (derived from Gate 1's motion profile). */
+export interface ShakeTuning {
+  /** Walking cadence: rotation and vertical bob frequency; lateral sway runs at half. */
+  cadenceHz: number;
+  /** Multiplier on the default sway amplitudes. */
+  amplitude: number;
+}
+
 /**
  * Add synthetic hand-held camera shake to a body-cam clip.
  * Uses sinusoidal rotation and crop offsets to simulate organic walking motion.
  * Applied when Gate 1 detects insufficient motion in body-cam footage.
+ *
+ * @param tuning  Cadence and amplitude for this clip; omitted → the fixed
+ *                default (1.8 Hz rotation, 0.7 / 1.1 Hz drift).
  */
 export async function addBodyCamShake(
   inputPath: string,
   outputPath: string,
+  tuning?: ShakeTuning,
 ): Promise<void> {
-  logger.info('Degradation: adding body_cam synthetic shake', { inputPath, outputPath });
+  logger.info('Degradation: adding body_cam synthetic shake', { inputPath, outputPath, tuning });
 
   // Sinusoidal rotation at 1.8 Hz + crop drift at 0.7 Hz / 1.1 Hz on x/y axes
   // Rotation amplitude: ~0.29° — subtle but visible breathing/walking sway
   // Crop removes 20px border to hide rotation fill artefacts
-  const vf = [
+  let vf = [
     "rotate='0.005*sin(2*PI*t*1.8)':fillcolor=none",
     'crop=iw-20:ih-20:10+5*sin(2*PI*t*0.7):10+3*sin(2*PI*t*1.1)',
   ].join(',');
 
+  if (tuning) {
+    // Tuned: bob and rotation follow the step cadence, lateral sway every other step.
+    // Offsets are capped at the 10px border the crop leaves.
+    const hz = tuning.cadenceHz.toFixed(2);
+    const half = (tuning.cadenceHz / 2).toFixed(2);
+    const rot = (0.005 * tuning.amplitude).toFixed(4);
+    const x = Math.min(10, 5 * tuning.amplitude).toFixed(1);
+    const y = Math.min(10, 3 * tuning.amplitude).toFixed(1);
+    vf = [
+      `rotate='${rot}*sin(2*PI*t*${hz})':fillcolor=none`,
+      `crop=iw-20:ih-20:10+${x}*sin(2*PI*t*${half}):10+${y}*sin(2*PI*t*${hz})`,
+    ].join(',');
+  }
+
   // TODO: ensure source resolution is high enough that the 20px crop does not
   // create visible resolution loss at 9:16 output. Scale up first if needed.
   runFfmpeg(
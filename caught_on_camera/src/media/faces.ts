@@ -0,0 +1,262 @@
+/**
+ * Local face detection for Gate 2 — a res10 SSD (ResNet-10, 300×300) ONNX
+ * model run on the CPU with onnxruntime-node — plus the tracking and blur
+ * timeline built from its detections.
+ *
+ * Faces found on sampled frames are linked into tracks across samples, each
+ * track's box is interpolated for the frames in between, and the blur is an
+ * ffmpeg crop → boxblur → overlay chain per track whose position follows
+ * the interpolated box frame by frame.
+ */
+import * as fs from 'fs';
+import sharp from 'sharp';
+import { env } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { packagePath } from '../utils/paths.js';
+
+// ── Constants ──────────────────────────────────────────────────────────────────
+
+/** res10 SSD input size and BGR channel means. */
+const INPUT_SIZE = 300;
+const BGR_MEANS = [104, 177, 123] as const;
+
+/** Extra margin around each face box, as a share of its size. */
+const BOX_PADDING = 0.2;
+/** A face may move this many box-widths between samples and stay on its track. */
+const MAX_TRACK_JUMP = 1.0;
+const BLUR_RADIUS = 20;
+const MIN_BLUR_PX = 16;
+
+// ── Types ──────────────────────────────────────────────────────────────────────
+
+/** A face box; position and size are fractions of the frame. */
+export interface FaceBox {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+  confidence: number;
+}
+
+export interface FrameFaces {
+  /** Frame index in the clip. */
+  frame: number;
+  boxes: FaceBox[];
+}
+
+export interface FaceTrack {
+  /** Detections in frame order. */
+  points: Array<{ frame: number; box: FaceBox }>;
+  /** Frames to keep blurring before the first and after the last detection. */
+  hold: number;
+}
+
+export interface TrackOptions {
+  /** Samples a track may miss before it ends, in frames. */
+  maxGap: number;
+  hold: number;
+}
+
+// ── Detector ───────────────────────────────────────────────────────────────────
+
+type OrtModule = typeof import('onnxruntime-node');
+
+let loaded: Promise<FaceDetector | null> | null = null;
+
+export function faceModelPath(): string {
+  return env.FACE_MODEL_PATH ?? packagePath('models', 'res10_300x300_ssd.onnx');
+}
+
+export class FaceDetector {
+  private constructor(
+    private readonly ort: OrtModule,
+    private readonly session: import('onnxruntime-node').InferenceSession,
+  ) {}
+
+  /** Load the model once; null when it (or onnxruntime) is unavailable. */
+  static load(): Promise<FaceDetector | null> {
+    loaded ??= (async () => {
+      const modelPath = faceModelPath();
+      if (!fs.existsSync(modelPath)) {
+        logger.warn('Faces: model not found — local face detection unavailable', { modelPath });
+        return null;
+      }
+      try {
+        const ort = await import('onnxruntime-node');
+        const session = await ort.InferenceSession.create(modelPath, { executionProviders: ['cpu'] });
+        logger.info('Faces: model loaded', { modelPath });
+        return new FaceDetector(ort, session);
+      } catch (err) {
+        logger.error('Faces: could not load model', { modelPath, err: String(err) });
+        return null;
+      }
+    })();
+    return loaded;
+  }
+
+  /** Faces in one image file scoring at least `minConfidence`. */
+  async detect(imagePath: string, minConfidence: number): Promise<FaceBox[]> {
+    const rgb = await sharp(imagePath)
+      .resize(INPUT_SIZE, INPUT_SIZE, { fit: 'fill' })
+      .removeAlpha()
+      .raw()
+      .toBuffer();
+
+    // NCHW float32, BGR order, mean-subtracted
+    const plane = INPUT_SIZE * INPUT_SIZE;
+    const data = new Float32Array(3 * plane);
+    for (let i = 0; i < plane; i++) {
+      data[i] = rgb[i * 3 + 2]! - BGR_MEANS[0];
+      data[plane + i] = rgb[i * 3 + 1]! - BGR_MEANS[1];
+      data[2 * plane + i] = rgb[i * 3]! - BGR_MEANS[2];
+    }
+
+    const input = new this.ort.Tensor('float32', data, [1, 3, INPUT_SIZE, INPUT_SIZE]);
+    const outputs = await this.session.run({ [this.session.inputNames[0]!]: input });
+    const detections = outputs[this.session.outputNames[0]!]!.data as Float32Array;
+
+    // [1, 1, N, 7]: image_id, label, confidence, x1, y1, x2, y2 (fractions)
+    const boxes: FaceBox[] = [];
+    for (let i = 0; i + 6 < detections.length; i += 7) {
+      const confidence = detections[i + 2]!;
+      if (confidence < minConfidence) continue;
+      const x1 = clamp(detections[i + 3]!, 0, 1);
+      const y1 = clamp(detections[i + 4]!, 0, 1);
+      const x2 = clamp(detections[i + 5]!, 0, 1);
+      const y2 = clamp(detections[i + 6]!, 0, 1);
+      if (x2 <= x1 || y2 <= y1) continue;
+      boxes.push({ x: x1, y: y1, w: x2 - x1, h: y2 - y1, confidence });
+    }
+    return boxes;
+  }
+}
+
+// ── Tracking ───────────────────────────────────────────────────────────────────
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/** Centre distance between two boxes in units of the first box's size. */
+function jump(from: FaceBox, to: FaceBox): number {
+  const dx = to.x + to.w / 2 - (from.x + from.w / 2);
+  const dy = to.y + to.h / 2 - (from.y + from.h / 2);
+  return Math.sqrt(dx * dx + dy * dy) / Math.max(from.w, from.h, 1e-6);
+}
+
+/**
+ * Link per-frame detections into tracks: each box joins the nearest open
+ * track (greedy, closest first) within MAX_TRACK_JUMP, otherwise it starts
+ * a new one. A track closes once it misses more than `maxGap` frames.
+ */
+export function trackFaces(samples: FrameFaces[], options: TrackOptions): FaceTrack[] {
+  const tracks: FaceTrack[] = [];
+
+  for (const { frame, boxes } of [...samples].sort((a, b) => a.frame - b.frame)) {
+    const open = tracks.filter((t) => frame - t.points[t.points.length - 1]!.frame <= options.maxGap);
+    const pairs = open
+      .flatMap((track) => boxes.map((box, b) => ({ track, b, cost: jump(track.points[track.points.length - 1]!.box, box) })))
+      .filter((p) => p.cost <= MAX_TRACK_JUMP)
+      .sort((a, b) => a.cost - b.cost);
+
+    const usedTracks = new Set<FaceTrack>();
+    const usedBoxes = new Set<number>();
+    for (const { track, b } of pairs) {
+      if (usedTracks.has(track) || usedBoxes.has(b)) continue;
+      track.points.push({ frame, box: boxes[b]! });
+      usedTracks.add(track);
+      usedBoxes.add(b);
+    }
+    boxes.forEach((box, b) => {
+      if (!usedBoxes.has(b)) tracks.push({ points: [{ frame, box }], hold: options.hold });
+    });
+  }
+  return tracks;
+}
+
+/** The track's box at `frame`, interpolated between detections; null outside the track. */
+export function boxAt(track: FaceTrack, frame: number): FaceBox | null {
+  const { points, hold } = track;
+  const first = points[0]!;
+  const last = points[points.length - 1]!;
+  if (frame < first.frame - hold || frame > last.frame + hold) return null;
+  if (frame <= first.frame) return first.box;
+  if (frame >= last.frame) return last.box;
+
+  const next = points.findIndex((p) => p.frame >= frame);
+  const a = points[next - 1]!;
+  const b = points[next]!;
+  const t = (frame - a.frame) / (b.frame - a.frame);
+  const lerp = (from: number, to: number): number => from + (to - from) * t;
+  return {
+    x: lerp(a.box.x, b.box.x),
+    y: lerp(a.box.y, b.box.y),
+    w: lerp(a.box.w, b.box.w),
+    h: lerp(a.box.h, b.box.h),
+    confidence: Math.min(a.box.confidence, b.box.confidence),
+  };
+}
+
+// ── Blur timeline ──────────────────────────────────────────────────────────────
+
+/**
+ * Piecewise-linear ffmpeg expression in the frame number `n` through the
+ * given (frame, value) keys, held at the ends. Commas are escaped for use
+ * inside a filtergraph.
+ */
+function timelineExpr(keys: Array<{ frame: number; value: number }>): string {
+  const last = keys[keys.length - 1]!;
+  let expr = String(last.value);
+  if (keys.every((k) => k.value === last.value)) return expr;
+  for (let i = keys.length - 2; i >= 0; i--) {
+    const a = keys[i]!;
+    const b = keys[i + 1]!;
+    if (a.value === b.value) {
+      expr = `if(lt(n\\,${b.frame})\\,${a.value}\\,${expr})`;
+      continue;
+    }
+    const segment = `${a.value}+${b.value - a.value}*max(n-${a.frame}\\,0)/${b.frame - a.frame}`;
+    expr = `if(lt(n\\,${b.frame})\\,${segment}\\,${expr})`;
+  }
+  return expr;
+}
+
+/** Padded blur size in px (even, at least MIN_BLUR_PX) for a face `share` of the frame. */
+function blurSize(share: number, full: number): number {
+  return Math.min(full, Math.max(MIN_BLUR_PX, 2 * Math.ceil((share * (1 + BOX_PADDING) * full) / 2)));
+}
+
+/**
+ * filter_complex graph (input `[0:v]`, output `[out]`) blurring each track.
+ * The blur box has a fixed size per track (its largest padded face) and
+ * follows the interpolated face centre, enabled only while the track lasts.
+ */
+export function faceBlurFilter(tracks: FaceTrack[], width: number, height: number): string {
+  const parts: string[] = [];
+  let input = '[0:v]';
+
+  tracks.forEach((track, i) => {
+    const w = blurSize(Math.max(...track.points.map((p) => p.box.w)), width);
+    const h = blurSize(Math.max(...track.points.map((p) => p.box.h)), height);
+    const keys = (axis: 'x' | 'y'): Array<{ frame: number; value: number }> =>
+      track.points.map(({ frame, box }) => {
+        const [size, full, centre] = axis === 'x' ? [w, width, box.x + box.w / 2] : [h, height, box.y + box.h / 2];
+        return { frame, value: Math.round(clamp(centre * full - size / 2, 0, full - size)) };
+      });
+
+    const x = timelineExpr(keys('x'));
+    const y = timelineExpr(keys('y'));
+    const start = Math.max(0, track.points[0]!.frame - track.hold);
+    const end = track.points[track.points.length - 1]!.frame + track.hold;
+    const output = i === tracks.length - 1 ? '[out]' : `[f${i}]`;
+
+    parts.push(
+      `${input}split[base${i}][src${i}]`,
+      `[src${i}]crop=${w}:${h}:${x}:${y},boxblur=${BLUR_RADIUS}:5[blur${i}]`,
+      `[base${i}][blur${i}]overlay=${x}:${y}:enable=between(n\\,${start}\\,${end})${output}`,
+    );
+    input = output;
+  });
+
+  return parts.length ? parts.join(';') : '[0:v]null[out]';
+}
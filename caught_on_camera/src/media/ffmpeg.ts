@@ -1,6 +1,7 @@
 /**
  * Core FFmpeg operations — clip concatenation, frame extraction, audio work,
- * metadata probing, cropping, motion analysis, and audio-bed mixing.
+ * metadata probing, cropping, motion analysis, audio-bed mixing, and audio
+ * looping / loudness normalisation for ambient replacement.
  *
  * All functions throw on non-zero FFmpeg/FFprobe exit unless otherwise noted.
  * Callers are responsible for temp-file cleanup where paths are returned.
@@ -8,8 +9,8 @@
 import { execSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
 import { logger } from '../utils/logger.js';
+import { tempPath } from '../utils/temp.js';
 
 // ── Helpers ────────────────────────────────────────────────────────────────────
 
@@ -50,7 +51,7 @@ export async function concatenateClips(
   if (clipPaths.length === 0) throw new Error('concatenateClips: no clips provided');
 
   // Write ffmpeg concat list file
-  const listPath = path.join(os.tmpdir(), `concat_${Date.now()}.txt`);
+  const listPath = tempPath('concat', 'txt');
   const listContent = clipPaths.map((p) => `file '${p.replace(/'/g, "'\\''")}'`).join('\n');
   fs.writeFileSync(listPath, listContent, 'utf-8');
 
@@ -190,7 +191,7 @@ export async function analyzeMotion(
 ): Promise<{ avgMotion: number; maxMotion: number }> {
   logger.info('FFmpeg: analyzing motion', { videoPath });
 
-  const trfPath = `/tmp/motion_${Date.now()}.trf`;
+  const trfPath = tempPath('motion', 'trf');
 
   try {
     // ffmpeg exits non-zero with -f null — swallow the error and check trf
@@ -239,18 +240,21 @@ export async function analyzeMotion(
  * Mix an audio bed under the primary video audio.
  * The bed is attenuated to bedVolumeDb dB (relative) and amixed with the
  * original track. Target is to keep the bed at -15 dB under Veo audio.
+ * The bed is read from bedOffsetSeconds on, so repeated uses of one bed do
+ * not all start on the same sound.
  */
 export async function mixAudioBed(
   videoPath: string,
   bedPath: string,
   bedVolumeDb: number,
   outputPath: string,
+  bedOffsetSeconds = 0,
 ): Promise<void> {
-  logger.info('FFmpeg: mixing audio bed', { bedPath, bedVolumeDb, outputPath });
+  logger.info('FFmpeg: mixing audio bed', { bedPath, bedVolumeDb, bedOffsetSeconds, outputPath });
 
   // TODO: handle clips shorter than the bed (loop bed with -stream_loop -1)
   runFfmpeg(
-    `-i "${videoPath}" -i "${bedPath}" ` +
+    `-i "${videoPath}" -ss ${bedOffsetSeconds} -i "${bedPath}" ` +
     `-filter_complex "[1:a]volume=${bedVolumeDb}dB[bed];[0:a][bed]amix=inputs=2:duration=first:dropout_transition=2[out]" ` +
     `-map 0:v -map "[out]" -c:v copy -c:a aac -b:a 128k "${outputPath}"`,
     'mixAudioBed',
@@ -273,3 +277,145 @@ export async function replaceAudio(
     'replaceAudio',
   );
 }
+
+/**
+ * Integrated loudness (EBU R128, LUFS) of a media file's audio, or null when
+ * it has no measurable audio.
+ */
+export async function measureLoudness(mediaPath: string): Promise<number | null> {
+  let output = '';
+  try {
+    output = execSync(`ffmpeg -hide_banner -nostats -i "${mediaPath}" -af ebur128 -f null - 2>&1`, { encoding: 'utf-8' });
+  } catch (err) {
+    const e = err as { stderr?: string; stdout?: string };
+    output = (e.stdout ?? '') + (e.stderr ?? '');
+  }
+  // The summary's integrated value is the last "I:" in the log
+  const values = [...output.matchAll(/\bI:\s*(-?[\d.]+)\s*LUFS/g)];
+  const last = values[values.length - 1]?.[1];
+  return last === undefined ? null : parseFloat(last);
+}
+
+/** Duration of a media file in seconds (0 when it cannot be probed). */
+export async function getDuration(mediaPath: string): Promise<number> {
+  const out = runFfprobe(`-v error -show_entries format=duration -of csv=p=0 "${mediaPath}"`, 'getDuration');
+  return parseFloat(out) || 0;
+}
+
+/**
+ * Loop an audio file to exactly `durationSeconds`, crossfading each repeat
+ * into the next so the seam is inaudible, with a short fade in and out.
+ * Sources too short to crossfade are looped back to back.
+ */
+export async function loopAudio(
+  inputPath: string,
+  durationSeconds: number,
+  crossfadeSeconds: number,
+  outputPath: string,
+): Promise<void> {
+  const sourceSeconds = await getDuration(inputPath);
+  logger.info('FFmpeg: looping audio', { inputPath, sourceSeconds, durationSeconds, outputPath });
+
+  const fades = `afade=t=in:d=0.3,afade=t=out:st=${Math.max(0, durationSeconds - 0.5)}:d=0.5`;
+  if (sourceSeconds <= 2 * crossfadeSeconds) {
+    runFfmpeg(
+      `-stream_loop -1 -i "${inputPath}" -af "atrim=0:${durationSeconds},${fades}" -t ${durationSeconds} "${outputPath}"`,
+      'loopAudio:plain',
+    );
+    return;
+  }
+
+  // Each repeat adds (source - crossfade) seconds
+  const copies = Math.max(1, Math.ceil((durationSeconds - crossfadeSeconds) / (sourceSeconds - crossfadeSeconds)));
+  const inputs = Array.from({ length: copies }, () => `-i "${inputPath}"`).join(' ');
+  const chains: string[] = [];
+  let last = '[0:a]';
+  for (let i = 1; i < copies; i++) {
+    chains.push(`${last}[${i}:a]acrossfade=d=${crossfadeSeconds}:c1=tri:c2=tri[x${i}]`);
+    last = `[x${i}]`;
+  }
+  chains.push(`${last}atrim=0:${durationSeconds},${fades}[out]`);
+
+  runFfmpeg(`${inputs} -filter_complex "${chains.join(';')}" -map "[out]" "${outputPath}"`, 'loopAudio');
+}
+
+/**
+ * Normalise an audio file to an EBU R128 integrated loudness (LUFS) with a
+ * true-peak ceiling (single-pass loudnorm).
+ */
+export async function normalizeLoudness(
+  inputPath: string,
+  targetLufs: number,
+  truePeakDb: number,
+  outputPath: string,
+): Promise<void> {
+  logger.info('FFmpeg: normalizing loudness', { inputPath, targetLufs, truePeakDb, outputPath });
+  runFfmpeg(
+    `-i "${inputPath}" -af "loudnorm=I=${targetLufs}:TP=${truePeakDb}:LRA=11" -ar 48000 "${outputPath}"`,
+    'normalizeLoudness',
+  );
+}
+
+/**
+ * Render `durationSeconds` of audio from a lavfi source graph (e.g. filtered
+ * noise with tremolo) — synthetic ambience when no recorded track fits.
+ */
+export async function synthesizeAudio(
+  graph: string,
+  durationSeconds: number,
+  outputPath: string,
+): Promise<void> {
+  logger.info('FFmpeg: synthesizing audio', { durationSeconds, outputPath });
+  runFfmpeg(`-f lavfi -i "${graph}" -t ${durationSeconds} -ar 48000 "${outputPath}"`, 'synthesizeAudio');
+}
+
+// ── Synthetic media (sandbox) ──────────────────────────────────────────────────
+
+/**
+ * Render a synthetic test clip: a moving lavfi test pattern with a noise
+ * soundtrack. Stands in for a Veo generation in PROVIDER_MODE=sandbox.
+ *
+ * @param pattern  'testsrc2' (busy, moving) suits body cam; 'testsrc' suits ring cam.
+ * @param noise    Colour of the anoisesrc soundtrack (brown is closest to ambience).
+ */
+export async function synthesizeTestClip(
+  outputPath: string,
+  durationSeconds: number,
+  pattern: 'testsrc' | 'testsrc2' = 'testsrc2',
+  noise: 'white' | 'pink' | 'brown' = 'brown',
+): Promise<void> {
+  logger.info('FFmpeg: synthesizing test clip', { outputPath, durationSeconds, pattern });
+
+  runFfmpeg(
+    `-f lavfi -i "${pattern}=size=1280x720:rate=30" ` +
+    `-f lavfi -i "anoisesrc=color=${noise}:amplitude=0.08:sample_rate=44100" ` +
+    `-t ${durationSeconds} -c:v libx264 -preset ultrafast -pix_fmt yuv420p ` +
+    `-c:a aac -b:a 128k -shortest "${outputPath}"`,
+    'synthesizeTestClip',
+  );
+}
+
+/** Render `durationSeconds` of coloured noise as an MP3 (sandbox audio beds). */
+export async function synthesizeNoise(
+  outputPath: string,
+  durationSeconds: number,
+  noise: 'white' | 'pink' | 'brown' = 'pink',
+): Promise<void> {
+  runFfmpeg(
+    `-f lavfi -i "anoisesrc=color=${noise}:amplitude=0.05:sample_rate=44100" ` +
+    `-t ${durationSeconds} -c:a libmp3lame -b:a 128k "${outputPath}"`,
+    'synthesizeNoise',
+  );
+}
+
+/** Render a fully transparent PNG (sandbox overlay templates). */
+export async function renderTransparentPng(
+  outputPath: string,
+  width = 1280,
+  height = 720,
+): Promise<void> {
+  runFfmpeg(
+    `-f lavfi -i "color=c=black@0.0:size=${width}x${height},format=rgba" -frames:v 1 "${outputPath}"`,
+    'renderTransparentPng',
+  );
+}
@@ -5,15 +5,11 @@
 import { execSync } from 'child_process';
 import * as fs from 'fs';
 import * as path from 'path';
-import * as os from 'os';
 import { logger } from '../utils/logger.js';
+import { tempDir, tempPath } from '../utils/temp.js';
 
 // ── Helpers ────────────────────────────────────────────────────────────────────
 
-function tmpDir(prefix: string): string {
-  return path.join(os.tmpdir(), `${prefix}_${Date.now()}_${Math.random().toString(36).slice(2)}`);
-}
-
 function runFfmpeg(args: string, label: string): void {
   try {
     execSync(`ffmpeg -y ${args}`, { stdio: ['ignore', 'pipe', 'pipe'] });
@@ -38,8 +34,7 @@ export async function extractKeyframes(
 ): Promise<string[]> {
   logger.info('Frames: extracting keyframes', { videoPath, count });
 
-  const dir = tmpDir('keyframes');
-  fs.mkdirSync(dir, { recursive: true });
+  const dir = tempDir('keyframes');
 
   try {
     // Probe duration so we can compute evenly-spaced timestamps
@@ -122,7 +117,7 @@ export async function extractFrameAtTime(
 ): Promise<string> {
   logger.info('Frames: extracting single frame', { videoPath, timeSeconds });
 
-  const outPath = path.join(os.tmpdir(), `frame_at_${Date.now()}.jpg`);
+  const outPath = tempPath('frame_at', 'jpg');
 
   try {
     runFfmpeg(
@@ -141,6 +136,43 @@ export async function extractFrameAtTime(
   }
 }
 
+/**
+ * Build a contact sheet: `cols` × `rows` evenly-spaced keyframes tiled into a
+ * single JPEG, for a quick look at a clip without playing it.
+ * Returns the sheet's path under TEMP_DIR — the caller removes it when done.
+ *
+ * @param videoPath  Absolute path to the source video.
+ * @param cols       Frames per row.
+ * @param rows       Number of rows.
+ * @param tileWidth  Width of each frame in the sheet, in pixels.
+ */
+export async function buildContactSheet(
+  videoPath: string,
+  cols = 3,
+  rows = 3,
+  tileWidth = 426,
+): Promise<string> {
+  const frames = await extractKeyframes(videoPath, cols * rows);
+  if (frames.length === 0) throw new Error(`buildContactSheet: no frames extracted from ${videoPath}`);
+
+  const dir = tempDir('contact_sheet');
+  const outPath = tempPath('contact_sheet', 'jpg');
+  try {
+    frames.forEach((b64, i) => {
+      fs.writeFileSync(path.join(dir, `frame_${String(i + 1).padStart(2, '0')}.jpg`), Buffer.from(b64, 'base64'));
+    });
+    // Missing frames leave blank tiles rather than failing the sheet
+    runFfmpeg(
+      `-i "${dir}/frame_%02d.jpg" -vf "scale=${tileWidth}:-2,tile=${cols}x${rows}:padding=4:margin=4" -frames:v 1 -q:v 3 "${outPath}"`,
+      'buildContactSheet',
+    );
+    logger.info('Frames: contact sheet built', { videoPath, frames: frames.length, outPath });
+    return outPath;
+  } finally {
+    fs.rmSync(dir, { recursive: true, force: true });
+  }
+}
+
 /**
  * Read an array of JPEG frame files from disk and return them as base64 strings.
  * Frames that cannot be read are silently skipped (warning logged).
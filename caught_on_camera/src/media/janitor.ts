@@ -0,0 +1,247 @@
+/**
+ * Storage retention janitor — enforces STORAGE_RETENTION.
+ *
+ * Each sweep removes:
+ *   temp      TEMP_DIR entries older than tempHours that no resumable run needs
+ *   raw_clip  checkpoint artifacts of resumable runs, and content-cache files,
+ *             once older than rawClipDays
+ *   rejected  published assets of rejected videos after rejectedDays
+ *   expired   published assets of approved / published / taken-down videos
+ *             after approvedDays
+ *
+ * Removed items are recorded in janitor_log; a dry run only reports what a
+ * real sweep would remove.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'node:crypto';
+import { env, STORAGE_RETENTION } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { dbIsReachable } from '../db/client.js';
+import { getResumableArtifactPaths } from '../db/runs.js';
+import { getVideosForAssetPurge, markVideoAssetsPurged, type VideoRecord } from '../db/videos.js';
+import { insertJanitorLog, type JanitorCategory } from '../db/janitor-log.js';
+import { deletePublished, evictArtifact, cachedArtifact } from './storage.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface JanitorItem {
+  category: JanitorCategory;
+  /** Local path, or storage public ID for published assets. */
+  target: string;
+  videoId: string | null;
+  /** Size on disk; null for remote assets. */
+  bytes: number | null;
+}
+
+export interface JanitorReport {
+  sweepId: string;
+  dryRun: boolean;
+  items: JanitorItem[];
+  bytesFreed: number;
+  errors: string[];
+}
+
+export interface JanitorOptions {
+  dryRun?: boolean;
+  /** Reference time for age checks (tests). */
+  now?: Date;
+}
+
+/** One removal: what it is, and how to do it. Bookkeeping steps have no item. */
+interface Removal {
+  item: JanitorItem | null;
+  remove: () => Promise<void>;
+}
+
+const HOUR_MS = 3_600_000;
+const DAY_MS = 24 * HOUR_MS;
+
+// ── Local files ───────────────────────────────────────────────────────────────
+
+/** True when `child` is `parent` or lies inside it. */
+function isWithin(child: string, parent: string): boolean {
+  const rel = path.relative(path.resolve(parent), path.resolve(child));
+  return rel === '' || (!rel.startsWith('..') && !path.isAbsolute(rel));
+}
+
+function sizeOf(target: string): number {
+  const stat = fs.statSync(target);
+  if (!stat.isDirectory()) return stat.size;
+  return fs.readdirSync(target).reduce((sum, name) => sum + sizeOf(path.join(target, name)), 0);
+}
+
+function localRemoval(category: JanitorCategory, target: string): Removal {
+  return {
+    item:   { category, target, videoId: null, bytes: sizeOf(target) },
+    remove: async () => fs.rmSync(target, { recursive: true, force: true }),
+  };
+}
+
+/**
+ * Top-level TEMP_DIR entries past retention. Directories holding the media
+ * cache, local storage or sandbox (when nested under TEMP_DIR) are skipped.
+ */
+function sweepTempDir(now: number, resumable: Set<string>): Removal[] {
+  if (!fs.existsSync(env.TEMP_DIR)) return [];
+  const protectedDirs = [env.MEDIA_CACHE_DIR, env.LOCAL_STORAGE_DIR, env.SANDBOX_DIR];
+  const removals: Removal[] = [];
+
+  for (const name of fs.readdirSync(env.TEMP_DIR)) {
+    const entry = path.join(env.TEMP_DIR, name);
+    if (protectedDirs.some((dir) => isWithin(dir, entry))) continue;
+
+    const age = now - fs.statSync(entry).mtimeMs;
+    const needed = [...resumable].some((p) => isWithin(p, entry));
+    if (needed ? age > STORAGE_RETENTION.rawClipDays * DAY_MS : age > STORAGE_RETENTION.tempHours * HOUR_MS) {
+      removals.push(localRemoval(needed ? 'raw_clip' : 'temp', entry));
+    }
+  }
+  return removals;
+}
+
+/**
+ * Content-cache files (downloaded clips, published renders) past rawClipDays.
+ * A resumable run whose raw clip is evicted re-downloads it on resume.
+ */
+function sweepMediaCache(now: number): Removal[] {
+  if (!fs.existsSync(env.MEDIA_CACHE_DIR)) return [];
+  const cutoff = now - STORAGE_RETENTION.rawClipDays * DAY_MS;
+  const removals: Removal[] = [];
+
+  for (const shard of fs.readdirSync(env.MEDIA_CACHE_DIR)) {
+    const shardDir = path.join(env.MEDIA_CACHE_DIR, shard);
+    if (!fs.statSync(shardDir).isDirectory()) continue;
+    for (const name of fs.readdirSync(shardDir)) {
+      const file = path.join(shardDir, name);
+      if (fs.statSync(file).mtimeMs <= cutoff) removals.push(localRemoval('raw_clip', file));
+    }
+  }
+  return removals;
+}
+
+// ── Published assets ──────────────────────────────────────────────────────────
+
+/** Removals for one video's published renditions and their cached copies. */
+function videoRemovals(category: JanitorCategory, video: VideoRecord): Removal[] {
+  const removals: Removal[] = [];
+  for (const publicId of [video.cloudinary_public_id, video.vertical_public_id]) {
+    if (!publicId) continue;
+    removals.push({
+      item:   { category, target: publicId, videoId: video.id, bytes: null },
+      remove: async () => void (await deletePublished(publicId)),
+    });
+  }
+  for (const sha256 of [video.master_sha256, video.vertical_sha256]) {
+    const cached = sha256 ? cachedArtifact(sha256) : null;
+    if (!sha256 || !cached) continue;
+    removals.push({
+      item:   { category, target: cached, videoId: video.id, bytes: fs.statSync(cached).size },
+      remove: async () => void evictArtifact(sha256),
+    });
+  }
+  return removals;
+}
+
+async function sweepVideos(now: number): Promise<Removal[]> {
+  const rejectedBefore = new Date(now - STORAGE_RETENTION.rejectedDays * DAY_MS).toISOString();
+  const expiredBefore = new Date(now - STORAGE_RETENTION.approvedDays * DAY_MS).toISOString();
+
+  const [rejected, expired] = await Promise.all([
+    getVideosForAssetPurge(['rejected'], rejectedBefore, 'updated_at'),
+    getVideosForAssetPurge(['approved', 'published', 'taken_down'], expiredBefore, 'created_at'),
+  ]);
+
+  const removals: Removal[] = [];
+  for (const [category, videos] of [['rejected', rejected], ['expired', expired]] as const) {
+    for (const video of videos) {
+      let failed = false;
+      for (const removal of videoRemovals(category, video)) {
+        removals.push({
+          item:   removal.item,
+          remove: async () => {
+            try {
+              await removal.remove();
+            } catch (err) {
+              failed = true;
+              throw err;
+            }
+          },
+        });
+      }
+      // Mark the row once every asset is gone so later sweeps skip it;
+      // after a failure the next sweep retries the whole video
+      removals.push({
+        item:   null,
+        remove: async () => {
+          if (!failed) await markVideoAssetsPurged(video.id);
+        },
+      });
+    }
+  }
+  return removals;
+}
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+/**
+ * Run one retention sweep.
+ *
+ * Refuses to run while the database is unreachable: resumable-run lookups
+ * would come back empty and their artifacts would look like plain temp files.
+ *
+ * @param options.dryRun  Report what would be removed without removing or logging anything.
+ */
+export async function runJanitor(options: JanitorOptions = {}): Promise<JanitorReport> {
+  const dryRun = options.dryRun ?? false;
+  const now = (options.now ?? new Date()).getTime();
+  const sweepId = randomUUID();
+
+  if (!(await dbIsReachable('production_runs'))) {
+    throw new Error('Janitor: database unreachable — sweep skipped to protect resumable run artifacts');
+  }
+
+  const resumable = await getResumableArtifactPaths();
+  const removals = [
+    ...sweepTempDir(now, resumable),
+    ...sweepMediaCache(now),
+    ...(await sweepVideos(now)),
+  ];
+
+  const report: JanitorReport = { sweepId, dryRun, items: [], bytesFreed: 0, errors: [] };
+
+  for (const { item, remove } of removals) {
+    if (!dryRun) {
+      try {
+        await remove();
+      } catch (err) {
+        const label = item ? `${item.category} ${item.target}` : 'bookkeeping';
+        report.errors.push(`${label}: ${err instanceof Error ? err.message : String(err)}`);
+        continue;
+      }
+    }
+    if (!item) continue;
+    report.items.push(item);
+    report.bytesFreed += item.bytes ?? 0;
+  }
+
+  if (!dryRun && report.items.length) {
+    await insertJanitorLog(
+      report.items.map((i) => ({
+        sweep_id: sweepId,
+        category: i.category,
+        target:   i.target,
+        video_id: i.videoId,
+        bytes:    i.bytes,
+      })),
+    );
+  }
+
+  logger.info(`Janitor: ${dryRun ? 'dry run' : 'sweep'} complete`, {
+    sweepId,
+    removed:    report.items.length,
+    bytesFreed: report.bytesFreed,
+    errors:     report.errors.length,
+  });
+  return report;
+}
@@ -0,0 +1,284 @@
+/**
+ * Media storage — clip downloads, the content-addressed cache, and publishing
+ * finished renders to a storage backend.
+ *
+ * downloadClip:    fetch a generated clip (fal.ai CDN or file:// in sandbox),
+ *                  verify it, and store it in the cache.
+ * storeArtifact:   copy a file into MEDIA_CACHE_DIR/<sha[0:2]>/<sha>.<ext>.
+ * publishArtifact: upload a render to the configured backend under a public
+ *                  ID derived from its hash, so re-publishing is idempotent.
+ * deletePublished: remove a published asset (used by the retention janitor).
+ *
+ * Backends: Cloudinary (default) or a local directory (STORAGE_BACKEND=local,
+ * used by sandbox mode and for offline testing).
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { fileURLToPath, pathToFileURL } from 'node:url';
+import { v2 as cloudinary } from 'cloudinary';
+import { env } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { hashFile } from '../utils/hash.js';
+import { withRetry } from '../utils/retry.js';
+import { tempPath } from '../utils/temp.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface StoredArtifact {
+  sha256: string;
+  path: string;
+  bytes: number;
+}
+
+export interface PublishedMedia {
+  url: string;
+  publicId: string;
+  sha256: string;
+  bytes: number;
+}
+
+export interface StorageBackend {
+  readonly name: 'cloudinary' | 'local';
+  upload(localPath: string, publicId: string): Promise<{ url: string; publicId: string; bytes: number }>;
+  /** Delete an asset; false when it did not exist. */
+  delete(publicId: string): Promise<boolean>;
+}
+
+export type MediaKind = 'master' | 'vertical' | 'raw';
+
+/** A download that arrived truncated, empty, or not as a video container. */
+export class MediaIntegrityError extends Error {
+  constructor(message: string, public readonly url: string) {
+    super(message);
+    this.name = 'MediaIntegrityError';
+  }
+}
+
+// ── Content-addressed cache ───────────────────────────────────────────────────
+
+function cachePath(sha256: string, ext: string): string {
+  return path.join(env.MEDIA_CACHE_DIR, sha256.slice(0, 2), `${sha256}${ext}`);
+}
+
+/**
+ * Copy a file into the content-addressed cache. A file with the same content
+ * is stored once; the existing copy is returned on repeat calls.
+ *
+ * @param localPath  File to store.
+ * @param ext        Extension for the cached copy (defaults to the source's).
+ */
+export function storeArtifact(localPath: string, ext = path.extname(localPath) || '.mp4'): StoredArtifact {
+  const sha256 = hashFile(localPath);
+  const target = cachePath(sha256, ext);
+  if (!fs.existsSync(target)) {
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    // Copy to a temp name first so a crash never leaves a partial file under a valid hash
+    const partial = `${target}.${process.pid}.part`;
+    fs.copyFileSync(localPath, partial);
+    fs.renameSync(partial, target);
+  }
+  return { sha256, path: target, bytes: fs.statSync(target).size };
+}
+
+/** Remove a cached artifact; returns the bytes freed (0 if it was not cached). */
+export function evictArtifact(sha256: string, ext = '.mp4'): number {
+  const target = cachePath(sha256, ext);
+  if (!fs.existsSync(target)) return 0;
+  const { size } = fs.statSync(target);
+  fs.rmSync(target);
+  return size;
+}
+
+/** Path of a cached artifact, or null if it is not (or no longer) in the cache. */
+export function cachedArtifact(sha256: string, ext = '.mp4'): string | null {
+  const target = cachePath(sha256, ext);
+  return fs.existsSync(target) ? target : null;
+}
+
+// ── Download ──────────────────────────────────────────────────────────────────
+
+const DOWNLOAD_ATTEMPTS = 3;
+const DOWNLOAD_TIMEOUT_MS = 120_000;
+
+/**
+ * Reject anything that is not a plausible MP4/MOV: every ISO-BMFF file opens
+ * with a box whose type field (bytes 4–8) is 'ftyp'.
+ */
+function verifyClip(file: string, url: string, expected: { bytes?: number; sha256?: string }): void {
+  const { size } = fs.statSync(file);
+  if (size === 0) throw new MediaIntegrityError('downloaded clip is empty', url);
+  if (expected.bytes !== undefined && size !== expected.bytes) {
+    throw new MediaIntegrityError(`downloaded ${size} bytes, expected ${expected.bytes}`, url);
+  }
+
+  const header = Buffer.alloc(8);
+  const fd = fs.openSync(file, 'r');
+  try {
+    fs.readSync(fd, header, 0, 8, 0);
+  } finally {
+    fs.closeSync(fd);
+  }
+  if (header.toString('latin1', 4, 8) !== 'ftyp') {
+    throw new MediaIntegrityError('downloaded file is not an MP4 container', url);
+  }
+
+  if (expected.sha256 && hashFile(file) !== expected.sha256) {
+    throw new MediaIntegrityError('downloaded clip does not match the expected SHA-256', url);
+  }
+}
+
+async function fetchToFile(url: string, target: string): Promise<void> {
+  if (url.startsWith('file://')) {
+    fs.copyFileSync(fileURLToPath(url), target);
+    return;
+  }
+
+  const res = await fetch(url, { signal: AbortSignal.timeout(DOWNLOAD_TIMEOUT_MS) });
+  if (!res.ok || !res.body) {
+    throw new Error(`Storage: download failed ${res.status} ${res.statusText}`);
+  }
+  const buffer = Buffer.from(await res.arrayBuffer());
+  fs.writeFileSync(target, buffer);
+
+  const declared = res.headers.get('content-length');
+  if (declared !== null && Number(declared) !== buffer.length) {
+    throw new MediaIntegrityError(`download truncated: ${buffer.length} of ${declared} bytes`, url);
+  }
+}
+
+/**
+ * Download a generated clip, verify it, and store it in the content cache.
+ * Network errors and integrity failures are retried; the partial file is
+ * removed after every attempt.
+ *
+ * @param url       HTTPS URL (fal.ai CDN) or file:// URL (sandbox clips).
+ * @param expected  Optional size / SHA-256 to check against, e.g. on re-download.
+ */
+export async function downloadClip(
+  url: string,
+  expected: { bytes?: number; sha256?: string } = {},
+): Promise<StoredArtifact> {
+  if (expected.sha256) {
+    const cached = cachedArtifact(expected.sha256);
+    if (cached) return { sha256: expected.sha256, path: cached, bytes: fs.statSync(cached).size };
+  }
+
+  const partial = tempPath('download', 'part');
+
+  const stored = await withRetry(
+    async () => {
+      try {
+        await fetchToFile(url, partial);
+        verifyClip(partial, url, expected);
+        return storeArtifact(partial, '.mp4');
+      } finally {
+        fs.rmSync(partial, { force: true });
+      }
+    },
+    { maxAttempts: DOWNLOAD_ATTEMPTS, baseDelayMs: 2_000 },
+  );
+
+  logger.info('Storage: clip downloaded', { url, sha256: stored.sha256, bytes: stored.bytes });
+  return stored;
+}
+
+// ── Backends ──────────────────────────────────────────────────────────────────
+
+let cloudinaryConfigured = false;
+
+function configureCloudinary(): void {
+  if (cloudinaryConfigured) return;
+  cloudinary.config({
+    cloud_name: env.CLOUDINARY_CLOUD_NAME,
+    api_key:    env.CLOUDINARY_API_KEY,
+    api_secret: env.CLOUDINARY_API_SECRET,
+    secure:     true,
+  });
+  cloudinaryConfigured = true;
+}
+
+const cloudinaryBackend: StorageBackend = {
+  name: 'cloudinary',
+  async upload(localPath, publicId) {
+    configureCloudinary();
+    // overwrite: false — the public ID is content-addressed, so an existing
+    // asset under it is already the same bytes and is returned as-is
+    const result = await cloudinary.uploader.upload(localPath, {
+      resource_type:   'video',
+      public_id:       publicId,
+      overwrite:       false,
+      unique_filename: false,
+    });
+    return { url: result.secure_url, publicId: result.public_id, bytes: result.bytes };
+  },
+  async delete(publicId) {
+    configureCloudinary();
+    const result = (await cloudinary.uploader.destroy(publicId, {
+      resource_type: 'video',
+      invalidate:    true,
+    })) as { result?: string };
+    if (result.result !== 'ok' && result.result !== 'not found') {
+      throw new Error(`Storage: Cloudinary destroy ${publicId} returned ${result.result ?? 'no result'}`);
+    }
+    return result.result === 'ok';
+  },
+};
+
+function localBackend(rootDir: string): StorageBackend {
+  return {
+    name: 'local',
+    async upload(localPath, publicId) {
+      const target = path.join(rootDir, `${publicId}${path.extname(localPath) || '.mp4'}`);
+      if (!fs.existsSync(target)) {
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.copyFileSync(localPath, target);
+      }
+      return { url: pathToFileURL(target).href, publicId, bytes: fs.statSync(target).size };
+    },
+    async delete(publicId) {
+      const dir = path.join(rootDir, path.dirname(publicId));
+      const base = path.basename(publicId);
+      const matches = fs.existsSync(dir)
+        ? fs.readdirSync(dir).filter((f) => path.parse(f).name === base)
+        : [];
+      for (const file of matches) fs.rmSync(path.join(dir, file));
+      return matches.length > 0;
+    },
+  };
+}
+
+/** The backend selected by STORAGE_BACKEND. */
+export function getStorageBackend(): StorageBackend {
+  return env.STORAGE_BACKEND === 'local' ? localBackend(env.LOCAL_STORAGE_DIR) : cloudinaryBackend;
+}
+
+// ── Publishing ────────────────────────────────────────────────────────────────
+
+/**
+ * Cache a finished render and upload it to the storage backend under
+ * `caught_on_camera/<kind>/<sha256>`.
+ *
+ * @param localPath  Rendered file (master 16:9 or vertical 9:16).
+ * @param kind       Which rendition this is; namespaces the public ID.
+ */
+export async function publishArtifact(localPath: string, kind: MediaKind): Promise<PublishedMedia> {
+  const stored = storeArtifact(localPath);
+  const backend = getStorageBackend();
+  const publicId = `caught_on_camera/${kind}/${stored.sha256}`;
+
+  const uploaded = await withRetry(() => backend.upload(stored.path, publicId), {
+    maxAttempts: 3,
+    baseDelayMs: 2_000,
+  });
+
+  logger.info('Storage: published', { backend: backend.name, kind, publicId: uploaded.publicId, url: uploaded.url });
+  return { url: uploaded.url, publicId: uploaded.publicId, sha256: stored.sha256, bytes: uploaded.bytes };
+}
+
+/** Delete a published asset from the configured backend. */
+export async function deletePublished(publicId: string): Promise<boolean> {
+  const backend = getStorageBackend();
+  const deleted = await withRetry(() => backend.delete(publicId), { maxAttempts: 3, baseDelayMs: 2_000 });
+  logger.info('Storage: deleted', { backend: backend.name, publicId, existed: deleted });
+  return deleted;
+}
@@ -2,18 +2,19 @@
  * Buffer monitor — tracks the depth of approved-but-unpublished videos and
  * decides whether the pipeline should generate more content.
  *
- * Target buffer: 3-day supply at 3.5 videos/day = 10.5 videos minimum.
- * Critical threshold: < 1 day (< 3–4 videos) → generate_extra + telegram alert.
- * Healthy threshold: >= 3 days → pause generation.
+ * Target buffer: MIN_BUFFER_DAYS of supply at VIDEOS_PER_DAY (default 3 × 3 = 9 videos).
+ * Critical threshold: < 1 day → generate_extra + telegram alert.
+ * Healthy threshold: >= MIN_BUFFER_DAYS → pause generation.
  */
 import { getApprovedUnpublished } from '../db/videos.js';
 import { logger } from '../utils/logger.js';
 import { sendBufferAlert } from './telegram.js';
+import { env } from '../config.js';
 
 // ── Constants ─────────────────────────────────────────────────────────────────
 
-const VIDEOS_PER_DAY = 3.5;
-const BUFFER_TARGET_DAYS = 3;
+const VIDEOS_PER_DAY = env.VIDEOS_PER_DAY;
+const BUFFER_TARGET_DAYS = env.MIN_BUFFER_DAYS;
 const BUFFER_CRITICAL_DAYS = 1;
 
 // ── Public API ─────────────────────────────────────────────────────────────────
@@ -0,0 +1,279 @@
+/**
+ * Runtime feature flags — kill switches for a format, body cam sub-type,
+ * category or platform, each with a reason and an optional expiry.
+ *
+ * Flags live in the feature_flags table and are toggled from Telegram
+ * (/killswitch, /flags). Each process keeps the resolved flags for
+ * FEATURE_FLAGS.cacheTtlSeconds and mirrors them into the SQLite fallback DB,
+ * so the ideators, the pipeline and the publisher keep honouring kill switches
+ * while Supabase is unreachable. ENABLE_POLICE_SUBTYPE=false is the default
+ * for the police_security switch until a flag is set for it.
+ */
+import {
+  env,
+  SANDBOX,
+  FEATURE_FLAGS,
+  PLATFORM_LIMITS,
+  RING_CAM_CATEGORIES,
+  BODY_CAM_CATEGORIES,
+  BODY_CAM_SUB_TYPES,
+} from '../config.js';
+import { logger } from '../utils/logger.js';
+import { dbIsReachable, getDb } from '../db/client.js';
+import {
+  insertFeatureFlag,
+  getCurrentFeatureFlags,
+  type FeatureFlagRecord,
+  type FlagScope,
+} from '../db/flags.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type { FlagScope } from '../db/flags.js';
+
+export interface KillSwitch {
+  scope: FlagScope;
+  target: string;
+  reason: string;
+  /** null = until re-enabled. */
+  expiresAt: Date | null;
+  setBy: string;
+  setAt: Date;
+}
+
+export interface FeatureFlags {
+  /** Kill switches in the flag store, including expired ones. */
+  switches: KillSwitch[];
+  /** Where the flags came from on the last refresh. */
+  source: 'db' | 'cache';
+}
+
+/** What a decision is about; any killed field blocks it. */
+export interface FlagSubject {
+  format?: string | null | undefined;
+  subType?: string | null | undefined;
+  category?: string | null | undefined;
+  platform?: string | null | undefined;
+}
+
+const SUBJECT_SCOPES: Array<[keyof FlagSubject, FlagScope]> = [
+  ['format', 'format'],
+  ['subType', 'sub_type'],
+  ['category', 'category'],
+  ['platform', 'platform'],
+];
+
+// ── Targets ───────────────────────────────────────────────────────────────────
+
+const TARGETS: Record<FlagScope, readonly string[]> = {
+  format:   ['ring_cam', 'body_cam'],
+  sub_type: BODY_CAM_SUB_TYPES,
+  category: [...RING_CAM_CATEGORIES, ...BODY_CAM_CATEGORIES],
+  platform: Object.keys(PLATFORM_LIMITS),
+};
+
+/** Which scope a flag name belongs to (names are unique across scopes). */
+export function resolveFlagTarget(name: string): { scope: FlagScope; target: string } | null {
+  for (const [scope, targets] of Object.entries(TARGETS) as Array<[FlagScope, readonly string[]]>) {
+    if (targets.includes(name)) return { scope, target: name };
+  }
+  return null;
+}
+
+// ── SQLite cache ──────────────────────────────────────────────────────────────
+
+interface CacheRow {
+  scope: FlagScope;
+  target: string;
+  reason: string;
+  expires_at: string | null;
+  set_by: string;
+  set_at: string;
+}
+
+async function cacheDb(): Promise<Awaited<ReturnType<typeof getDb>>> {
+  const db = await getDb();
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS feature_flags_cache (
+      scope      TEXT NOT NULL,
+      target     TEXT NOT NULL,
+      reason     TEXT NOT NULL,
+      expires_at TEXT,
+      set_by     TEXT NOT NULL,
+      set_at     TEXT NOT NULL,
+      PRIMARY KEY (scope, target)
+    )
+  `);
+  return db;
+}
+
+async function writeCache(switches: KillSwitch[]): Promise<void> {
+  try {
+    const db = await cacheDb();
+    const insert = db.prepare(
+      'INSERT INTO feature_flags_cache (scope, target, reason, expires_at, set_by, set_at) VALUES (?, ?, ?, ?, ?, ?)',
+    );
+    db.transaction(() => {
+      db.prepare('DELETE FROM feature_flags_cache').run();
+      for (const s of switches) {
+        insert.run(s.scope, s.target, s.reason, s.expiresAt?.toISOString() ?? null, s.setBy, s.setAt.toISOString());
+      }
+    })();
+  } catch (err) {
+    logger.warn('Flags: could not update the SQLite cache', { error: String(err) });
+  }
+}
+
+async function readCache(): Promise<KillSwitch[]> {
+  try {
+    const db = await cacheDb();
+    const rows = db.prepare('SELECT * FROM feature_flags_cache').all() as CacheRow[];
+    return rows.map((r) => ({
+      scope:     r.scope,
+      target:    r.target,
+      reason:    r.reason,
+      expiresAt: r.expires_at ? new Date(r.expires_at) : null,
+      setBy:     r.set_by,
+      setAt:     new Date(r.set_at),
+    }));
+  } catch (err) {
+    logger.error('Flags: SQLite cache unreadable — no kill switches in force', { error: String(err) });
+    return [];
+  }
+}
+
+// ── Load ──────────────────────────────────────────────────────────────────────
+
+function toSwitch(row: FeatureFlagRecord): KillSwitch {
+  return {
+    scope:     row.scope,
+    target:    row.target,
+    reason:    row.reason,
+    expiresAt: row.expires_at ? new Date(row.expires_at) : null,
+    setBy:     row.set_by,
+    setAt:     new Date(row.created_at),
+  };
+}
+
+/** Env defaults for flags that have never been set in the store. */
+function envDefaults(rows: FeatureFlagRecord[]): KillSwitch[] {
+  const policeSet = rows.some((r) => r.scope === 'sub_type' && r.target === 'police_security');
+  if (env.ENABLE_POLICE_SUBTYPE || policeSet) return [];
+  return [{
+    scope:     'sub_type',
+    target:    'police_security',
+    reason:    'ENABLE_POLICE_SUBTYPE=false',
+    expiresAt: null,
+    setBy:     'env',
+    setAt:     new Date(0),
+  }];
+}
+
+let memo: { flags: FeatureFlags; loadedAt: number } | null = null;
+
+/**
+ * The flags in force, re-read from the DB once FEATURE_FLAGS.cacheTtlSeconds
+ * have passed. When Supabase is unreachable the last flags mirrored to the
+ * SQLite cache are used instead — never an empty set mistaken for "all on".
+ */
+export async function getFeatureFlags(): Promise<FeatureFlags> {
+  if (memo && Date.now() - memo.loadedAt < FEATURE_FLAGS.cacheTtlSeconds * 1000) return memo.flags;
+
+  let flags: FeatureFlags;
+  if (await dbIsReachable('feature_flags')) {
+    const rows = await getCurrentFeatureFlags();
+    const switches = [...rows.filter((r) => !r.enabled).map(toSwitch), ...envDefaults(rows)];
+    // Sandbox runs already read a local store
+    if (!SANDBOX) await writeCache(switches);
+    flags = { switches, source: 'db' };
+  } else {
+    logger.warn('Flags: Supabase unreachable — using the SQLite cache');
+    flags = { switches: await readCache(), source: 'cache' };
+  }
+
+  memo = { flags, loadedAt: Date.now() };
+  return flags;
+}
+
+// ── Evaluate ──────────────────────────────────────────────────────────────────
+
+function inForce(s: KillSwitch, at: Date): boolean {
+  return s.expiresAt === null || s.expiresAt > at;
+}
+
+/** Kill switches in force at `at`. */
+export function activeKillSwitches(flags: FeatureFlags, at: Date = new Date()): KillSwitch[] {
+  return flags.switches.filter((s) => inForce(s, at));
+}
+
+/** The kill switches in force that apply to a subject; empty when it may go ahead. */
+export function killedBy(flags: FeatureFlags, subject: FlagSubject, at: Date = new Date()): KillSwitch[] {
+  return activeKillSwitches(flags, at).filter((s) =>
+    SUBJECT_SCOPES.some(([field, scope]) => s.scope === scope && subject[field] === s.target),
+  );
+}
+
+export function isAllowed(flags: FeatureFlags, subject: FlagSubject, at: Date = new Date()): boolean {
+  return killedBy(flags, subject, at).length === 0;
+}
+
+/** Drop killed categories from ideator category weights and renormalise to 1. */
+export function withoutKilledCategories(flags: FeatureFlags, weights: Record<string, number>): Record<string, number> {
+  const kept = Object.entries(weights).filter(([category]) => isAllowed(flags, { category }));
+  const total = kept.reduce((s, [, w]) => s + w, 0);
+  if (total === 0) return {};
+  return Object.fromEntries(kept.map(([category, w]) => [category, w / total]));
+}
+
+// ── Toggle ────────────────────────────────────────────────────────────────────
+
+export interface KillSwitchOptions {
+  reason: string;
+  setBy: string;
+  /** null = until re-enabled. */
+  expiresAt?: Date | null;
+}
+
+/** Turn a flag off (kill switch on). Takes effect in this process immediately. */
+export async function setKillSwitch(scope: FlagScope, target: string, options: KillSwitchOptions): Promise<void> {
+  await insertFeatureFlag({
+    scope,
+    target,
+    enabled:    false,
+    reason:     options.reason,
+    expires_at: options.expiresAt?.toISOString() ?? null,
+    set_by:     options.setBy,
+  });
+  memo = null;
+  logger.warn('Flags: kill switch set', { scope, target, reason: options.reason, expiresAt: options.expiresAt ?? null });
+}
+
+/** Turn a flag back on. Takes effect in this process immediately. */
+export async function clearKillSwitch(scope: FlagScope, target: string, options: Omit<KillSwitchOptions, 'expiresAt'>): Promise<void> {
+  await insertFeatureFlag({
+    scope,
+    target,
+    enabled:    true,
+    reason:     options.reason,
+    expires_at: null,
+    set_by:     options.setBy,
+  });
+  memo = null;
+  logger.info('Flags: kill switch cleared', { scope, target, reason: options.reason });
+}
+
+// ── Report ────────────────────────────────────────────────────────────────────
+
+/** Plain-text list of the kill switches in force, for Telegram. */
+export function formatFeatureFlags(flags: FeatureFlags, at: Date = new Date()): string {
+  const active = activeKillSwitches(flags, at);
+  const stale = flags.source === 'cache' ? ' (from local cache — DB unreachable)' : '';
+  if (active.length === 0) return `Feature flags: everything enabled${stale}.`;
+
+  const lines = [`Kill switches in force${stale}`];
+  for (const s of active) {
+    const until = s.expiresAt ? `until ${s.expiresAt.toISOString().slice(0, 16).replace('T', ' ')} UTC` : 'until re-enabled';
+    lines.push(`⛔ ${s.scope} ${s.target} — ${s.reason}`, `   ${until} · set by ${s.setBy}`);
+  }
+  return lines.join('\n');
+}
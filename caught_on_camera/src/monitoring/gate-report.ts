@@ -0,0 +1,164 @@
+/**
+ * Gate analytics — pass/fail rates, most common failure reasons and retries
+ * per gate, from the gate_runs rows the producer writes for every evaluation.
+ *
+ * Figures are given overall and broken down by format, body cam sub-type and
+ * Veo prompt variant. Served by the `gates` CLI command and Telegram /gates.
+ *
+ * "Retries" for a gate is the number of failed evaluations of that gate in a
+ * run (each one triggers a remediation or a new attempt), averaged over the
+ * runs in which the gate was evaluated.
+ */
+import { getGateRunsSince, type GateRunRecord } from '../db/gate-runs.js';
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+export const DEFAULT_REPORT_DAYS = 7;
+
+const TOP_REASONS = 3;
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface GateStats {
+  gate: number;
+  evaluations: number;
+  passes: number;
+  failures: number;
+  passRate: number;
+  runs: number;
+  avgRetries: number;
+  topReasons: Array<{ reason: string; count: number }>;
+}
+
+export interface GateReport {
+  days: number;
+  runs: number;
+  evaluations: number;
+  overall: GateStats[];
+  byFormat: Record<string, GateStats[]>;
+  bySubType: Record<string, GateStats[]>;
+  byVariant: Record<string, GateStats[]>;
+}
+
+// ── Aggregation ───────────────────────────────────────────────────────────────
+
+/**
+ * Collapse numbers so "avg motion 3.41" and "avg motion 2.87" count as one
+ * reason. Rows without a reason fall back to the requested action.
+ */
+export function normalizeReason(row: Pick<GateRunRecord, 'reason' | 'action' | 'hard_fail'>): string {
+  const text = row.reason ?? row.action ?? (row.hard_fail ? 'hard fail' : 'unspecified');
+  return text.replace(/-?\d+(\.\d+)?/g, '#').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+function runKey(row: GateRunRecord): string {
+  return row.run_id ?? row.scene_id ?? row.id;
+}
+
+function statsFor(rows: GateRunRecord[]): GateStats[] {
+  const gates = [...new Set(rows.map((r) => r.gate))].sort((a, b) => a - b);
+  return gates.map((gate) => {
+    const gateRows = rows.filter((r) => r.gate === gate);
+    const failed = gateRows.filter((r) => !r.pass);
+
+    const failuresByRun = new Map<string, number>();
+    for (const row of gateRows) {
+      const key = runKey(row);
+      failuresByRun.set(key, (failuresByRun.get(key) ?? 0) + (row.pass ? 0 : 1));
+    }
+
+    const reasonCounts = new Map<string, number>();
+    for (const row of failed) {
+      const reason = normalizeReason(row);
+      reasonCounts.set(reason, (reasonCounts.get(reason) ?? 0) + 1);
+    }
+
+    return {
+      gate,
+      evaluations: gateRows.length,
+      passes:      gateRows.length - failed.length,
+      failures:    failed.length,
+      passRate:    (gateRows.length - failed.length) / gateRows.length,
+      runs:        failuresByRun.size,
+      avgRetries:  failed.length / failuresByRun.size,
+      topReasons:  [...reasonCounts]
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, TOP_REASONS)
+        .map(([reason, count]) => ({ reason, count })),
+    };
+  });
+}
+
+function groupStats(
+  rows: GateRunRecord[],
+  keyOf: (row: GateRunRecord) => string | null,
+): Record<string, GateStats[]> {
+  const groups = new Map<string, GateRunRecord[]>();
+  for (const row of rows) {
+    const key = keyOf(row);
+    if (key === null) continue;
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+  return Object.fromEntries([...groups].sort(([a], [b]) => a.localeCompare(b)).map(([k, g]) => [k, statsFor(g)]));
+}
+
+/** Aggregate gate evaluations into the report. Pure — rows are passed in. */
+export function buildGateReport(rows: GateRunRecord[], days: number): GateReport {
+  return {
+    days,
+    runs:        new Set(rows.map(runKey)).size,
+    evaluations: rows.length,
+    overall:     statsFor(rows),
+    byFormat:    groupStats(rows, (r) => r.format),
+    bySubType:   groupStats(rows, (r) => r.cam_sub_type),
+    byVariant:   groupStats(rows, (r) => r.veo_variant),
+  };
+}
+
+// ── Formatting ────────────────────────────────────────────────────────────────
+
+function percent(rate: number): string {
+  return `${Math.round(rate * 100)}%`;
+}
+
+function breakdownLines(title: string, groups: Record<string, GateStats[]>): string[] {
+  const entries = Object.entries(groups);
+  if (!entries.length) return [];
+  return [
+    '',
+    `${title}:`,
+    ...entries.map(([key, stats]) => {
+      const runs = Math.max(...stats.map((s) => s.runs));
+      const cells = stats.map((s) => `G${s.gate} ${percent(s.passRate)} (${s.avgRetries.toFixed(1)} retries)`);
+      return `  ${key} — ${runs} run(s): ${cells.join(' · ')}`;
+    }),
+  ];
+}
+
+/** Plain-text rendering of a report, for the CLI and Telegram. */
+export function formatGateReport(report: GateReport): string {
+  const header = `Gate report — last ${report.days} day(s): ${report.runs} run(s), ${report.evaluations} evaluation(s)`;
+  if (!report.evaluations) return `${header}\nNo gate evaluations recorded.`;
+
+  const overall = report.overall.flatMap((s) => [
+    `Gate ${s.gate}: ${percent(s.passRate)} pass (${s.passes}/${s.evaluations}), ` +
+      `${s.avgRetries.toFixed(2)} retries/run over ${s.runs} run(s)`,
+    ...s.topReasons.map((r) => `  • ${r.reason} (${r.count})`),
+  ]);
+
+  return [
+    header,
+    '',
+    ...overall,
+    ...breakdownLines('By format', report.byFormat),
+    ...breakdownLines('By sub-type', report.bySubType),
+    ...breakdownLines('By Veo prompt variant', report.byVariant),
+  ].join('\n');
+}
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+/** Build the report over the gate evaluations of the last `days` days. */
+export async function getGateReport(days = DEFAULT_REPORT_DAYS): Promise<GateReport> {
+  return buildGateReport(await getGateRunsSince(days), days);
+}
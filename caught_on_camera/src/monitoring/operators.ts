@@ -0,0 +1,117 @@
+/**
+ * Operator allowlist and roles for Telegram commands and buttons.
+ *
+ * TELEGRAM_OPERATORS lists who may talk to the bot, e.g.
+ *   111111:admin,222222:reviewer,333333:viewer
+ * Each role includes the ones below it:
+ *   viewer   — read-only commands (/status, /buffer, /paused, /gates, /flags, /calendar)
+ *   reviewer — review decisions (/approve, /reject, review and format-choice buttons, …)
+ *   admin    — pipeline control and takedown (/pause, /resume, /killswitch,
+ *              /flags on, /calendar add|remove, /takedown)
+ * Every attempt, allowed or not, goes to operator_audit_log.
+ */
+import { env } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { insertAuditEntry, type NewAuditEntry, type OperatorRole } from '../db/audit.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type { OperatorRole } from '../db/audit.js';
+
+const ROLE_RANK: Record<OperatorRole, number> = { viewer: 1, reviewer: 2, admin: 3 };
+
+function isRole(value: string): value is OperatorRole {
+  return Object.prototype.hasOwnProperty.call(ROLE_RANK, value);
+}
+
+// ── Allowlist ─────────────────────────────────────────────────────────────────
+
+/** Parse `<userId>:<role>` pairs; throws listing every bad entry. */
+export function parseOperators(raw: string): Map<number, OperatorRole> {
+  const operators = new Map<number, OperatorRole>();
+  const problems: string[] = [];
+
+  for (const entry of raw.split(',').map((e) => e.trim()).filter(Boolean)) {
+    const [id = '', role = ''] = entry.split(':').map((p) => p.trim());
+    if (!/^\d+$/.test(id)) {
+      problems.push(`"${entry}": user id must be a number`);
+    } else if (!isRole(role)) {
+      problems.push(`"${entry}": role must be viewer, reviewer or admin`);
+    } else if (operators.has(Number(id))) {
+      problems.push(`"${entry}": user ${id} is listed twice`);
+    } else {
+      operators.set(Number(id), role);
+    }
+  }
+
+  if (problems.length) throw new Error(`Invalid TELEGRAM_OPERATORS — ${problems.join('; ')}`);
+  return operators;
+}
+
+let allowlist: Map<number, OperatorRole> | null = null;
+
+/** The operator allowlist from TELEGRAM_OPERATORS (parsed once). */
+export function getOperators(): Map<number, OperatorRole> {
+  allowlist ??= parseOperators(env.TELEGRAM_OPERATORS);
+  return allowlist;
+}
+
+/** Fail fast on a bad TELEGRAM_OPERATORS; warn when nobody may send commands. */
+export function validateOperators(): void {
+  if (getOperators().size === 0) {
+    logger.warn('Operators: TELEGRAM_OPERATORS is empty — every Telegram command will be refused');
+  }
+}
+
+export function operatorRole(userId: number | undefined): OperatorRole | null {
+  return userId === undefined ? null : (getOperators().get(userId) ?? null);
+}
+
+export function roleAllows(role: OperatorRole | null, required: OperatorRole): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+// ── Command roles ─────────────────────────────────────────────────────────────
+
+const COMMAND_ROLES: Record<string, OperatorRole> = {
+  '/status':     'viewer',
+  '/buffer':     'viewer',
+  '/paused':     'viewer',
+  '/gates':      'viewer',
+  '/approve':    'reviewer',
+  '/reject':     'reviewer',
+  '/schedule':   'reviewer',
+  '/disable':    'reviewer',
+  '/pause':      'admin',
+  '/resume':     'admin',
+  '/killswitch': 'admin',
+  '/takedown':   'admin',
+};
+
+/** Commands that only read without arguments and change state with them. */
+const LIST_OR_EDIT = new Set(['/flags', '/calendar']);
+
+/** The role a command needs. Unknown commands only get the help text, so viewer. */
+export function requiredRole(command: string): OperatorRole {
+  const [cmd = '', ...args] = command.trim().split(/\s+/);
+  const name = cmd.toLowerCase();
+  if (LIST_OR_EDIT.has(name)) return args.length ? 'admin' : 'viewer';
+  return COMMAND_ROLES[name] ?? 'viewer';
+}
+
+// ── Audit ─────────────────────────────────────────────────────────────────────
+
+/** Longest reply or error kept in operator_audit_log.detail. */
+const AUDIT_DETAIL_MAX = 500;
+
+/** Record a command or button press. Never throws — auditing must not block operators. */
+export async function recordAudit(entry: NewAuditEntry): Promise<void> {
+  const detail = entry.detail && entry.detail.length > AUDIT_DETAIL_MAX
+    ? `${entry.detail.slice(0, AUDIT_DETAIL_MAX - 1)}…`
+    : entry.detail;
+  try {
+    await insertAuditEntry({ ...entry, detail });
+  } catch (err) {
+    logger.warn('Operators: could not write the audit log', { command: entry.command, error: String(err) });
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Pipeline control — operator pauses of generation, publishing and ideation,
+ * each with a reason and an optional `until` time.
+ *
+ * Pauses live in the pipeline_pauses table and are set from Telegram (/pause,
+ * /resume, /paused). The cron jobs in src/index.ts skip paused stages, the
+ * pipeline does not top up an empty idea queue while ideation is paused, and the
+ * publisher holds posts while publishing is paused. A pause with an `until`
+ * resumes by itself: the first read after that time records the resume and
+ * tells the operator. Pauses are mirrored into the SQLite fallback DB, so they
+ * stay in force while Supabase is unreachable, even across a restart.
+ */
+import { SANDBOX } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { dbIsReachable, getDb } from '../db/client.js';
+import {
+  insertPipelinePause,
+  getCurrentPipelinePauses,
+  type PauseScope,
+  type PipelinePauseRecord,
+} from '../db/pauses.js';
+import { sendAlert } from './telegram.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type { PauseScope } from '../db/pauses.js';
+
+export const PAUSE_SCOPES: readonly PauseScope[] = ['generation', 'publishing', 'ideation'];
+
+export interface PipelinePause {
+  scope: PauseScope;
+  reason: string;
+  /** null = until /resume. */
+  until: Date | null;
+  setBy: string;
+  setAt: Date;
+}
+
+export function isPauseScope(value: string): value is PauseScope {
+  return (PAUSE_SCOPES as readonly string[]).includes(value);
+}
+
+// ── SQLite cache ──────────────────────────────────────────────────────────────
+
+interface CacheRow {
+  scope: PauseScope;
+  reason: string;
+  paused_until: string | null;
+  set_by: string;
+  set_at: string;
+}
+
+async function cacheDb(): Promise<Awaited<ReturnType<typeof getDb>>> {
+  const db = await getDb();
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS pipeline_pauses_cache (
+      scope        TEXT PRIMARY KEY,
+      reason       TEXT NOT NULL,
+      paused_until TEXT,
+      set_by       TEXT NOT NULL,
+      set_at       TEXT NOT NULL
+    )
+  `);
+  return db;
+}
+
+async function writeCache(pauses: PipelinePause[]): Promise<void> {
+  try {
+    const db = await cacheDb();
+    const insert = db.prepare(
+      'INSERT INTO pipeline_pauses_cache (scope, reason, paused_until, set_by, set_at) VALUES (?, ?, ?, ?, ?)',
+    );
+    db.transaction(() => {
+      db.prepare('DELETE FROM pipeline_pauses_cache').run();
+      for (const p of pauses) {
+        insert.run(p.scope, p.reason, p.until?.toISOString() ?? null, p.setBy, p.setAt.toISOString());
+      }
+    })();
+  } catch (err) {
+    logger.warn('Control: could not update the SQLite cache', { error: String(err) });
+  }
+}
+
+/** The mirrored pauses; every stage is held when the cache cannot be read. */
+async function readCache(): Promise<PipelinePause[]> {
+  try {
+    const db = await cacheDb();
+    const rows = db.prepare('SELECT * FROM pipeline_pauses_cache').all() as CacheRow[];
+    return rows.map((r) => ({
+      scope:  r.scope,
+      reason: r.reason,
+      until:  r.paused_until ? new Date(r.paused_until) : null,
+      setBy:  r.set_by,
+      setAt:  new Date(r.set_at),
+    }));
+  } catch (err) {
+    logger.error('Control: SQLite cache unreadable — holding every stage', { error: String(err) });
+    return PAUSE_SCOPES.map((scope) => ({
+      scope,
+      reason: 'Pauses unknown — Supabase and the SQLite cache are unreachable',
+      until:  null,
+      setBy:  'auto',
+      setAt:  new Date(),
+    }));
+  }
+}
+
+// ── Load ──────────────────────────────────────────────────────────────────────
+
+function toPause(row: PipelinePauseRecord): PipelinePause {
+  return {
+    scope:  row.scope,
+    reason: row.reason,
+    until:  row.paused_until ? new Date(row.paused_until) : null,
+    setBy:  row.set_by,
+    setAt:  new Date(row.created_at),
+  };
+}
+
+/** Record the resume of pauses whose `until` has passed and tell the operator. */
+async function autoResume(expired: PipelinePause[]): Promise<void> {
+  for (const pause of expired) {
+    await insertPipelinePause({
+      scope:        pause.scope,
+      paused:       false,
+      reason:       'Pause expired',
+      paused_until: null,
+      set_by:       'auto',
+    });
+    logger.info('Control: pause expired — resumed', { scope: pause.scope, reason: pause.reason });
+    await sendAlert(`▶️ ${pause.scope} resumed — pause expired (${pause.reason}).`, 'info');
+  }
+}
+
+/**
+ * The pauses in force at `at`. When Supabase is unreachable the pauses last
+ * mirrored to the SQLite cache are used, so an outage never lifts a pause.
+ */
+export async function getActivePauses(at: Date = new Date()): Promise<PipelinePause[]> {
+  if (!(await dbIsReachable('pipeline_pauses'))) {
+    logger.warn('Control: Supabase unreachable — using the SQLite cache');
+    return (await readCache()).filter((p) => p.until === null || p.until > at);
+  }
+
+  const paused = (await getCurrentPipelinePauses()).filter((r) => r.paused).map(toPause);
+  const active = paused.filter((p) => p.until === null || p.until > at);
+  await autoResume(paused.filter((p) => !active.includes(p)));
+
+  // Sandbox runs already read a local store
+  if (!SANDBOX) await writeCache(active);
+  return active;
+}
+
+/** The pause in force for a stage, or null when it may run. */
+export async function pausedFor(scope: PauseScope, at: Date = new Date()): Promise<PipelinePause | null> {
+  return (await getActivePauses(at)).find((p) => p.scope === scope) ?? null;
+}
+
+// ── Toggle ────────────────────────────────────────────────────────────────────
+
+export interface PauseOptions {
+  reason: string;
+  setBy: string;
+  /** null = until /resume. */
+  until?: Date | null;
+}
+
+export async function pausePipeline(scopes: readonly PauseScope[], options: PauseOptions): Promise<void> {
+  for (const scope of scopes) {
+    await insertPipelinePause({
+      scope,
+      paused:       true,
+      reason:       options.reason,
+      paused_until: options.until?.toISOString() ?? null,
+      set_by:       options.setBy,
+    });
+  }
+  logger.warn('Control: pipeline paused', { scopes, reason: options.reason, until: options.until ?? null });
+}
+
+export async function resumePipeline(scopes: readonly PauseScope[], options: { setBy: string; reason?: string }): Promise<void> {
+  for (const scope of scopes) {
+    await insertPipelinePause({
+      scope,
+      paused:       false,
+      reason:       options.reason ?? 'Resumed',
+      paused_until: null,
+      set_by:       options.setBy,
+    });
+  }
+  logger.info('Control: pipeline resumed', { scopes });
+}
+
+// ── Report ────────────────────────────────────────────────────────────────────
+
+export function formatUntil(until: Date | null): string {
+  return until ? `until ${until.toISOString().slice(0, 16).replace('T', ' ')} UTC` : 'until /resume';
+}
+
+/** Plain-text list of the pauses in force, for Telegram. */
+export function formatPipelinePauses(pauses: PipelinePause[]): string {
+  if (pauses.length === 0) return 'Pipeline: nothing paused.';
+
+  const lines = ['Paused'];
+  for (const p of pauses) {
+    lines.push(`⏸️ ${p.scope} — ${p.reason}`, `   ${formatUntil(p.until)} · set by ${p.setBy}`);
+  }
+  return lines.join('\n');
+}
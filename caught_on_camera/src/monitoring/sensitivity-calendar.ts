@@ -0,0 +1,405 @@
+/**
+ * Sensitivity calendar — dated windows, read from config/sensitivity.yaml (or
+ * SENSITIVITY_CALENDAR_PATH), that block or deprioritize categories, body cam
+ * sub-types and keywords around real-world events.
+ *
+ * Consulted by the ideators (prompt guidance, category weights, and dropping
+ * blocked concepts), by idea selection (blocked ideas are skipped, deprioritized
+ * ones only used when nothing else fits) and by schedulePublish() (a blocked
+ * post moves to the first slot after the window).
+ *
+ * The file is validated with zod and re-read when its modification time
+ * changes; an invalid edit is logged and the last valid calendar stays in
+ * force. Operators edit it through the Telegram /calendar command, which
+ * rewrites the file in place and keeps its comments.
+ */
+import * as fs from 'fs';
+import { z } from 'zod';
+import { parse as parseYaml, parseDocument, isMap, isSeq } from 'yaml';
+import { env, categoriesFor, type CamFormat } from '../config.js';
+import { logger } from '../utils/logger.js';
+import { packagePath } from '../utils/paths.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+const EFFECTS = ['block', 'deprioritize'] as const;
+
+export type SensitivityEffect = (typeof EFFECTS)[number];
+
+export interface SensitivityWindow {
+  id: string;
+  from: Date;
+  /** Exclusive end; a date-only `to` in the file ends at the following midnight UTC. */
+  to: Date;
+  effect: SensitivityEffect;
+  categories: string[];
+  subTypes: string[];
+  keywords: string[];
+  reason: string;
+}
+
+export interface SensitivityCalendar {
+  file: string;
+  windows: SensitivityWindow[];
+}
+
+/** What is being checked: an idea, or a video about to be published. */
+export interface SensitivitySubject {
+  category?: string | null | undefined;
+  subType?: string | null | undefined;
+  /** Free text searched for keywords (title, hook, scenario, caption). */
+  text?: string | undefined;
+}
+
+export interface SensitivityCheck {
+  blocked: boolean;
+  deprioritized: boolean;
+  /** Every open window that matched the subject. */
+  windows: SensitivityWindow[];
+}
+
+export class SensitivityCalendarError extends Error {
+  constructor(message: string, public readonly file: string) {
+    super(message);
+    this.name = 'SensitivityCalendarError';
+  }
+}
+
+// ── Schema ────────────────────────────────────────────────────────────────────
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+const DateSchema = z.string().refine((value) => !Number.isNaN(Date.parse(value)), 'expected YYYY-MM-DD or an ISO 8601 time');
+
+const WindowSchema = z.object({
+  id:         z.string().regex(/^[a-z0-9][a-z0-9_-]*$/i, 'letters, digits, - and _ only'),
+  from:       DateSchema,
+  to:         DateSchema,
+  effect:     z.enum(EFFECTS),
+  categories: z.array(z.string().min(1)).default([]),
+  subTypes:   z.array(z.string().min(1)).default([]),
+  keywords:   z.array(z.string().min(1)).default([]),
+  reason:     z.string().min(1),
+}).strict()
+  .refine((w) => w.categories.length + w.subTypes.length + w.keywords.length > 0, 'needs at least one of categories, subTypes, keywords')
+  // Unparseable dates are already reported by DateSchema
+  .refine((w) => !(windowEnd(w.to) <= windowStart(w.from)), '`to` must be after `from`');
+
+const CalendarFileSchema = z.object({
+  version: z.literal(1),
+  windows: z.array(WindowSchema).nullable().default([]).transform((w) => w ?? []),
+}).strict().superRefine((file, ctx) => {
+  const seen = new Set<string>();
+  file.windows.forEach((w, i) => {
+    if (seen.has(w.id)) ctx.addIssue({ code: 'custom', path: ['windows', i, 'id'], message: `duplicate id ${w.id}` });
+    seen.add(w.id);
+  });
+});
+
+/** A window as written in the file (dates as strings). */
+export type SensitivityWindowInput = z.input<typeof WindowSchema>;
+
+function windowStart(value: string): Date {
+  return new Date(DATE_ONLY.test(value) ? `${value}T00:00:00Z` : value);
+}
+
+/** Date-only ends are inclusive: the window runs to the end of that day. */
+function windowEnd(value: string): Date {
+  if (!DATE_ONLY.test(value)) return new Date(value);
+  const end = new Date(`${value}T00:00:00Z`);
+  end.setUTCDate(end.getUTCDate() + 1);
+  return end;
+}
+
+// ── Load ──────────────────────────────────────────────────────────────────────
+
+/** Path of the sensitivity calendar file in use. */
+export function sensitivityCalendarPath(): string {
+  return env.SENSITIVITY_CALENDAR_PATH ?? packagePath('config', 'sensitivity.yaml');
+}
+
+function parseCalendar(content: string, file: string): SensitivityCalendar {
+  let raw: unknown;
+  try {
+    raw = parseYaml(content);
+  } catch (err) {
+    throw new SensitivityCalendarError(`cannot parse ${file}: ${err instanceof Error ? err.message : String(err)}`, file);
+  }
+
+  const parsed = CalendarFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((i) => `${i.path.join('.') || '(root)'}: ${i.message}`);
+    throw new SensitivityCalendarError(`invalid sensitivity calendar ${file} — ${issues.join('; ')}`, file);
+  }
+
+  return {
+    file,
+    windows: parsed.data.windows.map((w) => ({
+      id:         w.id,
+      from:       windowStart(w.from),
+      to:         windowEnd(w.to),
+      effect:     w.effect,
+      categories: w.categories,
+      subTypes:   w.subTypes,
+      keywords:   w.keywords,
+      reason:     w.reason,
+    })),
+  };
+}
+
+/**
+ * Read and validate a sensitivity calendar file.
+ *
+ * @throws SensitivityCalendarError listing every problem found.
+ */
+export function loadSensitivityCalendar(file = sensitivityCalendarPath()): SensitivityCalendar {
+  let content: string;
+  try {
+    content = fs.readFileSync(file, 'utf-8');
+  } catch (err) {
+    throw new SensitivityCalendarError(`cannot read ${file}: ${err instanceof Error ? err.message : String(err)}`, file);
+  }
+  return parseCalendar(content, file);
+}
+
+let current: { calendar: SensitivityCalendar; mtimeMs: number } | null = null;
+
+/**
+ * The calendar in force, reloaded when the file has changed since the last
+ * call. The first load throws on an invalid file; later invalid edits keep
+ * the previous calendar.
+ */
+export function getSensitivityCalendar(): SensitivityCalendar {
+  const file = sensitivityCalendarPath();
+  let mtimeMs = 0;
+  try {
+    mtimeMs = fs.statSync(file).mtimeMs;
+  } catch {
+    // Missing file: loadSensitivityCalendar reports it on first load; otherwise keep the last calendar
+  }
+  if (current && current.calendar.file === file && (mtimeMs === current.mtimeMs || mtimeMs === 0)) {
+    return current.calendar;
+  }
+
+  try {
+    const calendar = loadSensitivityCalendar(file);
+    logger.info(current ? 'Sensitivity calendar: reloaded' : 'Sensitivity calendar: loaded', {
+      file,
+      windows: calendar.windows.length,
+    });
+    current = { calendar, mtimeMs };
+  } catch (err) {
+    if (!current) throw err;
+    logger.error('Sensitivity calendar: invalid edit ignored — keeping the previous calendar', {
+      error: err instanceof Error ? err.message : String(err),
+    });
+    current.mtimeMs = mtimeMs;
+  }
+  return current.calendar;
+}
+
+// ── Evaluate ──────────────────────────────────────────────────────────────────
+
+function escapeRegex(str: string): string {
+  return str.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function matches(window: SensitivityWindow, subject: SensitivitySubject): boolean {
+  if (subject.category && window.categories.includes(subject.category)) return true;
+  if (subject.subType && window.subTypes.includes(subject.subType)) return true;
+  const text = subject.text;
+  return text !== undefined && window.keywords.some((k) => new RegExp(`\\b${escapeRegex(k)}\\b`, 'i').test(text));
+}
+
+const isOpen = (window: SensitivityWindow, at: Date): boolean => window.from <= at && at < window.to;
+
+/** Which open windows apply to a subject at a given time. */
+export function checkSensitivity(
+  subject: SensitivitySubject,
+  at: Date = new Date(),
+  calendar: SensitivityCalendar = getSensitivityCalendar(),
+): SensitivityCheck {
+  const windows = calendar.windows.filter((w) => isOpen(w, at) && matches(w, subject));
+  return {
+    blocked:       windows.some((w) => w.effect === 'block'),
+    deprioritized: windows.some((w) => w.effect === 'deprioritize'),
+    windows,
+  };
+}
+
+/**
+ * The earliest time at or after `from` when no block window applies to the
+ * subject. Back-to-back and overlapping windows are followed through.
+ */
+export function nextClearTime(
+  subject: SensitivitySubject,
+  from: Date,
+  calendar: SensitivityCalendar = getSensitivityCalendar(),
+): Date {
+  let at = from;
+  for (;;) {
+    const blocking = checkSensitivity(subject, at, calendar).windows.filter((w) => w.effect === 'block');
+    if (blocking.length === 0) return at;
+    at = new Date(Math.max(...blocking.map((w) => w.to.getTime())));
+  }
+}
+
+/** Subject for an idea (new or stored) of either format. */
+export function ideaSubject(idea: {
+  category: string;
+  title: string;
+  hook: string;
+  scenario: string;
+  cam_sub_type?: string;
+}): SensitivitySubject {
+  return {
+    category: idea.category,
+    subType:  idea.cam_sub_type ?? null,
+    text:     [idea.title, idea.hook, idea.scenario].join('\n'),
+  };
+}
+
+// ── Ideator guidance ──────────────────────────────────────────────────────────
+
+/** Share of its normal weight a deprioritized category keeps in ideation. */
+const DEPRIORITIZED_WEIGHT = 0.25;
+
+/**
+ * Apply open windows to the ideator's category weights: blocked categories are
+ * dropped, deprioritized ones scaled down, and the rest renormalised to 1.
+ */
+export function adjustCategoryWeights(
+  weights: Record<string, number>,
+  at: Date = new Date(),
+  calendar: SensitivityCalendar = getSensitivityCalendar(),
+): Record<string, number> {
+  const scaled: Record<string, number> = {};
+  for (const [category, weight] of Object.entries(weights)) {
+    const check = checkSensitivity({ category }, at, calendar);
+    if (check.blocked) continue;
+    scaled[category] = check.deprioritized ? weight * DEPRIORITIZED_WEIGHT : weight;
+  }
+  const total = Object.values(scaled).reduce((s, v) => s + v, 0);
+  if (total === 0) return {};
+  return Object.fromEntries(Object.entries(scaled).map(([category, weight]) => [category, weight / total]));
+}
+
+/**
+ * Ideator prompt guidance for the windows open now, or '' when none apply to
+ * the format.
+ */
+export function sensitivityPromptHint(
+  format: CamFormat,
+  at: Date = new Date(),
+  calendar: SensitivityCalendar = getSensitivityCalendar(),
+): string {
+  const formatCategories = new Set(categoriesFor(format));
+  const describe = (w: SensitivityWindow): string | null => {
+    const parts = [
+      ...w.categories.filter((c) => formatCategories.has(c)).map((c) => `the ${c} category`),
+      ...(format === 'body_cam' ? w.subTypes.map((s) => `the ${s} sub-type`) : []),
+      ...w.keywords.map((k) => `"${k}"`),
+    ];
+    return parts.length > 0 ? `- ${parts.join(', ')} (${w.reason})` : null;
+  };
+
+  const open = calendar.windows.filter((w) => isOpen(w, at));
+  const blocked = open.filter((w) => w.effect === 'block').map(describe).filter((l): l is string => l !== null);
+  const reduced = open.filter((w) => w.effect === 'deprioritize').map(describe).filter((l): l is string => l !== null);
+
+  let hint = '';
+  if (blocked.length > 0) {
+    hint += '\n\nSENSITIVITY CALENDAR — do NOT generate concepts involving:\n' + blocked.join('\n');
+  }
+  if (reduced.length > 0) {
+    hint += '\n\nSENSITIVITY CALENDAR — keep concepts involving these to a minimum:\n' + reduced.join('\n');
+  }
+  return hint;
+}
+
+// ── Edit ──────────────────────────────────────────────────────────────────────
+
+function editCalendarFile(edit: (doc: ReturnType<typeof parseDocument>) => void): SensitivityCalendar {
+  const file = sensitivityCalendarPath();
+  const content = fs.existsSync(file) ? fs.readFileSync(file, 'utf-8') : 'version: 1\nwindows: []\n';
+  const doc = parseDocument(content);
+  if (doc.errors.length > 0) {
+    throw new SensitivityCalendarError(`cannot parse ${file}: ${doc.errors[0]!.message}`, file);
+  }
+
+  edit(doc);
+  const updated = doc.toString({ flowCollectionPadding: false });
+  // Validate before writing, so a bad edit never replaces a good file
+  const calendar = parseCalendar(updated, file);
+  fs.writeFileSync(file, updated);
+  current = { calendar, mtimeMs: fs.statSync(file).mtimeMs };
+  return calendar;
+}
+
+/**
+ * Add a window to the calendar file.
+ *
+ * @throws SensitivityCalendarError when the window is invalid or its id is taken.
+ */
+export function addSensitivityWindow(input: SensitivityWindowInput): SensitivityWindow {
+  const calendar = editCalendarFile((doc) => {
+    const entry = Object.fromEntries(Object.entries(input).filter(([, v]) => !(Array.isArray(v) && v.length === 0)));
+    const node = doc.createNode(entry);
+    node.spaceBefore = true;
+    for (const item of node.items) {
+      if (isSeq(item.value)) item.value.flow = true;
+    }
+    const windows = doc.get('windows');
+    if (isSeq(windows)) {
+      windows.flow = false;
+      windows.items.push(node);
+    } else {
+      doc.set('windows', doc.createNode([node]));
+    }
+  });
+  logger.info('Sensitivity calendar: window added', { id: input.id, effect: input.effect });
+  return calendar.windows.find((w) => w.id === input.id)!;
+}
+
+/** Remove a window by id. Returns false when there is no such window. */
+export function removeSensitivityWindow(id: string): boolean {
+  let removed = false;
+  editCalendarFile((doc) => {
+    const windows = doc.get('windows');
+    if (!isSeq(windows)) return;
+    const index = windows.items.findIndex((item) => isMap(item) && item.get('id') === id);
+    if (index === -1) return;
+    windows.items.splice(index, 1);
+    removed = true;
+  });
+  if (removed) logger.info('Sensitivity calendar: window removed', { id });
+  return removed;
+}
+
+// ── Report ────────────────────────────────────────────────────────────────────
+
+const atMidnight = (d: Date): boolean => d.getTime() % 86_400_000 === 0;
+const stamp = (d: Date): string => (atMidnight(d) ? d.toISOString().slice(0, 10) : d.toISOString().slice(0, 16).replace('T', ' '));
+
+/** Plain-text listing of open and upcoming windows for Telegram. */
+export function formatSensitivityCalendar(
+  calendar: SensitivityCalendar = getSensitivityCalendar(),
+  at: Date = new Date(),
+): string {
+  const upcoming = calendar.windows
+    .filter((w) => w.to > at)
+    .sort((a, b) => a.from.getTime() - b.from.getTime());
+  if (upcoming.length === 0) return 'Sensitivity calendar: no open or upcoming windows.';
+
+  const lines = ['Sensitivity calendar'];
+  for (const w of upcoming) {
+    const targets = [...w.categories, ...w.subTypes, ...w.keywords.map((k) => `"${k}"`)].join(', ');
+    // A midnight `to` is shown as the last whole day covered, as written in the file
+    const until = atMidnight(w.to) ? stamp(new Date(w.to.getTime() - 86_400_000)) : stamp(w.to);
+    lines.push(
+      `${isOpen(w, at) ? '●' : '○'} ${w.id} — ${w.effect} ${targets}`,
+      `   ${stamp(w.from)} → ${until} · ${w.reason}`,
+    );
+  }
+  return lines.join('\n');
+}
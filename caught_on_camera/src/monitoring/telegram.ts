@@ -5,15 +5,67 @@
  * so a Telegram outage never blocks the production pipeline.
  *
  * Operator commands are handled synchronously and return a reply string.
+ *
+ * PROVIDER_MODE=sandbox writes every API call to a local outbox file instead.
  */
-import { env } from '../config.js';
+import * as fs from 'fs';
+import * as path from 'path';
+import { env, SANDBOX, RING_CAM_CATEGORIES, BODY_CAM_CATEGORIES, BODY_CAM_SUB_TYPES } from '../config.js';
 import { logger } from '../utils/logger.js';
+import { sandboxTelegramCall } from '../providers/sandbox/telegram.js';
+import { buildContactSheet } from '../media/frames.js';
+import { getGateReport, formatGateReport, DEFAULT_REPORT_DAYS } from './gate-report.js';
+import {
+  operatorRole,
+  requiredRole,
+  roleAllows,
+  recordAudit,
+  type OperatorRole,
+} from './operators.js';
+import {
+  addSensitivityWindow,
+  removeSensitivityWindow,
+  formatSensitivityCalendar,
+  SensitivityCalendarError,
+  type SensitivityWindowInput,
+} from './sensitivity-calendar.js';
+import {
+  getFeatureFlags,
+  setKillSwitch,
+  clearKillSwitch,
+  resolveFlagTarget,
+  formatFeatureFlags,
+} from './feature-flags.js';
+import {
+  getActivePauses,
+  pausePipeline,
+  resumePipeline,
+  isPauseScope,
+  formatPipelinePauses,
+  formatUntil,
+  PAUSE_SCOPES,
+  type PauseScope,
+} from './pipeline-control.js';
+import {
+  reviewKeyboard,
+  handleReviewCallback,
+  approveVideo,
+  rejectVideo,
+  isRejectReason,
+  REJECT_REASONS,
+} from '../pipeline/review.js';
+import { takedownVideo, formatTakedown, TakedownError } from '../pipeline/takedown.js';
+import { setReviewMessageId } from '../db/videos.js';
 
 // ── Internal send ─────────────────────────────────────────────────────────────
 
 const BASE_URL = () => `https://api.telegram.org/bot${env.TELEGRAM_BOT_TOKEN}`;
 
 async function send(text: string, parseMode: 'HTML' | 'Markdown' = 'HTML'): Promise<void> {
+  if (SANDBOX) {
+    sandboxTelegramCall('sendMessage', { chat_id: env.TELEGRAM_CHAT_ID, text, parse_mode: parseMode });
+    return;
+  }
   try {
     const res = await fetch(`${BASE_URL()}/sendMessage`, {
       method: 'POST',
@@ -32,6 +84,203 @@ async function send(text: string, parseMode: 'HTML' | 'Markdown' = 'HTML'): Prom
   }
 }
 
+// ── Inline keyboards & callbacks ──────────────────────────────────────────────
+
+export interface InlineKeyboardButton {
+  text: string;
+  /** Routed by the prefix before the first ':' — max 64 bytes (Telegram limit). */
+  callback_data: string;
+}
+
+export type InlineKeyboard = InlineKeyboardButton[][];
+
+export interface TelegramUser {
+  id: number;
+  username?: string;
+  first_name?: string;
+}
+
+export interface TelegramCallbackQuery {
+  id: string;
+  from: TelegramUser;
+  message?: { message_id: number; chat: { id: number } };
+  data?: string;
+}
+
+/** An inbound text message (operator command). */
+export interface TelegramMessage {
+  text?: string;
+  chat?: { id: number };
+  from?: TelegramUser;
+}
+
+/**
+ * Handles a button press. Receives the callback data after the prefix and
+ * returns an optional short toast shown to the operator.
+ */
+export type CallbackHandler = (
+  query: TelegramCallbackQuery,
+  payload: string,
+) => Promise<string | void>;
+
+const callbackHandlers = new Map<string, { handler: CallbackHandler; role: OperatorRole }>();
+
+/** Call a Telegram Bot API method; returns the `result` field, or null on any failure. */
+async function callApi<T>(method: string, body: Record<string, unknown>): Promise<T | null> {
+  if (SANDBOX) return sandboxTelegramCall(method, body) as T;
+  try {
+    const res = await fetch(`${BASE_URL()}/${method}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const json = await res.json() as { ok: boolean; result?: T; description?: string };
+    if (!json.ok) {
+      logger.warn(`Telegram: ${method} failed`, { status: res.status, description: json.description });
+      return null;
+    }
+    return json.result ?? null;
+  } catch (err) {
+    logger.warn('Telegram: unreachable', { method, error: String(err) });
+    return null;
+  }
+}
+
+/**
+ * Upload a local file with a Bot API send* method (multipart/form-data).
+ * Returns the `result` field, or null on any failure.
+ */
+async function uploadFile<T>(
+  method: string,
+  field: string,
+  filePath: string,
+  body: Record<string, unknown>,
+): Promise<T | null> {
+  if (SANDBOX) return sandboxTelegramCall(method, { ...body, [field]: filePath }) as T;
+  try {
+    const form = new FormData();
+    for (const [key, value] of Object.entries(body)) {
+      form.append(key, typeof value === 'string' ? value : JSON.stringify(value));
+    }
+    form.append(field, new Blob([fs.readFileSync(filePath)]), path.basename(filePath));
+
+    const res = await fetch(`${BASE_URL()}/${method}`, { method: 'POST', body: form });
+    const json = await res.json() as { ok: boolean; result?: T; description?: string };
+    if (!json.ok) {
+      logger.warn(`Telegram: ${method} failed`, { status: res.status, description: json.description });
+      return null;
+    }
+    return json.result ?? null;
+  } catch (err) {
+    logger.warn('Telegram: upload failed', { method, error: String(err) });
+    return null;
+  }
+}
+
+/** Display name for the operator who sent a command or pressed a button. */
+export function operatorName(from: TelegramUser): string {
+  return from.username ? `@${from.username}` : (from.first_name ?? String(from.id));
+}
+
+/**
+ * Send a message with an inline keyboard.
+ * Returns the Telegram message_id (for later edits), or null if sending failed.
+ */
+export async function sendWithKeyboard(text: string, keyboard: InlineKeyboard): Promise<number | null> {
+  const result = await callApi<{ message_id: number }>('sendMessage', {
+    chat_id:      env.TELEGRAM_CHAT_ID,
+    text,
+    parse_mode:   'HTML',
+    reply_markup: { inline_keyboard: keyboard },
+  });
+  return result?.message_id ?? null;
+}
+
+/** Replace a message's text and remove its inline keyboard. */
+export async function editMessage(messageId: number, text: string): Promise<void> {
+  await callApi('editMessageText', {
+    chat_id:      env.TELEGRAM_CHAT_ID,
+    message_id:   messageId,
+    text,
+    parse_mode:   'HTML',
+    reply_markup: { inline_keyboard: [] },
+  });
+}
+
+/** Replace a message's inline keyboard, leaving its text as is. */
+export async function editKeyboard(messageId: number, keyboard: InlineKeyboard): Promise<void> {
+  await callApi('editMessageReplyMarkup', {
+    chat_id:      env.TELEGRAM_CHAT_ID,
+    message_id:   messageId,
+    reply_markup: { inline_keyboard: keyboard },
+  });
+}
+
+/**
+ * Register the handler for callback data starting with `<prefix>:`, pressable
+ * by operators with at least `role`. Modules register at import time; a later
+ * registration replaces an earlier one.
+ */
+export function registerCallbackHandler(prefix: string, handler: CallbackHandler, role: OperatorRole = 'reviewer'): void {
+  callbackHandlers.set(prefix, { handler, role });
+}
+
+/** Callback prefix for the review buttons (handled by pipeline/review.ts). */
+export const REVIEW_CALLBACK_PREFIX = 'review';
+
+registerCallbackHandler(REVIEW_CALLBACK_PREFIX, handleReviewCallback);
+
+/**
+ * Route an inbound callback_query to its registered handler and acknowledge it
+ * so the operator's button stops spinning. Presses from other chats, or from
+ * operators without the handler's role, are refused; every press is audited.
+ */
+export async function handleTelegramCallback(query: TelegramCallbackQuery): Promise<void> {
+  const data = query.data ?? '';
+  const sep = data.indexOf(':');
+  const prefix = sep === -1 ? data : data.slice(0, sep);
+  const payload = sep === -1 ? '' : data.slice(sep + 1);
+
+  const role = operatorRole(query.from.id);
+  const registered = callbackHandlers.get(prefix);
+  let toast: string | void = undefined;
+  let result: 'ok' | 'denied' | 'error' = 'ok';
+  if (String(query.message?.chat.id) !== env.TELEGRAM_CHAT_ID) {
+    logger.warn('Telegram: callback from unexpected chat ignored', { chat: query.message?.chat.id });
+    toast = 'Not allowed here.';
+    result = 'denied';
+  } else if (!registered) {
+    logger.warn('Telegram: no handler for callback', { data });
+    toast = 'This button has expired.';
+  } else if (!roleAllows(role, registered.role)) {
+    logger.warn('Telegram: callback from operator without the role refused', { data, user: query.from.id, role });
+    toast = `Not allowed — needs the ${registered.role} role.`;
+    result = 'denied';
+  } else {
+    try {
+      toast = await registered.handler(query, payload);
+    } catch (err) {
+      logger.error('Telegram: callback handler error', { data, err });
+      toast = 'Something went wrong — check the logs.';
+      result = 'error';
+    }
+  }
+
+  await recordAudit({
+    telegram_user_id: query.from.id,
+    operator:         operatorName(query.from),
+    role,
+    command:          data,
+    result,
+    detail:           toast || null,
+  });
+
+  await callApi('answerCallbackQuery', {
+    callback_query_id: query.id,
+    ...(toast ? { text: toast } : {}),
+  });
+}
+
 // ── Public API ─────────────────────────────────────────────────────────────────
 
 /**
@@ -50,9 +299,64 @@ export async function sendAlert(
   await send(`${prefix[level]} <b>${level.toUpperCase()}</b>\n${message}`);
 }
 
+/** Bot API limit on files uploaded with sendVideo. */
+const TELEGRAM_MAX_UPLOAD_BYTES = 50 * 1024 * 1024;
+
+/** Metrics shown per gate in a review request. */
+const REVIEW_METRICS_PER_GATE = 3;
+
+function formatMetric(value: unknown): string | null {
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  if (typeof value === 'boolean') return value ? 'yes' : 'no';
+  if (typeof value === 'string' && value.length <= 24) return value;
+  return null;
+}
+
+/** One line per gate: pass/fail plus its first few scalar metrics. */
+function formatGateSummary(gateResults: Record<string, unknown>): string {
+  const lines: string[] = [];
+  for (const [key, value] of Object.entries(gateResults)) {
+    const gate = /^gate(\d+)$/.exec(key);
+    if (!gate || typeof value !== 'object' || value === null) continue;
+    const outcome = value as { pass?: boolean; metrics?: Record<string, unknown> };
+    const metrics = Object.entries(outcome.metrics ?? {})
+      .map(([name, v]) => {
+        const shown = formatMetric(v);
+        return shown === null ? null : `${name} ${shown}`;
+      })
+      .filter((m): m is string => m !== null)
+      .slice(0, REVIEW_METRICS_PER_GATE);
+    lines.push(`  G${gate[1]} ${outcome.pass === false ? '❌' : '✅'}${metrics.length ? ` ${metrics.join(' · ')}` : ''}`);
+  }
+  const attempts = Number(gateResults['attempts']);
+  if (lines.length === 0) return '';
+  return `<b>Gates</b>${attempts > 0 ? ` (${attempts} attempt${attempts === 1 ? '' : 's'})` : ''}:\n${lines.join('\n')}\n`;
+}
+
+/** Tile 3×3 keyframes of the clip into a JPEG and send it. Never throws. */
+async function sendContactSheet(videoPath: string, videoId: string): Promise<void> {
+  let sheet: string | null = null;
+  try {
+    sheet = await buildContactSheet(videoPath, 3, 3);
+    await uploadFile('sendPhoto', 'photo', sheet, {
+      chat_id: env.TELEGRAM_CHAT_ID,
+      caption: `Contact sheet — ${videoId}`,
+    });
+  } catch (err) {
+    logger.warn('Telegram: contact sheet failed — sending without it', { videoId, error: String(err) });
+  } finally {
+    if (sheet) fs.rmSync(sheet, { force: true });
+  }
+}
+
 /**
  * Send a review request to the operator when a video is ready for approval.
- * Includes a Cloudinary preview link and Approve/Reject action instructions.
+ *
+ * When the rendered clip is on this machine, a 3×3 keyframe contact sheet and
+ * the clip itself are uploaded first; a clip over Telegram's upload limit (or
+ * not available locally) is linked instead. The request carries gate metrics,
+ * cost and crop-safety, plus Approve / Reject / Regenerate buttons; its
+ * message id is stored on the video so the decision can be shown on it.
  */
 export async function sendReviewRequest(video: {
   id: string;
@@ -61,22 +365,58 @@ export async function sendReviewRequest(video: {
   cloudinaryUrl: string;
   concept: string;
   cost: number;
+  /** Local render (master 16:9) to upload. */
+  videoPath?: string | null;
+  cropSafe?: boolean;
+  /** videos.gate_results — `attempts` plus a `gateN` outcome per gate. */
+  gateResults?: Record<string, unknown>;
 }): Promise<void> {
   const formatTag = video.format === 'ring_cam' ? '[RING CAM]' : '[BODY CAM]';
+  const localClip = video.videoPath && fs.existsSync(video.videoPath) ? video.videoPath : null;
+  const clipBytes = localClip ? fs.statSync(localClip).size : 0;
+
+  if (localClip) await sendContactSheet(localClip, video.id);
+
+  let uploaded = false;
+  if (localClip && clipBytes <= TELEGRAM_MAX_UPLOAD_BYTES) {
+    const sent = await uploadFile('sendVideo', 'video', localClip, {
+      chat_id:            env.TELEGRAM_CHAT_ID,
+      caption:            `🎬 ${escapeHtml(video.title)}`,
+      parse_mode:         'HTML',
+      supports_streaming: true,
+    });
+    uploaded = sent !== null;
+  } else if (localClip) {
+    logger.info('Telegram: clip over the upload limit — sending a link', { videoId: video.id, bytes: clipBytes });
+  }
+
+  // Placeholder / local-path URLs cannot be opened from Telegram — show them as text
+  const isWebUrl = /^https?:\/\//.test(video.cloudinaryUrl);
+  const url = escapeHtml(video.cloudinaryUrl);
+  const tooLarge = localClip && clipBytes > TELEGRAM_MAX_UPLOAD_BYTES
+    ? ` (${(clipBytes / 1024 / 1024).toFixed(0)} MB — too large to upload)`
+    : '';
+  const preview = uploaded
+    ? ''
+    : `\n<b>Preview:</b> ${isWebUrl ? `<a href="${url.replace(/"/g, '&quot;')}">Watch clip</a>` : `<code>${url}</code>`}${tooLarge}`;
+  const crop = video.cropSafe === undefined
+    ? ''
+    : `<b>Crop:</b> ${video.cropSafe ? '✅ 9:16 safe' : '⚠️ not crop-safe — 16:9 only'}\n`;
 
+  // Title and concept are model-written; an unescaped < or & makes Telegram reject the message
   const text =
     `🎬 <b>New video ready for review</b> ${formatTag}\n\n` +
     `<b>ID:</b> <code>${video.id}</code>\n` +
-    `<b>Title:</b> ${video.title}\n` +
-    `<b>Concept:</b> ${video.concept}\n` +
-    `<b>Cost:</b> $${video.cost.toFixed(2)}\n\n` +
-    `<b>Preview:</b> <a href="${video.cloudinaryUrl}">Watch clip</a>\n\n` +
-    `<b>Actions:</b>\n` +
-    `  ✅ <code>/approve ${video.id}</code>\n` +
-    `  ❌ <code>/reject ${video.id} [reason]</code>`;
+    `<b>Title:</b> ${escapeHtml(video.title)}\n` +
+    `<b>Concept:</b> ${escapeHtml(video.concept)}\n` +
+    `<b>Cost:</b> $${video.cost.toFixed(2)}\n` +
+    crop +
+    formatGateSummary(video.gateResults ?? {}) +
+    preview;
 
-  await send(text);
-  logger.info('Telegram: review request sent', { videoId: video.id });
+  const messageId = await sendWithKeyboard(text.trimEnd(), reviewKeyboard(video.id));
+  if (messageId !== null) await setReviewMessageId(video.id, messageId);
+  logger.info('Telegram: review request sent', { videoId: video.id, messageId, uploaded });
 }
 
 /**
@@ -134,20 +474,75 @@ export const telegram = {
 
 // ── Command handler ────────────────────────────────────────────────────────────
 
+/** Bot API limit on message text length. */
+const TELEGRAM_MAX_LENGTH = 4096;
+
+/**
+ * Authorise and run an inbound operator message, and record it in the audit
+ * log. Returns the reply, or null for messages that are not commands or come
+ * from another chat (audited as denied, with no reply).
+ */
+export async function handleOperatorMessage(message: TelegramMessage): Promise<string | null> {
+  const text = message.text?.trim();
+  if (!text?.startsWith('/')) return null;
+
+  const role = operatorRole(message.from?.id);
+  const required = requiredRole(text);
+  const by = message.from ? operatorName(message.from) : 'unknown';
+  const audit = (result: 'ok' | 'denied' | 'error', detail: string) =>
+    recordAudit({ telegram_user_id: message.from?.id ?? null, operator: by, role, command: text, result, detail });
+
+  if (String(message.chat?.id) !== env.TELEGRAM_CHAT_ID) {
+    logger.warn('Telegram: command from unexpected chat ignored', { chat: message.chat?.id, user: message.from?.id });
+    await audit('denied', `Chat mismatch — sent from chat ${message.chat?.id ?? 'unknown'}, not the operator chat`);
+    return null;
+  }
+
+  if (!roleAllows(role, required)) {
+    logger.warn('Telegram: command from operator without the role refused', { text, user: message.from?.id, role, required });
+    const reply = role === null
+      ? '⛔ You are not on this bot\'s operator list.'
+      : `⛔ Not allowed — ${text.split(/\s+/)[0]} needs the ${required} role (you are ${role}).`;
+    await audit('denied', reply);
+    return reply;
+  }
+
+  try {
+    const reply = await handleTelegramCommand(text, by);
+    await audit('ok', reply);
+    return reply;
+  } catch (err) {
+    logger.error('Telegram: command handler error', { text, err });
+    await audit('error', String(err));
+    return 'Something went wrong — check the logs.';
+  }
+}
+
 /**
- * Handle an inbound Telegram operator command.
- * Returns a human-readable reply string.
+ * Handle an inbound Telegram operator command on behalf of `by` (who is
+ * recorded as the decision maker). Returns a human-readable reply string.
+ * Authorisation happens in handleOperatorMessage().
  *
  * Supported commands:
  *   /approve <videoId>
- *   /reject <videoId> [reason]
+ *   /reject <videoId> <reason> [note]
  *   /status
- *   /pause
+ *   /pause [generation|publishing|ideation|all] [<N>h|<N>d] <reason>
+ *   /resume [generation|publishing|ideation|all]
+ *   /paused
  *   /schedule <videoId> <ISO8601-datetime>
  *   /disable <ideaId>
  *   /buffer
+ *   /gates [days]
+ *   /calendar
+ *   /calendar add <id> <from> <to> <block|deprioritize> <targets> <reason>
+ *   /calendar remove <id>
+ *   /killswitch <target> [<N>h|<N>d] <reason>
+ *   /flags
+ *   /flags on <target> [reason]
+ *   /takedown <videoId> [reason]
  */
-export async function handleTelegramCommand(command: string): Promise<string> {
+export async function handleTelegramCommand(command: string, by = 'telegram'): Promise<string> {
   const parts = command.trim().split(/\s+/);
   const cmd = parts[0]?.toLowerCase();
 
@@ -158,20 +553,19 @@ export async function handleTelegramCommand(command: string): Promise<string> {
       const videoId = parts[1];
       if (!videoId) return 'Usage: /approve <videoId>';
 
-      // TODO: call updateVideoApproval(videoId, 'approved') from db/videos.ts
-      // TODO: trigger publish schedule for this video
-      logger.info('Telegram: /approve received', { videoId });
-      return `✅ Video ${videoId} approved and queued for publishing.`;
+      const outcome = await approveVideo(videoId, by);
+      return escapeHtml(outcome.ok ? `Video ${videoId}: ${outcome.summary}` : outcome.message);
     }
 
     case '/reject': {
       const videoId = parts[1];
-      if (!videoId) return 'Usage: /reject <videoId> [reason]';
-      const reason = parts.slice(2).join(' ') || 'No reason provided';
+      const reason = parts[2]?.toLowerCase() ?? '';
+      if (!videoId || !isRejectReason(reason)) {
+        return `Usage: /reject <videoId> <reason> [note]\nReasons: ${Object.keys(REJECT_REASONS).join(', ')}`;
+      }
 
-      // TODO: call updateVideoApproval(videoId, 'rejected', reason) from db/videos.ts
-      logger.info('Telegram: /reject received', { videoId, reason });
-      return `❌ Video ${videoId} rejected. Reason: ${reason}`;
+      const outcome = await rejectVideo(videoId, reason, by, parts.slice(3).join(' '));
+      return escapeHtml(outcome.ok ? `Video ${videoId}: ${outcome.summary}` : outcome.message);
     }
 
     case '/status': {
@@ -182,9 +576,31 @@ export async function handleTelegramCommand(command: string): Promise<string> {
     }
 
     case '/pause': {
-      // TODO: set a PIPELINE_PAUSED flag in DB / env; runDailyPipeline() checks this
-      logger.info('Telegram: /pause received');
-      return '⏸️ Pipeline paused. Send /pause again to resume.';
+      const scopes = parts[1] ? pauseScopes(parts[1]) : null;
+      const rest = parts.slice(scopes ? 2 : 1);
+      const duration = rest[0] ? parseDuration(rest[0]) : null;
+      const reason = rest.slice(duration === null ? 0 : 1).join(' ');
+      if (!reason) return PAUSE_USAGE;
+
+      const until = duration === null ? null : new Date(Date.now() + duration);
+      const paused = scopes ?? PAUSE_SCOPES;
+      logger.info('Telegram: /pause received', { scopes: paused, until });
+      await pausePipeline(paused, { reason, until, setBy: by });
+      return escapeHtml(`⏸️ ${paused.join(', ')} paused ${formatUntil(until)}.`);
+    }
+
+    case '/resume': {
+      const scopes = parts[1] ? pauseScopes(parts[1]) : PAUSE_SCOPES;
+      if (!scopes) return PAUSE_USAGE;
+
+      logger.info('Telegram: /resume received', { scopes });
+      await resumePipeline(scopes, { setBy: by });
+      return `▶️ ${scopes.join(', ')} resumed.`;
+    }
+
+    case '/paused': {
+      logger.info('Telegram: /paused received');
+      return escapeHtml(formatPipelinePauses(await getActivePauses()));
     }
 
     case '/schedule': {
@@ -213,7 +629,151 @@ export async function handleTelegramCommand(command: string): Promise<string> {
       return '📦 Buffer status check triggered — TODO: implement buffer query.';
     }
 
+    case '/gates': {
+      const days = Number(parts[1] ?? DEFAULT_REPORT_DAYS);
+      if (!Number.isInteger(days) || days < 1) return 'Usage: /gates [days]';
+
+      logger.info('Telegram: /gates received', { days });
+      // Replies are sent with parse_mode HTML; failure reasons are free text
+      const escaped = escapeHtml(formatGateReport(await getGateReport(days)));
+      return escaped.length > TELEGRAM_MAX_LENGTH ? `${escaped.slice(0, TELEGRAM_MAX_LENGTH - 1)}…` : escaped;
+    }
+
+    case '/calendar': {
+      logger.info('Telegram: /calendar received', { action: parts[1] ?? 'list' });
+      try {
+        return escapeHtml(calendarCommand(parts.slice(1)));
+      } catch (err) {
+        if (err instanceof SensitivityCalendarError) return escapeHtml(`⚠️ ${err.message}`);
+        throw err;
+      }
+    }
+
+    case '/killswitch': {
+      const flag = parts[1] ? resolveFlagTarget(parts[1]) : null;
+      const duration = parts[2] ? parseDuration(parts[2]) : null;
+      const reason = parts.slice(duration === null ? 2 : 3).join(' ');
+      if (!flag || !reason) return KILLSWITCH_USAGE;
+
+      const expiresAt = duration === null ? null : new Date(Date.now() + duration);
+      logger.info('Telegram: /killswitch received', { ...flag, expiresAt });
+      await setKillSwitch(flag.scope, flag.target, { reason, expiresAt, setBy: by });
+      const until = expiresAt ? `until ${expiresAt.toISOString().slice(0, 16).replace('T', ' ')} UTC` : 'until /flags on';
+      return escapeHtml(`⛔ ${flag.scope} ${flag.target} disabled ${until}.`);
+    }
+
+    case '/flags': {
+      logger.info('Telegram: /flags received', { action: parts[1] ?? 'list' });
+      if (!parts[1]) return escapeHtml(formatFeatureFlags(await getFeatureFlags()));
+
+      const flag = parts[2] ? resolveFlagTarget(parts[2]) : null;
+      if (parts[1] !== 'on' || !flag) return KILLSWITCH_USAGE;
+      await clearKillSwitch(flag.scope, flag.target, { reason: parts.slice(3).join(' ') || 'Re-enabled', setBy: by });
+      return escapeHtml(`✅ ${flag.scope} ${flag.target} enabled.`);
+    }
+
+    case '/takedown': {
+      const videoId = parts[1];
+      if (!videoId) return 'Usage: /takedown <videoId> [reason]';
+
+      logger.warn('Telegram: /takedown received', { videoId, by });
+      try {
+        const result = await takedownVideo(videoId, { reason: parts.slice(2).join(' ') || 'Telegram /takedown', by });
+        return escapeHtml(formatTakedown(result));
+      } catch (err) {
+        if (err instanceof TakedownError) return escapeHtml(err.message);
+        throw err;
+      }
+    }
+
     default:
-      return `Unknown command: ${cmd ?? '(none)'}\nAvailable: /approve /reject /status /pause /schedule /disable /buffer`;
+      return `Unknown command: ${cmd ?? '(none)'}\nAvailable: /approve /reject /status /pause /resume /paused /schedule /disable /buffer /gates /calendar /killswitch /flags /takedown`;
   }
 }
+
+/** Escape text interpolated into a parse_mode HTML message. */
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+// ── /pause, /resume ───────────────────────────────────────────────────────────
+
+const PAUSE_USAGE =
+  'Usage: /pause [generation|publishing|ideation|all] [<N>h|<N>d] <reason>\n' +
+  '       /resume [generation|publishing|ideation|all]\n' +
+  '       /paused\n' +
+  'No stage = all stages; no duration = until /resume.';
+
+/** The stages named by a /pause or /resume argument, or null when it names none. */
+function pauseScopes(arg: string): readonly PauseScope[] | null {
+  if (arg === 'all') return PAUSE_SCOPES;
+  return isPauseScope(arg) ? [arg] : null;
+}
+
+// ── /killswitch, /flags ───────────────────────────────────────────────────────
+
+const KILLSWITCH_USAGE =
+  'Usage: /killswitch <target> [<N>h|<N>d] <reason>\n' +
+  '       /flags\n' +
+  '       /flags on <target> [reason]\n' +
+  'target: a format, body cam sub-type, category or platform, e.g. police_security, body_cam, weather, tiktok';
+
+/** `12h` / `14d` in milliseconds, or null when the argument is not a duration. */
+function parseDuration(value: string): number | null {
+  const match = /^(\d+)([hd])$/.exec(value);
+  if (!match) return null;
+  return Number(match[1]) * (match[2] === 'h' ? 3_600_000 : 86_400_000);
+}
+
+// ── /calendar ─────────────────────────────────────────────────────────────────
+
+const CALENDAR_USAGE =
+  'Usage: /calendar\n' +
+  '       /calendar add <id> <from> <to> <block|deprioritize> <targets> <reason>\n' +
+  '       /calendar remove <id>\n' +
+  'from: today or YYYY-MM-DD · to: YYYY-MM-DD (inclusive) or +<days>d\n' +
+  'targets: comma-separated categories, sub-types and keywords (_ for spaces), e.g. police_security,pursuit,shooting';
+
+const KNOWN_CATEGORIES = new Set<string>([...RING_CAM_CATEGORIES, ...BODY_CAM_CATEGORIES]);
+const KNOWN_SUB_TYPES = new Set<string>(BODY_CAM_SUB_TYPES);
+
+/** `today` → the current UTC date; anything else is passed through for validation. */
+function calendarDate(value: string): string {
+  return value.toLowerCase() === 'today' ? new Date().toISOString().slice(0, 10) : value;
+}
+
+function calendarCommand(args: string[]): string {
+  const [action, id] = args;
+
+  if (!action || action === 'list') return formatSensitivityCalendar();
+
+  if (action === 'remove') {
+    if (!id) return CALENDAR_USAGE;
+    return removeSensitivityWindow(id) ? `🗓️ Window ${id} removed.` : `No window with id ${id}.`;
+  }
+
+  if (action !== 'add') return CALENDAR_USAGE;
+  const [, , fromArg, toArg, effect, targets, ...reasonWords] = args;
+  if (!id || !fromArg || !toArg || !effect || !targets || reasonWords.length === 0) return CALENDAR_USAGE;
+  if (effect !== 'block' && effect !== 'deprioritize') return CALENDAR_USAGE;
+
+  const from = calendarDate(fromArg);
+  // +Nd: N whole days starting with `from`
+  const relative = /^\+(\d+)d$/.exec(toArg);
+  let to = calendarDate(toArg);
+  if (relative) {
+    const end = new Date(`${from}T00:00:00Z`);
+    end.setUTCDate(end.getUTCDate() + Number(relative[1]) - 1);
+    to = Number.isNaN(end.getTime()) ? toArg : end.toISOString().slice(0, 10);
+  }
+
+  const window: SensitivityWindowInput = { id, from, to, effect, categories: [], subTypes: [], keywords: [], reason: reasonWords.join(' ') };
+  for (const target of targets.split(',').filter(Boolean)) {
+    if (KNOWN_CATEGORIES.has(target)) window.categories!.push(target);
+    else if (KNOWN_SUB_TYPES.has(target)) window.subTypes!.push(target);
+    else window.keywords!.push(target.replace(/_/g, ' '));
+  }
+
+  addSensitivityWindow(window);
+  return `🗓️ Window ${id} added.\n\n${formatSensitivityCalendar()}`;
+}
@@ -11,9 +11,11 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { env } from '../config.js';
 import { logger } from '../utils/logger.js';
+import { tempPath } from '../utils/temp.js';
 import { concatenateClips, cropToVertical } from '../media/ffmpeg.js';
 import { burnDisclosure, applyOverlay } from '../media/overlay.js';
 import { dbSelect } from '../db/client.js';
+import { downloadClip } from '../media/storage.js';
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
@@ -29,12 +31,6 @@ export interface MultiFormatResult {
 
 // ── Helpers ───────────────────────────────────────────────────────────────────
 
-function tempPath(label: string, ext = 'mp4'): string {
-  const dir = env.TEMP_DIR;
-  fs.mkdirSync(dir, { recursive: true });
-  return path.join(dir, `${label}_${Date.now()}.${ext}`);
-}
-
 /** Probe video duration using ffprobe */
 async function probeDuration(videoPath: string): Promise<number> {
   const { execSync } = await import('child_process');
@@ -56,7 +52,8 @@ async function probeDuration(videoPath: string): Promise<number> {
  * Assemble a compilation from multiple scene IDs.
  *
  * Steps:
- * 1. Fetch scene records from DB to get their local/CDN video paths.
+ * 1. Fetch scene records from DB to get their gated local/CDN video paths
+ *    (downloading the published copy when the local file is gone).
  * 2. Concatenate clips with ffmpeg concat demuxer.
  * 3. Apply a shared compilation overlay (format-specific header).
  * 4. Burn the AI-generated disclosure watermark.
@@ -89,14 +86,23 @@ export async function assembleCompilation(
       logger.warn('Assembler: scene not found in DB — skipping', { sceneId });
       continue;
     }
-    // Prefer local overlaid path; fall back to cloudinary URL
-    // TODO: implement download-from-CDN if local file is absent
-    const videoPath = String(row['overlaid_video_url'] ?? row['cloudinary_url'] ?? '');
-    if (!videoPath || !fs.existsSync(videoPath)) {
-      logger.warn('Assembler: scene video path not found locally — skipping', { sceneId, videoPath });
+    // Prefer the local gated clip; once it has been cleaned up, fetch the published copy.
+    // Never the pre-gate overlay render — it has no face blur or remediation.
+    const localPath = String(row['gated_video_path'] ?? '');
+    if (localPath && fs.existsSync(localPath)) {
+      scenePaths.push(localPath);
       continue;
     }
-    scenePaths.push(videoPath);
+    const cdnUrl = row['cloudinary_url'] ? String(row['cloudinary_url']) : null;
+    if (!cdnUrl) {
+      logger.warn('Assembler: scene video not found locally and never published — skipping', { sceneId, localPath });
+      continue;
+    }
+    try {
+      scenePaths.push((await downloadClip(cdnUrl)).path);
+    } catch (err) {
+      logger.warn('Assembler: scene video download failed — skipping', { sceneId, cdnUrl, err });
+    }
   }
 
   if (scenePaths.length === 0) {
@@ -0,0 +1,221 @@
+/**
+ * Compilation planner and producer.
+ *
+ * On compilation days the pipeline groups gate-passed scenes by their idea's
+ * compilation_theme, orders the strongest theme's clips for escalating
+ * intensity, assembles them, and sends the result through the same Telegram
+ * review flow as single videos.
+ *
+ * Scenes already used in a compilation are never reused, and scenes whose own
+ * video was rejected or taken down are never used.
+ */
+import { logger } from '../utils/logger.js';
+import { dbSelectFiltered } from '../db/client.js';
+import { getIdeasByIds, type RingCamIdea, type BodyCamIdea } from '../db/ideas.js';
+import {
+  getPassedScenes,
+  getCompiledSceneIds,
+  getWithdrawnIdeaIds,
+  insertCompilation,
+  insertVideo,
+  type SceneRecord,
+} from '../db/videos.js';
+import { sendReviewRequest } from '../monitoring/telegram.js';
+import { assembleCompilation, buildMultiFormat } from './assembler.js';
+import { publishArtifact } from '../media/storage.js';
+import type { CamFormat } from '../config.js';
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+/** Fewest clips worth assembling into a compilation. */
+export const MIN_COMPILATION_SCENES = 3;
+
+/** Most clips per compilation — keeps the cut under ~1 minute of 8s clips. */
+export const MAX_COMPILATION_SCENES = 6;
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface PlannedScene {
+  sceneId: string;
+  idea: RingCamIdea | BodyCamIdea;
+  /** Relative intensity — higher plays later. */
+  intensity: number;
+}
+
+export interface CompilationPlan {
+  theme: string;
+  format: CamFormat;
+  /** Scenes in playback order (escalating intensity). */
+  scenes: PlannedScene[];
+}
+
+// ── Ordering ──────────────────────────────────────────────────────────────────
+
+/**
+ * Intensity score for a scene: the idea's virality score, nudged by the
+ * scene's gate quality score so ties break toward the cleaner clip playing later.
+ */
+function intensityOf(scene: SceneRecord, idea: RingCamIdea | BodyCamIdea): number {
+  return Number(idea.virality_score) + (Number(scene.quality_score) || 0) / 100;
+}
+
+/**
+ * Order scenes for escalating intensity: weakest first, strongest last.
+ * Keeps the top `max` scenes by intensity when there are more candidates.
+ */
+export function orderForEscalation(scenes: PlannedScene[], max = MAX_COMPILATION_SCENES): PlannedScene[] {
+  return [...scenes]
+    .sort((a, b) => b.intensity - a.intensity)
+    .slice(0, max)
+    .sort((a, b) => a.intensity - b.intensity);
+}
+
+// ── Planning ──────────────────────────────────────────────────────────────────
+
+/**
+ * Build a compilation plan for a format from unused gate-passed scenes whose
+ * own video was not rejected or taken down. Picks the theme with the most
+ * available clips.
+ *
+ * @param format  'ring_cam' | 'body_cam'
+ * @returns       A plan, or null when no theme has MIN_COMPILATION_SCENES clips yet.
+ */
+export async function planCompilation(format: CamFormat): Promise<CompilationPlan | null> {
+  const [scenes, used] = await Promise.all([getPassedScenes(format), getCompiledSceneIds(format)]);
+  const unused = scenes.filter((s) => !used.has(s.id));
+  const withdrawn = await getWithdrawnIdeaIds([...new Set(unused.map((s) => s.idea_id))]);
+  const candidates = unused.filter((s) => !withdrawn.has(s.idea_id));
+  if (candidates.length < MIN_COMPILATION_SCENES) {
+    logger.info('Compilation: not enough unused passed scenes', { format, available: candidates.length });
+    return null;
+  }
+
+  const ideas = await getIdeasByIds([...new Set(candidates.map((s) => s.idea_id))], format);
+  const ideaById = new Map(ideas.map((i) => [i.id, i]));
+
+  const byTheme = new Map<string, PlannedScene[]>();
+  for (const scene of candidates) {
+    const idea = ideaById.get(scene.idea_id);
+    const theme = idea?.compilation_theme?.trim();
+    if (!idea || !theme) continue;
+    const key = theme.toLowerCase();
+    const group = byTheme.get(key) ?? [];
+    group.push({ sceneId: scene.id, idea, intensity: intensityOf(scene, idea) });
+    byTheme.set(key, group);
+  }
+
+  const best = [...byTheme.values()]
+    .filter((group) => group.length >= MIN_COMPILATION_SCENES)
+    .sort((a, b) => b.length - a.length)[0];
+
+  if (!best) {
+    logger.info('Compilation: no theme has enough scenes', {
+      format,
+      themes: Object.fromEntries([...byTheme].map(([t, g]) => [t, g.length])),
+    });
+    return null;
+  }
+
+  const theme = best[0]!.idea.compilation_theme!.trim();
+  const plan = { theme, format, scenes: orderForEscalation(best) };
+  logger.info('Compilation: plan ready', { theme, format, scenes: plan.scenes.length });
+  return plan;
+}
+
+// ── Production ────────────────────────────────────────────────────────────────
+
+/** A compilation is crop-safe only if every source clip's video was. */
+async function allCropSafe(ideaIds: string[]): Promise<boolean> {
+  const rows = await dbSelectFiltered('videos', (q) => q.in('idea_id', ideaIds).select('crop_safe'));
+  return rows.every((r) => r['crop_safe'] !== false);
+}
+
+/**
+ * Assemble a planned compilation, persist it (compilations row + video row
+ * linked by compilation_id), and send it for operator review.
+ *
+ * @param plan  Plan from planCompilation().
+ * @returns     The new video record ID.
+ */
+export async function produceCompilation(plan: CompilationPlan): Promise<string> {
+  const { theme, format, scenes } = plan;
+  const sceneIds = scenes.map((s) => s.sceneId);
+  const ideas = scenes.map((s) => s.idea);
+  const lead = ideas[ideas.length - 1]!; // strongest clip closes the compilation
+
+  const assembled = await assembleCompilation(sceneIds, theme, format);
+  const cropSafe = await allCropSafe(ideas.map((i) => i.id));
+  const outputs = await buildMultiFormat(assembled.videoPath, cropSafe);
+  const master = await publishArtifact(outputs.master16x9, 'master');
+  const vertical = outputs.vertical9x16 ? await publishArtifact(outputs.vertical9x16, 'vertical') : null;
+
+  const formatLabel = format === 'ring_cam' ? 'Doorbell Cam' : 'Body Cam';
+  const title = `${scenes.length} ${theme} Moments Caught on ${formatLabel}`.slice(0, 100);
+
+  const compilation = await insertCompilation({
+    theme,
+    title,
+    format,
+    scene_ids:        sceneIds,
+    transition_style: 'cut',
+    status:           'ready',
+  });
+
+  const hashtags = [...new Set(ideas.flatMap((i) => i.hashtags ?? []))].slice(0, 10);
+
+  const videoRecord = await insertVideo({
+    idea_id:              lead.id,
+    idea_source:          format,
+    compilation_id:       compilation.id,
+    format,
+    cam_sub_type:         null,
+    master_16x9_url:      master.url,
+    vertical_9x16_url:    vertical?.url ?? null,
+    cloudinary_public_id: master.publicId,
+    vertical_public_id:   vertical?.publicId ?? null,
+    master_sha256:        master.sha256,
+    vertical_sha256:      vertical?.sha256 ?? null,
+    title,
+    caption:              `${lead.caption} (${scenes.length} clips: ${theme})`,
+    hashtags,
+    reject_reason:        null,
+    youtube_post_id:      null,
+    shorts_post_id:       null,
+    tiktok_post_id:       null,
+    instagram_post_id:    null,
+    crop_safe:            cropSafe,
+    gate_results:         {},
+  });
+
+  await sendReviewRequest({
+    id:            videoRecord.id,
+    format,
+    title,
+    cloudinaryUrl: videoRecord.master_16x9_url,
+    concept:       `Compilation (${theme}): ${ideas.map((i) => i.title).join(' → ')}`.slice(0, 200),
+    cost:          0, // assembly only — clip generation was costed per scene
+    videoPath:     outputs.master16x9,
+    cropSafe,
+  });
+
+  logger.info('Compilation: produced and sent for review', {
+    videoId:       videoRecord.id,
+    compilationId: compilation.id,
+    theme,
+    duration:      assembled.duration,
+  });
+  return videoRecord.id;
+}
+
+/**
+ * Compilation-day entry point. Plans and produces a compilation when enough
+ * themed scenes exist.
+ *
+ * @returns  true if a compilation was produced, false if none was ready.
+ */
+export async function runCompilationPipeline(format: CamFormat): Promise<boolean> {
+  const plan = await planCompilation(format);
+  if (!plan) return false;
+  await produceCompilation(plan);
+  return true;
+}
@@ -13,6 +13,13 @@ import {
   type CamSubType,
 } from '../db/ideas.js';
 import { checkDuplicate, getCategoryWeights } from './dedup.js';
+import {
+  checkSensitivity,
+  ideaSubject,
+  adjustCategoryWeights,
+  sensitivityPromptHint,
+} from '../monitoring/sensitivity-calendar.js';
+import { getFeatureFlags, isAllowed, killedBy, withoutKilledCategories } from '../monitoring/feature-flags.js';
 import { logger } from '../utils/logger.js';
 import { BODY_CAM_CATEGORIES, BODY_CAM_SUB_TYPES } from '../config.js';
 
@@ -74,10 +81,12 @@ export type { BodyCamIdea } from '../db/ideas.js';
  *
  * @param count            Number of concepts to generate (typically 15–20).
  * @param categoryWeights  Optional override for category bias weights.
+ * @param subTypes         Sub-types to generate for (those not switched off).
  */
 export async function generateBodyCamIdeas(
   count: number,
   categoryWeights?: Record<string, number>,
+  subTypes: readonly string[] = BODY_CAM_SUB_TYPES,
 ): Promise<NewBodyCamIdea[]> {
   logger.info('BodyIdeator: generating ideas', { count });
 
@@ -91,12 +100,14 @@ export async function generateBodyCamIdeas(
     : '';
 
   // Encourage sub-type diversity
-  const subTypeHint =
-    '\n\nSUB-TYPE DIVERSITY: Distribute concepts across all four sub-types roughly equally. ' +
-    'Vary the sub-type selection — do not generate more than 40% of ideas for any single sub-type.';
+  const subTypeHint = subTypes.length === BODY_CAM_SUB_TYPES.length
+    ? '\n\nSUB-TYPE DIVERSITY: Distribute concepts across all four sub-types roughly equally. ' +
+      'Vary the sub-type selection — do not generate more than 40% of ideas for any single sub-type.'
+    : `\n\nSUB-TYPES: Use ONLY these sub-types: ${subTypes.join(', ')}. ` +
+      'Distribute concepts across them roughly equally.';
 
   const userPrompt =
-    `Generate exactly ${count} body camera video concepts.${weightHint}${subTypeHint}\n\n` +
+    `Generate exactly ${count} body camera video concepts.${weightHint}${subTypeHint}${sensitivityPromptHint('body_cam')}\n\n` +
     `Return ONLY a valid JSON array — no markdown, no explanation, no code fences.`;
 
   const response = await generateCompletion(userPrompt, BODY_CAM_SYSTEM_PROMPT, 4_000);
@@ -132,22 +143,51 @@ export async function generateBodyCamIdeas(
 
 /**
  * Full ideation run:
- * 1. Fetch category distribution to compute inverse weights.
+ * 1. Fetch category distribution to compute inverse weights, adjusted for
+ *    kill switches and the sensitivity calendar (skipped if the format is off).
  * 2. Generate 15–20 concepts via Claude.
- * 3. Deduplicate each concept against the last 30 days (both tables).
+ * 3. Drop concepts a kill switch or the sensitivity calendar blocks, then deduplicate each
+ *    against the last 30 days (both tables).
  * 4. Insert survivors into body_cam_ideas.
  */
 export async function runBodyCamIdeator(): Promise<void> {
   logger.info('BodyIdeator: starting full run');
 
-  const weights = await getCategoryWeights('body_cam');
+  // Kill switches: skip the run when the format is off
+  const flags = await getFeatureFlags();
+  const formatKilled = killedBy(flags, { format: 'body_cam' });
+  if (formatKilled.length > 0) {
+    logger.warn('BodyIdeator: body_cam is switched off — skipping run', { reasons: formatKilled.map((k) => k.reason) });
+    return;
+  }
+
+  // Killed and blocked categories are dropped, deprioritized ones scaled down
+  const weights = withoutKilledCategories(flags, adjustCategoryWeights(await getCategoryWeights('body_cam')));
   logger.info('BodyIdeator: category weights', { weights });
 
   const COUNT = 18;
-  const ideas = await generateBodyCamIdeas(COUNT, weights);
+  const subTypes = BODY_CAM_SUB_TYPES.filter((subType) => isAllowed(flags, { subType }));
+  if (subTypes.length === 0) {
+    logger.warn('BodyIdeator: every sub-type is switched off — skipping run');
+    return;
+  }
+  const ideas = await generateBodyCamIdeas(COUNT, weights, subTypes);
 
   const survivors: NewBodyCamIdea[] = [];
   for (const idea of ideas) {
+    if (!isAllowed(flags, { format: 'body_cam', category: idea.category, subType: idea.cam_sub_type })) {
+      logger.info('BodyIdeator: kill switch reject', { title: idea.title, category: idea.category });
+      continue;
+    }
+    const sensitivity = checkSensitivity(ideaSubject(idea));
+    if (sensitivity.blocked) {
+      logger.info('BodyIdeator: sensitivity calendar reject', {
+        title: idea.title,
+        windows: sensitivity.windows.map((w) => w.id),
+      });
+      continue;
+    }
+
     const dupResult = await checkDuplicate(
       { title: idea.title, scenario: idea.scenario, category: idea.category },
       'body_cam',
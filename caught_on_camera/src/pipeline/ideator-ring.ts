@@ -13,6 +13,13 @@ import {
   type RingCamCategory,
 } from '../db/ideas.js';
 import { checkDuplicate, getCategoryWeights } from './dedup.js';
+import {
+  checkSensitivity,
+  ideaSubject,
+  adjustCategoryWeights,
+  sensitivityPromptHint,
+} from '../monitoring/sensitivity-calendar.js';
+import { getFeatureFlags, isAllowed, killedBy, withoutKilledCategories } from '../monitoring/feature-flags.js';
 import { logger } from '../utils/logger.js';
 import { RING_CAM_CATEGORIES } from '../config.js';
 
@@ -86,7 +93,7 @@ export async function generateRingCamIdeas(
     : '';
 
   const userPrompt =
-    `Generate exactly ${count} ring camera video concepts.${weightHint}\n\n` +
+    `Generate exactly ${count} ring camera video concepts.${weightHint}${sensitivityPromptHint('ring_cam')}\n\n` +
     `Return ONLY a valid JSON array — no markdown, no explanation, no code fences.`;
 
   const response = await generateCompletion(userPrompt, RING_CAM_SYSTEM_PROMPT, 4_000);
@@ -123,16 +130,27 @@ export async function generateRingCamIdeas(
 
 /**
  * Full ideation run:
- * 1. Fetch category distribution to compute inverse weights.
+ * 1. Fetch category distribution to compute inverse weights, adjusted for
+ *    kill switches and the sensitivity calendar (skipped if the format is off).
  * 2. Generate 15–20 concepts via Claude.
- * 3. Deduplicate each concept against the last 30 days.
+ * 3. Drop concepts a kill switch or the sensitivity calendar blocks, then deduplicate each
+ *    against the last 30 days.
  * 4. Insert survivors into ring_cam_ideas.
  */
 export async function runRingCamIdeator(): Promise<void> {
   logger.info('RingIdeator: starting full run');
 
+  // Kill switches: skip the run when the format is off
+  const flags = await getFeatureFlags();
+  const formatKilled = killedBy(flags, { format: 'ring_cam' });
+  if (formatKilled.length > 0) {
+    logger.warn('RingIdeator: ring_cam is switched off — skipping run', { reasons: formatKilled.map((k) => k.reason) });
+    return;
+  }
+
   // Compute category weights based on recent production history
-  const weights = await getCategoryWeights('ring_cam');
+  // Killed and blocked categories are dropped, deprioritized ones scaled down
+  const weights = withoutKilledCategories(flags, adjustCategoryWeights(await getCategoryWeights('ring_cam')));
   logger.info('RingIdeator: category weights', { weights });
 
   // Generate a batch (overshoot slightly to absorb dedup losses)
@@ -142,6 +160,19 @@ export async function runRingCamIdeator(): Promise<void> {
   // Deduplicate each idea
   const survivors: NewRingCamIdea[] = [];
   for (const idea of ideas) {
+    if (!isAllowed(flags, { format: 'ring_cam', category: idea.category })) {
+      logger.info('RingIdeator: kill switch reject', { title: idea.title, category: idea.category });
+      continue;
+    }
+    const sensitivity = checkSensitivity(ideaSubject(idea));
+    if (sensitivity.blocked) {
+      logger.info('RingIdeator: sensitivity calendar reject', {
+        title: idea.title,
+        windows: sensitivity.windows.map((w) => w.id),
+      });
+      continue;
+    }
+
     const dupResult = await checkDuplicate(
       { title: idea.title, scenario: idea.scenario, category: idea.category },
       'ring_cam',
@@ -1,50 +1,107 @@
 /**
  * Main pipeline orchestrator for Caught on Camera.
  *
- * Coordinates budget checks, buffer checks, format selection, idea picking,
+ * Coordinates budget checks, the daily production plan, idea picking,
  * video production, DB persistence, and Telegram review notifications.
  */
 import { logger } from '../utils/logger.js';
 import { checkBudget } from '../monitoring/costs.js';
-import { checkBuffer } from '../monitoring/buffer.js';
 import { sendReviewRequest, sendAlert } from '../monitoring/telegram.js';
-import { getTopRingCamIdea, getTopBodyCamIdea, markIdeaInProduction, markIdeaProduced } from '../db/ideas.js';
+import {
+  markIdeaInProduction,
+  markIdeaProduced,
+  type RingCamIdea,
+  type BodyCamIdea,
+} from '../db/ideas.js';
 import { insertVideo } from '../db/videos.js';
-import { produceVideo } from './producer.js';
-import { FORMAT_SCHEDULE, type CamFormat } from '../config.js';
+import { produceVideo, resumeProduction, ProductionRunError, type ProducedScene } from './producer.js';
+import {
+  FORMAT_SCHEDULE,
+  resolveScheduleEntry,
+  type CamFormat,
+  type BodyCamSubType,
+} from '../config.js';
+import { runCompilationPipeline } from './compilation.js';
+import { selectIdeaForSlot } from './selection.js';
+import { resolveOperatorChoice } from './operator-choice.js';
+import { createDailyPlan, getTodayPlan, slotsForTick } from './planner.js';
+import { updatePlanSlots, type ProductionPlanRecord } from '../db/plans.js';
 import { runRingCamIdeator } from './ideator-ring.js';
 import { runBodyCamIdeator } from './ideator-body.js';
+import { getFeatureFlags, killedBy } from '../monitoring/feature-flags.js';
+import { pausedFor } from '../monitoring/pipeline-control.js';
 
 // ── Format selection ──────────────────────────────────────────────────────────
 
+export interface TodaySchedule {
+  format: CamFormat;
+  /** Canonical category for the day, or null for "any". */
+  category: string | null;
+  subType: BodyCamSubType | null;
+  compilation: boolean;
+}
+
 /**
- * Return today's format based on the day-of-week schedule configured in config.ts.
- * Falls back to 'ring_cam' if the schedule entry is 'operator_choice'.
+ * Return today's schedule entry, resolved to a concrete format and canonical
+ * category (aliases such as 'night_patrol' are mapped in config.ts).
+ * On 'operator_choice' days the operator picks via a Telegram inline keyboard,
+ * with a timeout fallback (see operator-choice.ts).
  */
-export function getFormatForToday(): CamFormat {
+export async function getScheduleForToday(): Promise<TodaySchedule> {
   const dow = String(new Date().getDay()); // 0=Sunday … 6=Saturday
-  const entry = FORMAT_SCHEDULE[dow];
+  const entry = FORMAT_SCHEDULE[dow] ?? { format: 'operator_choice', category: '' };
+  const resolved = resolveScheduleEntry(entry);
 
-  if (!entry || entry.format === 'operator_choice') {
-    // Default to ring_cam on unscheduled days
-    logger.info('Pipeline: operator_choice day — defaulting to ring_cam');
-    return 'ring_cam';
+  if (resolved.format === 'operator_choice') {
+    const choice = await resolveOperatorChoice();
+    logger.info('Pipeline: operator_choice day', { dow, ...choice });
+    return { ...choice, compilation: false };
   }
 
-  logger.info('Pipeline: format for today', { dow, format: entry.format });
-  return entry.format as CamFormat;
+  logger.info('Pipeline: schedule for today', {
+    dow,
+    format: resolved.format,
+    category: resolved.category,
+    compilation: resolved.compilation,
+  });
+  return {
+    format:      resolved.format,
+    category:    resolved.category,
+    subType:     resolved.subType,
+    compilation: resolved.compilation,
+  };
+}
+
+/** Return today's format based on the day-of-week schedule configured in config.ts. */
+export async function getFormatForToday(): Promise<CamFormat> {
+  return (await getScheduleForToday()).format;
+}
+
+// ── Day plan ──────────────────────────────────────────────────────────────────
+
+let planning: Promise<ProductionPlanRecord> | null = null;
+
+/**
+ * Return today's production plan, creating it on first use. Concurrent callers
+ * (morning cron and an early pipeline tick) share one planning run.
+ */
+export async function planDay(): Promise<ProductionPlanRecord> {
+  const existing = await getTodayPlan();
+  if (existing) return existing;
+
+  planning ??= getScheduleForToday().then(createDailyPlan).finally(() => {
+    planning = null;
+  });
+  return planning;
 }
 
 // ── Main daily pipeline ────────────────────────────────────────────────────────
 
 /**
- * Run one full production cycle:
+ * Run one pipeline tick:
  * 1. Budget gate — abort if at hard cap.
- * 2. Buffer gate — skip if buffer is >= 3 days.
- * 3. Select format for today.
- * 4. Pick top-scoring pending idea.
- * 5. Produce video (Veo → degradation → gates → overlay → Cloudinary).
- * 6. Insert video record and send Telegram review request.
+ * 2. Load (or create) today's plan — slot count comes from buffer deficit and budget.
+ * 3. Produce this tick's share of the pending slots, in plan order.
  */
 export async function runDailyPipeline(): Promise<void> {
   logger.info('Pipeline: starting daily run');
@@ -67,26 +124,85 @@ export async function runDailyPipeline(): Promise<void> {
     );
   }
 
-  // ── Step 2: Buffer check ─────────────────────────────────────────────────
-  const buffer = await checkBuffer();
-  if (buffer.action === 'pause') {
-    logger.info('Pipeline: buffer healthy — skipping generation', {
-      bufferDays: buffer.bufferDays,
+  // ── Step 2: Day plan ─────────────────────────────────────────────────────
+  const plan = await planDay();
+  const slots = plan.slots.map((slot) => ({ ...slot }));
+  const pending = slots.filter((slot) => slot.status === 'pending');
+  const count = slotsForTick(pending.length, new Date().getUTCHours());
+
+  if (count === 0) {
+    logger.info('Pipeline: nothing left in today\'s plan', {
+      planned: slots.length,
+      produced: slots.filter((slot) => slot.status === 'produced').length,
     });
     return;
   }
+  logger.info('Pipeline: producing plan slots this tick', { count, pending: pending.length });
+
+  // ── Step 3: Produce slots ────────────────────────────────────────────────
+  for (const slot of pending.slice(0, count)) {
+    if (slot !== pending[0] && !(await checkBudget()).canGenerate) {
+      logger.warn('Pipeline: hard budget cap reached mid-tick — stopping');
+      return;
+    }
+
+    let outcome: SlotOutcome;
+    try {
+      outcome = await produceSlot(slot);
+    } catch (err) {
+      slot.status = 'failed';
+      await updatePlanSlots(plan.id, slots);
+      throw err;
+    }
+
+    // No ideas: the ideator has been run (unless ideation is paused); the slot stays pending for the next tick
+    if (outcome === 'no_ideas') return;
+    // Format switched off: the slot stays pending in case the switch is lifted today
+    if (outcome === 'switched_off') continue;
+
+    slot.status = 'produced';
+    await updatePlanSlots(plan.id, slots);
+  }
+}
+
+type SlotOutcome = 'produced' | 'no_ideas' | 'switched_off';
+
+/**
+ * Produce one plan slot: compilation slots try the compilation planner first,
+ * everything else picks an idea (with category fallback) and produces it.
+ * Slots whose format is switched off are skipped.
+ */
+async function produceSlot(slot: TodaySchedule): Promise<SlotOutcome> {
+  const { format } = slot;
+  logger.info('Pipeline: producing video', { format, category: slot.category });
+
+  // A switched-off sub-type or category is left to selection, which falls back
+  const killed = killedBy(await getFeatureFlags(), { format });
+  if (killed.length > 0) {
+    logger.warn('Pipeline: format switched off by a kill switch — skipping slot', {
+      format,
+      reasons: killed.map((k) => k.reason),
+    });
+    return 'switched_off';
+  }
 
-  // ── Step 3: Format selection ─────────────────────────────────────────────
-  const format = getFormatForToday();
-  logger.info('Pipeline: producing video', { format });
+  // Compilation days assemble themed scenes instead of generating a new clip.
+  // When no theme has enough scenes yet, fall through to a single production
+  // so the scene pool keeps growing.
+  if (slot.compilation) {
+    if (await runCompilationPipeline(format)) return 'produced';
+    logger.info('Pipeline: compilation day but no plan ready — producing a single clip', { format });
+  }
 
-  // ── Step 4: Pick idea ────────────────────────────────────────────────────
-  const idea =
-    format === 'ring_cam'
-      ? await getTopRingCamIdea()
-      : await getTopBodyCamIdea();
+  // ── Pick idea ────────────────────────────────────────────────────────────
+  const selected = await selectIdeaForSlot(format, slot.category, slot.subType);
 
-  if (!idea) {
+  if (!selected) {
+    const pause = await pausedFor('ideation');
+    if (pause) {
+      logger.warn('Pipeline: no pending ideas available and ideation paused — not running ideator', { format, reason: pause.reason });
+      return 'no_ideas';
+    }
     logger.warn('Pipeline: no pending ideas available — running ideator');
     // Auto-run the appropriate ideator then exit (next cron tick will produce)
     if (format === 'ring_cam') {
@@ -94,31 +210,60 @@ export async function runDailyPipeline(): Promise<void> {
     } else {
       await runBodyCamIdeator();
     }
-    return;
+    return 'no_ideas';
   }
 
-  logger.info('Pipeline: selected idea', { ideaId: idea.id, title: idea.title });
+  const { idea } = selected;
+  logger.info('Pipeline: selected idea', {
+    ideaId: idea.id,
+    title: idea.title,
+    category: selected.category,
+    match: selected.match,
+  });
 
   // Mark idea as in-production to prevent concurrent picks
   await markIdeaInProduction(idea.id, format);
 
-  // ── Step 5: Produce video ────────────────────────────────────────────────
+  // ── Produce video ────────────────────────────────────────────────────────
   let scene;
   try {
     scene = await produceVideo(idea, format);
   } catch (err) {
     logger.error('Pipeline: video production failed', { ideaId: idea.id, err });
     await sendAlert(
-      `Video production failed for idea "${idea.title}": ${err instanceof Error ? err.message : String(err)}`,
+      `Video production failed for idea "${idea.title}": ${err instanceof Error ? err.message : String(err)}` +
+        resumeHint(err),
       'critical',
     );
     throw err;
   }
 
+  // ── Persist + review ─────────────────────────────────────────────────────
+  await finalizeProduction(idea, format, scene);
+  return 'produced';
+}
+
+// ── Post-production ───────────────────────────────────────────────────────────
+
+function resumeHint(err: unknown): string {
+  return err instanceof ProductionRunError && err.resumable
+    ? `\nResume with: resume ${err.runId}`
+    : '';
+}
+
+/**
+ * Persist a produced scene as a video record, mark its idea produced, and send
+ * the Telegram review request. Shared by fresh and resumed runs.
+ */
+export async function finalizeProduction(
+  idea: RingCamIdea | BodyCamIdea,
+  format: CamFormat,
+  scene: ProducedScene,
+): Promise<void> {
   // ── Step 6: Persist video record ─────────────────────────────────────────
   const camSubType =
     format === 'body_cam'
-      ? (idea as import('../db/ideas.js').BodyCamIdea).cam_sub_type
+      ? (idea as BodyCamIdea).cam_sub_type
       : null;
 
   const videoRecord = await insertVideo({
@@ -127,9 +272,12 @@ export async function runDailyPipeline(): Promise<void> {
     compilation_id:       null,
     format,
     cam_sub_type:         camSubType,
-    master_16x9_url:      scene.videoPath, // TODO: replace with Cloudinary URL once upload is wired
-    vertical_9x16_url:    scene.cropSafe ? scene.videoPath : null,
-    cloudinary_public_id: `caught_on_camera/${format}_${idea.id}`,
+    master_16x9_url:      scene.master.url,
+    vertical_9x16_url:    scene.vertical?.url ?? null,
+    cloudinary_public_id: scene.master.publicId,
+    vertical_public_id:   scene.vertical?.publicId ?? null,
+    master_sha256:        scene.master.sha256,
+    vertical_sha256:      scene.vertical?.sha256 ?? null,
     title:                idea.title,
     caption:              idea.caption,
     hashtags:             idea.hashtags,
@@ -139,7 +287,7 @@ export async function runDailyPipeline(): Promise<void> {
     tiktok_post_id:       null,
     instagram_post_id:    null,
     crop_safe:            scene.cropSafe,
-    gate_results:         {},
+    gate_results:         scene.gateResults,
   });
 
   // Mark idea as produced
@@ -153,15 +301,44 @@ export async function runDailyPipeline(): Promise<void> {
     cloudinaryUrl: videoRecord.master_16x9_url,
     concept:       idea.scenario.slice(0, 200),
     cost:          scene.cost,
+    videoPath:     scene.videoPath,
+    cropSafe:      scene.cropSafe,
+    gateResults:   scene.gateResults,
   });
 
-  logger.info('Pipeline: daily run complete — awaiting operator review', {
+  logger.info('Pipeline: production finalized — awaiting operator review', {
     videoId: videoRecord.id,
+    runId: scene.runId,
     format,
     cost: scene.cost,
   });
 }
 
+/**
+ * Resume an interrupted production run by ID and finish it exactly like a
+ * fresh run (video record, idea status, review request).
+ *
+ * @param runId  Production run ID from the failure alert or logs.
+ */
+export async function resumeRun(runId: string): Promise<void> {
+  logger.info('Pipeline: resuming production run', { runId });
+
+  let resumed;
+  try {
+    resumed = await resumeProduction(runId);
+  } catch (err) {
+    logger.error('Pipeline: resumed production failed', { runId, err });
+    await sendAlert(
+      `Resumed run ${runId} failed: ${err instanceof Error ? err.message : String(err)}` +
+        resumeHint(err),
+      'critical',
+    );
+    throw err;
+  }
+
+  await finalizeProduction(resumed.idea, resumed.format, resumed.scene);
+}
+
 // ── Ideator run ───────────────────────────────────────────────────────────────
 
 /**
@@ -0,0 +1,222 @@
+/**
+ * Operator choice days.
+ *
+ * When the schedule says 'operator_choice', the pipeline posts an inline
+ * keyboard to Telegram (formats, body-cam sub-types, categories) and waits up
+ * to OPERATOR_CHOICE_TIMEOUT_MIN for a button press. With no answer, it falls
+ * back per OPERATOR_CHOICE_FALLBACK (default: least-recently-produced format).
+ *
+ * The day's answer is persisted, so later cron ticks reuse it without asking again.
+ */
+import { logger } from '../utils/logger.js';
+import {
+  env,
+  RING_CAM_CATEGORIES,
+  BODY_CAM_CATEGORIES,
+  BODY_CAM_SUB_TYPES,
+  type CamFormat,
+  type BodyCamSubType,
+} from '../config.js';
+import { dbSelectFiltered } from '../db/client.js';
+import { getOperatorChoice, insertOperatorChoice } from '../db/operator-choices.js';
+import {
+  sendWithKeyboard,
+  editMessage,
+  registerCallbackHandler,
+  operatorName,
+  type InlineKeyboard,
+} from '../monitoring/telegram.js';
+import { getFeatureFlags, isAllowed, type FeatureFlags } from '../monitoring/feature-flags.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface OperatorChoice {
+  format: CamFormat;
+  category: string | null;
+  subType: BodyCamSubType | null;
+}
+
+// ── Callback data ─────────────────────────────────────────────────────────────
+// oc:<r|b>              → format, any category
+// oc:<r|b>:c:<category> → format + category
+// oc:b:s:<subType>      → body cam sub-type
+
+const CALLBACK_PREFIX = 'oc';
+
+function encodeChoice(format: CamFormat, kind?: 'c' | 's', value?: string): string {
+  const f = format === 'ring_cam' ? 'r' : 'b';
+  return kind && value ? `${CALLBACK_PREFIX}:${f}:${kind}:${value}` : `${CALLBACK_PREFIX}:${f}`;
+}
+
+/** Decode the payload after 'oc:'. Returns null for malformed or unknown values. */
+export function decodeChoice(payload: string): OperatorChoice | null {
+  const [f, kind, value] = payload.split(':');
+  const format: CamFormat | null = f === 'r' ? 'ring_cam' : f === 'b' ? 'body_cam' : null;
+  if (!format) return null;
+  if (!kind) return { format, category: null, subType: null };
+
+  if (kind === 'c') {
+    const valid: readonly string[] = format === 'ring_cam' ? RING_CAM_CATEGORIES : BODY_CAM_CATEGORIES;
+    return value && valid.includes(value) ? { format, category: value, subType: null } : null;
+  }
+  if (kind === 's' && format === 'body_cam') {
+    const subType = BODY_CAM_SUB_TYPES.find((s) => s === value);
+    return subType ? { format, category: null, subType } : null;
+  }
+  return null;
+}
+
+function describeChoice(choice: OperatorChoice): string {
+  const detail = choice.subType ?? choice.category ?? 'any category';
+  return `${choice.format} · ${detail}`;
+}
+
+// ── Keyboard ──────────────────────────────────────────────────────────────────
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const rows: T[][] = [];
+  for (let i = 0; i < items.length; i += size) rows.push(items.slice(i, i + size));
+  return rows;
+}
+
+/**
+ * Inline keyboard: formats, then body-cam sub-types, then categories per
+ * format — leaving out anything switched off by a kill switch.
+ */
+export function buildChoiceKeyboard(flags: FeatureFlags): InlineKeyboard {
+  const ring = isAllowed(flags, { format: 'ring_cam' });
+  const body = isAllowed(flags, { format: 'body_cam' });
+  const subTypes = body ? BODY_CAM_SUB_TYPES.filter((subType) => isAllowed(flags, { subType })) : [];
+  const ringCategories = ring ? RING_CAM_CATEGORIES.filter((category) => isAllowed(flags, { category })) : [];
+  const bodyCategories = body ? BODY_CAM_CATEGORIES.filter((category) => isAllowed(flags, { category })) : [];
+  return [
+    [
+      ...(ring ? [{ text: '🏠 Ring cam (any)', callback_data: encodeChoice('ring_cam') }] : []),
+      ...(body ? [{ text: '🎥 Body cam (any)', callback_data: encodeChoice('body_cam') }] : []),
+    ],
+    ...chunk(subTypes.map((s) => ({ text: `🎥 ${s}`, callback_data: encodeChoice('body_cam', 's', s) })), 2),
+    ...chunk(ringCategories.map((c) => ({ text: `🏠 ${c}`, callback_data: encodeChoice('ring_cam', 'c', c) })), 3),
+    ...chunk(bodyCategories.map((c) => ({ text: `🎥 ${c}`, callback_data: encodeChoice('body_cam', 'c', c) })), 3),
+  ];
+}
+
+// ── Pending request state ─────────────────────────────────────────────────────
+
+interface PendingRequest {
+  resolve: (answer: { choice: OperatorChoice; by: string }) => void;
+}
+
+let pending: PendingRequest | null = null;
+let inFlight: Promise<OperatorChoice> | null = null;
+
+registerCallbackHandler(CALLBACK_PREFIX, async (query, payload) => {
+  const choice = decodeChoice(payload);
+  if (!choice) return 'Unknown option.';
+  if (!pending) return 'Today\'s choice has already been made.';
+
+  const request = pending;
+  pending = null;
+  const by = operatorName(query.from);
+  request.resolve({ choice, by });
+  return `Producing ${describeChoice(choice)}`;
+});
+
+// ── Fallback ──────────────────────────────────────────────────────────────────
+
+/** The format whose most recent video is oldest (or that has never been produced). */
+async function leastRecentlyProducedFormat(): Promise<CamFormat> {
+  const formats: CamFormat[] = ['ring_cam', 'body_cam'];
+  const latest = await Promise.all(
+    formats.map(async (format) => {
+      const rows = await dbSelectFiltered('videos', (q) =>
+        q.eq('format', format).order('created_at', { ascending: false }).limit(1).select('created_at'),
+      );
+      const at = rows[0]?.['created_at'];
+      return { format, at: at ? new Date(String(at)).getTime() : 0 };
+    }),
+  );
+  latest.sort((a, b) => a.at - b.at);
+  return latest[0]!.format;
+}
+
+async function fallbackChoice(): Promise<OperatorChoice> {
+  const format =
+    env.OPERATOR_CHOICE_FALLBACK === 'least_recent'
+      ? await leastRecentlyProducedFormat()
+      : env.OPERATOR_CHOICE_FALLBACK;
+  return { format, category: null, subType: null };
+}
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+function todayIso(): string {
+  return new Date().toISOString().split('T')[0]!;
+}
+
+async function askOperator(date: string): Promise<OperatorChoice> {
+  const timeoutMin = env.OPERATOR_CHOICE_TIMEOUT_MIN;
+  const fallbackLabel =
+    env.OPERATOR_CHOICE_FALLBACK === 'least_recent' ? 'the least recently produced format' : env.OPERATOR_CHOICE_FALLBACK;
+
+  const messageId = await sendWithKeyboard(
+    `🗳️ <b>Operator choice day</b>\n\n` +
+      `Pick today's format, body-cam sub-type or category.\n` +
+      `No answer in ${timeoutMin} min → ${fallbackLabel}.`,
+    buildChoiceKeyboard(await getFeatureFlags()),
+  );
+
+  const answer = await new Promise<{ choice: OperatorChoice; by: string } | null>((resolve) => {
+    const timer = setTimeout(() => {
+      pending = null;
+      resolve(null);
+    }, timeoutMin * 60_000);
+    pending = {
+      resolve: (a) => {
+        clearTimeout(timer);
+        resolve(a);
+      },
+    };
+  });
+
+  const choice = answer?.choice ?? (await fallbackChoice());
+  await insertOperatorChoice({
+    choice_date:  date,
+    format:       choice.format,
+    category:     choice.category,
+    cam_sub_type: choice.subType,
+    source:       answer ? 'operator' : 'fallback',
+    chosen_by:    answer?.by ?? null,
+  });
+
+  if (messageId !== null) {
+    await editMessage(
+      messageId,
+      answer
+        ? `✅ Today's production: <b>${describeChoice(choice)}</b> (chosen by ${answer.by})`
+        : `⏱️ No answer in ${timeoutMin} min — producing <b>${describeChoice(choice)}</b>`,
+    );
+  }
+
+  logger.info('OperatorChoice: resolved', { date, ...choice, source: answer ? 'operator' : 'fallback' });
+  return choice;
+}
+
+/**
+ * Resolve today's operator choice: reuse the persisted answer if one exists,
+ * otherwise ask in Telegram and wait (concurrent callers share one request).
+ *
+ * Button presses arrive through the server's Telegram polling loop; in a
+ * one-off CLI run nobody can answer, so the timeout fallback applies.
+ */
+export async function resolveOperatorChoice(): Promise<OperatorChoice> {
+  const date = todayIso();
+  const existing = await getOperatorChoice(date);
+  if (existing) {
+    return { format: existing.format, category: existing.category, subType: existing.cam_sub_type };
+  }
+
+  inFlight ??= askOperator(date).finally(() => {
+    inFlight = null;
+  });
+  return inFlight;
+}
@@ -0,0 +1,174 @@
+/**
+ * Daily production planner.
+ *
+ * Runs each morning (and lazily on the first pipeline tick of the day) to
+ * decide how many videos to make today and in which formats:
+ *
+ *   wanted  = videos needed so the buffer is back at MIN_BUFFER_DAYS after
+ *             today's VIDEOS_PER_DAY are posted
+ *   budget  = BUDGET.target − BUDGET.retryReserve − spend so far today
+ *   slots   = scheduled slot first, then alternating formats, each only while
+ *             that format's historical average cost still fits the budget
+ *
+ * The plan is persisted; hourly ticks spread its pending slots over the
+ * remaining production window.
+ */
+import { logger } from '../utils/logger.js';
+import { env, BUDGET, type CamFormat } from '../config.js';
+import { checkBuffer } from '../monitoring/buffer.js';
+import { getDailySpend } from '../monitoring/costs.js';
+import { getCompletedRunCosts } from '../db/runs.js';
+import { getPlan, insertPlan, type PlanSlot, type ProductionPlanRecord } from '../db/plans.js';
+import type { TodaySchedule } from './index.js';
+
+// ── Constants ─────────────────────────────────────────────────────────────────
+
+/** Hourly pipeline ticks run from startHour to endHour inclusive (UTC). */
+export const PRODUCTION_WINDOW = { startHour: 8, endHour: 22 } as const;
+
+const COST_HISTORY_DAYS = 14;
+
+/** Used until a format has completed runs: 8s Veo clip at $0.30/s + gate analysis. */
+const DEFAULT_COST_PER_VIDEO = 2.5;
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface PlanInput {
+  schedule: TodaySchedule;
+  bufferCount: number;
+  spent: number;
+  costs: Record<CamFormat, number>;
+  videosPerDay: number;
+  minBufferDays: number;
+  budgetTarget: number;
+  retryReserve: number;
+}
+
+export interface DayPlan {
+  bufferDeficit: number;
+  budgetAvailable: number;
+  slots: PlanSlot[];
+}
+
+// ── Planning ──────────────────────────────────────────────────────────────────
+
+/**
+ * Compute the day's slots. Pure — all inputs are passed in.
+ *
+ * Daily output is capped at twice VIDEOS_PER_DAY so a drained buffer is
+ * refilled over a couple of days rather than in one expensive burst.
+ */
+export function computeDayPlan(input: PlanInput): DayPlan {
+  const perDay = Math.ceil(input.videosPerDay);
+  const bufferTarget = Math.ceil(input.videosPerDay * input.minBufferDays);
+  const bufferDeficit = Math.max(0, bufferTarget - input.bufferCount);
+  const wanted = Math.min(
+    Math.max(0, bufferTarget + perDay - input.bufferCount),
+    perDay * 2,
+  );
+
+  const budgetAvailable = Math.max(0, input.budgetTarget - input.retryReserve - input.spent);
+  let remaining = budgetAvailable;
+
+  const primary = input.schedule.format;
+  const other: CamFormat = primary === 'ring_cam' ? 'body_cam' : 'ring_cam';
+  const slots: PlanSlot[] = [];
+
+  while (slots.length < wanted) {
+    const preferred = slots.length % 2 === 0 ? primary : other;
+    const format = input.costs[preferred] <= remaining ? preferred : preferred === primary ? other : primary;
+    const estCost = input.costs[format];
+    if (estCost > remaining) break;
+
+    const first = slots.length === 0 && format === primary;
+    const scheduled = format === primary && !input.schedule.compilation;
+    slots.push({
+      format,
+      category:    scheduled ? input.schedule.category : null,
+      subType:     scheduled ? input.schedule.subType : null,
+      compilation: first && input.schedule.compilation,
+      estCost,
+      status:      'pending',
+    });
+    remaining -= estCost;
+  }
+
+  return { bufferDeficit, budgetAvailable, slots };
+}
+
+/**
+ * How many pending slots the tick at `hour` (UTC) should produce, spreading
+ * them evenly over the ticks left in the production window.
+ */
+export function slotsForTick(pending: number, hour: number): number {
+  if (pending <= 0) return 0;
+  const { startHour, endHour } = PRODUCTION_WINDOW;
+  const ticksLeft = endHour - Math.max(hour, startHour) + 1;
+  return ticksLeft <= 1 ? pending : Math.ceil(pending / ticksLeft);
+}
+
+// ── Cost history ──────────────────────────────────────────────────────────────
+
+/** Average cost per completed video for each format over the last two weeks. */
+async function estimateFormatCosts(): Promise<Record<CamFormat, number>> {
+  const runs = await getCompletedRunCosts(COST_HISTORY_DAYS);
+  const average = (format: CamFormat): number => {
+    const costs = runs.filter((r) => r.source === format && r.cost > 0).map((r) => r.cost);
+    return costs.length ? costs.reduce((s, c) => s + c, 0) / costs.length : DEFAULT_COST_PER_VIDEO;
+  };
+  return { ring_cam: average('ring_cam'), body_cam: average('body_cam') };
+}
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+function todayIso(): string {
+  return new Date().toISOString().split('T')[0]!;
+}
+
+/** Today's persisted plan, or null if none has been made yet. */
+export async function getTodayPlan(): Promise<ProductionPlanRecord | null> {
+  return getPlan(todayIso());
+}
+
+/**
+ * Build and persist today's plan from the buffer, today's spend and the
+ * per-format cost history.
+ *
+ * @param schedule  Today's resolved schedule slot (format, category, compilation).
+ */
+export async function createDailyPlan(schedule: TodaySchedule): Promise<ProductionPlanRecord> {
+  const [buffer, spent, costs] = await Promise.all([
+    checkBuffer(),
+    getDailySpend(),
+    estimateFormatCosts(),
+  ]);
+
+  const plan = computeDayPlan({
+    schedule,
+    bufferCount:   buffer.videoCount,
+    spent,
+    costs,
+    videosPerDay:  env.VIDEOS_PER_DAY,
+    minBufferDays: env.MIN_BUFFER_DAYS,
+    budgetTarget:  BUDGET.target,
+    retryReserve:  BUDGET.retryReserve,
+  });
+
+  logger.info('Planner: day planned', {
+    bufferCount: buffer.videoCount,
+    bufferDeficit: plan.bufferDeficit,
+    budgetAvailable: plan.budgetAvailable,
+    costs,
+    slots: plan.slots.map((s) => s.format),
+  });
+
+  return insertPlan({
+    plan_date:        todayIso(),
+    buffer_count:     buffer.videoCount,
+    buffer_deficit:   plan.bufferDeficit,
+    budget_available: plan.budgetAvailable,
+    est_cost_ring:    costs.ring_cam,
+    est_cost_body:    costs.body_cam,
+    slots:            plan.slots,
+  });
+}
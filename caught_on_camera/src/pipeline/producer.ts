@@ -2,36 +2,95 @@
  * Format-switching Producer Agent.
  *
  * Orchestrates the full per-clip production pipeline:
- *   prompt sanitization → Veo generation → degradation → gate checks
- *   → overlay → disclosure → optional crop → Cloudinary upload.
+ *   prompt sanitization → Veo generation → degradation → overlay
+ *   → disclosure → gate checks → optional crop → publish (master + vertical).
  *
- * Retries failed gate checks up to RETRY_POLICY.maxRetries times.
- * Gate 1 body_cam failures trigger shake injection before re-running.
- * Gate 3 body_cam failures trigger audio-bed mixing before re-running.
+ * Each step is checkpointed (artifact path + hash, cost, result) against a
+ * production run ID, so a crashed run resumes from its last completed step
+ * via resumeProduction() without paying for another Veo generation.
+ *
+ * Every run also keeps a scenes row current (prompt, cost, intermediate URLs,
+ * gate failures, retries) through generating → gate_check → passed / failed /
+ * rejected, as the audit trail for why a clip did or did not make it. Each
+ * individual gate evaluation (metrics, action, reason) goes to gate_runs for
+ * the gate analytics report.
+ *
+ * Gating uses the shared gate runner (runAllGates) under the remediation
+ * engine: each soft-gate action (add_shake, mix_bed, replace_audio,
+ * retry_overlay, regenerate) has a handler here, limited by
+ * REMEDIATION_BUDGET. Shake and regeneration change the pre-overlay clip, so
+ * the composite is re-rendered.
  */
-import * as fs from 'fs';
 import * as path from 'path';
-import { env, RETRY_POLICY } from '../config.js';
+import { env, MOTION_THRESHOLDS, AUDIO_THRESHOLDS, AUDIO_BED_SELECTION, REMEDIATION_BUDGET } from '../config.js';
 import { logger } from '../utils/logger.js';
+import { tempPath } from '../utils/temp.js';
 import { generateClip } from '../ai/veo.js';
-import { degrade, addBodyCamShake } from '../media/degradation.js';
+import { degrade, addBodyCamShake, type ShakeTuning } from '../media/degradation.js';
 import { applyOverlay, burnDisclosure } from '../media/overlay.js';
-import { cropToVertical, mixAudioBed, replaceAudio } from '../media/ffmpeg.js';
-import { extractKeyframes } from '../media/frames.js';
-import { sanitizePrompt, runGate4 } from '../gates/gate4-policy.js';
-import { runGate1 } from '../gates/gate1-motion.js';
-import { runGate2 } from '../gates/gate2-face.js';
-import { runGate3 } from '../gates/gate3-audio.js';
+import { cropToVertical, mixAudioBed, replaceAudio, getDuration } from '../media/ffmpeg.js';
+import { buildAmbientTrack } from '../media/ambient.js';
+import { loadBedLibrary, selectBed, bedGainDb, bedOffset } from '../media/bed-library.js';
+import {
+  runAllGates,
+  runGatesWithRemediation,
+  sanitizePrompt,
+  gateResultOf,
+  getConfiguredGates,
+  type GateNumber,
+  type GateRunnerResult,
+  type RemediationAction,
+  type RemediationHandler,
+} from '../gates/index.js';
+import { shakeTuningFor } from '../gates/motion-timeline.js';
+import type { MotionThresholds } from '../gates/gate1-motion.js';
 import { trackCost } from '../monitoring/costs.js';
-import type { RingCamIdea, BodyCamIdea } from '../db/ideas.js';
+import { insertGateRun } from '../db/gate-runs.js';
+import { insertAudioBedUse, getRecentAudioBeds } from '../db/audio-beds.js';
+import { NonRetryableError } from '../utils/retry.js';
+import { downloadClip, publishArtifact, type PublishedMedia } from '../media/storage.js';
+import { getIdeaById, type RingCamIdea, type BodyCamIdea } from '../db/ideas.js';
+import {
+  insertScene,
+  updateScene,
+  updateSceneStatus,
+  getSceneByRunId,
+  type SceneUpdate,
+} from '../db/videos.js';
+import {
+  PRODUCTION_STEPS,
+  createRun,
+  getRun,
+  updateRunStatus,
+  recordCheckpoint,
+  getCheckpoints,
+  isCheckpointIntact,
+  type ProductionStep,
+  type CheckpointInput,
+  type RunCheckpoint,
+} from '../db/runs.js';
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
 export interface ProducedScene {
+  runId: string;
   sceneId: string;
   videoPath: string;
+  master: PublishedMedia;
+  vertical: PublishedMedia | null;
   cost: number;
   cropSafe: boolean;
+  /** Final outcome of each gate plus attempt count — stored as videos.gate_results. */
+  gateResults: Record<string, unknown>;
+}
+
+/** Latest evaluation of one gate, as kept in the run's gate log. */
+export interface GateOutcome {
+  pass: boolean;
+  hardFail: boolean;
+  action: string | null;
+  reason: string | null;
+  metrics: Record<string, unknown>;
 }
 
 // ── Veo Prompt Templates ──────────────────────────────────────────────────────
@@ -65,27 +124,9 @@ function buildBodyCamPrompt(idea: BodyCamIdea): string {
   ).trim();
 }
 
-// ── Cloudinary upload ─────────────────────────────────────────────────────────
-
-async function uploadToCloudinary(localPath: string, publicId: string): Promise<string> {
-  // TODO: implement Cloudinary upload using the cloudinary Node SDK:
-  //   import { v2 as cloudinary } from 'cloudinary';
-  //   cloudinary.config({ cloud_name: env.CLOUDINARY_CLOUD_NAME, ... });
-  //   const result = await cloudinary.uploader.upload(localPath, {
-  //     resource_type: 'video', public_id: publicId,
-  //     folder: 'caught_on_camera',
-  //   });
-  //   return result.secure_url;
-  logger.warn('Cloudinary upload not implemented — returning placeholder URL', { publicId });
-  return `https://res.cloudinary.com/${env.CLOUDINARY_CLOUD_NAME}/video/upload/${publicId}.mp4`;
-}
-
-// ── Temp-file management ──────────────────────────────────────────────────────
-
-function tempPath(label: string, ext = 'mp4'): string {
-  const dir = env.TEMP_DIR;
-  fs.mkdirSync(dir, { recursive: true });
-  return path.join(dir, `${label}_${Date.now()}.${ext}`);
+/** Label of the prompt template version, recorded with costs and gate outcomes. */
+function veoVariantFor(format: 'ring_cam' | 'body_cam'): string {
+  return `${format}_v1`;
 }
 
 // ── Overlay config builders ───────────────────────────────────────────────────
@@ -114,183 +155,311 @@ function buildBodyCamOverlayConfig(idea: BodyCamIdea, overlayTemplatePath: strin
   };
 }
 
-// ── Audio bed picker ──────────────────────────────────────────────────────────
+// ── Run context ───────────────────────────────────────────────────────────────
 
-function pickAudioBed(subType: string, bedDir: string): string | null {
-  const bedMap: Record<string, string> = {
-    police_security: 'police_patrol_walking.mp3',
-    hiker_trail:     'hiker_trail_night.mp3',
-    dashcam:         'dashcam_highway.mp3',
-    helmet_action:   'helmet_wind.mp3',
-  };
-  const filename = bedMap[subType] ?? 'police_patrol_walking.mp3';
-  const full = path.join(bedDir, filename);
-  if (!fs.existsSync(full)) {
-    logger.warn('Producer: audio bed file not found', { path: full });
-    return null;
-  }
-  return full;
+interface RunContext {
+  runId: string;
+  sceneId: string;
+  idea: RingCamIdea | BodyCamIdea;
+  format: 'ring_cam' | 'body_cam';
+  subType: string | undefined;
+  prompt: string;
+  videoUrl: string;
+  currentPath: string;
+  /** Degraded clip before overlay/disclosure; remediations re-render the composite from it. */
+  basePath: string;
+  /** Audio bed mixed in by a mix_bed remediation, re-applied on any later re-render. */
+  audioBed: { path: string; gainDb: number; offsetSeconds: number } | null;
+  /** Ambient track swapped in by a replace_audio remediation, re-applied on any later re-render. */
+  ambientTrack: string | null;
+  verticalPath: string | null;
+  cropSafe: boolean;
+  master: PublishedMedia | null;
+  vertical: PublishedMedia | null;
+  veoCost: number;
+  /**
+   * Gate attempts and every failure across them, for the scene audit trail,
+   * plus the latest outcome of each gate (keyed gate1…gate7).
+   */
+  gateLog: { attempts: number; failures: string[]; results: Record<string, GateOutcome> };
 }
 
-// ── Main production function ───────────────────────────────────────────────────
+type StepOutput = CheckpointInput;
 
-/**
- * Produce a single video from an idea record.
- *
- * @param idea    Ring cam or body cam idea record.
- * @param format  'ring_cam' | 'body_cam'
- * @returns       Scene record with local video path, cost, and crop-safe flag.
- */
-export async function produceVideo(
+function newContext(
+  runId: string,
+  sceneId: string,
   idea: RingCamIdea | BodyCamIdea,
   format: 'ring_cam' | 'body_cam',
-): Promise<ProducedScene> {
-  logger.info('Producer: starting video production', { ideaId: idea.id, format });
+): RunContext {
+  return {
+    runId,
+    sceneId,
+    idea,
+    format,
+    subType:       format === 'body_cam' ? (idea as BodyCamIdea).cam_sub_type : undefined,
+    prompt:        '',
+    videoUrl:      '',
+    currentPath:   '',
+    basePath:      '',
+    audioBed:      null,
+    ambientTrack:  null,
+    verticalPath:  null,
+    cropSafe:      true,
+    master:        null,
+    vertical:      null,
+    veoCost:       0,
+    gateLog:       { attempts: 0, failures: [], results: {} },
+  };
+}
 
-  // ── Step 1: Sanitize prompt (Gate 4 Stage A) ─────────────────────────────
-  const rawPrompt = format === 'ring_cam'
+/**
+ * Fold a step's output into the run context. Used both after a step runs live
+ * and when replaying checkpoints on resume, so the two paths cannot drift.
+ */
+function applyStepOutput(ctx: RunContext, step: ProductionStep, output: StepOutput): void {
+  const result = output.result ?? {};
+  switch (step) {
+    case 'sanitize':
+      ctx.prompt = String(result['prompt'] ?? '');
+      break;
+    case 'generate':
+      ctx.videoUrl = String(result['videoUrl'] ?? '');
+      ctx.veoCost = output.cost ?? 0;
+      break;
+    case 'degrade':
+      if (output.artifactPath) ctx.currentPath = ctx.basePath = output.artifactPath;
+      break;
+    case 'gates':
+      ctx.cropSafe = result['cropSafe'] !== false;
+      // A regenerate remediation replaced the clip and paid for another Veo call
+      if (result['videoUrl']) ctx.videoUrl = String(result['videoUrl']);
+      ctx.veoCost += output.cost ?? 0;
+      ctx.gateLog = {
+        attempts: Number(result['attempts']) || 0,
+        failures: (result['failures'] as string[] | undefined) ?? [],
+        results:  (result['results'] as Record<string, GateOutcome> | undefined) ?? {},
+      };
+      if (output.artifactPath) ctx.currentPath = output.artifactPath;
+      break;
+    case 'crop':
+      // The master stays in currentPath; the vertical rendition is tracked alongside it
+      ctx.verticalPath = result['skipped'] ? null : (output.artifactPath ?? null);
+      break;
+    case 'upload':
+      ctx.master = (result['master'] as PublishedMedia | undefined) ?? null;
+      ctx.vertical = (result['vertical'] as PublishedMedia | null | undefined) ?? null;
+      break;
+    default:
+      if (output.artifactPath) ctx.currentPath = output.artifactPath;
+  }
+}
+
+// ── Scene audit trail ─────────────────────────────────────────────────────────
+
+function buildPrompt(idea: RingCamIdea | BodyCamIdea, format: 'ring_cam' | 'body_cam'): string {
+  return format === 'ring_cam'
     ? buildRingCamPrompt(idea as RingCamIdea)
     : buildBodyCamPrompt(idea as BodyCamIdea);
+}
+
+/** Create the scene row for a run, before any step has executed. */
+async function createScene(
+  runId: string,
+  idea: RingCamIdea | BodyCamIdea,
+  format: 'ring_cam' | 'body_cam',
+): Promise<string> {
+  const scene = await insertScene({
+    run_id:             runId,
+    idea_id:            idea.id,
+    idea_source:        format,
+    format,
+    veo_prompt:         buildPrompt(idea, format),
+    raw_video_url:      null,
+    degraded_video_url: null,
+    overlaid_video_url: null,
+    gated_video_path:   null,
+    cloudinary_url:     null,
+    generation_cost:    null,
+    quality_score:      null,
+  });
+  return scene.id;
+}
+
+/** Copy what a completed step produced onto the scene row. */
+async function recordSceneProgress(ctx: RunContext, step: ProductionStep, output: StepOutput): Promise<void> {
+  const fields: SceneUpdate = {};
+  switch (step) {
+    case 'sanitize':
+      fields.veo_prompt = ctx.prompt;
+      break;
+    case 'generate':
+      fields.raw_video_url = ctx.videoUrl;
+      fields.generation_cost = ctx.veoCost;
+      break;
+    case 'degrade':
+      fields.degraded_video_url = output.artifactPath ?? null;
+      break;
+    case 'gates':
+      await updateSceneStatus(ctx.sceneId, 'passed', {
+        gate_pass:     true,
+        gate_failures: ctx.gateLog.failures,
+      });
+      fields.retry_count = Math.max(0, ctx.gateLog.attempts - 1);
+      // Regenerate remediations replace the raw clip and add to the Veo spend
+      fields.raw_video_url = ctx.videoUrl;
+      fields.generation_cost = ctx.veoCost;
+      // The blurred / remediated clip; the only local render safe to reuse
+      fields.gated_video_path = output.artifactPath ?? null;
+      break;
+    case 'overlay':
+      fields.overlaid_video_url = output.artifactPath ?? null;
+      break;
+    case 'upload':
+      fields.cloudinary_url = ctx.master?.url ?? null;
+      break;
+  }
+  if (Object.keys(fields).length) await updateScene(ctx.sceneId, fields);
+}
+
+/**
+ * Record how a run stopped. Gate failures carry every failure across attempts;
+ * other steps only set the status (the run's error column has the message).
+ */
+async function recordSceneFailure(ctx: RunContext, step: ProductionStep, rejected: boolean): Promise<void> {
+  const status = rejected ? 'rejected' : 'failed';
+  if (step !== 'gates') {
+    await updateSceneStatus(ctx.sceneId, status);
+    return;
+  }
+  await updateSceneStatus(ctx.sceneId, status, {
+    gate_pass:     false,
+    gate_failures: ctx.gateLog.failures,
+  });
+  await updateScene(ctx.sceneId, { retry_count: Math.max(0, ctx.gateLog.attempts - 1) });
+}
+
+// ── Gate outcomes ─────────────────────────────────────────────────────────────
+
+/** Fields of a gate result that are verdicts, local paths or raw series rather than metrics. */
+const NON_METRIC_FIELDS = new Set(['pass', 'hardFail', 'action', 'reason', 'blurredVideoPath', 'timeline']);
+
+/**
+ * Record one gate evaluation: kept as the gate's latest outcome in the run's
+ * gate log and inserted into gate_runs. Each re-check after a remediation is
+ * a new attempt.
+ */
+async function recordGateOutcome<T extends { pass: boolean }>(
+  ctx: RunContext,
+  attempt: number,
+  gate: GateNumber,
+  result: T,
+): Promise<void> {
+  const fields = result as T & { hardFail?: boolean; action?: string; reason?: string };
+  const metrics = Object.fromEntries(
+    Object.entries(result).filter(([key, value]) => !NON_METRIC_FIELDS.has(key) && value !== undefined),
+  );
+  const outcome: GateOutcome = {
+    pass:     result.pass,
+    hardFail: fields.hardFail ?? false,
+    action:   fields.action ?? null,
+    reason:   fields.reason ?? null,
+    metrics,
+  };
+  ctx.gateLog.results[`gate${gate}`] = outcome;
+
+  // Analytics only — a failed insert must not fail a clip that is already paid for
+  try {
+    await insertGateRun({
+      run_id:       ctx.runId,
+      scene_id:     ctx.sceneId,
+      attempt,
+      gate,
+      pass:         outcome.pass,
+      hard_fail:    outcome.hardFail,
+      action:       outcome.action,
+      reason:       outcome.reason,
+      metrics,
+      format:       ctx.format,
+      cam_sub_type: ctx.subType ?? null,
+      veo_variant:  veoVariantFor(ctx.format),
+    });
+  } catch (err) {
+    logger.warn('Producer: could not record gate outcome', { runId: ctx.runId, gate, err });
+  }
+}
+
+// ── Production steps ──────────────────────────────────────────────────────────
 
-  const sanitized = sanitizePrompt(rawPrompt);
+// ── Step 1: Sanitize prompt (Gate 4 Stage A) ─────────────────────────────────
+async function stepSanitize(ctx: RunContext): Promise<StepOutput> {
+  const rawPrompt = buildPrompt(ctx.idea, ctx.format);
+
+  const sanitized = sanitizePrompt(rawPrompt, {
+    format:   ctx.format,
+    subType:  ctx.subType,
+    category: ctx.idea.category,
+  });
   if (!sanitized.pass) {
-    throw new Error(
+    throw new NonRetryableError(
       `Producer: prompt contains blocked words and cannot be produced: ` +
       sanitized.blockedWords.join(', '),
     );
   }
-  const prompt = sanitized.sanitized!;
 
-  logger.info('Producer: prompt sanitized', { rewrites: sanitized.rewrites.length });
+  logger.info('Producer: prompt sanitized', { rewrites: sanitized.rewrites.length, policyVersion: sanitized.policyVersion });
+  return {
+    result: {
+      prompt:        sanitized.sanitized,
+      rewrites:      sanitized.rewrites,
+      flagged:       sanitized.flagged,
+      policyVersion: sanitized.policyVersion,
+    },
+  };
+}
 
-  // ── Step 2: Generate clip via Veo ─────────────────────────────────────────
+// ── Step 2: Generate clip via Veo ─────────────────────────────────────────────
+
+/** Call Veo and record the spend immediately — the clip is paid for even if a later step crashes. */
+async function generateTracked(ctx: RunContext): Promise<{ videoUrl: string; cost: number; durationSeconds: number }> {
   logger.info('Producer: calling Veo generation');
-  const clip = await generateClip(prompt, 8, format);
+  const clip = await generateClip(ctx.prompt, 8, ctx.format);
   logger.info('Producer: clip generated', { url: clip.videoUrl, cost: clip.cost });
 
-  // Download clip to local temp file
-  // TODO: implement clip download from fal.ai CDN URL to local path
-  const rawPath = tempPath(`raw_${format}`);
-  // Placeholder: in real implementation, download from clip.videoUrl
-  logger.warn('Producer: clip download not implemented — TODO: download from CDN', { url: clip.videoUrl, rawPath });
-
-  let currentPath = rawPath;
-  let totalCost = clip.cost;
-
-  // ── Step 3: Degrade video ─────────────────────────────────────────────────
-  const degradedPath = tempPath(`degraded_${format}`);
-  const subType = format === 'body_cam' ? (idea as BodyCamIdea).cam_sub_type : undefined;
-  await degrade(currentPath, degradedPath, format, subType);
-  currentPath = degradedPath;
-
-  // ── Steps 4–6: Run gates with retry logic ─────────────────────────────────
-  let attempt = 0;
-  let cropSafe = true;
-  const gateFailures: string[] = [];
-
-  while (attempt < RETRY_POLICY.maxRetries) {
-    attempt++;
-    logger.info('Producer: running gate suite', { attempt, maxAttempts: RETRY_POLICY.maxRetries });
-
-    // Extract keyframes for vision gates
-    const frames = await extractKeyframes(currentPath, 5);
-
-    // Gate 1: Motion
-    const g1 = await runGate1(currentPath, format);
-    if (!g1.pass) {
-      if (g1.action === 'add_shake' && format === 'body_cam') {
-        logger.info('Producer: Gate 1 add_shake — applying synthetic shake and re-running');
-        const shakenPath = tempPath('shaken_body_cam');
-        await addBodyCamShake(currentPath, shakenPath);
-        currentPath = shakenPath;
-        // Re-run Gate 1 immediately with shaken clip
-        const g1b = await runGate1(currentPath, 'body_cam');
-        if (!g1b.pass) {
-          gateFailures.push(`gate1:${g1b.reason ?? 'shake insufficient'}`);
-          if (attempt >= RETRY_POLICY.maxRetries) break;
-          continue;
-        }
-      } else {
-        gateFailures.push(`gate1:${g1.reason ?? 'motion fail'}`);
-        if (attempt >= RETRY_POLICY.maxRetries) break;
-        continue;
-      }
-    }
-
-    // Gate 2: Face detection + auto-blur (always passes, may mutate currentPath)
-    const g2 = await runGate2(currentPath);
-    if (g2.blurred && g2.blurredVideoPath) {
-      logger.info('Producer: Gate 2 applied face blur', { facesBlurred: g2.facesDetected });
-      currentPath = g2.blurredVideoPath;
-    }
-
-    // Gate 3: Audio validation
-    const g3 = await runGate3(currentPath, format, subType);
-    if (!g3.pass) {
-      if (g3.action === 'mix_bed' && g3.recommendedBed) {
-        const bedPath = pickAudioBed(subType ?? g3.recommendedBed, env.AUDIO_BEDS_PATH);
-        if (bedPath) {
-          logger.info('Producer: Gate 3 mix_bed — mixing audio bed', { bed: bedPath });
-          const mixedPath = tempPath('mixed_audio');
-          await mixAudioBed(currentPath, bedPath, -15, mixedPath);
-          currentPath = mixedPath;
-          const g3b = await runGate3(currentPath, format, subType);
-          if (!g3b.pass) {
-            gateFailures.push(`gate3:${g3b.reason ?? 'audio still fails after bed mix'}`);
-            if (attempt >= RETRY_POLICY.maxRetries) break;
-            continue;
-          }
-        }
-      } else if (g3.action === 'replace_audio') {
-        // TODO: generate or fetch a replacement ambient audio track and call replaceAudio()
-        logger.warn('Producer: Gate 3 replace_audio — TODO: implement ambient audio replacement');
-        gateFailures.push(`gate3:${g3.reason ?? 'audio too loud'}`);
-        if (attempt >= RETRY_POLICY.maxRetries) break;
-        continue;
-      } else {
-        gateFailures.push(`gate3:${g3.reason ?? 'audio fail'}`);
-        if (attempt >= RETRY_POLICY.maxRetries) break;
-        continue;
-      }
-    }
-
-    // Gate 4: Content policy (Stage B — post-generation)
-    const g4 = await runGate4(currentPath, format, idea.scenario, frames);
-    if (!g4.pass) {
-      if (g4.hardFail) {
-        // Hard fail — do not retry, reject permanently
-        throw new Error(
-          `Producer: Gate 4 HARD FAIL — ${g4.severity} severity: ${g4.flags.join(', ')}`,
-        );
-      }
-      gateFailures.push(`gate4:${g4.reason ?? 'policy flags'}`);
-      if (attempt >= RETRY_POLICY.maxRetries) break;
-      continue;
-    }
-
-    // Gate 5: Crop safety — check whether center crop is safe
-    // TODO: implement gate5-cropsafe.ts — analyses whether important content is
-    //       within the center 9:16 safe zone. For now default to true.
-    cropSafe = true;
+  await trackCost({
+    sceneId:    ctx.sceneId,
+    veoCost:    clip.cost,
+    claudeCost: 0,
+    veoVariant: veoVariantFor(ctx.format),
+  });
+  return clip;
+}
 
-    // Gate 6: Authenticity — checks overall authenticity score
-    // TODO: implement gate6-authenticity.ts — Claude vision check for AI tell-tales
-    // For now, all clips pass Gate 6.
+async function stepGenerate(ctx: RunContext): Promise<StepOutput> {
+  const clip = await generateTracked(ctx);
+  return {
+    cost:   clip.cost,
+    result: { videoUrl: clip.videoUrl, durationSeconds: clip.durationSeconds },
+  };
+}
 
-    // Gate 7: Virality scoring
-    // TODO: implement gate7-virality.ts — minimum virality score threshold
-    // For now, all clips pass Gate 7.
+// ── Step 3: Download clip ─────────────────────────────────────────────────────
+async function stepDownload(ctx: RunContext): Promise<StepOutput> {
+  const clip = await downloadClip(ctx.videoUrl);
+  return { artifactPath: clip.path, result: { sha256: clip.sha256, bytes: clip.bytes } };
+}
 
-    logger.info('Producer: all gates passed', { attempt });
-    gateFailures.length = 0; // clear failures on success
-    break;
-  }
+// ── Step 4: Degrade video ─────────────────────────────────────────────────────
+async function stepDegrade(ctx: RunContext): Promise<StepOutput> {
+  const degradedPath = tempPath(`degraded_${ctx.format}`);
+  await degrade(ctx.currentPath, degradedPath, ctx.format, ctx.subType);
+  return { artifactPath: degradedPath };
+}
 
-  if (gateFailures.length > 0) {
-    throw new Error(`Producer: gates failed after ${attempt} attempt(s): ${gateFailures.join(' | ')}`);
-  }
+// ── Composite rendering ───────────────────────────────────────────────────────
 
-  // ── Step 8: Apply overlay ──────────────────────────────────────────────────
+async function renderOverlay(ctx: RunContext, inputPath: string): Promise<string> {
+  const { format, subType, idea } = ctx;
   const overlayTemplatePath = path.join(
     env.OVERLAYS_PATH,
     format,
@@ -302,47 +471,405 @@ export async function produceVideo(
     ? buildRingCamOverlayConfig(idea as RingCamIdea, overlayTemplatePath)
     : buildBodyCamOverlayConfig(idea as BodyCamIdea, overlayTemplatePath);
 
-  await applyOverlay(currentPath, overlaidPath, format, overlayConfig);
-  currentPath = overlaidPath;
+  await applyOverlay(inputPath, overlaidPath, format, overlayConfig);
+  return overlaidPath;
+}
+
+async function renderDisclosure(ctx: RunContext, inputPath: string): Promise<string> {
+  const disclosurePath = tempPath(`disclosed_${ctx.format}`);
+  await burnDisclosure(inputPath, disclosurePath);
+  return disclosurePath;
+}
+
+/** Rebuild the composite (bed mix → overlay → disclosure) from ctx.basePath. */
+async function renderComposite(ctx: RunContext): Promise<string> {
+  let input = ctx.basePath;
+  if (ctx.ambientTrack) {
+    const replacedPath = tempPath('ambient_audio');
+    await replaceAudio(input, ctx.ambientTrack, replacedPath);
+    input = replacedPath;
+  }
+  if (ctx.audioBed) {
+    const mixedPath = tempPath('mixed_audio');
+    await mixAudioBed(input, ctx.audioBed.path, ctx.audioBed.gainDb, mixedPath, ctx.audioBed.offsetSeconds);
+    input = mixedPath;
+  }
+  return renderDisclosure(ctx, await renderOverlay(ctx, input));
+}
+
+// ── Step 5: Apply overlay ─────────────────────────────────────────────────────
+async function stepOverlay(ctx: RunContext): Promise<StepOutput> {
+  return { artifactPath: await renderOverlay(ctx, ctx.currentPath) };
+}
+
+// ── Step 6: Burn disclosure watermark ─────────────────────────────────────────
+async function stepDisclosure(ctx: RunContext): Promise<StepOutput> {
+  return { artifactPath: await renderDisclosure(ctx, ctx.currentPath) };
+}
 
-  // ── Step 9: Burn disclosure watermark ─────────────────────────────────────
-  const disclosurePath = tempPath(`disclosed_${format}`);
-  await burnDisclosure(currentPath, disclosurePath);
-  currentPath = disclosurePath;
+// ── Step 7: Run gates with remediation ────────────────────────────────────────
+
+/** A gate's thresholds as configured in config/gates.yaml, or `defaults` when it is not listed. */
+function configuredThresholds<T>(id: string, defaults: T): T {
+  return (getConfiguredGates().find((g) => g.definition.id === id)?.thresholds ?? defaults) as T;
+}
+
+/** Shake settings from Gate 1's motion profile, against the configured body cam limits. */
+function shakeTuning(result: GateRunnerResult): ShakeTuning | undefined {
+  const gate1 = result.gate1;
+  if (!gate1?.profile) return undefined;
+  const { minAvg, cadenceMinHz, cadenceMaxHz } = configuredThresholds<MotionThresholds>('motion', MOTION_THRESHOLDS).bodyCam;
+  return shakeTuningFor(gate1.profile, gate1.avgMotion, minAvg, { minHz: cadenceMinHz, maxHz: cadenceMaxHz });
+}
+
+/**
+ * Remediation handlers for this run. Each returns the clip to re-gate. The
+ * `spend` accumulator collects Veo cost from regenerations for the checkpoint.
+ */
+function remediationHandlers(
+  ctx: RunContext,
+  spend: { veoCost: number; videoUrl: string | null },
+): Partial<Record<RemediationAction, RemediationHandler>> {
+  return {
+    add_shake: async (_videoPath, result) => {
+      if (ctx.format !== 'body_cam') return null;
+      // Shake the pre-overlay clip so the HUD stays fixed on screen, tuned to
+      // the clip's own motion profile when Gate 1 produced one
+      const shakenPath = tempPath('shaken_body_cam');
+      await addBodyCamShake(ctx.basePath, shakenPath, shakeTuning(result));
+      ctx.basePath = shakenPath;
+      return renderComposite(ctx);
+    },
+
+    mix_bed: async (videoPath) => {
+      const bed = selectBed(
+        loadBedLibrary(env.AUDIO_BEDS_PATH),
+        {
+          format:    ctx.format,
+          subType:   ctx.subType,
+          timeOfDay: ctx.idea.time_of_day,
+          notes:     `${ctx.idea.audio_notes ?? ''} ${ctx.idea.scenario}`,
+        },
+        await getRecentAudioBeds(AUDIO_BED_SELECTION.avoidRecent),
+      );
+      if (!bed) {
+        logger.warn('Producer: no audio bed in the library fits', { format: ctx.format, subType: ctx.subType });
+        return null;
+      }
+      // Mixed into the gated (possibly face-blurred) clip; remembered for later re-renders
+      ctx.audioBed = { path: bed.path, gainDb: bedGainDb(bed), offsetSeconds: bedOffset(bed, await getDuration(videoPath)) };
+      await insertAudioBedUse({
+        bed:            bed.id,
+        run_id:         ctx.runId,
+        format:         ctx.format,
+        cam_sub_type:   ctx.subType ?? null,
+        offset_seconds: ctx.audioBed.offsetSeconds,
+      });
+      const mixedPath = tempPath('mixed_audio');
+      await mixAudioBed(videoPath, bed.path, ctx.audioBed.gainDb, mixedPath, ctx.audioBed.offsetSeconds);
+      return mixedPath;
+    },
+
+    replace_audio: async (videoPath) => {
+      // Swapped into the gated (possibly face-blurred) clip; remembered for later re-renders
+      const { minLufs, maxLufs, maxTruePeakDb } = configuredThresholds('audio', AUDIO_THRESHOLDS)[
+        ctx.format === 'ring_cam' ? 'ringCam' : 'bodyCam'
+      ];
+      const track = await buildAmbientTrack({
+        timeOfDay:       ctx.idea.time_of_day,
+        audioNotes:      ctx.idea.audio_notes,
+        durationSeconds: await getDuration(videoPath),
+        targetLufs:      (minLufs + maxLufs) / 2,
+        truePeakDb:      maxTruePeakDb - 1,
+        bedDir:          env.AUDIO_BEDS_PATH,
+      });
+      ctx.ambientTrack = track.path;
+      // The bed was mixed over the audio being replaced
+      ctx.audioBed = null;
+      const replacedPath = tempPath('ambient_audio');
+      await replaceAudio(videoPath, track.path, replacedPath);
+      return replacedPath;
+    },
+
+    retry_overlay: async () => renderComposite(ctx),
+
+    regenerate: async () => {
+      const clip = await generateTracked(ctx);
+      spend.veoCost += clip.cost;
+      spend.videoUrl = clip.videoUrl;
+      const raw = await downloadClip(clip.videoUrl);
+      const degradedPath = tempPath(`degraded_${ctx.format}`);
+      await degrade(raw.path, degradedPath, ctx.format, ctx.subType);
+      ctx.basePath = degradedPath;
+      ctx.audioBed = null;
+      ctx.ambientTrack = null;
+      return renderComposite(ctx);
+    },
+  };
+}
 
-  // ── Step 10: Crop to 9:16 if cropSafe ─────────────────────────────────────
-  if (cropSafe) {
-    const croppedPath = tempPath(`cropped_${format}`);
-    await cropToVertical(currentPath, croppedPath, true);
-    currentPath = croppedPath;
+/** Record the gates a runner pass actually evaluated (reused results are skipped). */
+async function recordGatePass(ctx: RunContext, attempt: number, result: GateRunnerResult): Promise<void> {
+  for (const gate of result.evaluated ?? []) {
+    const gateResult = gateResultOf(result, gate);
+    if (gateResult) await recordGateOutcome(ctx, attempt, gate, gateResult);
   }
+}
+
+function hardFailMessage(result: GateRunnerResult): string {
+  if (result.hardFailGate === 4 && result.gate4) {
+    return `Producer: Gate 4 HARD FAIL — ${result.gate4.severity} severity: ${result.gate4.flags.join(', ')}`;
+  }
+  if (result.hardFailGate === 7) {
+    return 'Producer: Gate 7 HARD FAIL — AI disclosure watermark missing';
+  }
+  const reason = gateResultOf(result, result.hardFailGate ?? 0)?.reason ?? 'blocked';
+  return `Producer: Gate ${result.hardFailGate ?? '?'} HARD FAIL — ${reason}`;
+}
+
+async function stepGates(ctx: RunContext): Promise<StepOutput> {
+  const { format, subType, idea } = ctx;
+  // Failures from every pass are kept (not just the last) for the scene audit trail
+  ctx.gateLog = { attempts: 0, failures: [], results: {} };
+  const spend = { veoCost: 0, videoUrl: null as string | null };
+
+  await updateSceneStatus(ctx.sceneId, 'gate_check');
+
+  const outcome = await runGatesWithRemediation({
+    videoPath: ctx.currentPath,
+    budget:    REMEDIATION_BUDGET,
+    handlers:  remediationHandlers(ctx, spend),
+    runGates:  async (videoPath, from, previous) => {
+      const attempt = ++ctx.gateLog.attempts;
+      logger.info('Producer: running gate suite', { attempt, from });
+      // Frames, probe and audio levels come from the runner's shared decode of the clip
+      const result = await runAllGates({
+        sceneId: ctx.sceneId,
+        videoPath,
+        format,
+        concept: idea.scenario,
+        from,
+        ...(subType ? { subType } : {}),
+        ...(previous ? { previous } : {}),
+      });
+      await recordGatePass(ctx, attempt, result);
+      return result;
+    },
+  });
+  ctx.gateLog.failures.push(...outcome.failures);
+
+  if (outcome.result.hardFail) {
+    // Hard fail — do not retry, reject permanently
+    throw new NonRetryableError(hardFailMessage(outcome.result));
+  }
+  if (!outcome.result.pass) {
+    throw new Error(
+      `Producer: gates failed after ${outcome.passes} attempt(s) (${outcome.stopReason}): ` +
+      ctx.gateLog.failures.join(' | '),
+    );
+  }
+
+  logger.info('Producer: all gates passed', { attempts: outcome.passes, remediations: outcome.remediations });
+  return {
+    artifactPath: outcome.result.videoPath,
+    cost:         spend.veoCost,
+    result:       {
+      cropSafe:     outcome.result.cropSafe !== false,
+      attempts:     outcome.passes,
+      failures:     ctx.gateLog.failures,
+      remediations: outcome.remediations,
+      results:      ctx.gateLog.results,
+      ...(spend.videoUrl ? { videoUrl: spend.videoUrl } : {}),
+    },
+  };
+}
+
+// ── Step 8: Crop to 9:16 if cropSafe ──────────────────────────────────────────
+async function stepCrop(ctx: RunContext): Promise<StepOutput> {
+  if (!ctx.cropSafe) {
+    return { artifactPath: ctx.currentPath, result: { skipped: true } };
+  }
+  const croppedPath = tempPath(`cropped_${ctx.format}`);
+  await cropToVertical(ctx.currentPath, croppedPath, true);
+  return { artifactPath: croppedPath };
+}
+
+// ── Step 9: Publish master + vertical ─────────────────────────────────────────
+async function stepUpload(ctx: RunContext): Promise<StepOutput> {
+  const master = await publishArtifact(ctx.currentPath, 'master');
+  const vertical = ctx.verticalPath ? await publishArtifact(ctx.verticalPath, 'vertical') : null;
+  return { result: { master, vertical } };
+}
 
-  // ── Step 11: Upload to Cloudinary ─────────────────────────────────────────
-  const publicId = `caught_on_camera/${format}_${idea.id}_${Date.now()}`;
-  const cloudinaryUrl = await uploadToCloudinary(currentPath, publicId);
+const STEP_HANDLERS: Record<ProductionStep, (ctx: RunContext) => Promise<StepOutput>> = {
+  sanitize:   stepSanitize,
+  generate:   stepGenerate,
+  download:   stepDownload,
+  degrade:    stepDegrade,
+  overlay:    stepOverlay,
+  disclosure: stepDisclosure,
+  gates:      stepGates,
+  crop:       stepCrop,
+  upload:     stepUpload,
+};
 
-  // Track total cost
+// ── Run execution ─────────────────────────────────────────────────────────────
+
+/**
+ * Raised when a production run stops. `resumable` is false for permanent
+ * rejections (blocked prompt, Gate 4 hard fail) that a resume cannot fix.
+ */
+export class ProductionRunError extends Error {
+  constructor(
+    message: string,
+    public readonly runId: string,
+    public readonly resumable: boolean,
+    public readonly cause?: unknown,
+  ) {
+    super(message);
+    this.name = 'ProductionRunError';
+  }
+}
+
+async function executeRun(ctx: RunContext, fromIndex: number): Promise<ProducedScene> {
+  const { runId, idea, format } = ctx;
+
+  for (const step of PRODUCTION_STEPS.slice(fromIndex)) {
+    let output: StepOutput;
+    try {
+      output = await STEP_HANDLERS[step](ctx);
+    } catch (err) {
+      const rejected = err instanceof NonRetryableError;
+      const message = err instanceof Error ? err.message : String(err);
+      await updateRunStatus(runId, rejected ? 'rejected' : 'failed', `${step}: ${message}`);
+      await recordSceneFailure(ctx, step, rejected);
+      logger.error('Producer: run stopped', { runId, step, rejected, err });
+      throw new ProductionRunError(message, runId, !rejected, err);
+    }
+    await recordCheckpoint(runId, step, output);
+    applyStepOutput(ctx, step, output);
+    await recordSceneProgress(ctx, step, output);
+  }
+
+  // Track the gate-analysis spend (Veo spend was recorded at generation time)
   const claudeCost = 0.01; // approximate cost of gate analysis calls
-  totalCost += claudeCost;
   await trackCost({
-    sceneId:    idea.id,
-    veoCost:    clip.cost,
+    sceneId:    ctx.sceneId,
+    veoCost:    0,
     claudeCost,
-    veoVariant: `${format}_v1`,
+    veoVariant: veoVariantFor(format),
   });
+  const totalCost = ctx.veoCost + claudeCost;
+
+  await updateRunStatus(runId, 'completed');
 
   logger.info('Producer: production complete', {
+    runId,
     ideaId: idea.id,
     format,
-    cloudinaryUrl,
+    masterUrl: ctx.master?.url,
     totalCost,
-    cropSafe,
+    cropSafe: ctx.cropSafe,
   });
 
   return {
-    sceneId:   idea.id,
-    videoPath: currentPath,
-    cost:      totalCost,
-    cropSafe,
+    runId,
+    sceneId:       ctx.sceneId,
+    videoPath:     ctx.currentPath,
+    master:        ctx.master!,
+    vertical:      ctx.vertical,
+    cost:          totalCost,
+    cropSafe:      ctx.cropSafe,
+    gateResults:   { attempts: ctx.gateLog.attempts, ...ctx.gateLog.results },
   };
 }
+
+// ── Main production function ───────────────────────────────────────────────────
+
+/**
+ * Produce a single video from an idea record.
+ * Every step is checkpointed under a new run ID so a failure can be resumed
+ * with resumeProduction() instead of regenerating the clip.
+ *
+ * @param idea    Ring cam or body cam idea record.
+ * @param format  'ring_cam' | 'body_cam'
+ * @returns       Scene record with run ID, local video path, cost, and crop-safe flag.
+ */
+export async function produceVideo(
+  idea: RingCamIdea | BodyCamIdea,
+  format: 'ring_cam' | 'body_cam',
+): Promise<ProducedScene> {
+  const run = await createRun(idea.id, format);
+  const sceneId = await createScene(run.id, idea, format);
+  logger.info('Producer: starting video production', { runId: run.id, sceneId, ideaId: idea.id, format });
+  return executeRun(newContext(run.id, sceneId, idea, format), 0);
+}
+
+/**
+ * Resume a failed or interrupted run from its last intact checkpoint.
+ * Veo is never called again once the 'generate' step has been checkpointed;
+ * a missing raw clip is re-downloaded from the recorded URL instead.
+ *
+ * @param runId  ID of the production run to resume.
+ * @returns      The idea, its format, and the produced scene.
+ */
+export async function resumeProduction(runId: string): Promise<{
+  idea: RingCamIdea | BodyCamIdea;
+  format: 'ring_cam' | 'body_cam';
+  scene: ProducedScene;
+}> {
+  const run = await getRun(runId);
+  if (!run) throw new Error(`Producer: run ${runId} not found`);
+  if (run.status === 'completed' || run.status === 'rejected') {
+    throw new Error(`Producer: run ${runId} is ${run.status} and cannot be resumed`);
+  }
+
+  const idea = await getIdeaById(run.idea_id, run.idea_source);
+  if (!idea) throw new Error(`Producer: idea ${run.idea_id} for run ${runId} not found`);
+
+  const format = run.idea_source;
+
+  // Only the unbroken sequence of checkpointed steps counts: a run started
+  // under an earlier step order can have checkpoints past a step it never ran
+  const recorded = await getCheckpoints(runId);
+  const checkpoints: RunCheckpoint[] = [];
+  for (const step of PRODUCTION_STEPS) {
+    const latest = recorded.filter((cp) => cp.step === step).pop();
+    if (!latest) break;
+    checkpoints.push(latest);
+  }
+
+  // Resume after the latest checkpoint whose artifact is still intact on disk
+  let lastIntact = -1;
+  for (let i = checkpoints.length - 1; i >= 0; i--) {
+    if (isCheckpointIntact(checkpoints[i]!)) {
+      lastIntact = i;
+      break;
+    }
+    logger.warn('Producer: checkpoint artifact missing or modified — rewinding', {
+      runId,
+      step: checkpoints[i]!.step,
+      artifact: checkpoints[i]!.artifact_path,
+    });
+  }
+
+  // Runs started before scenes were recorded get their scene row now
+  const sceneId = (await getSceneByRunId(runId))?.id ?? (await createScene(runId, idea, format));
+  const ctx = newContext(runId, sceneId, idea, format);
+  for (const cp of checkpoints.slice(0, lastIntact + 1)) {
+    applyStepOutput(ctx, cp.step, {
+      cost:   Number(cp.cost) || 0,
+      result: cp.result,
+      ...(cp.artifact_path ? { artifactPath: cp.artifact_path } : {}),
+    });
+  }
+
+  const fromIndex = lastIntact >= 0 ? PRODUCTION_STEPS.indexOf(checkpoints[lastIntact]!.step) + 1 : 0;
+  await updateRunStatus(runId, 'running');
+  const gatesDone = fromIndex > PRODUCTION_STEPS.indexOf('gates');
+  await updateSceneStatus(sceneId, gatesDone ? 'passed' : 'generating');
+  logger.info('Producer: resuming run', { runId, ideaId: idea.id, format, fromStep: PRODUCTION_STEPS[fromIndex] });
+
+  const scene = await executeRun(ctx, fromIndex);
+  return { idea, format, scene };
+}
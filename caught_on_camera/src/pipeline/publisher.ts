@@ -4,6 +4,11 @@
  *
  * Always sets isAiGenerated=true and includes the AI disclosure in captions.
  * Partial platform failures are logged but do not abort other platforms.
+ * Scheduled posts held by the sensitivity calendar move to the first optimal
+ * slot after the window; platforms or content switched off by a kill switch
+ * are skipped at both scheduling and publish time. While an operator has
+ * paused publishing nothing is posted, and new posts are scheduled after the
+ * pause ends.
  */
 import { logger } from '../utils/logger.js';
 import {
@@ -12,8 +17,16 @@ import {
   publishWithFallback,
 } from '../platforms/blotato.js';
 import { PLATFORM_LIMITS } from '../config.js';
-import { dbSelectFiltered, dbInsert } from '../db/client.js';
+import { dbSelect, dbSelectFiltered, dbInsert } from '../db/client.js';
 import type { VideoRecord } from '../db/videos.js';
+import { getIdeaById } from '../db/ideas.js';
+import {
+  checkSensitivity,
+  nextClearTime,
+  type SensitivitySubject,
+} from '../monitoring/sensitivity-calendar.js';
+import { getFeatureFlags, killedBy, type FeatureFlags } from '../monitoring/feature-flags.js';
+import { pausedFor } from '../monitoring/pipeline-control.js';
 
 // ── Types ─────────────────────────────────────────────────────────────────────
 
@@ -109,14 +122,13 @@ const OPTIMAL_HOURS: Record<string, number[]> = {
   shorts:    [14, 16, 19],
 };
 
-function nextOptimalSlot(platform: string): Date {
-  const now = new Date();
+function nextOptimalSlot(platform: string, after: Date = new Date()): Date {
   const hours = OPTIMAL_HOURS[platform] ?? [14, 19];
-  const currentHour = now.getUTCHours();
+  const currentHour = after.getUTCHours();
 
   // Find the next optimal hour today or tomorrow
   const nextHour = hours.find((h) => h > currentHour);
-  const slot = new Date(now);
+  const slot = new Date(after);
 
   if (nextHour !== undefined) {
     slot.setUTCHours(nextHour, 0, 0, 0);
@@ -129,6 +141,39 @@ function nextOptimalSlot(platform: string): Date {
   return slot;
 }
 
+/** Calendar subject for a video: its idea's category and sub-type, plus title and caption. */
+async function videoSubject(video: VideoRecord): Promise<SensitivitySubject> {
+  const idea = await getIdeaById(video.idea_id, video.idea_source).catch(() => null);
+  return {
+    category: idea?.category ?? null,
+    subType:  video.cam_sub_type,
+    text:     [video.title, video.caption, idea?.hook, idea?.scenario].filter(Boolean).join('\n'),
+  };
+}
+
+/** Reasons a kill switch stops this video going to this platform; empty when it may. */
+function switchedOff(flags: FeatureFlags, video: VideoRecord, subject: SensitivitySubject, platform: string): string[] {
+  return killedBy(flags, {
+    platform,
+    format:   video.format,
+    subType:  video.cam_sub_type,
+    category: subject.category,
+  }).map((k) => k.reason);
+}
+
+/**
+ * The next optimal slot for a platform that no sensitivity calendar block
+ * window covers.
+ */
+export function nextClearSlot(platform: string, subject: SensitivitySubject, after: Date = new Date()): Date {
+  let slot = nextOptimalSlot(platform, after);
+  while (checkSensitivity(subject, slot).blocked) {
+    // Step back a minute so a window ending exactly on an optimal hour still gets that slot
+    slot = nextOptimalSlot(platform, new Date(nextClearTime(subject, slot).getTime() - 60_000));
+  }
+  return slot;
+}
+
 // ── Core publish functions ─────────────────────────────────────────────────────
 
 /**
@@ -145,8 +190,22 @@ export async function publishVideo(
   logger.info('Publisher: publishing video', { videoId: video.id, platforms });
 
   const postIds: Record<string, string> = {};
+  const pause = await pausedFor('publishing');
+  if (pause) {
+    logger.warn('Publisher: publishing paused — not posting', { videoId: video.id, reason: pause.reason });
+    return postIds;
+  }
+
+  const flags = await getFeatureFlags();
+  const subject = await videoSubject(video);
 
   for (const platform of platforms) {
+    const killed = switchedOff(flags, video, subject, platform);
+    if (killed.length > 0) {
+      logger.warn('Publisher: switched off by a kill switch — skipping', { videoId: video.id, platform, reasons: killed });
+      continue;
+    }
+
     // Rate-limit check
     const allowed = await canPublishToday(platform);
     if (!allowed) {
@@ -212,15 +271,45 @@ export async function publishVideo(
 }
 
 /**
- * Schedule a video for publication at the next optimal time slot per platform.
+ * Schedule a video for publication at the next optimal time slot per platform,
+ * skipping slots inside a sensitivity calendar block window that applies to it.
+ * Platforms (or content) switched off by a kill switch are not scheduled, and
+ * while publishing is paused until a set time the first slot is after it.
+ * Platforms that already have a scheduled post are skipped, so re-running
+ * after a partial failure is safe.
  * Writes a scheduled_posts record for each platform; a cron job will pick them up.
  */
 export async function schedulePublish(video: VideoRecord): Promise<void> {
   logger.info('Publisher: scheduling video', { videoId: video.id });
 
   const platforms = ['youtube', 'shorts', 'tiktok', 'instagram'] as const;
+  const subject = await videoSubject(video);
+  const flags = await getFeatureFlags();
+  const pause = await pausedFor('publishing');
+  const after = pause?.until ?? new Date();
+  const scheduled = new Set(
+    (await dbSelect('scheduled_posts', { video_id: video.id })).map((p) => String(p['platform'])),
+  );
+  if (pause) {
+    logger.warn('Publisher: publishing paused — scheduling after the pause', {
+      videoId: video.id,
+      reason:  pause.reason,
+      until:   pause.until?.toISOString() ?? null,
+    });
+  }
 
   for (const platform of platforms) {
+    if (scheduled.has(platform)) {
+      logger.info('Publisher: already scheduled — skipping', { videoId: video.id, platform });
+      continue;
+    }
+
+    const killed = switchedOff(flags, video, subject, platform);
+    if (killed.length > 0) {
+      logger.warn('Publisher: switched off by a kill switch — not scheduling', { videoId: video.id, platform, reasons: killed });
+      continue;
+    }
+
     const allowed = await canPublishToday(platform);
     if (!allowed) {
       logger.warn('Publisher: daily limit reached — scheduling tomorrow', {
@@ -229,7 +318,16 @@ export async function schedulePublish(video: VideoRecord): Promise<void> {
       });
     }
 
-    const scheduledAt = nextOptimalSlot(platform);
+    const scheduledAt = nextClearSlot(platform, subject, after);
+    const held = checkSensitivity(subject, nextOptimalSlot(platform, after));
+    if (held.blocked) {
+      logger.warn('Publisher: sensitivity calendar block — moved to a later slot', {
+        videoId: video.id,
+        platform,
+        windows: held.windows.filter((w) => w.effect === 'block').map((w) => w.id),
+        scheduledAt: scheduledAt.toISOString(),
+      });
+    }
     const metadata = generateCompliantMetadata(video, platform);
 
     await dbInsert('scheduled_posts', {
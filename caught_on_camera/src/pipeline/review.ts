@@ -0,0 +1,201 @@
+/**
+ * Operator review — the Approve / Reject / Regenerate buttons on a video's
+ * Telegram review request, and the /approve and /reject commands.
+ *
+ * Approving writes the decision through db/videos.ts and schedules publishing;
+ * rejecting asks for a reason from REJECT_REASONS; regenerating rejects the
+ * video and puts its idea back in the pending queue. Either way the review
+ * message is edited to show the decision and who made it.
+ */
+import { logger } from '../utils/logger.js';
+import {
+  getVideoById,
+  updateVideoApproval,
+  type VideoRecord,
+} from '../db/videos.js';
+import { requeueIdea } from '../db/ideas.js';
+import {
+  editMessage,
+  editKeyboard,
+  escapeHtml,
+  operatorName,
+  REVIEW_CALLBACK_PREFIX,
+  type InlineKeyboard,
+  type TelegramCallbackQuery,
+} from '../monitoring/telegram.js';
+import { schedulePublish } from './publisher.js';
+
+// ── Reasons ───────────────────────────────────────────────────────────────────
+
+/** Fixed rejection reasons: callback code → label stored as reject_reason. */
+export const REJECT_REASONS = {
+  fake:      'Looks fake or uncanny',
+  artifacts: 'Visual artifacts or glitches',
+  audio:     'Audio problem',
+  hook:      'Weak hook or boring',
+  policy:    'Policy or sensitivity concern',
+  duplicate: 'Too similar to a recent video',
+  other:     'Other',
+} as const;
+
+export type RejectReason = keyof typeof REJECT_REASONS;
+
+export function isRejectReason(code: string): code is RejectReason {
+  return Object.prototype.hasOwnProperty.call(REJECT_REASONS, code);
+}
+
+// ── Keyboards ─────────────────────────────────────────────────────────────────
+// Callback data: review:<action>:<videoId>[:<reason>] — a UUID keeps it under 64 bytes
+
+type ReviewAction = 'approve' | 'reject' | 'reason' | 'back' | 'regenerate';
+
+const ACTION_CODES: Record<ReviewAction, string> = {
+  approve:    'a',
+  reject:     'r',
+  reason:     'x',
+  back:       'b',
+  regenerate: 'g',
+};
+
+function encode(action: ReviewAction, videoId: string, reason?: RejectReason): string {
+  return [REVIEW_CALLBACK_PREFIX, ACTION_CODES[action], videoId, ...(reason ? [reason] : [])].join(':');
+}
+
+/** The buttons attached to a review request. */
+export function reviewKeyboard(videoId: string): InlineKeyboard {
+  return [[
+    { text: '✅ Approve',    callback_data: encode('approve', videoId) },
+    { text: '❌ Reject',     callback_data: encode('reject', videoId) },
+    { text: '🔁 Regenerate', callback_data: encode('regenerate', videoId) },
+  ]];
+}
+
+function reasonKeyboard(videoId: string): InlineKeyboard {
+  const reasons = (Object.entries(REJECT_REASONS) as Array<[RejectReason, string]>)
+    .map(([code, label]) => ({ text: label, callback_data: encode('reason', videoId, code) }));
+  const rows: InlineKeyboard = [];
+  for (let i = 0; i < reasons.length; i += 2) rows.push(reasons.slice(i, i + 2));
+  rows.push([{ text: '↩️ Back', callback_data: encode('back', videoId) }]);
+  return rows;
+}
+
+// ── Decisions ─────────────────────────────────────────────────────────────────
+
+export type ReviewOutcome =
+  | { ok: true; video: VideoRecord; summary: string }
+  | { ok: false; message: string };
+
+async function pendingVideo(videoId: string): Promise<VideoRecord | string> {
+  const video = await getVideoById(videoId);
+  if (!video) return `No video ${videoId}.`;
+  if (video.approval_status !== 'pending_review') {
+    return `Video ${videoId} is already ${video.approval_status.replace('_', ' ')}${video.reviewed_by ? ` (by ${video.reviewed_by})` : ''}.`;
+  }
+  return video;
+}
+
+function decisionText(video: VideoRecord, decision: string): string {
+  const formatTag = video.format === 'ring_cam' ? '[RING CAM]' : '[BODY CAM]';
+  return (
+    `🎬 <b>${escapeHtml(video.title)}</b> ${formatTag}\n` +
+    `<code>${video.id}</code> · <a href="${escapeHtml(video.master_16x9_url).replace(/"/g, '&quot;')}">Watch clip</a>\n\n` +
+    escapeHtml(decision)
+  );
+}
+
+/** Edit the review message (when there is one) to show the decision. */
+async function showDecision(video: VideoRecord, decision: string, messageId: number | null): Promise<void> {
+  const id = messageId ?? video.review_message_id;
+  if (id !== null) await editMessage(id, decisionText(video, decision));
+}
+
+/** Approve a video and schedule it on every platform. */
+export async function approveVideo(videoId: string, by: string, messageId: number | null = null): Promise<ReviewOutcome> {
+  const video = await pendingVideo(videoId);
+  if (typeof video === 'string') return { ok: false, message: video };
+
+  // Schedule before recording the approval: if scheduling throws, the video is
+  // still pending and pressing Approve again retries (already-scheduled
+  // platforms are skipped).
+  await schedulePublish({ ...video, approval_status: 'approved' });
+  await updateVideoApproval(video.id, 'approved', undefined, by);
+
+  const summary = `✅ Approved by ${by} — publishing scheduled.`;
+  await showDecision(video, summary, messageId);
+  logger.info('Review: video approved', { videoId, by });
+  return { ok: true, video, summary };
+}
+
+/** Reject a video with one of the fixed reasons, plus an optional note. */
+export async function rejectVideo(
+  videoId: string,
+  reason: RejectReason,
+  by: string,
+  note = '',
+  messageId: number | null = null,
+): Promise<ReviewOutcome> {
+  const video = await pendingVideo(videoId);
+  if (typeof video === 'string') return { ok: false, message: video };
+
+  const label = note ? `${REJECT_REASONS[reason]}: ${note}` : REJECT_REASONS[reason];
+  await updateVideoApproval(video.id, 'rejected', label, by);
+
+  const summary = `❌ Rejected by ${by} — ${label}.`;
+  await showDecision(video, summary, messageId);
+  logger.info('Review: video rejected', { videoId, reason, by });
+  return { ok: true, video, summary };
+}
+
+/**
+ * Reject a video and put its idea back in the pending queue so a later tick
+ * produces it again. Compilations are assembled from the scene pool and
+ * cannot be regenerated this way.
+ */
+export async function regenerateVideo(videoId: string, by: string, messageId: number | null = null): Promise<ReviewOutcome> {
+  const video = await pendingVideo(videoId);
+  if (typeof video === 'string') return { ok: false, message: video };
+  if (video.compilation_id) return { ok: false, message: 'Compilations can\'t be regenerated — reject instead.' };
+
+  await updateVideoApproval(video.id, 'rejected', 'Regenerate requested', by);
+  await requeueIdea(video.idea_id, video.idea_source);
+
+  const summary = `🔁 Regenerate requested by ${by} — idea re-queued for production.`;
+  await showDecision(video, summary, messageId);
+  logger.info('Review: regenerate requested', { videoId, ideaId: video.idea_id, by });
+  return { ok: true, video, summary };
+}
+
+// ── Button handler ────────────────────────────────────────────────────────────
+
+/** Handles review:* button presses; registered by monitoring/telegram.ts. */
+export async function handleReviewCallback(query: TelegramCallbackQuery, payload: string): Promise<string> {
+  const [code, videoId, reason] = payload.split(':');
+  const action = (Object.keys(ACTION_CODES) as ReviewAction[]).find((a) => ACTION_CODES[a] === code);
+  const messageId = query.message?.message_id ?? null;
+  if (!action || !videoId) return 'Unknown option.';
+
+  const by = operatorName(query.from);
+  let outcome: ReviewOutcome;
+  switch (action) {
+    case 'reject':
+    case 'back': {
+      const video = await pendingVideo(videoId);
+      if (typeof video === 'string') return video;
+      if (messageId !== null) {
+        await editKeyboard(messageId, action === 'reject' ? reasonKeyboard(videoId) : reviewKeyboard(videoId));
+      }
+      return action === 'reject' ? 'Pick a reason.' : '';
+    }
+    case 'approve':
+      outcome = await approveVideo(videoId, by, messageId);
+      break;
+    case 'reason':
+      if (!reason || !isRejectReason(reason)) return 'Unknown reason.';
+      outcome = await rejectVideo(videoId, reason, by, '', messageId);
+      break;
+    case 'regenerate':
+      outcome = await regenerateVideo(videoId, by, messageId);
+      break;
+  }
+  return outcome.ok ? outcome.summary.replace(/ by .*? —/, ' —') : outcome.message;
+}
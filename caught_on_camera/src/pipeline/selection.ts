@@ -0,0 +1,158 @@
+/**
+ * Idea selection for a schedule slot.
+ *
+ * Picks the top pending idea for the slot's category (and alias sub-type, if
+ * any). When that queue is empty, walks a fallback chain controlled by
+ * CATEGORY_FALLBACK: related categories first, then any category.
+ *
+ * Ideas whose category or sub-type is switched off (feature flags) are
+ * skipped. Ideas held by the sensitivity calendar are skipped when blocked,
+ * and only used when nothing else on the chain fits when deprioritized.
+ */
+import { logger } from '../utils/logger.js';
+import {
+  env,
+  RELATED_CATEGORIES,
+  type CamFormat,
+  type BodyCamSubType,
+} from '../config.js';
+import {
+  getTopRingCamIdeas,
+  getTopBodyCamIdeas,
+  type RingCamIdea,
+  type BodyCamIdea,
+  type IdeaFilter,
+} from '../db/ideas.js';
+import { checkSensitivity, ideaSubject } from '../monitoring/sensitivity-calendar.js';
+import { getFeatureFlags, isAllowed } from '../monitoring/feature-flags.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export type FallbackMode = typeof env.CATEGORY_FALLBACK;
+
+/** Which rung of the fallback chain produced the idea. */
+export type SelectionMatch = 'exact' | 'category' | 'related' | 'any';
+
+export interface SelectionStep {
+  match: SelectionMatch;
+  filter: IdeaFilter;
+}
+
+export interface SelectedIdea {
+  idea: RingCamIdea | BodyCamIdea;
+  match: SelectionMatch;
+  category: string;
+}
+
+// ── Fallback chain ────────────────────────────────────────────────────────────
+
+/**
+ * Build the ordered list of filters to try for a slot.
+ *
+ * @param category  Canonical scheduled category, or null for "any".
+ * @param subType   Preferred body-cam sub-type from a schedule alias.
+ * @param mode      Fallback policy once the scheduled category is exhausted.
+ */
+export function buildSelectionChain(
+  category: string | null,
+  subType: BodyCamSubType | null,
+  mode: FallbackMode,
+): SelectionStep[] {
+  if (!category) {
+    if (!subType) return [{ match: 'any', filter: {} }];
+    const steps: SelectionStep[] = [{ match: 'exact', filter: { subType } }];
+    if (mode === 'any' || mode === 'related_then_any') steps.push({ match: 'any', filter: {} });
+    return steps;
+  }
+
+  const steps: SelectionStep[] = [];
+  if (subType) steps.push({ match: 'exact', filter: { category, subType } });
+  steps.push({ match: 'category', filter: { category } });
+
+  if (mode === 'related' || mode === 'related_then_any') {
+    for (const related of RELATED_CATEGORIES[category] ?? []) {
+      steps.push({ match: 'related', filter: { category: related } });
+    }
+  }
+  if (mode === 'any' || mode === 'related_then_any') {
+    steps.push({ match: 'any', filter: {} });
+  }
+  return steps;
+}
+
+// ── Selection ─────────────────────────────────────────────────────────────────
+
+/** Pending ideas examined per rung, so calendar-held ideas don't hide the rest. */
+const CANDIDATES_PER_STEP = 20;
+
+/**
+ * Select the best pending idea for a format/category slot.
+ *
+ * @param format    'ring_cam' | 'body_cam'
+ * @param category  Canonical category, or null for "any".
+ * @param subType   Preferred body-cam sub-type, or null.
+ * @param at        When the idea will be produced; the sensitivity calendar is checked at this time.
+ * @returns         The idea and how it matched, or null when every rung is empty or held.
+ */
+export async function selectIdeaForSlot(
+  format: CamFormat,
+  category: string | null,
+  subType: BodyCamSubType | null = null,
+  at: Date = new Date(),
+): Promise<SelectedIdea | null> {
+  const chain = buildSelectionChain(category, subType, env.CATEGORY_FALLBACK);
+  const flags = await getFeatureFlags();
+  const held = new Set<string>();
+  let deprioritized: SelectedIdea | null = null;
+
+  for (const step of chain) {
+    const candidates: Array<RingCamIdea | BodyCamIdea> =
+      format === 'ring_cam'
+        ? await getTopRingCamIdeas(step.filter, CANDIDATES_PER_STEP)
+        : await getTopBodyCamIdeas(step.filter, CANDIDATES_PER_STEP);
+
+    for (const idea of candidates) {
+      if (held.has(idea.id)) continue;
+      const subType = format === 'body_cam' ? (idea as BodyCamIdea).cam_sub_type : null;
+      if (!isAllowed(flags, { format, category: idea.category, subType }, at)) {
+        held.add(idea.id);
+        logger.info('Selection: idea switched off by a kill switch', { ideaId: idea.id, category: idea.category, subType });
+        continue;
+      }
+      const check = checkSensitivity(ideaSubject(idea), at);
+      if (check.blocked || check.deprioritized) {
+        held.add(idea.id);
+        logger.info('Selection: idea held by the sensitivity calendar', {
+          ideaId: idea.id,
+          title: idea.title,
+          effect: check.blocked ? 'block' : 'deprioritize',
+          windows: check.windows.map((w) => w.id),
+        });
+        if (!check.blocked) deprioritized ??= { idea, match: step.match, category: idea.category };
+        continue;
+      }
+
+      if (step.match === 'related' || (step.match === 'any' && (category || subType))) {
+        logger.info('Selection: scheduled category empty — using fallback', {
+          format,
+          scheduled: category,
+          used: idea.category,
+          match: step.match,
+        });
+      }
+      return { idea, match: step.match, category: idea.category };
+    }
+  }
+
+  if (deprioritized) {
+    logger.info('Selection: only deprioritized ideas left — using one', {
+      format,
+      ideaId: deprioritized.idea.id,
+      match: deprioritized.match,
+    });
+    return deprioritized;
+  }
+
+  logger.warn('Selection: no pending ideas for slot', { format, category, subType, mode: env.CATEGORY_FALLBACK, held: held.size });
+  return null;
+}
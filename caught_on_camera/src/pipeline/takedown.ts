@@ -0,0 +1,124 @@
+/**
+ * Emergency takedown — removes a video from every platform it was published
+ * to and stops anything still scheduled.
+ *
+ * Shared by scripts/emergency-takedown.ts and the admin-only /takedown
+ * Telegram command. Per video: each published post is deleted through
+ * Blotato, pending scheduled posts are cancelled, the video is marked
+ * taken_down, and the outcome is written to takedown_log.
+ */
+import { logger } from '../utils/logger.js';
+import { dbInsert, dbSelect, dbSelectFiltered, dbUpdate } from '../db/client.js';
+import { getVideoById, updateVideoApproval, type Platform, type VideoRecord } from '../db/videos.js';
+import { deletePost } from '../platforms/blotato.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface PublishedPost {
+  id: string;
+  platform: Platform;
+  postId: string;
+}
+
+export interface TakedownResult {
+  videoId: string;
+  removed: Platform[];
+  failed: Array<{ platform: Platform; error: string }>;
+  /** Scheduled posts that had not gone out yet. */
+  cancelled: number;
+}
+
+/** A takedown that cannot start: unknown video, or one already taken down. */
+export class TakedownError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TakedownError';
+  }
+}
+
+/** Placeholder post ID publishWithFallback() returns when a post went to the manual queue. */
+const MANUAL_QUEUE_PREFIX = 'MANUAL_QUEUE:';
+
+// ── Lookups ───────────────────────────────────────────────────────────────────
+
+/** Posts of a video that are live on a platform (manual-queue placeholders excluded). */
+export async function getPublishedPosts(videoId: string): Promise<PublishedPost[]> {
+  const rows = await dbSelect('platform_publishes', { video_id: videoId, status: 'published' });
+  return rows
+    .filter((r) => typeof r['post_id'] === 'string' && !String(r['post_id']).startsWith(MANUAL_QUEUE_PREFIX))
+    .map((r) => ({ id: String(r['id']), platform: r['platform'] as Platform, postId: String(r['post_id']) }));
+}
+
+/** Videos a takedown of "all" covers: everything approved or published. */
+export async function getTakedownCandidates(): Promise<VideoRecord[]> {
+  const rows = await dbSelectFiltered('videos', (q) => q.in('approval_status', ['approved', 'published']));
+  return rows as unknown as VideoRecord[];
+}
+
+// ── Takedown ──────────────────────────────────────────────────────────────────
+
+/**
+ * Take a video down everywhere. Platform failures are reported in the result
+ * rather than thrown so the remaining platforms are still attempted.
+ *
+ * @param videoId  Video to remove.
+ * @param opts.reason  Why — stored in takedown_log and as the video's reject reason.
+ * @param opts.by      Who asked (operator name or 'cli').
+ */
+export async function takedownVideo(
+  videoId: string,
+  opts: { reason: string; by: string },
+): Promise<TakedownResult> {
+  const video = await getVideoById(videoId);
+  if (!video) throw new TakedownError(`No video ${videoId}.`);
+  if (video.approval_status === 'taken_down') throw new TakedownError(`Video ${videoId} is already taken down.`);
+  logger.warn('Takedown: removing video from all platforms', { videoId, reason: opts.reason, by: opts.by });
+
+  const result: TakedownResult = { videoId, removed: [], failed: [], cancelled: 0 };
+  const now = new Date().toISOString();
+
+  for (const post of await getPublishedPosts(videoId)) {
+    try {
+      await deletePost(post.postId);
+      await dbUpdate('platform_publishes', post.id, { status: 'taken_down', taken_down_at: now });
+      result.removed.push(post.platform);
+    } catch (err) {
+      logger.error('Takedown: platform removal failed', { videoId, platform: post.platform, error: String(err) });
+      result.failed.push({ platform: post.platform, error: String(err) });
+    }
+  }
+
+  const scheduled = await dbSelect('scheduled_posts', { video_id: videoId, status: 'pending' });
+  for (const row of scheduled) {
+    await dbUpdate('scheduled_posts', String(row['id']), { status: 'cancelled' });
+  }
+  result.cancelled = scheduled.length;
+
+  await updateVideoApproval(videoId, 'taken_down', opts.reason, opts.by);
+  await dbInsert('takedown_log', {
+    video_id:          videoId,
+    platforms_removed: result.removed,
+    platforms_failed:  result.failed.map((f) => f.platform),
+    reason:            opts.reason,
+    requested_by:      opts.by,
+    completed_at:      new Date().toISOString(),
+  });
+
+  logger.warn('Takedown: complete', {
+    videoId,
+    removed:   result.removed,
+    failed:    result.failed.map((f) => f.platform),
+    cancelled: result.cancelled,
+  });
+  return result;
+}
+
+/** One-line summary of a takedown for Telegram and the CLI. */
+export function formatTakedown(result: TakedownResult): string {
+  const removed = result.removed.length ? result.removed.join(', ') : 'no live posts';
+  const cancelled = result.cancelled ? ` · ${result.cancelled} scheduled post(s) cancelled` : '';
+  const failed = result.failed.length
+    ? ` · FAILED on ${result.failed.map((f) => f.platform).join(', ')} — remove manually`
+    : '';
+  return `🛑 Video ${result.videoId} taken down — removed from ${removed}${cancelled}${failed}.`;
+}
@@ -7,11 +7,14 @@
  *
  * Retry logic: 3 attempts with exponential backoff.
  * On permanent failure: adds the video to the manual_publish_queue table.
+ *
+ * PROVIDER_MODE=sandbox records posts locally instead of calling Blotato.
  */
-import { env } from '../config.js';
+import { env, SANDBOX } from '../config.js';
 import { logger } from '../utils/logger.js';
 import { withRetry } from '../utils/retry.js';
 import { dbInsert } from '../db/client.js';
+import { sandboxBlotatoRequest } from '../providers/sandbox/blotato.js';
 
 // ── Constants ─────────────────────────────────────────────────────────────────
 
@@ -47,6 +50,8 @@ async function blatoRequest<T>(
   endpoint: string,
   body?: Record<string, unknown>,
 ): Promise<T> {
+  if (SANDBOX) return sandboxBlotatoRequest(method, endpoint, body) as T;
+
   const url = `${BLOTATO_BASE}${endpoint}`;
   const res = await fetch(url, {
     method,
@@ -171,6 +176,29 @@ export async function addPinnedComment(
   logger.info('Blotato: pinned comment added', { postId, platform });
 }
 
+/**
+ * Delete a published post from its platform. A post Blotato no longer knows
+ * (HTTP 404) is treated as already removed.
+ *
+ * @param postId  The post ID returned by post().
+ */
+export async function deletePost(postId: string): Promise<void> {
+  logger.info('Blotato: deleting post', { postId });
+
+  const gone = (err: unknown): boolean => String(err).includes('HTTP 404');
+  try {
+    await withRetry(
+      () => blatoRequest('DELETE', `/posts/${postId}`),
+      { maxAttempts: 3, baseDelayMs: 2_000, backoffFactor: 2, isRetryable: (err) => !gone(err) },
+    );
+  } catch (err) {
+    if (!gone(err)) throw err;
+    logger.warn('Blotato: post already gone', { postId });
+  }
+
+  logger.info('Blotato: post deleted', { postId });
+}
+
 /**
  * Attempt to publish a video with 3 retries.
  * On permanent failure, adds the video to the manual_publish_queue table
@@ -0,0 +1,34 @@
+/**
+ * Sandbox stand-in for the Blotato API — records every post instead of
+ * publishing it.
+ *
+ * POST /posts appends to SANDBOX_DIR/blotato-posts.jsonl and returns fake IDs;
+ * status checks report 'published'; every other call is recorded and succeeds.
+ */
+import { randomUUID } from 'node:crypto';
+import { logger } from '../../utils/logger.js';
+import { appendJsonl } from './index.js';
+
+/** Answer a Blotato request the way the live API would on success. */
+export function sandboxBlotatoRequest(
+  method: 'GET' | 'POST' | 'DELETE',
+  endpoint: string,
+  body?: Record<string, unknown>,
+): unknown {
+  if (method === 'POST' && endpoint === '/posts') {
+    const postId = `sandbox_post_${randomUUID().slice(0, 8)}`;
+    const submissionId = `sandbox_sub_${randomUUID().slice(0, 8)}`;
+    appendJsonl('blotato-posts.jsonl', {
+      at:            new Date().toISOString(),
+      post_id:       postId,
+      submission_id: submissionId,
+      ...body,
+    });
+    logger.info('Sandbox: Blotato post recorded', { postId, platform: body?.['platform'] });
+    return { post_id: postId, submission_id: submissionId };
+  }
+
+  appendJsonl('blotato-posts.jsonl', { at: new Date().toISOString(), method, endpoint, ...body });
+  if (method === 'GET' && endpoint.endsWith('/status')) return { status: 'published' };
+  return {};
+}
@@ -0,0 +1,156 @@
+/**
+ * Sandbox stand-in for Claude — rule-based responses keyed on the prompt.
+ *
+ * Each rule recognises one caller by the JSON shape its prompt asks for and
+ * returns a well-formed, benign answer: ideators get fresh concepts, dedup
+ * finds no duplicates, and vision gates see a clean, overlaid, watermarked
+ * clip with no faces. Unrecognised prompts get a short plain-text reply.
+ */
+import { randomUUID } from 'node:crypto';
+import {
+  RING_CAM_CATEGORIES,
+  BODY_CAM_CATEGORIES,
+  BODY_CAM_SUB_TYPES,
+} from '../../config.js';
+
+// ── Types ─────────────────────────────────────────────────────────────────────
+
+export interface SandboxPrompt {
+  prompt: string;
+  systemPrompt?: string;
+  frameCount: number;
+}
+
+interface Rule {
+  name: string;
+  matches: (p: SandboxPrompt) => boolean;
+  respond: (p: SandboxPrompt) => unknown;
+}
+
+// ── Ideas ─────────────────────────────────────────────────────────────────────
+
+function requestedCount(prompt: string): number {
+  return Number(prompt.match(/Generate exactly (\d+)/)?.[1] ?? 5);
+}
+
+function ringIdeas(count: number): unknown[] {
+  return Array.from({ length: count }, (_, i) => {
+    const category = RING_CAM_CATEGORIES[i % RING_CAM_CATEGORIES.length]!;
+    const tag = randomUUID().slice(0, 6);
+    return {
+      title:             `Sandbox ${category} visitor ${tag}`,
+      hook:              `Something unexpected walks up to the porch (${category}).`,
+      scenario:          `A ${category} moment unfolds in front of a suburban porch. The visitor pauses, looks at the camera, and leaves.`,
+      category,
+      camera_position:   'above front door looking down at porch',
+      time_of_day:       i % 2 === 0 ? 'night' : 'dusk',
+      audio_notes:       null,
+      virality_score:    90 - i,
+      virality_elements: ['surprise', 'relatable'],
+      format_type:       'single',
+      compilation_theme: `sandbox_${category}`,
+      caption:           `You won't believe who showed up 👀 #${category}`,
+      hashtags:          ['ringcam', category, 'caughtoncamera'],
+    };
+  });
+}
+
+function bodyIdeas(count: number): unknown[] {
+  return Array.from({ length: count }, (_, i) => {
+    const category = BODY_CAM_CATEGORIES[i % BODY_CAM_CATEGORIES.length]!;
+    const subType = BODY_CAM_SUB_TYPES[i % BODY_CAM_SUB_TYPES.length]!;
+    const tag = randomUUID().slice(0, 6);
+    return {
+      title:             `Sandbox ${category} encounter ${tag}`,
+      hook:              `The camera catches something odd on the ${subType.replace('_', ' ')}.`,
+      scenario:          `While moving along a quiet route, the wearer notices a ${category} moment ahead and slows down to watch.`,
+      category,
+      cam_sub_type:      subType,
+      movement_notes:    null,
+      time_of_day:       'night',
+      audio_notes:       null,
+      virality_score:    88 - i,
+      virality_elements: ['pov', 'suspense'],
+      format_type:       'single',
+      compilation_theme: `sandbox_${category}`,
+      caption:           `Wait for it… 😳 #${category}`,
+      hashtags:          ['bodycam', category, 'caughtoncamera'],
+    };
+  });
+}
+
+// ── Rules ─────────────────────────────────────────────────────────────────────
+
+const RULES: Rule[] = [
+  {
+    name: 'ring_ideator',
+    matches: (p) => /ring camera video concepts/.test(p.prompt),
+    respond: (p) => ringIdeas(requestedCount(p.prompt)),
+  },
+  {
+    name: 'body_ideator',
+    matches: (p) => /body camera video concepts/.test(p.prompt),
+    respond: (p) => bodyIdeas(requestedCount(p.prompt)),
+  },
+  {
+    name: 'dedup',
+    matches: (p) => p.prompt.includes('"similarity"'),
+    respond: () => ({ similarity: 'none', similar_to: null, reason: 'Sandbox: no similar ideas.' }),
+  },
+  {
+    name: 'faces',
+    matches: (p) => p.prompt.includes('"facesFound"'),
+    respond: (p) =>
+      Array.from({ length: Math.max(1, p.frameCount) }, (_, frame) =>
+        JSON.stringify({ frame, facesFound: 0, faceRegions: [] }),
+      ).join('\n'),
+  },
+  {
+    name: 'policy',
+    matches: (p) => p.prompt.includes('"severity"'),
+    respond: () => ({ severity: 'none', flags: [], summary: 'Sandbox: test pattern, nothing concerning.' }),
+  },
+  {
+    name: 'crop',
+    matches: (p) => p.prompt.includes('"framesAnalyzed"'),
+    respond: (p) => ({
+      framesAnalyzed:            p.frameCount,
+      framesWithOffCenterAction: 0,
+      offCenterPercent:          0,
+      summary:                   'Sandbox: action is centred.',
+    }),
+  },
+  {
+    name: 'overlay',
+    matches: (p) => p.prompt.includes('"overlayDetected"'),
+    respond: () => ({
+      overlayDetected:   true,
+      timestampReadable: true,
+      formatCorrect:     true,
+      details:           'Sandbox: HUD with timestamp and REC indicator.',
+    }),
+  },
+  {
+    name: 'watermark',
+    matches: (p) => p.prompt.includes('"watermarkDetected"'),
+    respond: () => ({
+      watermarkDetected: true,
+      watermarkText:     'AI GENERATED',
+      confidence:        'high',
+      location:          'bottom-right corner',
+    }),
+  },
+];
+
+// ── Public API ────────────────────────────────────────────────────────────────
+
+/**
+ * Produce the sandbox reply text for a prompt, plus the rule that matched
+ * ('fallback' when none did).
+ */
+export function sandboxReply(p: SandboxPrompt): { text: string; rule: string } {
+  const rule = RULES.find((r) => r.matches(p));
+  if (!rule) return { text: 'Sandbox response: OK.', rule: 'fallback' };
+  const body = rule.respond(p);
+  return { text: typeof body === 'string' ? body : JSON.stringify(body, null, 2), rule: rule.name };
+}
@@ -0,0 +1,209 @@
+/**
+ * Sandbox stand-in for Supabase — one JSON file per table.
+ *
+ * Column defaults (status enums, counters, empty arrays, timestamps) are read
+ * from the CREATE TABLE and ALTER TABLE … ADD COLUMN statements in
+ * migrations/, so inserted rows look like what Postgres would return. Queries
+ * support the subset of the PostgREST builder the codebase uses: select, eq,
+ * neq, gt, gte, lt, lte, in, is, order and limit.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { randomUUID } from 'node:crypto';
+import { sandboxPath } from './index.js';
+import { packagePath } from '../../utils/paths.js';
+
+type Row = Record<string, unknown>;
+
+// ── Column defaults from migrations ───────────────────────────────────────────
+
+const MIGRATIONS_DIR = packagePath('migrations');
+
+const NOT_A_COLUMN = new Set(['CONSTRAINT', 'PRIMARY', 'UNIQUE', 'CHECK', 'FOREIGN']);
+
+let columnDefaults: Map<string, Record<string, () => unknown>> | null = null;
+
+function parseDefault(type: string, literal: string | undefined): () => unknown {
+  if (literal === undefined) return () => null;
+  const upper = literal.toUpperCase();
+  if (upper === 'NOW()') return () => new Date().toISOString();
+  if (upper === 'UUID_GENERATE_V4()') return () => randomUUID();
+  if (upper === 'TRUE' || upper === 'FALSE') return () => upper === 'TRUE';
+  if (/^-?\d+(\.\d+)?$/.test(literal)) return () => Number(literal);
+
+  const text = literal.slice(1, -1);
+  if (type.endsWith('[]')) return () => [];
+  if (type.toUpperCase() === 'JSONB') return () => JSON.parse(text) as unknown;
+  return () => text;
+}
+
+function loadColumnDefaults(): Map<string, Record<string, () => unknown>> {
+  const tables = new Map<string, Record<string, () => unknown>>();
+  if (!fs.existsSync(MIGRATIONS_DIR)) return tables;
+
+  for (const file of fs.readdirSync(MIGRATIONS_DIR).filter((f) => f.endsWith('.sql')).sort()) {
+    const sql = fs.readFileSync(path.join(MIGRATIONS_DIR, file), 'utf-8');
+    for (const match of sql.matchAll(/CREATE TABLE IF NOT EXISTS (\w+)\s*\(([\s\S]*?)\n\);/g)) {
+      const columns: Record<string, () => unknown> = {};
+      for (const line of match[2]!.split('\n')) {
+        const col = line.match(/^\s*(\w+)\s+([A-Za-z]+(?:\[\])?)/);
+        if (!col || NOT_A_COLUMN.has(col[1]!.toUpperCase())) continue;
+        const def = line.match(/\bDEFAULT\s+('[^']*'|\w+\(\)|TRUE|FALSE|-?\d+(?:\.\d+)?)/i);
+        columns[col[1]!] = parseDefault(col[2]!, def?.[1]);
+      }
+      tables.set(match[1]!, columns);
+    }
+    for (const match of sql.matchAll(/ALTER TABLE (\w+) ADD COLUMN IF NOT EXISTS (\w+)\s+([A-Za-z]+(?:\[\])?)([^;]*);/g)) {
+      const def = match[4]!.match(/\bDEFAULT\s+('[^']*'|\w+\(\)|TRUE|FALSE|-?\d+(?:\.\d+)?)/i);
+      const columns = tables.get(match[1]!) ?? {};
+      columns[match[2]!] = parseDefault(match[3]!, def?.[1]);
+      tables.set(match[1]!, columns);
+    }
+  }
+  return tables;
+}
+
+function defaultsFor(table: string): Row {
+  columnDefaults ??= loadColumnDefaults();
+  const row: Row = { id: randomUUID(), created_at: new Date().toISOString() };
+  for (const [column, make] of Object.entries(columnDefaults.get(table) ?? {})) row[column] = make();
+  return row;
+}
+
+// ── Table files ───────────────────────────────────────────────────────────────
+
+function readTable(table: string): Row[] {
+  const file = sandboxPath('db', `${table}.json`);
+  return fs.existsSync(file) ? (JSON.parse(fs.readFileSync(file, 'utf-8')) as Row[]) : [];
+}
+
+function writeTable(table: string, rows: Row[]): void {
+  fs.writeFileSync(sandboxPath('db', `${table}.json`), JSON.stringify(rows, null, 2), 'utf-8');
+}
+
+// ── CRUD ──────────────────────────────────────────────────────────────────────
+
+/** Insert a row, filling column defaults; returns the stored row. */
+export function sandboxInsert(table: string, data: Row): Row {
+  const rows = readTable(table);
+  const row: Row = { ...defaultsFor(table), ...data };
+  if (row['id'] && rows.some((r) => r['id'] === row['id'])) {
+    throw new Error(`duplicate key value violates unique constraint "${table}_pkey"`);
+  }
+  rows.push(row);
+  writeTable(table, rows);
+  return row;
+}
+
+/** Update a row by id; throws like PostgREST .single() when the row does not exist. */
+export function sandboxUpdate(table: string, id: string, data: Row): Row {
+  const rows = readTable(table);
+  const index = rows.findIndex((r) => r['id'] === id);
+  if (index === -1) throw new Error(`JSON object requested, multiple (or no) rows returned (${table} ${id})`);
+  const row = { ...rows[index]!, ...data };
+  rows[index] = row;
+  writeTable(table, rows);
+  return row;
+}
+
+// ── Query builder ─────────────────────────────────────────────────────────────
+
+function compare(a: unknown, b: unknown): number {
+  if (typeof a === 'number' && typeof b === 'number') return a - b;
+  return String(a ?? '').localeCompare(String(b ?? ''));
+}
+
+/**
+ * Chainable, awaitable query over one table. Mirrors the PostgREST builder
+ * closely enough that dbSelectFiltered() callbacks run unchanged.
+ */
+export class SandboxQuery implements PromiseLike<{ data: Row[]; error: null }> {
+  private readonly filters: Array<(row: Row) => boolean> = [];
+  private readonly sorts: Array<{ column: string; ascending: boolean }> = [];
+  private max: number | null = null;
+
+  constructor(private readonly table: string) {}
+
+  select(_columns?: string): this {
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push((r) => r[column] === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown): this {
+    this.filters.push((r) => r[column] !== value);
+    return this;
+  }
+
+  gt(column: string, value: unknown): this {
+    this.filters.push((r) => r[column] != null && compare(r[column], value) > 0);
+    return this;
+  }
+
+  gte(column: string, value: unknown): this {
+    this.filters.push((r) => r[column] != null && compare(r[column], value) >= 0);
+    return this;
+  }
+
+  lt(column: string, value: unknown): this {
+    this.filters.push((r) => r[column] != null && compare(r[column], value) < 0);
+    return this;
+  }
+
+  lte(column: string, value: unknown): this {
+    this.filters.push((r) => r[column] != null && compare(r[column], value) <= 0);
+    return this;
+  }
+
+  in(column: string, values: readonly unknown[]): this {
+    this.filters.push((r) => values.includes(r[column]));
+    return this;
+  }
+
+  is(column: string, value: null | boolean): this {
+    this.filters.push((r) => (r[column] ?? null) === value);
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.sorts.push({ column, ascending: options.ascending ?? true });
+    return this;
+  }
+
+  limit(count: number): this {
+    this.max = count;
+    return this;
+  }
+
+  /** Run the query synchronously. */
+  rows(): Row[] {
+    let rows = readTable(this.table).filter((r) => this.filters.every((f) => f(r)));
+    if (this.sorts.length) {
+      rows = rows.sort((a, b) => {
+        for (const { column, ascending } of this.sorts) {
+          const diff = compare(a[column], b[column]);
+          if (diff !== 0) return ascending ? diff : -diff;
+        }
+        return 0;
+      });
+    }
+    return this.max === null ? rows : rows.slice(0, this.max);
+  }
+
+  then<T1 = { data: Row[]; error: null }, T2 = never>(
+    onfulfilled?: ((value: { data: Row[]; error: null }) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: unknown) => T2 | PromiseLike<T2>) | null,
+  ): PromiseLike<T1 | T2> {
+    return Promise.resolve()
+      .then(() => ({ data: this.rows(), error: null }))
+      .then(onfulfilled, onrejected);
+  }
+}
+
+/** Start a query on `table` (call sites add filters, then await). */
+export function sandboxQuery(table: string): SandboxQuery {
+  return new SandboxQuery(table);
+}
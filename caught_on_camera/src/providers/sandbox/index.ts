@@ -0,0 +1,88 @@
+/**
+ * Sandbox provider mode — shared filesystem layout and setup.
+ *
+ * With PROVIDER_MODE=sandbox every external service is replaced by a local
+ * stand-in writing under SANDBOX_DIR:
+ *
+ *   db/<table>.json          Supabase tables (see db.ts)
+ *   clips/                   "Veo" clips synthesized with ffmpeg (veo.ts)
+ *   cdn/                     "Cloudinary" uploads (local backend in media/storage.ts)
+ *   media/                   content-addressed clip cache (media/storage.ts)
+ *   blotato-posts.jsonl      posts submitted to "Blotato" (blotato.ts)
+ *   telegram-outbox.jsonl    every Telegram API call (telegram.ts)
+ *   telegram-inbox.jsonl     updates to feed the polling loop (telegram.ts)
+ *   assets/                  overlay templates + audio beds (generated on startup)
+ *
+ * Delete the directory to start from an empty state.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { env, BODY_CAM_SUB_TYPES } from '../../config.js';
+import { logger } from '../../utils/logger.js';
+import { renderTransparentPng, synthesizeNoise } from '../../media/ffmpeg.js';
+
+// ── Paths ─────────────────────────────────────────────────────────────────────
+
+/** Absolute path under SANDBOX_DIR; parent directories are created. */
+export function sandboxPath(...parts: string[]): string {
+  const full = path.join(env.SANDBOX_DIR, ...parts);
+  fs.mkdirSync(path.dirname(full), { recursive: true });
+  return full;
+}
+
+/** Append one JSON record per line. */
+export function appendJsonl(file: string, record: Record<string, unknown>): void {
+  fs.appendFileSync(sandboxPath(file), JSON.stringify(record) + '\n', 'utf-8');
+}
+
+/** Read all records from a JSONL file (missing file → empty). Malformed lines are skipped. */
+export function readJsonl<T = Record<string, unknown>>(file: string): T[] {
+  const full = sandboxPath(file);
+  if (!fs.existsSync(full)) return [];
+  return fs
+    .readFileSync(full, 'utf-8')
+    .split('\n')
+    .filter((line) => line.trim())
+    .flatMap((line) => {
+      try {
+        return [JSON.parse(line) as T];
+      } catch {
+        return [];
+      }
+    });
+}
+
+// ── Setup ─────────────────────────────────────────────────────────────────────
+
+const AUDIO_BEDS = [
+  'police_patrol_walking.mp3',
+  'hiker_trail_night.mp3',
+  'dashcam_highway.mp3',
+  'helmet_wind.mp3',
+];
+
+/**
+ * Generate any missing overlay templates and audio beds so the overlay and
+ * audio steps have real files to work with. Idempotent; requires ffmpeg.
+ */
+export async function prepareSandbox(): Promise<void> {
+  const templates = [
+    path.join(env.OVERLAYS_PATH, 'ring_cam', 'default.png'),
+    ...BODY_CAM_SUB_TYPES.map((s) => path.join(env.OVERLAYS_PATH, 'body_cam', `${s}.png`)),
+  ];
+  for (const template of templates) {
+    if (fs.existsSync(template)) continue;
+    fs.mkdirSync(path.dirname(template), { recursive: true });
+    await renderTransparentPng(template);
+  }
+
+  fs.mkdirSync(env.AUDIO_BEDS_PATH, { recursive: true });
+  for (const bed of AUDIO_BEDS) {
+    const bedPath = path.join(env.AUDIO_BEDS_PATH, bed);
+    if (!fs.existsSync(bedPath)) await synthesizeNoise(bedPath, 30);
+  }
+
+  logger.warn('Sandbox: PROVIDER_MODE=sandbox — all external services are local stand-ins', {
+    dir: env.SANDBOX_DIR,
+  });
+}
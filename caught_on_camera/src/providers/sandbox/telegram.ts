@@ -0,0 +1,36 @@
+/**
+ * Sandbox stand-in for the Telegram Bot API.
+ *
+ * Outbound: every API call is appended to SANDBOX_DIR/telegram-outbox.jsonl
+ * and answered with a plausible result (send* methods return a message_id).
+ * File uploads record the local path in place of the file.
+ *
+ * Inbound: lines appended to SANDBOX_DIR/telegram-inbox.jsonl are delivered
+ * to the polling loop as updates (the sender must be in TELEGRAM_OPERATORS), e.g.
+ *   {"message": {"text": "/status", "chat": {"id": 0}, "from": {"id": 1}}}
+ *   {"callback_query": {"id": "1", "from": {"id": 1}, "message": {"message_id": 3, "chat": {"id": 0}}, "data": "oc:r"}}
+ */
+import * as fs from 'fs';
+import { appendJsonl, readJsonl, sandboxPath } from './index.js';
+
+let nextMessageId = 0;
+
+/** Record an outbound API call and return what Telegram would put in `result`. */
+export function sandboxTelegramCall(method: string, body: Record<string, unknown>): unknown {
+  nextMessageId ||= readJsonl('telegram-outbox.jsonl').length;
+  const messageId = ++nextMessageId;
+  appendJsonl('telegram-outbox.jsonl', { at: new Date().toISOString(), method, message_id: messageId, ...body });
+  return method.startsWith('send') ? { message_id: messageId } : true;
+}
+
+/**
+ * Drain the inbox: returns pending updates (numbered from `afterUpdateId + 1`)
+ * and truncates the file so each update is delivered once.
+ */
+export function drainSandboxInbox<T extends Record<string, unknown>>(
+  afterUpdateId: number,
+): Array<T & { update_id: number }> {
+  const updates = readJsonl<T>('telegram-inbox.jsonl');
+  if (updates.length) fs.writeFileSync(sandboxPath('telegram-inbox.jsonl'), '', 'utf-8');
+  return updates.map((u, i) => ({ ...u, update_id: afterUpdateId + i + 1 }));
+}
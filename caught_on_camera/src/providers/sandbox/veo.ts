@@ -0,0 +1,33 @@
+/**
+ * Sandbox stand-in for fal.ai Veo — synthesizes a test-pattern clip with
+ * ffmpeg (testsrc/testsrc2 video + anoisesrc audio) and returns a file:// URL.
+ *
+ * Reported cost matches the live per-second estimate so budget and planner
+ * logic behave the same as in production.
+ */
+import { randomUUID } from 'node:crypto';
+import { pathToFileURL } from 'node:url';
+import { logger } from '../../utils/logger.js';
+import { synthesizeTestClip } from '../../media/ffmpeg.js';
+import type { CamFormat } from '../../config.js';
+import { sandboxPath } from './index.js';
+
+/**
+ * Render a clip for `format` and return its file:// URL.
+ * Ring cam gets the static testsrc pattern; body cam the busier testsrc2.
+ */
+export async function synthesizeClip(
+  prompt: string,
+  durationSeconds: number,
+  format: CamFormat,
+): Promise<string> {
+  const clipPath = sandboxPath('clips', `${format}_${randomUUID().slice(0, 8)}.mp4`);
+  await synthesizeTestClip(
+    clipPath,
+    durationSeconds,
+    format === 'ring_cam' ? 'testsrc' : 'testsrc2',
+    format === 'ring_cam' ? 'pink' : 'brown',
+  );
+  logger.info('Sandbox: clip synthesized', { format, durationSeconds, clipPath, prompt: prompt.slice(0, 80) });
+  return pathToFileURL(clipPath).href;
+}
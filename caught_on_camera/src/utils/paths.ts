@@ -0,0 +1,17 @@
+/**
+ * Paths inside the package (migrations/, config/, models/), resolved from
+ * this file's location so they do not depend on the working directory.
+ */
+import * as path from 'path';
+import { fileURLToPath } from 'node:url';
+
+// fileURLToPath, not URL.pathname — the latter keeps %20 and other escapes
+const HERE = path.dirname(fileURLToPath(import.meta.url));
+
+/** The package root (the directory holding package.json). */
+export const PACKAGE_ROOT = path.resolve(HERE, '..', '..');
+
+/** A path relative to the package root. */
+export function packagePath(...segments: string[]): string {
+  return path.join(PACKAGE_ROOT, ...segments);
+}
@@ -0,0 +1,25 @@
+/**
+ * Scratch paths under TEMP_DIR. Intermediate renders, extracted frames and
+ * analysis files all go through here, so the retention janitor has a single
+ * workspace to sweep instead of scattered /tmp files.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { env } from '../config.js';
+
+function uniqueName(label: string): string {
+  return `${label}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** A fresh file path under TEMP_DIR (the directory exists; the file does not). */
+export function tempPath(label: string, ext = 'mp4'): string {
+  fs.mkdirSync(env.TEMP_DIR, { recursive: true });
+  return path.join(env.TEMP_DIR, `${uniqueName(label)}.${ext}`);
+}
+
+/** A fresh, empty directory under TEMP_DIR. */
+export function tempDir(label: string): string {
+  const dir = path.join(env.TEMP_DIR, uniqueName(label));
+  fs.mkdirSync(dir, { recursive: true });
+  return dir;
+}
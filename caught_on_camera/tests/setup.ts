@@ -0,0 +1,54 @@
+/**
+ * Vitest setup — fills the required environment variables with dummy values
+ * so modules that import src/config.ts can load without a real .env.
+ * Tests must never reach a live service with these values, so they run in
+ * sandbox provider mode against a fresh SANDBOX_DIR and TEMP_DIR per test file.
+ *
+ * Settings that tests exercise are fixed here too, since config.ts parses the
+ * environment once: a small operator allowlist, police_security switched off
+ * until a flag is set, and per-file copies of the policy rules and sensitivity
+ * calendar that tests may rewrite.
+ */
+import { copyFileSync, mkdtempSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'node:url';
+
+const TEST_ENV: Record<string, string> = {
+  FAL_KEY:                      'test-fal-key',
+  ANTHROPIC_API_KEY:            'test-anthropic-key',
+  SUPABASE_URL:                 'http://localhost:54321',
+  SUPABASE_ANON_KEY:            'test-anon-key',
+  SUPABASE_SERVICE_KEY:         'test-service-key',
+  CLOUDINARY_CLOUD_NAME:        'test-cloud',
+  CLOUDINARY_API_KEY:           'test-cloudinary-key',
+  CLOUDINARY_API_SECRET:        'test-cloudinary-secret',
+  TELEGRAM_BOT_TOKEN:           'test-telegram-token',
+  TELEGRAM_CHAT_ID:             '0',
+  BLOTATO_API_KEY:              'test-blotato-key',
+  BLOTATO_YOUTUBE_ACCOUNT_ID:   'test-youtube',
+  BLOTATO_INSTAGRAM_ACCOUNT_ID: 'test-instagram',
+  BLOTATO_TIKTOK_ACCOUNT_ID:    'test-tiktok',
+  OVERLAYS_PATH:                '/tmp/caughtoncamera-test/overlays',
+  AUDIO_BEDS_PATH:              '/tmp/caughtoncamera-test/audio_beds',
+  LOG_LEVEL:                    'error',
+  PROVIDER_MODE:                'sandbox',
+  TELEGRAM_OPERATORS:           '100:admin,200:reviewer,300:viewer',
+  ENABLE_POLICE_SUBTYPE:        'false',
+};
+
+/** A per-file copy of a shipped config/ file. */
+function configCopy(name: string): string {
+  const copy = join(mkdtempSync(join(tmpdir(), 'caughtoncamera-config-')), name);
+  copyFileSync(fileURLToPath(new URL(`../config/${name}`, import.meta.url)), copy);
+  return copy;
+}
+
+process.env['SANDBOX_DIR'] ??= mkdtempSync(join(tmpdir(), 'caughtoncamera-sandbox-'));
+process.env['TEMP_DIR'] ??= mkdtempSync(join(tmpdir(), 'caughtoncamera-temp-'));
+process.env['POLICY_RULES_PATH'] ??= configCopy('policy.yaml');
+process.env['SENSITIVITY_CALENDAR_PATH'] ??= configCopy('sensitivity.yaml');
+
+for (const [key, value] of Object.entries(TEST_ENV)) {
+  process.env[key] ??= value;
+}
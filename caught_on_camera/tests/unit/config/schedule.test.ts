@@ -0,0 +1,132 @@
+/**
+ * Unit tests for FORMAT_SCHEDULE validation, category aliases and the idea
+ * selection fallback chain.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  resolveScheduleEntry,
+  validateFormatSchedule,
+  RELATED_CATEGORIES,
+  RING_CAM_CATEGORIES,
+  BODY_CAM_CATEGORIES,
+} from '../../../src/config.js';
+import { buildSelectionChain } from '../../../src/pipeline/selection.js';
+
+// ---------------------------------------------------------------------------
+// resolveScheduleEntry
+// ---------------------------------------------------------------------------
+
+describe('resolveScheduleEntry', () => {
+  it('passes canonical categories through unchanged', () => {
+    expect(resolveScheduleEntry({ format: 'ring_cam', category: 'animals' })).toEqual({
+      format: 'ring_cam',
+      category: 'animals',
+      subType: null,
+      compilation: false,
+    });
+  });
+
+  it('maps schedule aliases to a category and sub-type', () => {
+    expect(resolveScheduleEntry({ format: 'body_cam', category: 'night_patrol' })).toMatchObject({
+      category: 'night_ops',
+      subType: 'police_security',
+    });
+    expect(resolveScheduleEntry({ format: 'body_cam', category: 'trail' })).toMatchObject({
+      category: 'discovery',
+      subType: 'hiker_trail',
+    });
+  });
+
+  it('marks compilation slots', () => {
+    expect(resolveScheduleEntry({ format: 'ring_cam', category: 'compilation' })).toMatchObject({
+      category: null,
+      compilation: true,
+    });
+  });
+
+  it('treats an empty category as "any"', () => {
+    expect(resolveScheduleEntry({ format: 'operator_choice', category: '' }).category).toBeNull();
+  });
+
+  it('rejects categories from the other format', () => {
+    expect(() => resolveScheduleEntry({ format: 'ring_cam', category: 'pursuit' })).toThrow(/unknown ring_cam category/);
+  });
+
+  it('rejects unknown formats', () => {
+    expect(() =>
+      resolveScheduleEntry({ format: 'drone_cam' as never, category: 'animals' }),
+    ).toThrow(/unknown format/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// validateFormatSchedule
+// ---------------------------------------------------------------------------
+
+describe('validateFormatSchedule', () => {
+  it('accepts the default schedule', () => {
+    const resolved = validateFormatSchedule();
+    expect(Object.keys(resolved)).toHaveLength(7);
+  });
+
+  it('reports every invalid day in one error', () => {
+    expect(() =>
+      validateFormatSchedule({
+        '1': { format: 'ring_cam', category: 'bogus' },
+        '2': { format: 'body_cam', category: 'discovery' },
+        '9': { format: 'ring_cam', category: 'animals' },
+      }),
+    ).toThrow(/day 1: .*bogus.*; day "9"/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// RELATED_CATEGORIES
+// ---------------------------------------------------------------------------
+
+describe('RELATED_CATEGORIES', () => {
+  it('only relates categories within the same format', () => {
+    for (const cat of RING_CAM_CATEGORIES) {
+      for (const related of RELATED_CATEGORIES[cat] ?? []) {
+        expect(RING_CAM_CATEGORIES).toContain(related);
+      }
+    }
+    for (const cat of BODY_CAM_CATEGORIES) {
+      for (const related of RELATED_CATEGORIES[cat] ?? []) {
+        expect(BODY_CAM_CATEGORIES).toContain(related);
+      }
+    }
+  });
+});
+
+// ---------------------------------------------------------------------------
+// buildSelectionChain
+// ---------------------------------------------------------------------------
+
+describe('buildSelectionChain', () => {
+  it('tries sub-type, category, related, then any by default', () => {
+    const chain = buildSelectionChain('discovery', 'hiker_trail', 'related_then_any');
+    expect(chain.map((s) => s.match)).toEqual(['exact', 'category', 'related', 'related', 'any']);
+    expect(chain[0]!.filter).toEqual({ category: 'discovery', subType: 'hiker_trail' });
+    expect(chain[2]!.filter).toEqual({ category: 'encounter' });
+  });
+
+  it('stops at the scheduled category when fallback is disabled', () => {
+    expect(buildSelectionChain('animals', null, 'none').map((s) => s.match)).toEqual(['category']);
+  });
+
+  it('skips related categories in "any" mode', () => {
+    expect(buildSelectionChain('animals', null, 'any').map((s) => s.match)).toEqual(['category', 'any']);
+  });
+
+  it('prefers a sub-type with no category before falling back to any', () => {
+    expect(buildSelectionChain(null, 'dashcam', 'related_then_any')).toEqual([
+      { match: 'exact', filter: { subType: 'dashcam' } },
+      { match: 'any', filter: {} },
+    ]);
+  });
+
+  it('selects from any category when none is scheduled', () => {
+    expect(buildSelectionChain(null, null, 'none')).toEqual([{ match: 'any', filter: {} }]);
+  });
+});
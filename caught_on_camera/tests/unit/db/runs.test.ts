@@ -0,0 +1,87 @@
+/**
+ * Unit tests for production run checkpoints: recording a step with its
+ * artifact hash, telling an intact artifact from a missing or modified one,
+ * and which artifacts the janitor must keep for resumable runs. The DB is the
+ * sandbox store (tests/setup.ts).
+ */
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  createRun,
+  getRun,
+  getCheckpoints,
+  getResumableArtifactPaths,
+  isCheckpointIntact,
+  recordCheckpoint,
+  updateRunStatus,
+} from '../../../src/db/runs.js';
+
+function artifact(name: string, content = `render ${name}`): string {
+  const file = path.join(process.env['TEMP_DIR']!, name);
+  fs.writeFileSync(file, content);
+  return file;
+}
+
+// ---------------------------------------------------------------------------
+// Checkpoints
+// ---------------------------------------------------------------------------
+
+describe('recordCheckpoint', () => {
+  it('stores the artifact hash and advances the run\'s last step', async () => {
+    const run = await createRun('idea-runs-1', 'ring_cam');
+    const degraded = artifact('degraded.mp4');
+
+    await recordCheckpoint(run.id, 'degrade', { artifactPath: degraded });
+    await recordCheckpoint(run.id, 'sanitize', { result: { prompt: 'porch at night' } });
+    await recordCheckpoint(run.id, 'generate', { cost: 2.4, result: { videoUrl: 'https://cdn.example/clip.mp4' } });
+
+    expect((await getRun(run.id))?.last_step).toBe('generate');
+    const checkpoints = await getCheckpoints(run.id);
+    expect(checkpoints.map((cp) => cp.step)).toEqual(['sanitize', 'generate', 'degrade']);
+    expect(checkpoints[1]).toMatchObject({ cost: 2.4, artifact_path: null, artifact_hash: null });
+    expect(checkpoints[2]!.artifact_hash).toMatch(/^[0-9a-f]{64}$/);
+  });
+});
+
+describe('isCheckpointIntact', () => {
+  it('checks the artifact is still on disk and unchanged', async () => {
+    const run = await createRun('idea-runs-2', 'body_cam');
+    const overlaid = artifact('overlaid.mp4');
+    const checkpoint = await recordCheckpoint(run.id, 'overlay', { artifactPath: overlaid });
+    expect(isCheckpointIntact(checkpoint)).toBe(true);
+
+    fs.writeFileSync(overlaid, 'tampered');
+    expect(isCheckpointIntact(checkpoint)).toBe(false);
+
+    fs.rmSync(overlaid);
+    expect(isCheckpointIntact(checkpoint)).toBe(false);
+  });
+
+  it('treats steps without an artifact as intact', async () => {
+    const run = await createRun('idea-runs-3', 'ring_cam');
+    expect(isCheckpointIntact(await recordCheckpoint(run.id, 'sanitize'))).toBe(true);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Retention
+// ---------------------------------------------------------------------------
+
+describe('getResumableArtifactPaths', () => {
+  it('lists artifacts of running and failed runs only', async () => {
+    const failed = await createRun('idea-runs-4', 'ring_cam');
+    const completed = await createRun('idea-runs-5', 'ring_cam');
+    const kept = artifact('kept.mp4');
+    const released = artifact('released.mp4');
+
+    await recordCheckpoint(failed.id, 'download', { artifactPath: kept });
+    await recordCheckpoint(completed.id, 'download', { artifactPath: released });
+    await updateRunStatus(failed.id, 'failed', 'degrade: ffmpeg exited 1');
+    await updateRunStatus(completed.id, 'completed');
+
+    const paths = await getResumableArtifactPaths();
+    expect(paths.has(kept)).toBe(true);
+    expect(paths.has(released)).toBe(false);
+  });
+});
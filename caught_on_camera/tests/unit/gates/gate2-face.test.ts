@@ -0,0 +1,66 @@
+/**
+ * Unit tests for Gate 2 when the local face model is unavailable: Claude
+ * vision stands in, and the gate fails closed when neither detector can run.
+ * The model loader, Claude, frame encoding, the media analysis and Gate 1
+ * are mocked; no media is touched.
+ */
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../../src/media/faces.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/media/faces.js')>()),
+  FaceDetector: { load: vi.fn(async () => null) },
+}));
+vi.mock('../../../src/ai/claude.js', () => ({
+  analyzeFrames: vi.fn(async () => ({ text: '{"frame": 0, "facesFound": 0, "faceRegions": []}' })),
+}));
+vi.mock('../../../src/media/frames.js', () => ({
+  framesToBase64: vi.fn(async (paths: string[]) => paths.map(() => 'aGk=')),
+}));
+vi.mock('../../../src/media/analysis.js', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../src/media/analysis.js')>()),
+  MediaAnalysis: class {
+    constructor(readonly videoPath: string) {}
+    async frames() {
+      return { sample: ['f0.jpg', 'f1.jpg'], timed: [], keyframes: ['k0.jpg'], first: null, last: null };
+    }
+    async probe() {
+      return { frameCount: 10, width: 1920, height: 1080 };
+    }
+    dispose() {}
+  },
+}));
+vi.mock('../../../src/gates/gate1-motion.js', () => ({
+  runGate1: vi.fn(async () => ({ pass: true, avgMotion: 0.1, maxMotion: 0.2 })),
+}));
+
+import { analyzeFrames } from '../../../src/ai/claude.js';
+import { runGate2 } from '../../../src/gates/gate2-face.js';
+import { runAllGates } from '../../../src/gates/index.js';
+import { MediaAnalysis } from '../../../src/media/analysis.js';
+
+const media = new MediaAnalysis('clip.mp4');
+
+describe('runGate2 without the local model', () => {
+  it('falls back to Claude vision', async () => {
+    const result = await runGate2(media);
+
+    expect(vi.mocked(analyzeFrames)).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({ pass: true, blurred: false, detector: 'claude' });
+  });
+
+  it('throws when Claude vision fails too', async () => {
+    vi.mocked(analyzeFrames).mockRejectedValueOnce(new Error('Claude 529'));
+
+    await expect(runGate2(media)).rejects.toThrow('no face detector available');
+  });
+
+  it('hard-fails the gate run instead of passing an unchecked clip', async () => {
+    vi.mocked(analyzeFrames).mockRejectedValueOnce(new Error('Claude 529'));
+
+    const result = await runAllGates({
+      sceneId: 'scene-no-detector', videoPath: 'clip.mp4', format: 'ring_cam', concept: 'raccoon', frameBase64Images: [],
+    });
+    expect(result).toMatchObject({ pass: false, hardFail: true, hardFailGate: 2 });
+    expect(result.gate2).toMatchObject({ pass: false, blurred: false });
+  });
+});
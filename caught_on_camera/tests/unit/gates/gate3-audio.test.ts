@@ -0,0 +1,109 @@
+/**
+ * Unit tests for Gate 3 audio validation and its audio profile. The media
+ * analysis is a stub returning synthetic measurements; no ffmpeg.
+ */
+import { describe, it, expect } from 'vitest';
+import { runGate3 } from '../../../src/gates/gate3-audio.js';
+import { estimateSpeechRatio, profileAudio } from '../../../src/gates/audio-profile.js';
+import type { AudioStats, MediaAnalysis } from '../../../src/media/analysis.js';
+
+/** 20 windows per second of voice-band envelope. */
+const steady = (seconds: number, level = -40): number[] => Array.from({ length: seconds * 20 }, (_, i) => level + (i % 2 ? 0.5 : -0.5));
+const talking = (seconds: number): number[] =>
+  Array.from({ length: seconds * 20 }, (_, i) => -30 + 10 * Math.sin((2 * Math.PI * 4 * i) / 20));
+
+function stats(overrides: Partial<AudioStats> = {}): AudioStats {
+  return {
+    meanVolume:     -28,
+    maxVolume:      -8,
+    integratedLufs: -30,
+    truePeakDb:     -6,
+    clippedRatio:   0,
+    silences:       [],
+    voiceEnvelope:  steady(8),
+    duration:       8,
+    ...overrides,
+  };
+}
+
+function media(audio: AudioStats | null): MediaAnalysis {
+  return { videoPath: 'clip.mp4', audio: async () => audio } as unknown as MediaAnalysis;
+}
+
+// ---------------------------------------------------------------------------
+// Audio profile
+// ---------------------------------------------------------------------------
+
+describe('estimateSpeechRatio', () => {
+  it('separates syllable-rate modulation from steady ambience', () => {
+    expect(estimateSpeechRatio(steady(6))).toBe(0);
+    expect(estimateSpeechRatio(talking(6))).toBe(1);
+    expect(estimateSpeechRatio([...steady(6), ...talking(2)])).toBeCloseTo(0.25);
+  });
+
+  it('ignores modulation below the voice floor', () => {
+    expect(estimateSpeechRatio(talking(4).map((v) => v - 40))).toBe(0);
+  });
+});
+
+describe('profileAudio', () => {
+  it('summarises the silence distribution', () => {
+    const profile = profileAudio(stats({ silences: [{ start: 1, end: 2 }, { start: 4, end: 7 }] }));
+    expect(profile.silenceRatio).toBeCloseTo(0.5);
+    expect(profile.longestSilenceSec).toBe(3);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// runGate3
+// ---------------------------------------------------------------------------
+
+describe('runGate3', () => {
+  it('passes clean ambience on both formats', async () => {
+    expect((await runGate3(media(stats({ integratedLufs: -32 })), 'ring_cam'))).toMatchObject({ pass: true, speechRatio: 0 });
+    expect((await runGate3(media(stats()), 'body_cam', 'dashcam')).pass).toBe(true);
+  });
+
+  it('regenerates a clip with no audio or a silent one', async () => {
+    expect(await runGate3(media(null), 'ring_cam')).toMatchObject({ failedProperty: 'missing', action: 'regenerate' });
+    expect(await runGate3(media(stats({ meanVolume: -60 })), 'body_cam')).toMatchObject({
+      failedProperty: 'silent', action: 'regenerate',
+    });
+  });
+
+  it('replaces narrated ring cam audio but accepts talking on a body cam', async () => {
+    const narrated = stats({ voiceEnvelope: talking(8), integratedLufs: -32 });
+    expect(await runGate3(media(narrated), 'ring_cam')).toMatchObject({ failedProperty: 'speech', action: 'replace_audio' });
+    expect((await runGate3(media(narrated), 'body_cam')).pass).toBe(true);
+  });
+
+  it('names every failing property and acts on the first', async () => {
+    const result = await runGate3(media(stats({
+      clippedRatio: 0.01,
+      truePeakDb:   0.2,
+      silences:     [{ start: 2, end: 6 }],
+    })), 'body_cam', 'hiker_trail');
+
+    expect(result).toMatchObject({
+      pass:             false,
+      failedProperty:   'clipping',
+      failedProperties: ['clipping', 'true_peak', 'silence'],
+      action:           'replace_audio',
+    });
+  });
+
+  it('mixes a bed into quiet or gappy body cam audio', async () => {
+    expect(await runGate3(media(stats({ integratedLufs: -40 })), 'body_cam', 'hiker_trail')).toMatchObject({
+      failedProperty: 'loudness', action: 'mix_bed',
+    });
+    expect(await runGate3(media(stats({ silences: [{ start: 3, end: 7 }] })), 'body_cam')).toMatchObject({
+      failedProperty: 'silence', action: 'mix_bed', longestSilenceSec: 4,
+    });
+  });
+
+  it('replaces ring cam audio that is too loud', async () => {
+    expect(await runGate3(media(stats({ meanVolume: -5 })), 'ring_cam')).toMatchObject({
+      failedProperty: 'loudness', action: 'replace_audio',
+    });
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Unit tests for the Gate 4 policy rules: the prompt corpus regression run
+ * against config/policy.yaml, rules-file validation, and hot reload. The rules
+ * are read from the temp copy of config/policy.yaml made by tests/setup.ts
+ * (POLICY_RULES_PATH).
+ */
+import { describe, it, expect, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'node:url';
+import { parse as parseYaml } from 'yaml';
+import { sanitizePrompt } from '../../../src/gates/gate4-policy.js';
+import { loadPolicyRules, getPolicyRules, PolicyRulesError, type PolicyScope } from '../../../src/gates/policy-rules.js';
+
+const HERE = path.dirname(fileURLToPath(import.meta.url));
+const RULES_SOURCE = path.join(HERE, '..', '..', '..', 'config', 'policy.yaml');
+const RULES_COPY = process.env['POLICY_RULES_PATH']!;
+
+interface CorpusCase {
+  prompt: string;
+  scope?: PolicyScope;
+  expect: 'pass' | 'block';
+  sanitized?: string;
+  rewritten?: string[];
+  blocked?: string[];
+}
+
+const corpus = parseYaml(fs.readFileSync(path.join(HERE, 'policy-corpus.yaml'), 'utf-8')) as CorpusCase[];
+
+// ---------------------------------------------------------------------------
+// Corpus
+// ---------------------------------------------------------------------------
+
+describe('policy corpus', () => {
+  it.each(corpus.map((c) => [c.prompt, c] as const))('%s', (_prompt, c) => {
+    const result = sanitizePrompt(c.prompt, c.scope);
+    expect(result.pass).toBe(c.expect === 'pass');
+    if (c.blocked) expect([...result.blockedWords].sort()).toEqual([...c.blocked].sort());
+    if (c.sanitized) expect(result.sanitized).toBe(c.sanitized);
+    if (c.rewritten) expect(result.rewrites.map((r) => r.original)).toEqual(c.rewritten);
+  });
+
+  it('stamps every result with the rules file hash', () => {
+    const { version } = loadPolicyRules(RULES_SOURCE);
+    expect(version).toMatch(/^[0-9a-f]{12}$/);
+    expect(sanitizePrompt('A cat on the porch').policyVersion).toBe(version);
+    expect(sanitizePrompt('A knife on the porch').policyVersion).toBe(version);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Rules file
+// ---------------------------------------------------------------------------
+
+describe('loadPolicyRules', () => {
+  const write = (yaml: string): string => {
+    const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), 'policy-')), 'policy.yaml');
+    fs.writeFileSync(file, yaml);
+    return file;
+  };
+
+  it('reports every problem in an invalid file', () => {
+    const file = write([
+      'version: 1',
+      'revision: 2',
+      'block:',
+      '  - { severity: severe, terms: [gun] }',
+      '  - { severity: high, regex: "(unclosed" }',
+      'scoped:',
+      '  - when: {}',
+      '    rewrite: { x: y }',
+    ].join('\n'));
+
+    expect(() => loadPolicyRules(file)).toThrow(PolicyRulesError);
+    expect(() => loadPolicyRules(file)).toThrow(/block\.0\.severity: .*; block\.1\.regex: invalid regex/);
+    expect(() => loadPolicyRules(file)).toThrow(/scoped\.0\.when: needs at least one of format, subType, category/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Hot reload
+// ---------------------------------------------------------------------------
+
+describe('getPolicyRules', () => {
+  const original = fs.readFileSync(RULES_COPY, 'utf-8');
+  let tick = 1_000_000;
+  const rewriteRules = (content: string) => {
+    fs.writeFileSync(RULES_COPY, content);
+    // Distinct mtimes even when writes land in the same millisecond
+    tick += 10;
+    fs.utimesSync(RULES_COPY, tick, tick);
+  };
+
+  afterEach(() => rewriteRules(original));
+
+  it('picks up an edit without a restart and keeps the last rules on a bad one', () => {
+    const before = getPolicyRules();
+    expect(sanitizePrompt('A lantern on the porch').pass).toBe(true);
+
+    rewriteRules(original.replace('revision: 1', 'revision: 2').replace('terms: [weapon,', 'terms: [lantern, weapon,'));
+    const edited = getPolicyRules();
+    expect(edited.revision).toBe(2);
+    expect(edited.version).not.toBe(before.version);
+    expect(sanitizePrompt('A lantern on the porch')).toMatchObject({ pass: false, blockedWords: ['lantern'], policyVersion: edited.version });
+
+    rewriteRules('version: 1\nrevision: 3\nblock: not-a-list\n');
+    expect(getPolicyRules().version).toBe(edited.version);
+  });
+
+  it('flags matches below the block level without blocking', () => {
+    rewriteRules([
+      'version: 1',
+      'revision: 4',
+      'blockPromptAt: critical',
+      'block:',
+      '  - { severity: medium, terms: [siren] }',
+      '  - { severity: critical, terms: [gun] }',
+    ].join('\n'));
+
+    expect(sanitizePrompt('A siren wails down the street')).toMatchObject({
+      pass: true, flagged: ['siren'], severity: 'medium', blockedWords: [],
+    });
+    expect(sanitizePrompt('A siren and a gun')).toMatchObject({ pass: false, blockedWords: ['gun'], severity: 'critical' });
+  });
+});
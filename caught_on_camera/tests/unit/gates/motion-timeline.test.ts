@@ -0,0 +1,116 @@
+/**
+ * Unit tests for the Gate 1 motion timeline: .trf parsing and the motion
+ * profile (cadence, cuts / teleports, rotation / zoom). Synthetic transforms
+ * only; no ffmpeg.
+ */
+import { describe, it, expect } from 'vitest';
+import { parseMotionTimeline, profileMotion, shakeTuningFor } from '../../../src/gates/motion-timeline.js';
+
+const FPS = 30;
+const JUMPS = { jumpPx: 15, jumpMedianMultiple: 6 };
+const WALK = { minHz: 1.5, maxHz: 2.5 };
+
+/** Legacy .trf lines: `frame dx dy rotation(rad) zoom(%)`. */
+function trf(frames: number, motion: (n: number) => [number, number, number?, number?]): string {
+  return Array.from({ length: frames }, (_, n) => {
+    const [dx, dy, rot = 0, zoom = 0] = motion(n);
+    return `${n} ${dx} ${dy} ${rot} ${zoom}`;
+  }).join('\n');
+}
+
+/** Walking sway: vertical bob at `hz`, lateral sway at half of it. */
+const walk = (hz: number) => (n: number): [number, number] => [
+  1.0 * Math.sin((Math.PI * hz * n) / FPS),
+  2.0 * Math.sin((2 * Math.PI * hz * n) / FPS),
+];
+
+// ---------------------------------------------------------------------------
+// parseMotionTimeline
+// ---------------------------------------------------------------------------
+
+describe('parseMotionTimeline', () => {
+  it('reads legacy lines, skipping comments, and converts rotation to degrees', () => {
+    const samples = parseMotionTimeline('# header\n0 3 4 0 0\n1 0 0 0.0174533 2\n');
+    expect(samples).toHaveLength(2);
+    expect(samples[0]).toMatchObject({ frame: 0, dx: 3, dy: 4, magnitude: 5 });
+    expect(samples[1]!.rotation).toBeCloseTo(1, 3);
+    expect(samples[1]!.zoom).toBe(2);
+  });
+
+  it('reduces vid.stab local motion fields to translation, rotation and zoom', () => {
+    // Four fields around (100,100) all moving (+2,+1), plus a 1% radial (zoom) offset
+    const fields = [[0, 100], [200, 100], [100, 0], [100, 200]]
+      .map(([x, y]) => `(LM ${2 + (x! - 100) * 0.01} ${1 + (y! - 100) * 0.01} ${x} ${y} 32 0.5 0.1)`)
+      .join(',');
+    const samples = parseMotionTimeline(`VID.STAB 1\nFrame 1 (List 4 [${fields}])\nFrame 2 (List 0 [])\n`);
+
+    expect(samples).toHaveLength(2);
+    expect(samples[0]!.dx).toBeCloseTo(2);
+    expect(samples[0]!.dy).toBeCloseTo(1);
+    expect(samples[0]!.rotation).toBeCloseTo(0);
+    expect(samples[0]!.zoom).toBeCloseTo(1);
+    expect(samples[1]).toMatchObject({ frame: 2, dx: 0, dy: 0, magnitude: 0 });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// profileMotion
+// ---------------------------------------------------------------------------
+
+describe('profileMotion', () => {
+  it('finds a walking cadence in the vertical sway', () => {
+    const profile = profileMotion(parseMotionTimeline(trf(240, walk(2))), FPS, JUMPS, WALK);
+    expect(profile.dominantHz).toBeCloseTo(2, 1);
+    expect(profile.cadenceStrength).toBeGreaterThan(0.5);
+    expect(profile.cuts).toEqual([]);
+    expect(profile.teleports).toEqual([]);
+  });
+
+  it('reports little cadence for sway outside the walking band', () => {
+    const profile = profileMotion(parseMotionTimeline(trf(240, walk(6))), FPS, JUMPS, WALK);
+    expect(profile.dominantHz).toBeCloseTo(6, 1);
+    expect(profile.cadenceStrength).toBeLessThan(0.25);
+  });
+
+  it('tells a cut from a teleport that snaps back', () => {
+    const timeline = trf(240, (n) => {
+      if (n === 60) return [40, 0];             // cut: never returns
+      if (n === 150) return [0, 30];            // teleport…
+      if (n === 152) return [0, -30];           // …snapping back two frames later
+      return walk(2)(n);
+    });
+    const profile = profileMotion(parseMotionTimeline(timeline), FPS, JUMPS, WALK);
+
+    expect(profile.cuts).toEqual([{ frame: 60, seconds: 2, magnitude: 40 }]);
+    expect(profile.teleports).toEqual([{ frame: 150, seconds: 5, magnitude: 30 }]);
+  });
+
+  it('measures rotation and zoom', () => {
+    const timeline = trf(90, (n) => [0, 0, n === 45 ? -0.0174533 : 0, n === 10 ? 1.5 : 0.5]);
+    const profile = profileMotion(parseMotionTimeline(timeline), FPS, JUMPS, WALK);
+    expect(profile.rotation.maxDeg).toBeCloseTo(1, 3);
+    expect(profile.zoom).toEqual({ avgPct: expect.closeTo(0.511, 3), maxPct: 1.5 });
+  });
+
+  it('handles an empty timeline', () => {
+    expect(profileMotion([], 0, JUMPS, WALK)).toMatchObject({ fps: 30, frames: 0, dominantHz: 0, cadenceStrength: 0 });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// shakeTuningFor
+// ---------------------------------------------------------------------------
+
+describe('shakeTuningFor', () => {
+  it('keeps an in-band cadence and scales amplitude to the motion deficit', () => {
+    const profile = profileMotion(parseMotionTimeline(trf(240, walk(2))), FPS, JUMPS, WALK);
+    const tuning = shakeTuningFor(profile, 0.5, 1.5, WALK);
+    expect(tuning.cadenceHz).toBeCloseTo(2, 1);
+    expect(tuning.amplitude).toBeCloseTo(1.2);
+  });
+
+  it('falls back to the middle of the band for a clip with no cadence', () => {
+    const profile = profileMotion(parseMotionTimeline(trf(60, () => [0, 0])), FPS, JUMPS, WALK);
+    expect(shakeTuningFor(profile, 0, 1.5, WALK)).toEqual({ cadenceHz: 2, amplitude: expect.closeTo(1.8) });
+  });
+});
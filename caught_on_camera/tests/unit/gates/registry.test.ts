@@ -0,0 +1,208 @@
+/**
+ * Unit tests for the gate registry, its config file validation, and the
+ * config-driven runner. Gate modules and the media analysis are stubbed; no
+ * media is touched.
+ */
+import { describe, it, expect, vi } from 'vitest';
+import { mkdtempSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { fileURLToPath } from 'node:url';
+import { z } from 'zod';
+
+await vi.hoisted(async () => {
+  // Runner config for this file (read once, when env loads): a custom gate
+  // between crop and overlay, and crop disabled
+  const fs = await import('fs');
+  const os = await import('os');
+  const dir = fs.mkdtempSync(`${os.tmpdir()}/caughtoncamera-gates-`);
+  fs.writeFileSync(`${dir}/runner.yaml`, [
+    'version: 1',
+    'gates:',
+    '  - { id: motion }',
+    '  - { id: face }',
+    '  - { id: audio }',
+    '  - { id: policy }',
+    '  - { id: crop, enabled: false }',
+    '  - { id: virality, thresholds: { minScore: 0.7 } }',
+    '  - { id: overlay }',
+    '  - { id: disclosure }',
+  ].join('\n'));
+  process.env['GATES_CONFIG_PATH'] = `${dir}/runner.yaml`;
+});
+
+vi.mock('../../../src/media/analysis.js', () => ({
+  MediaAnalysis: class {
+    constructor(readonly videoPath: string) {}
+    async frames() {
+      return { sample: [], timed: [], keyframes: [], first: null, last: null };
+    }
+    dispose() {}
+  },
+}));
+vi.mock('../../../src/gates/gate1-motion.js', () => ({
+  runGate1: vi.fn(async () => ({ pass: true, avgMotion: 0.1, maxMotion: 0.2 })),
+}));
+vi.mock('../../../src/gates/gate2-face.js', () => ({
+  runGate2: vi.fn(async () => ({ pass: true, facesDetected: 1, framesWithFaces: 1, blurred: true, blurredVideoPath: 'blurred.mp4' })),
+}));
+vi.mock('../../../src/gates/gate3-audio.js', () => ({ runGate3: vi.fn(async () => ({ pass: true, meanVolume: -20 })) }));
+vi.mock('../../../src/gates/gate4-policy.js', () => ({
+  runGate4: vi.fn(async () => ({ pass: true, hardFail: false, severity: 'none', flags: [] })),
+}));
+vi.mock('../../../src/gates/gate5-crop.js', () => ({ runGate5: vi.fn() }));
+vi.mock('../../../src/gates/gate6-overlay.js', () => ({
+  runGate6: vi.fn(async () => ({ pass: true, overlayDetected: true, timestampReadable: true, formatCorrect: true })),
+}));
+vi.mock('../../../src/gates/gate7-disclosure.js', () => ({
+  runGate7: vi.fn(async () => ({ pass: true, hardFail: false, watermarkDetected: true })),
+}));
+
+import { loadGateConfig, registerGate, gateStages, GateConfigError } from '../../../src/gates/registry.js';
+import { runAllGates } from '../../../src/gates/index.js';
+import { runGate5 } from '../../../src/gates/gate5-crop.js';
+import { runGate7 } from '../../../src/gates/gate7-disclosure.js';
+
+const virality = vi.fn(async (ctx: { videoPath: string; thresholds: { minScore: number } }) => ({
+  pass: ctx.videoPath === 'blurred.mp4' && ctx.thresholds.minScore === 0.7,
+  reason: 'predicted reach too low',
+}));
+
+registerGate({
+  number:        8,
+  id:            'virality',
+  name:          'Virality',
+  inputs:        ['video'],
+  severity:      'soft',
+  defaultAction: 'regenerate',
+  thresholds:    z.object({ minScore: z.number().default(0.5) }).strict().default({}),
+  run:           virality,
+  onError:       () => ({ pass: false, reason: 'virality threw an error' }),
+});
+
+function writeConfig(name: string, yaml: string): string {
+  const dir = mkdtempSync(join(tmpdir(), 'caughtoncamera-gates-'));
+  const file = join(dir, name);
+  writeFileSync(file, yaml);
+  return file;
+}
+
+// ---------------------------------------------------------------------------
+// loadGateConfig
+// ---------------------------------------------------------------------------
+
+describe('loadGateConfig', () => {
+  it('loads the shipped config with all built-in gates in order', () => {
+    const gates = loadGateConfig(fileURLToPath(new URL('../../../config/gates.yaml', import.meta.url)));
+    expect(gates.map((g) => g.definition.number)).toEqual([1, 2, 3, 4, 5, 6, 7]);
+    expect(gates.map((g) => g.severity)).toEqual(['soft', 'hard', 'soft', 'hard', 'advisory', 'soft', 'hard']);
+    expect(gates[0]!.thresholds).toEqual({
+      ringCam: { maxAvg: 0.5, maxSpike: 2.0, jumpPx: 1.0, maxRotationDeg: 0.5, maxZoomPct: 1.0 },
+      bodyCam: { minAvg: 1.5, jumpPx: 15, cadenceMinHz: 1.5, cadenceMaxHz: 2.5, minCadenceStrength: 0.25 },
+      jumpMedianMultiple: 6,
+    });
+  });
+
+  it('fills omitted thresholds from the defaults and applies overrides', () => {
+    const file = writeConfig('partial.yaml', [
+      'version: 1',
+      'gates:',
+      '  - { id: policy }',
+      '  - { id: motion, action: add_shake, thresholds: { ringCam: { maxAvg: 0.8 } } }',
+      '  - { id: disclosure }',
+      '  - { id: face }',
+    ].join('\n'));
+    const [policy, motion] = loadGateConfig(file);
+    expect(policy!.definition.id).toBe('policy');
+    expect(motion!.action).toBe('add_shake');
+    expect(motion!.thresholds).toEqual({
+      ringCam: { maxAvg: 0.8, maxSpike: 2.0, jumpPx: 1.0, maxRotationDeg: 0.5, maxZoomPct: 1.0 },
+      bodyCam: { minAvg: 1.5, jumpPx: 15, cadenceMinHz: 1.5, cadenceMaxHz: 2.5, minCadenceStrength: 0.25 },
+      jumpMedianMultiple: 6,
+    });
+  });
+
+  it('rejects unknown gates, disabled or downgraded required gates, and bad thresholds', () => {
+    const file = writeConfig('bad.yaml', [
+      'version: 1',
+      'gates:',
+      '  - { id: authenticity }',
+      '  - { id: policy, severity: soft }',
+      '  - { id: crop, thresholds: { maxOffCenter: 2 } }',
+    ].join('\n'));
+    const err = (() => {
+      try {
+        loadGateConfig(file);
+      } catch (e) {
+        return e;
+      }
+      return null;
+    })();
+    expect(err).toBeInstanceOf(GateConfigError);
+    const message = (err as Error).message;
+    expect(message).toContain('unknown gate "authenticity"');
+    expect(message).toContain('gate "policy" is required');
+    expect(message).toContain('gate "crop" thresholds');
+    expect(message).toContain('required gate "disclosure" is missing');
+    expect(message).toContain('required gate "face" is missing');
+  });
+
+  it('rejects a file that does not match the schema', () => {
+    const file = writeConfig('schema.yaml', 'version: 2\ngates: []\n');
+    expect(() => loadGateConfig(file)).toThrow(/invalid gate config/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// gateStages
+// ---------------------------------------------------------------------------
+
+describe('gateStages', () => {
+  it('ends a stage after a transforming gate', () => {
+    const gates = loadGateConfig(fileURLToPath(new URL('../../../config/gates.yaml', import.meta.url)));
+    expect(gateStages(gates).map((stage) => stage.map((g) => g.definition.id))).toEqual([
+      ['motion', 'face'],
+      ['audio', 'policy', 'crop', 'overlay', 'disclosure'],
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// runAllGates
+// ---------------------------------------------------------------------------
+
+describe('runAllGates', () => {
+  const params = {
+    sceneId: 'scene-1', videoPath: 'clip.mp4', format: 'ring_cam' as const, concept: 'raccoon', frameBase64Images: [],
+  };
+
+  it('runs a registered gate in its configured place and skips disabled ones', async () => {
+    const result = await runAllGates(params);
+
+    expect(result.pass).toBe(true);
+    expect(result.evaluated).toEqual([1, 2, 3, 4, 8, 6, 7]);
+    expect(result.videoPath).toBe('blurred.mp4');
+    expect(vi.mocked(runGate5)).not.toHaveBeenCalled();
+    expect(virality).toHaveBeenCalledWith(expect.objectContaining({ videoPath: 'blurred.mp4' }));
+  });
+
+  it('stops on a failing soft gate with its default action and reuses earlier results', async () => {
+    virality.mockResolvedValueOnce({ pass: false, reason: 'predicted reach too low' });
+    const failed = await runAllGates(params);
+    expect(failed).toMatchObject({ pass: false, hardFail: false, failedGate: 8, action: 'regenerate' });
+    // Gates after the blur share a stage, so they were evaluated alongside the failing one
+    expect(failed.evaluated).toEqual([1, 2, 3, 4, 8, 6, 7]);
+
+    const rerun = await runAllGates({ ...params, videoPath: 'blurred.mp4', from: 8, previous: failed });
+    expect(rerun.pass).toBe(true);
+    expect(rerun.evaluated).toEqual([8, 6, 7]);
+  });
+
+  it('lets a hard failure in a stage outrank an earlier soft one', async () => {
+    virality.mockResolvedValueOnce({ pass: false, reason: 'predicted reach too low' });
+    vi.mocked(runGate7).mockResolvedValueOnce({ pass: false, hardFail: true, watermarkDetected: false });
+
+    const result = await runAllGates(params);
+    expect(result).toMatchObject({ pass: false, hardFail: true, hardFailGate: 7, failedGate: 7 });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Unit tests for the gate remediation engine. The gate runner is a scripted
+ * stub; no media is touched.
+ */
+import { describe, it, expect, vi } from 'vitest';
+import {
+  runGatesWithRemediation,
+  failedGate,
+  type RemediationAction,
+} from '../../../src/gates/remediation.js';
+import type { GateNumber, GateRunnerResult } from '../../../src/gates/index.js';
+
+const BUDGET: Record<RemediationAction, number> = {
+  add_shake:     1,
+  mix_bed:       1,
+  replace_audio: 1,
+  retry_overlay: 1,
+  regenerate:    2,
+};
+
+const passed: GateRunnerResult = { pass: true, hardFail: false, videoPath: 'final.mp4', cropSafe: true };
+
+const motionFail = (action: 'add_shake' | 'regenerate'): GateRunnerResult => ({
+  pass: false,
+  hardFail: false,
+  videoPath: 'clip.mp4',
+  action,
+  gate1: { pass: false, action, avgMotion: 0.2, maxMotion: 1, reason: 'too stable' },
+});
+
+const overlayFail: GateRunnerResult = {
+  pass: false,
+  hardFail: false,
+  videoPath: 'blurred.mp4',
+  action: 'retry_overlay',
+  gate6: { pass: false, overlayDetected: false, timestampReadable: false, formatCorrect: false, reason: 'no HUD' },
+};
+
+/** Runner returning the scripted results in order, recording its calls. */
+function scripted(...results: GateRunnerResult[]) {
+  const calls: Array<{ videoPath: string; from: GateNumber; previous: GateRunnerResult | null }> = [];
+  const runGates = vi.fn(async (videoPath: string, from: GateNumber, previous: GateRunnerResult | null) => {
+    calls.push({ videoPath, from, previous });
+    return results[calls.length - 1] ?? passed;
+  });
+  return { runGates, calls };
+}
+
+// ---------------------------------------------------------------------------
+// runGatesWithRemediation
+// ---------------------------------------------------------------------------
+
+describe('runGatesWithRemediation', () => {
+  it('applies the handler for the action and re-runs from the affected gate', async () => {
+    const { runGates, calls } = scripted(motionFail('add_shake'), overlayFail, passed);
+    const handlers = {
+      add_shake:     vi.fn(async () => 'shaken.mp4'),
+      retry_overlay: vi.fn(async () => 'rerendered.mp4'),
+    };
+
+    const outcome = await runGatesWithRemediation({ videoPath: 'clip.mp4', runGates, handlers, budget: BUDGET });
+
+    expect(outcome.result.pass).toBe(true);
+    expect(outcome.passes).toBe(3);
+    expect(outcome.remediations).toEqual(['add_shake', 'retry_overlay']);
+    expect(outcome.failures).toEqual(['gate1:too stable', 'gate6:no HUD']);
+    expect(calls.map((c) => [c.videoPath, c.from])).toEqual([
+      ['clip.mp4', 1],
+      ['shaken.mp4', 1],
+      ['rerendered.mp4', 2],
+    ]);
+    expect(calls[2]!.previous).toBe(overlayFail);
+    // Handlers receive the clip the failing pass ran on (gate 2's blurred output)
+    expect(handlers.retry_overlay).toHaveBeenCalledWith('blurred.mp4', overlayFail);
+  });
+
+  it('stops when an action exceeds its budget', async () => {
+    const { runGates } = scripted(motionFail('regenerate'), motionFail('regenerate'), motionFail('regenerate'));
+    const regenerate = vi.fn(async () => 'new.mp4');
+
+    const outcome = await runGatesWithRemediation({
+      videoPath: 'clip.mp4', runGates, handlers: { regenerate }, budget: BUDGET,
+    });
+
+    expect(outcome.result.pass).toBe(false);
+    expect(regenerate).toHaveBeenCalledTimes(2);
+    expect(outcome.passes).toBe(3);
+    expect(outcome.stopReason).toBe('regenerate budget of 2 exhausted');
+  });
+
+  it('stops on a hard fail without remediating', async () => {
+    const hardFail: GateRunnerResult = {
+      pass: false,
+      hardFail: true,
+      hardFailGate: 4,
+      videoPath: 'clip.mp4',
+      gate4: { pass: false, hardFail: true, severity: 'critical', flags: ['weapon'], reason: 'weapon visible' },
+    };
+    const { runGates } = scripted(hardFail);
+    const regenerate = vi.fn(async () => 'new.mp4');
+
+    const outcome = await runGatesWithRemediation({
+      videoPath: 'clip.mp4', runGates, handlers: { regenerate }, budget: BUDGET,
+    });
+
+    expect(outcome.result.hardFail).toBe(true);
+    expect(outcome.stopReason).toBeNull();
+    expect(outcome.failures).toEqual(['gate4:weapon visible']);
+    expect(regenerate).not.toHaveBeenCalled();
+  });
+
+  it('stops when an action has no handler or the handler cannot apply', async () => {
+    const noHandler = await runGatesWithRemediation({
+      videoPath: 'clip.mp4', runGates: scripted(overlayFail).runGates, handlers: {}, budget: BUDGET,
+    });
+    expect(noHandler.stopReason).toBe('no remediation for retry_overlay');
+
+    const cannot = await runGatesWithRemediation({
+      videoPath: 'clip.mp4',
+      runGates: scripted(overlayFail).runGates,
+      handlers: { retry_overlay: async () => null },
+      budget: BUDGET,
+    });
+    expect(cannot.stopReason).toBe('retry_overlay could not be applied');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// failedGate
+// ---------------------------------------------------------------------------
+
+describe('failedGate', () => {
+  it('treats a soft failure without a reason as the action', () => {
+    expect(failedGate({ ...passed, pass: false, gate1: { pass: true, avgMotion: 0, maxMotion: 0 } })).toBeNull();
+    expect(failedGate({
+      ...passed,
+      pass: false,
+      action: 'mix_bed',
+      gate3: { pass: false, meanVolume: -50, action: 'mix_bed' },
+    })).toEqual({ gate: 3, reason: 'mix_bed' });
+  });
+});
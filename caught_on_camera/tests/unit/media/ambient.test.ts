@@ -0,0 +1,55 @@
+/**
+ * Unit tests for ambient replacement track selection. No ffmpeg; the track
+ * library is a temp directory.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { chooseAmbience, findAmbientFile } from '../../../src/media/ambient.js';
+
+// ---------------------------------------------------------------------------
+// chooseAmbience
+// ---------------------------------------------------------------------------
+
+describe('chooseAmbience', () => {
+  it('prefers audio_notes keywords over the time of day', () => {
+    expect(chooseAmbience('night', 'steady rain on the porch roof')).toBe('rain');
+    expect(chooseAmbience('night', 'distant traffic, a dog barking')).toBe('traffic');
+    expect(chooseAmbience('morning', 'crickets and a porch light hum')).toBe('crickets');
+  });
+
+  it('falls back to the time of day, then room tone', () => {
+    expect(chooseAmbience('Night', null)).toBe('crickets');
+    expect(chooseAmbience('afternoon', 'nothing notable')).toBe('traffic');
+    expect(chooseAmbience('unknown', null)).toBe('room_tone');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// findAmbientFile
+// ---------------------------------------------------------------------------
+
+describe('findAmbientFile', () => {
+  let bedDir: string;
+
+  beforeEach(() => {
+    bedDir = fs.mkdtempSync(path.join(os.tmpdir(), 'beds-'));
+  });
+  afterEach(() => {
+    fs.rmSync(bedDir, { recursive: true, force: true });
+  });
+
+  it('picks the first matching recording under ambient/', () => {
+    fs.mkdirSync(path.join(bedDir, 'ambient'));
+    for (const f of ['rain_02.wav', 'rain_01.mp3', 'rain_notes.txt', 'crickets_01.mp3']) {
+      fs.writeFileSync(path.join(bedDir, 'ambient', f), '');
+    }
+    expect(findAmbientFile(bedDir, 'rain')).toBe(path.join(bedDir, 'ambient', 'rain_01.mp3'));
+    expect(findAmbientFile(bedDir, 'wind')).toBeNull();
+  });
+
+  it('returns null when there is no ambient library', () => {
+    expect(findAmbientFile(bedDir, 'crickets')).toBeNull();
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Unit tests for the per-clip media analysis helpers that do not need ffmpeg.
+ */
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import { MediaAnalysis, keyframeIndices, parseAudioStats } from '../../../src/media/analysis.js';
+
+// ---------------------------------------------------------------------------
+// keyframeIndices
+// ---------------------------------------------------------------------------
+
+describe('keyframeIndices', () => {
+  it('spaces keyframes evenly inside the clip', () => {
+    expect(keyframeIndices(240)).toEqual([40, 80, 120, 160, 200]);
+  });
+
+  it('collapses duplicates on very short clips', () => {
+    expect(keyframeIndices(2)).toEqual([0, 1]);
+    expect(keyframeIndices(0)).toEqual([]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// MediaAnalysis directories
+// ---------------------------------------------------------------------------
+
+describe('MediaAnalysis', () => {
+  it('gives each analysis its own directory and removes it on dispose', () => {
+    const a = new MediaAnalysis('/clips/a.mp4');
+    const b = new MediaAnalysis('/clips/a.mp4');
+    expect(a.dir).not.toBe(b.dir);
+    expect(fs.existsSync(a.dir)).toBe(true);
+
+    a.dispose();
+    expect(fs.existsSync(a.dir)).toBe(false);
+    expect(fs.existsSync(b.dir)).toBe(true);
+    b.dispose();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// parseAudioStats
+// ---------------------------------------------------------------------------
+
+describe('parseAudioStats', () => {
+  const log = [
+    '[Parsed_volumedetect_0 @ 0x1] mean_volume: -24.5 dB',
+    '[Parsed_volumedetect_0 @ 0x1] max_volume: -0.0 dB',
+    '[silencedetect @ 0x4] silence_start: 1.25',
+    '[silencedetect @ 0x4] silence_end: 2.5 | silence_duration: 1.25',
+    '[silencedetect @ 0x4] silence_start: 6',
+    '[Parsed_astats_2 @ 0x3] Channel: 1',
+    '[Parsed_astats_2 @ 0x3] Peak count: 999',
+    '[Parsed_astats_2 @ 0x3] Overall',
+    '[Parsed_astats_2 @ 0x3] Peak level dB: -0.000000',
+    '[Parsed_astats_2 @ 0x3] Peak count: 48',
+    '[Parsed_astats_2 @ 0x3] Number of samples: 96000',
+    '[Parsed_astats_8 @ 0x5] Overall',
+    '[Parsed_astats_8 @ 0x5] Peak level dB: -0.000000',
+    '[Parsed_astats_8 @ 0x5] Peak count: 400',
+    '[Parsed_astats_8 @ 0x5] Number of samples: 800',
+    '[Parsed_ebur128_1 @ 0x2] t: 7.9  TARGET:-23 LUFS    M: -20.1 S: -21.0     I: -22.0 LUFS       LRA:   3.1 LU',
+    '[Parsed_ebur128_1 @ 0x2] Summary:',
+    '  Integrated loudness:',
+    '    I:         -21.4 LUFS',
+    '  True peak:',
+    '    Peak:        0.3 dBFS',
+  ].join('\n');
+  const voiceLog = [
+    'frame:0    pts:0       pts_time:0',
+    'lavfi.astats.Overall.RMS_level=-inf',
+    'frame:1    pts:800     pts_time:0.05',
+    'lavfi.astats.Overall.RMS_level=-31.5',
+  ].join('\n');
+
+  it('reads loudness, clipping, silences and the voice envelope', () => {
+    const audio = parseAudioStats(log, voiceLog, 8);
+    expect(audio).toMatchObject({ meanVolume: -24.5, integratedLufs: -21.4, truePeakDb: 0.3, duration: 8 });
+    // The full-stream astats instance, not the per-window voice-band one
+    expect(audio.clippedRatio).toBeCloseTo(0.0005);
+    expect(audio.silences).toEqual([{ start: 1.25, end: 2.5 }, { start: 6, end: 8 }]);
+    expect(audio.voiceEnvelope).toEqual([-99, -31.5]);
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * Unit tests for the audio bed library: indexing, manifests and weighted
+ * selection. The library is a temp directory of empty files; no ffmpeg.
+ */
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {
+  loadBedLibrary,
+  inferManifest,
+  selectBed,
+  bedOffset,
+  bedGainDb,
+  type BedEntry,
+  type BedManifest,
+} from '../../../src/media/bed-library.js';
+
+function bed(id: string, manifest: Partial<BedManifest> = {}): BedEntry {
+  return { id, path: `/beds/${id}`, manifest: { ...inferManifest(id), ...manifest }, hasManifest: true };
+}
+
+/** A random() that returns the given values in turn. */
+const sequence = (...values: number[]) => () => values.shift() ?? 0;
+
+// ---------------------------------------------------------------------------
+// Index
+// ---------------------------------------------------------------------------
+
+describe('loadBedLibrary', () => {
+  let root: string;
+  const write = (rel: string, content = '') => {
+    fs.mkdirSync(path.dirname(path.join(root, rel)), { recursive: true });
+    fs.writeFileSync(path.join(root, rel), content);
+  };
+
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), 'beds-'));
+  });
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it('reads sidecar manifests and infers the rest from file names', () => {
+    write('body_cam/trail_crickets.mp3');
+    write('body_cam/trail_crickets.json', JSON.stringify({ subTypes: ['hiker_trail'], environment: 'forest', integratedLufs: -30 }));
+    write('hiker_trail_night.mp3');
+    write('ambient/crickets_01.mp3');
+    write('ring_cam/notes.txt');
+
+    const library = loadBedLibrary(root);
+    expect(library.map((b) => b.id)).toEqual(['body_cam/trail_crickets.mp3', 'hiker_trail_night.mp3']);
+    expect(library[0]).toMatchObject({
+      hasManifest: true,
+      manifest:    { format: 'any', subTypes: ['hiker_trail'], environment: 'forest', integratedLufs: -30, weight: 1 },
+    });
+    expect(library[1]).toMatchObject({
+      hasManifest: false,
+      manifest:    { format: 'any', subTypes: ['hiker_trail'], timeOfDay: ['night'], integratedLufs: null },
+    });
+  });
+
+  it('rejects a malformed manifest', () => {
+    write('ring_cam/porch.wav');
+    write('ring_cam/porch.json', JSON.stringify({ weight: -1, mood: 'tense' }));
+    expect(() => loadBedLibrary(root)).toThrow(/ring_cam\/porch\.json.*weight/);
+  });
+});
+
+describe('inferManifest', () => {
+  it('takes the format from the top directory and hints from the name', () => {
+    expect(inferManifest('ring_cam/ambient_night.wav')).toMatchObject({ format: 'ring_cam', subTypes: [], timeOfDay: ['night'] });
+    expect(inferManifest('body_cam/police_radio.wav')).toMatchObject({ format: 'body_cam', subTypes: ['police_security'] });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Selection
+// ---------------------------------------------------------------------------
+
+describe('selectBed', () => {
+  const library = [
+    bed('ring_cam/ambient_night.wav'),
+    bed('ring_cam/suburban_day.wav', { timeOfDay: ['morning', 'afternoon'] }),
+    bed('body_cam/police_radio.wav'),
+    bed('body_cam/forest_night.wav'),
+    bed('body_cam/forest_wind.wav', { subTypes: ['hiker_trail'], environment: 'ridge' }),
+  ];
+
+  it('only picks beds for the format and sub-type', () => {
+    for (const r of [0, 0.5, 0.99]) {
+      expect(selectBed(library, { format: 'body_cam', subType: 'police_security' }, [], () => r)?.id).toBe('body_cam/police_radio.wav');
+    }
+    expect(selectBed(library, { format: 'body_cam', subType: 'dashcam' })).toBeNull();
+  });
+
+  it('weights matching time of day and environment', () => {
+    // ambient_night ×2 for night against suburban_day ×1
+    const ringNight = { format: 'ring_cam' as const, timeOfDay: 'night' };
+    expect(selectBed(library, ringNight, [], () => 0.6)?.id).toBe('ring_cam/ambient_night.wav');
+    expect(selectBed(library, ringNight, [], () => 0.7)?.id).toBe('ring_cam/suburban_day.wav');
+    // forest_night ×2 for night against forest_wind ×1.5 for the ridge
+    const trail = { format: 'body_cam' as const, subType: 'hiker_trail', timeOfDay: 'night', notes: 'Wind on the ridge' };
+    expect(selectBed(library, trail, [], () => 0.55)?.id).toBe('body_cam/forest_night.wav');
+    expect(selectBed(library, trail, [], () => 0.6)?.id).toBe('body_cam/forest_wind.wav');
+  });
+
+  it('skips recently used beds, falling back to the one used longest ago', () => {
+    const trail = { format: 'body_cam' as const, subType: 'hiker_trail' };
+    expect(selectBed(library, trail, ['body_cam/forest_night.wav'], () => 0)?.id).toBe('body_cam/forest_wind.wav');
+    expect(selectBed(library, trail, ['body_cam/forest_wind.wav', 'x', 'body_cam/forest_night.wav'])?.id)
+      .toBe('body_cam/forest_night.wav');
+  });
+});
+
+describe('bedOffset / bedGainDb', () => {
+  it('starts at a random point that leaves the clip length to play', () => {
+    const long = bed('ring_cam/ambient_night.wav', { durationSeconds: 68 });
+    expect(bedOffset(long, 8, sequence(0.5))).toBe(30);
+    expect(bedOffset(long, 80, sequence(0.5))).toBe(0);
+    expect(bedOffset(bed('ring_cam/ambient_night.wav'), 8)).toBe(0);
+  });
+
+  it('brings measured beds to the mix level and never boosts', () => {
+    expect(bedGainDb(bed('a.wav', { integratedLufs: -20 }))).toBe(-18);
+    expect(bedGainDb(bed('a.wav', { integratedLufs: -45 }))).toBe(0);
+    expect(bedGainDb(bed('a.wav'))).toBe(-15);
+  });
+});
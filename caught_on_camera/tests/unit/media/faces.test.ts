@@ -0,0 +1,92 @@
+/**
+ * Unit tests for Gate 2 face tracking, box interpolation and the blur filter
+ * graph. Detections are synthetic; the ONNX model is not loaded.
+ */
+import { describe, it, expect } from 'vitest';
+import { trackFaces, boxAt, faceBlurFilter, type FaceBox } from '../../../src/media/faces.js';
+
+const face = (x: number, y: number, size = 0.1): FaceBox => ({ x, y, w: size, h: size, confidence: 0.9 });
+const OPTIONS = { maxGap: 10, hold: 5 };
+
+// ---------------------------------------------------------------------------
+// trackFaces
+// ---------------------------------------------------------------------------
+
+describe('trackFaces', () => {
+  it('follows a moving face and keeps two faces apart', () => {
+    const tracks = trackFaces([
+      { frame: 0, boxes: [face(0.1, 0.1), face(0.7, 0.1)] },
+      { frame: 5, boxes: [face(0.72, 0.1), face(0.15, 0.12)] },
+      { frame: 10, boxes: [face(0.2, 0.14)] },
+    ], OPTIONS);
+
+    expect(tracks).toHaveLength(2);
+    expect(tracks[0]!.points.map((p) => p.frame)).toEqual([0, 5, 10]);
+    expect(tracks[0]!.points[2]!.box.x).toBe(0.2);
+    expect(tracks[1]!.points.map((p) => p.box.x)).toEqual([0.7, 0.72]);
+  });
+
+  it('bridges a missed sample but starts a new track after a longer gap or a big jump', () => {
+    const tracks = trackFaces([
+      { frame: 0, boxes: [face(0.1, 0.1)] },
+      { frame: 10, boxes: [face(0.1, 0.1)] },   // one sample missed — same face
+      { frame: 30, boxes: [face(0.1, 0.1)] },   // gap too long
+      { frame: 35, boxes: [face(0.6, 0.6)] },   // too far to be the same face
+    ], OPTIONS);
+
+    expect(tracks.map((t) => t.points.map((p) => p.frame))).toEqual([[0, 10], [30], [35]]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// boxAt
+// ---------------------------------------------------------------------------
+
+describe('boxAt', () => {
+  const [track] = trackFaces([
+    { frame: 10, boxes: [face(0.1, 0.2)] },
+    { frame: 20, boxes: [face(0.16, 0.26)] },
+  ], OPTIONS);
+
+  it('interpolates between detections', () => {
+    const box = boxAt(track!, 15)!;
+    expect(box.x).toBeCloseTo(0.13);
+    expect(box.y).toBeCloseTo(0.23);
+  });
+
+  it('holds the end boxes for `hold` frames and is null beyond', () => {
+    expect(boxAt(track!, 6)?.x).toBe(0.1);
+    expect(boxAt(track!, 25)?.x).toBe(0.16);
+    expect(boxAt(track!, 4)).toBeNull();
+    expect(boxAt(track!, 26)).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// faceBlurFilter
+// ---------------------------------------------------------------------------
+
+describe('faceBlurFilter', () => {
+  it('chains one moving blur per track, enabled only while the track lasts', () => {
+    const tracks = trackFaces([
+      { frame: 10, boxes: [face(0.1, 0.2), face(0.8, 0.8)] },
+      { frame: 20, boxes: [face(0.18, 0.2), face(0.8, 0.8)] },
+    ], OPTIONS);
+    const graph = faceBlurFilter(tracks, 1000, 1000);
+    const chains = graph.split(';');
+
+    expect(chains).toHaveLength(6);
+    expect(chains[0]).toBe('[0:v]split[base0][src0]');
+    // 0.1 × 1.2 padding → 120px box; x moves 90 → 170 between frames 10 and 20, y stays at 190
+    expect(chains[1]).toBe(
+      '[src0]crop=120:120:if(lt(n\\,20)\\,90+80*max(n-10\\,0)/10\\,170):190,boxblur=20:5[blur0]',
+    );
+    expect(chains[2]).toContain('enable=between(n\\,5\\,25)[f0]');
+    expect(chains[3]).toBe('[f0]split[base1][src1]');
+    expect(chains[5]).toMatch(/\[out\]$/);
+  });
+
+  it('passes the video through when there is nothing to blur', () => {
+    expect(faceBlurFilter([], 1920, 1080)).toBe('[0:v]null[out]');
+  });
+});
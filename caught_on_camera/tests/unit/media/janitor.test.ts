@@ -0,0 +1,102 @@
+/**
+ * Unit tests for the retention janitor, run against the sandbox DB and the
+ * local storage backend.
+ */
+import { describe, it, expect } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { env } from '../../../src/config.js';
+import { dbInsert, dbSelect } from '../../../src/db/client.js';
+import { createRun, recordCheckpoint, updateRunStatus } from '../../../src/db/runs.js';
+import { publishArtifact } from '../../../src/media/storage.js';
+import { runJanitor } from '../../../src/media/janitor.js';
+
+const DAY_MS = 86_400_000;
+
+/** Create a scratch file in TEMP_DIR with its mtime set `ageDays` in the past. */
+function scratch(name: string, ageDays: number, content = 'x'): string {
+  fs.mkdirSync(env.TEMP_DIR, { recursive: true });
+  const file = path.join(env.TEMP_DIR, name);
+  fs.writeFileSync(file, content);
+  const when = new Date(Date.now() - ageDays * DAY_MS);
+  fs.utimesSync(file, when, when);
+  return file;
+}
+
+async function rejectedVideo(): Promise<{ id: string; publicId: string; file: string }> {
+  const render = scratch('render.mp4', 0, 'rejected render');
+  const master = await publishArtifact(render, 'master');
+  fs.rmSync(render);
+  const video = await dbInsert('videos', {
+    idea_id:              'idea-1',
+    idea_source:          'ring_cam',
+    format:               'ring_cam',
+    master_16x9_url:      master.url,
+    cloudinary_public_id: master.publicId,
+    master_sha256:        master.sha256,
+    title:                'Rejected clip',
+    caption:              'n/a',
+    approval_status:      'rejected',
+  });
+  const file = path.join(env.LOCAL_STORAGE_DIR, `${master.publicId}.mp4`);
+  return { id: String(video['id']), publicId: master.publicId, file };
+}
+
+describe('runJanitor', () => {
+  it('reports without removing anything on a dry run', async () => {
+    const stale = scratch('stale_dry.mp4', 2);
+    const report = await runJanitor({ dryRun: true });
+
+    expect(report.items.map((i) => i.target)).toContain(stale);
+    expect(fs.existsSync(stale)).toBe(true);
+    expect(await dbSelect('janitor_log', { sweep_id: report.sweepId })).toHaveLength(0);
+    fs.rmSync(stale);
+  });
+
+  it('purges stale temp files but keeps artifacts of resumable runs until they age out', async () => {
+    const fresh = scratch('fresh.mp4', 0);
+    const stale = scratch('stale.mp4', 2);
+    const resumableRaw = scratch('raw_resumable.mp4', 2);
+    const expiredRaw = scratch('raw_expired.mp4', 8);
+
+    const run = await createRun('idea-2', 'body_cam');
+    await recordCheckpoint(run.id, 'download', { artifactPath: resumableRaw });
+    await recordCheckpoint(run.id, 'degrade', { artifactPath: expiredRaw });
+    await updateRunStatus(run.id, 'failed', 'gates: boom');
+    // recordCheckpoint reads the file; restore the ages it should be judged by
+    for (const [file, days] of [[resumableRaw, 2], [expiredRaw, 8]] as const) {
+      const when = new Date(Date.now() - days * DAY_MS);
+      fs.utimesSync(file, when, when);
+    }
+
+    const report = await runJanitor();
+    const byTarget = new Map(report.items.map((i) => [i.target, i.category]));
+
+    expect(byTarget.get(stale)).toBe('temp');
+    expect(byTarget.get(expiredRaw)).toBe('raw_clip');
+    expect(byTarget.has(fresh)).toBe(false);
+    expect(byTarget.has(resumableRaw)).toBe(false);
+    expect(fs.existsSync(stale)).toBe(false);
+    expect(fs.existsSync(resumableRaw)).toBe(true);
+
+    const logged = await dbSelect('janitor_log', { sweep_id: report.sweepId });
+    expect(logged.map((r) => r['target'])).toEqual(expect.arrayContaining([stale, expiredRaw]));
+  });
+
+  it('deletes published assets of rejected videos once and marks them purged', async () => {
+    const video = await rejectedVideo();
+    expect(fs.existsSync(video.file)).toBe(true);
+
+    const first = await runJanitor();
+    expect(first.items).toContainEqual(
+      expect.objectContaining({ category: 'rejected', target: video.publicId, videoId: video.id }),
+    );
+    expect(fs.existsSync(video.file)).toBe(false);
+
+    const [row] = await dbSelect('videos', { id: video.id });
+    expect(row?.['assets_purged_at']).toEqual(expect.any(String));
+
+    const second = await runJanitor();
+    expect(second.items.filter((i) => i.videoId === video.id)).toHaveLength(0);
+  });
+});
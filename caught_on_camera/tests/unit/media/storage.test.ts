@@ -0,0 +1,117 @@
+/**
+ * Unit tests for media storage: the content-addressed cache, clip download
+ * verification, and publishing through the local backend (sandbox mode sets
+ * STORAGE_BACKEND=local).
+ */
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { pathToFileURL } from 'node:url';
+import { env } from '../../../src/config.js';
+import {
+  storeArtifact,
+  cachedArtifact,
+  downloadClip,
+  publishArtifact,
+  MediaIntegrityError,
+} from '../../../src/media/storage.js';
+
+/** Minimal ISO-BMFF header: a 16-byte ftyp box, then some payload. */
+function fakeMp4(payload: string): Buffer {
+  const ftyp = Buffer.alloc(16);
+  ftyp.writeUInt32BE(16, 0);
+  ftyp.write('ftypisom', 4, 'latin1');
+  return Buffer.concat([ftyp, Buffer.from(payload)]);
+}
+
+function writeTemp(name: string, data: Buffer | string): string {
+  fs.mkdirSync(env.TEMP_DIR, { recursive: true });
+  const file = path.join(env.TEMP_DIR, `${Date.now()}_${name}`);
+  fs.writeFileSync(file, data);
+  return file;
+}
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+// ---------------------------------------------------------------------------
+// Content-addressed cache
+// ---------------------------------------------------------------------------
+
+describe('storeArtifact', () => {
+  it('stores identical content once, keyed by SHA-256', () => {
+    const a = storeArtifact(writeTemp('a.mp4', fakeMp4('same')));
+    const b = storeArtifact(writeTemp('b.mp4', fakeMp4('same')));
+    expect(b.path).toBe(a.path);
+    expect(path.basename(a.path)).toBe(`${a.sha256}.mp4`);
+    expect(cachedArtifact(a.sha256)).toBe(a.path);
+  });
+
+  it('reports cache misses as null', () => {
+    expect(cachedArtifact('0'.repeat(64))).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// downloadClip
+// ---------------------------------------------------------------------------
+
+describe('downloadClip', () => {
+  it('downloads over HTTP into the cache', async () => {
+    const body = fakeMp4('http clip');
+    const server = createServer((_req, res) => {
+      res.writeHead(200, { 'content-type': 'video/mp4', 'content-length': body.length });
+      res.end(body);
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    try {
+      const { port } = server.address() as AddressInfo;
+      const clip = await downloadClip(`http://127.0.0.1:${port}/clip.mp4`);
+      expect(clip.bytes).toBe(body.length);
+      expect(fs.readFileSync(clip.path).equals(body)).toBe(true);
+    } finally {
+      server.close();
+    }
+  });
+
+  it('returns the cached copy when the expected hash is already stored', async () => {
+    const stored = storeArtifact(writeTemp('cached.mp4', fakeMp4('cached')));
+    const clip = await downloadClip('https://unreachable.invalid/clip.mp4', { sha256: stored.sha256 });
+    expect(clip.path).toBe(stored.path);
+  });
+
+  it('rejects files that are not MP4 containers after retrying', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    const url = pathToFileURL(writeTemp('error.html', '<html>502 Bad Gateway</html>')).href;
+    const result = expect(downloadClip(url)).rejects.toBeInstanceOf(MediaIntegrityError);
+    await vi.runAllTimersAsync();
+    await result;
+  });
+
+  it('rejects a size mismatch', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout'] });
+    const url = pathToFileURL(writeTemp('short.mp4', fakeMp4('short'))).href;
+    const result = expect(downloadClip(url, { bytes: 9_999 })).rejects.toThrow(/expected 9999/);
+    await vi.runAllTimersAsync();
+    await result;
+  });
+});
+
+// ---------------------------------------------------------------------------
+// publishArtifact
+// ---------------------------------------------------------------------------
+
+describe('publishArtifact', () => {
+  it('publishes under a content-addressed public ID', async () => {
+    const file = writeTemp('master.mp4', fakeMp4('master render'));
+    const first = await publishArtifact(file, 'master');
+    expect(first.publicId).toBe(`caught_on_camera/master/${first.sha256}`);
+    expect(first.url.startsWith('file://')).toBe(true);
+
+    const again = await publishArtifact(writeTemp('copy.mp4', fakeMp4('master render')), 'master');
+    expect(again).toEqual(first);
+  });
+});
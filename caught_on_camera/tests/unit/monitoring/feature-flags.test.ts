@@ -0,0 +1,87 @@
+/**
+ * Unit tests for runtime feature flags: kill switch matching and expiry, the
+ * ENABLE_POLICE_SUBTYPE default, and toggling from Telegram. Flags are stored
+ * in the sandbox DB (tests/setup.ts).
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  getFeatureFlags,
+  killedBy,
+  isAllowed,
+  withoutKilledCategories,
+  resolveFlagTarget,
+  type FeatureFlags,
+} from '../../../src/monitoring/feature-flags.js';
+import { handleTelegramCommand } from '../../../src/monitoring/telegram.js';
+
+const at = (iso: string) => new Date(iso);
+
+const flags: FeatureFlags = {
+  source:   'db',
+  switches: [
+    { scope: 'sub_type', target: 'police_security', reason: 'News event', expiresAt: at('2026-10-20T00:00:00Z'), setBy: 'op', setAt: at('2026-10-10T00:00:00Z') },
+    { scope: 'platform', target: 'tiktok', reason: 'Account review', expiresAt: null, setBy: 'op', setAt: at('2026-10-10T00:00:00Z') },
+    { scope: 'category', target: 'weather', reason: 'Storm', expiresAt: null, setBy: 'op', setAt: at('2026-10-10T00:00:00Z') },
+  ],
+};
+
+// ---------------------------------------------------------------------------
+// Evaluation
+// ---------------------------------------------------------------------------
+
+describe('killedBy', () => {
+  it('matches any killed field of the subject until the switch expires', () => {
+    const police = { format: 'body_cam', subType: 'police_security', category: 'encounter' };
+    expect(killedBy(flags, police, at('2026-10-15T00:00:00Z')).map((k) => k.reason)).toEqual(['News event']);
+    expect(isAllowed(flags, police, at('2026-10-20T00:00:00Z'))).toBe(true);
+    expect(isAllowed(flags, { format: 'ring_cam', category: 'animals', platform: 'tiktok' })).toBe(false);
+    expect(isAllowed(flags, { format: 'ring_cam', category: 'animals', platform: 'youtube' })).toBe(true);
+  });
+
+  it('drops killed categories from ideator weights', () => {
+    expect(withoutKilledCategories(flags, { weather: 0.5, animals: 0.25, fails: 0.25 })).toEqual({ animals: 0.5, fails: 0.5 });
+  });
+
+  it('resolves flag names to their scope', () => {
+    expect(resolveFlagTarget('body_cam')).toEqual({ scope: 'format', target: 'body_cam' });
+    expect(resolveFlagTarget('police_security')).toEqual({ scope: 'sub_type', target: 'police_security' });
+    expect(resolveFlagTarget('night_shift')).toEqual({ scope: 'category', target: 'night_shift' });
+    expect(resolveFlagTarget('shorts')).toEqual({ scope: 'platform', target: 'shorts' });
+    expect(resolveFlagTarget('everything')).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Store + Telegram
+// ---------------------------------------------------------------------------
+
+describe('/killswitch and /flags', () => {
+  it('starts from ENABLE_POLICE_SUBTYPE and lets operators override it', async () => {
+    expect(isAllowed(await getFeatureFlags(), { subType: 'police_security' })).toBe(false);
+    expect(await handleTelegramCommand('/flags')).toContain('sub_type police_security — ENABLE_POLICE_SUBTYPE=false');
+
+    expect(await handleTelegramCommand('/flags on police_security Story has moved on')).toBe('✅ sub_type police_security enabled.');
+    expect(isAllowed(await getFeatureFlags(), { subType: 'police_security' })).toBe(true);
+  });
+
+  it('sets a kill switch with an expiry and clears it', async () => {
+    const before = Date.now();
+    const reply = await handleTelegramCommand('/killswitch tiktok 12h Account under review');
+    expect(reply).toMatch(/^⛔ platform tiktok disabled until \d{4}-\d{2}-\d{2} \d{2}:\d{2} UTC\.$/);
+
+    const [tiktok] = killedBy(await getFeatureFlags(), { platform: 'tiktok' });
+    expect(tiktok).toMatchObject({ reason: 'Account under review', setBy: 'telegram' });
+    expect(tiktok!.expiresAt!.getTime() - before).toBeGreaterThanOrEqual(12 * 3_600_000);
+    expect(isAllowed(await getFeatureFlags(), { platform: 'tiktok' }, new Date(before + 13 * 3_600_000))).toBe(true);
+
+    await handleTelegramCommand('/flags on tiktok');
+    expect(isAllowed(await getFeatureFlags(), { platform: 'tiktok' })).toBe(true);
+    expect(await handleTelegramCommand('/flags')).toBe('Feature flags: everything enabled.');
+  });
+
+  it('rejects unknown targets and missing reasons', async () => {
+    expect(await handleTelegramCommand('/killswitch everything 1d Reason')).toMatch(/^Usage/);
+    expect(await handleTelegramCommand('/killswitch body_cam 2d')).toMatch(/^Usage/);
+    expect(await handleTelegramCommand('/flags off body_cam')).toMatch(/^Usage/);
+  });
+});
@@ -0,0 +1,106 @@
+/**
+ * Unit tests for gate analytics aggregation and formatting.
+ */
+import { describe, it, expect } from 'vitest';
+import {
+  buildGateReport,
+  formatGateReport,
+  normalizeReason,
+} from '../../../src/monitoring/gate-report.js';
+import type { GateRunRecord } from '../../../src/db/gate-runs.js';
+
+let seq = 0;
+
+function row(fields: Partial<GateRunRecord> & Pick<GateRunRecord, 'run_id' | 'gate' | 'pass'>): GateRunRecord {
+  seq++;
+  return {
+    id:           `gr-${seq}`,
+    scene_id:     null,
+    attempt:      1,
+    hard_fail:    false,
+    action:       null,
+    reason:       null,
+    metrics:      {},
+    format:       'ring_cam',
+    cam_sub_type: null,
+    veo_variant:  'ring_cam_v1',
+    created_at:   new Date().toISOString(),
+    ...fields,
+  };
+}
+
+// Run A: gate 1 fails twice, then everything passes
+// Run B: clean pass
+// Run C (body cam): gate 3 fails once, gate 4 hard fail
+const rows: GateRunRecord[] = [
+  row({ run_id: 'A', gate: 1, pass: false, reason: 'avg motion 3.41 exceeds 0.5', action: 'regenerate' }),
+  row({ run_id: 'A', gate: 1, pass: false, reason: 'avg motion 2.87 exceeds 0.5', action: 'regenerate', attempt: 2 }),
+  row({ run_id: 'A', gate: 1, pass: true, attempt: 3 }),
+  row({ run_id: 'A', gate: 4, pass: true, attempt: 3 }),
+  row({ run_id: 'B', gate: 1, pass: true }),
+  row({ run_id: 'B', gate: 4, pass: true }),
+  ...[
+    row({ run_id: 'C', gate: 1, pass: true }),
+    row({ run_id: 'C', gate: 3, pass: false, action: 'mix_bed' }),
+    row({ run_id: 'C', gate: 3, pass: true }),
+    row({ run_id: 'C', gate: 4, pass: false, hard_fail: true }),
+  ].map((r) => ({ ...r, format: 'body_cam' as const, cam_sub_type: 'dashcam', veo_variant: 'body_cam_v1' })),
+];
+
+// ---------------------------------------------------------------------------
+// buildGateReport
+// ---------------------------------------------------------------------------
+
+describe('buildGateReport', () => {
+  const report = buildGateReport(rows, 7);
+
+  it('computes pass rate and average retries per gate', () => {
+    expect(report.runs).toBe(3);
+    expect(report.evaluations).toBe(10);
+
+    const gate1 = report.overall.find((s) => s.gate === 1)!;
+    expect(gate1).toMatchObject({ evaluations: 5, passes: 3, failures: 2, runs: 3 });
+    expect(gate1.passRate).toBeCloseTo(0.6);
+    expect(gate1.avgRetries).toBeCloseTo(2 / 3);
+  });
+
+  it('groups failure reasons with the numbers collapsed', () => {
+    const gate1 = report.overall.find((s) => s.gate === 1)!;
+    expect(gate1.topReasons).toEqual([{ reason: 'avg motion # exceeds #', count: 2 }]);
+
+    const gate4 = report.overall.find((s) => s.gate === 4)!;
+    expect(gate4.topReasons).toEqual([{ reason: 'hard fail', count: 1 }]);
+  });
+
+  it('breaks figures down by format, sub-type and variant', () => {
+    expect(Object.keys(report.byFormat)).toEqual(['body_cam', 'ring_cam']);
+    expect(report.byFormat['ring_cam']!.map((s) => s.gate)).toEqual([1, 4]);
+    expect(Object.keys(report.bySubType)).toEqual(['dashcam']);
+    expect(report.bySubType['dashcam']!.find((s) => s.gate === 3)!.passRate).toBeCloseTo(0.5);
+    expect(Object.keys(report.byVariant)).toEqual(['body_cam_v1', 'ring_cam_v1']);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// normalizeReason / formatGateReport
+// ---------------------------------------------------------------------------
+
+describe('normalizeReason', () => {
+  it('falls back to the action when no reason was given', () => {
+    expect(normalizeReason({ reason: null, action: 'mix_bed', hard_fail: false })).toBe('mix_bed');
+  });
+});
+
+describe('formatGateReport', () => {
+  it('renders overall figures and each breakdown', () => {
+    const text = formatGateReport(buildGateReport(rows, 7));
+    expect(text).toContain('3 run(s), 10 evaluation(s)');
+    expect(text).toContain('Gate 1: 60% pass (3/5)');
+    expect(text).toContain('By sub-type:');
+    expect(text).toContain('dashcam — 1 run(s)');
+  });
+
+  it('says so when nothing was recorded', () => {
+    expect(formatGateReport(buildGateReport([], 7))).toContain('No gate evaluations recorded.');
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for operator permissions: parsing TELEGRAM_OPERATORS, the role
+ * each command needs, refusing commands from the wrong people, and the audit
+ * log. The DB is the sandbox store (tests/setup.ts).
+ */
+import { describe, it, expect } from 'vitest';
+import { parseOperators, requiredRole, getOperators } from '../../../src/monitoring/operators.js';
+import { handleOperatorMessage } from '../../../src/monitoring/telegram.js';
+import { pausedFor, resumePipeline } from '../../../src/monitoring/pipeline-control.js';
+import { dbSelect } from '../../../src/db/client.js';
+
+const chat = { id: Number(process.env['TELEGRAM_CHAT_ID']) };
+const from = (id: number, username: string) => ({ id, username });
+
+// ---------------------------------------------------------------------------
+// Allowlist
+// ---------------------------------------------------------------------------
+
+describe('parseOperators', () => {
+  it('reads user ids and roles from the env', () => {
+    expect([...getOperators()]).toEqual([[100, 'admin'], [200, 'reviewer'], [300, 'viewer']]);
+    expect(parseOperators('').size).toBe(0);
+  });
+
+  it('reports every bad entry', () => {
+    expect(() => parseOperators('abc:admin,1:owner,2:viewer,2:admin')).toThrow(
+      'Invalid TELEGRAM_OPERATORS — "abc:admin": user id must be a number; ' +
+      '"1:owner": role must be viewer, reviewer or admin; "2:admin": user 2 is listed twice',
+    );
+  });
+});
+
+describe('requiredRole', () => {
+  it('maps commands to the least role that may run them', () => {
+    expect(requiredRole('/status')).toBe('viewer');
+    expect(requiredRole('/approve abc')).toBe('reviewer');
+    expect(requiredRole('/PAUSE publishing Review')).toBe('admin');
+    expect(requiredRole('/flags')).toBe('viewer');
+    expect(requiredRole('/flags on tiktok')).toBe('admin');
+    expect(requiredRole('/calendar remove storm-season')).toBe('admin');
+    expect(requiredRole('/takedown abc')).toBe('admin');
+    expect(requiredRole('/whatever')).toBe('viewer');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Commands + audit
+// ---------------------------------------------------------------------------
+
+describe('handleOperatorMessage', () => {
+  it('refuses commands above the sender\'s role and audits every attempt', async () => {
+    expect(await handleOperatorMessage({ text: '/pause Lunch', chat, from: from(200, 'rev') }))
+      .toBe('⛔ Not allowed — /pause needs the admin role (you are reviewer).');
+    expect(await handleOperatorMessage({ text: '/paused', chat, from: from(999, 'stranger') }))
+      .toBe('⛔ You are not on this bot\'s operator list.');
+    expect(await pausedFor('generation')).toBeNull();
+
+    expect(await handleOperatorMessage({ text: '/pause generation Lunch', chat, from: from(100, 'boss') }))
+      .toBe('⏸️ generation paused until /resume.');
+    expect(await pausedFor('generation')).toMatchObject({ reason: 'Lunch', setBy: '@boss' });
+    await resumePipeline(['generation'], { setBy: 'test' });
+
+    const audit = await dbSelect('operator_audit_log', {});
+    expect(audit.map((a) => [a['telegram_user_id'], a['role'], a['command'], a['result']])).toEqual([
+      [200, 'reviewer', '/pause Lunch', 'denied'],
+      [999, null, '/paused', 'denied'],
+      [100, 'admin', '/pause generation Lunch', 'ok'],
+    ]);
+    expect(audit[2]).toMatchObject({ operator: '@boss', detail: '⏸️ generation paused until /resume.' });
+  });
+
+  it('ignores plain text and audits commands from other chats', async () => {
+    expect(await handleOperatorMessage({ text: 'hello', chat, from: from(100, 'boss') })).toBeNull();
+    expect(await handleOperatorMessage({ text: '/status', chat: { id: 42 }, from: from(100, 'boss') })).toBeNull();
+
+    const [denied, ...rest] = await dbSelect('operator_audit_log', { command: '/status' });
+    expect(rest).toHaveLength(0);
+    expect(denied).toMatchObject({ telegram_user_id: 100, role: 'admin', result: 'denied' });
+    expect(denied?.['detail']).toContain('Chat mismatch — sent from chat 42');
+    expect(await dbSelect('operator_audit_log', { command: 'hello' })).toHaveLength(0);
+  });
+});
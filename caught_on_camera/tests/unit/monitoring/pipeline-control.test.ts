@@ -0,0 +1,161 @@
+/**
+ * Unit tests for pipeline pauses: /pause, /resume and /paused, auto-resume
+ * when a pause's `until` passes, holding every stage when no pause can be
+ * read, the publisher holding posts, and the pipeline leaving an empty idea
+ * queue alone while ideation is paused. Pauses are stored in the sandbox DB
+ * (tests/setup.ts); the ideators, idea selection and the SQLite fallback are
+ * mocked.
+ */
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../../src/pipeline/ideator-ring.js', () => ({ runRingCamIdeator: vi.fn() }));
+vi.mock('../../../src/pipeline/ideator-body.js', () => ({ runBodyCamIdeator: vi.fn() }));
+vi.mock('../../../src/pipeline/selection.js', () => ({ selectIdeaForSlot: vi.fn(async () => null) }));
+// The client imports telegram.js, which imports pipeline-control: import pipeline-control
+// first (below) so it binds to this mock rather than the original loaded by the factory
+vi.mock('../../../src/db/client.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../src/db/client.js')>();
+  return {
+    ...actual,
+    dbIsReachable: vi.fn(actual.dbIsReachable),
+    getDb: vi.fn(async () => {
+      throw new Error('SQLite unavailable');
+    }),
+  };
+});
+
+import { readJsonl } from '../../../src/providers/sandbox/index.js';
+import {
+  getActivePauses,
+  pausedFor,
+  pausePipeline,
+  resumePipeline,
+} from '../../../src/monitoring/pipeline-control.js';
+import { dbIsReachable, dbSelect } from '../../../src/db/client.js';
+import { handleTelegramCommand } from '../../../src/monitoring/telegram.js';
+import { publishVideo, schedulePublish } from '../../../src/pipeline/publisher.js';
+import { runDailyPipeline } from '../../../src/pipeline/index.js';
+import { runRingCamIdeator } from '../../../src/pipeline/ideator-ring.js';
+import type { VideoRecord } from '../../../src/db/videos.js';
+
+const video = {
+  id:                'video-paused-1',
+  idea_id:           'idea-paused-1',
+  idea_source:       'ring_cam',
+  format:            'ring_cam',
+  cam_sub_type:      null,
+  master_16x9_url:   'https://cdn.example/master.mp4',
+  vertical_9x16_url: 'https://cdn.example/vertical.mp4',
+  title:             'Raccoon rings the bell',
+  caption:           'Ding dong',
+  hashtags:          [],
+} as unknown as VideoRecord;
+
+// ---------------------------------------------------------------------------
+// Telegram
+// ---------------------------------------------------------------------------
+
+describe('/pause, /resume and /paused', () => {
+  it('pauses one stage or all of them, with a reason', async () => {
+    expect(await handleTelegramCommand('/pause ideation Queue is full')).toBe('⏸️ ideation paused until /resume.');
+    expect(await pausedFor('ideation')).toMatchObject({ reason: 'Queue is full', until: null, setBy: 'telegram' });
+    expect(await pausedFor('generation')).toBeNull();
+
+    expect(await handleTelegramCommand('/pause Provider outage')).toBe('⏸️ generation, publishing, ideation paused until /resume.');
+    expect((await getActivePauses()).map((p) => p.scope).sort()).toEqual(['generation', 'ideation', 'publishing']);
+
+    const listed = await handleTelegramCommand('/paused');
+    expect(listed).toContain('⏸️ generation — Provider outage');
+    expect(listed).toContain('until /resume · set by telegram');
+
+    expect(await handleTelegramCommand('/resume generation')).toBe('▶️ generation resumed.');
+    expect(await pausedFor('generation')).toBeNull();
+    expect(await handleTelegramCommand('/resume')).toBe('▶️ generation, publishing, ideation resumed.');
+    expect(await handleTelegramCommand('/paused')).toBe('Pipeline: nothing paused.');
+  });
+
+  it('takes an optional duration and requires a reason', async () => {
+    const before = Date.now();
+    expect(await handleTelegramCommand('/pause generation 6h Gate tuning')).toMatch(/^⏸️ generation paused until \d{4}-\d{2}-\d{2} \d{2}:\d{2} UTC\.$/);
+    const pause = await pausedFor('generation');
+    expect(pause!.until!.getTime() - before).toBeGreaterThanOrEqual(6 * 3_600_000);
+    await resumePipeline(['generation'], { setBy: 'test' });
+
+    expect(await handleTelegramCommand('/pause generation 6h')).toMatch(/^Usage/);
+    expect(await handleTelegramCommand('/resume everything')).toMatch(/^Usage/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Auto-resume
+// ---------------------------------------------------------------------------
+
+describe('auto-resume', () => {
+  it('records the resume once the pause has lapsed and tells the operator', async () => {
+    const until = new Date(Date.now() + 3_600_000);
+    await pausePipeline(['ideation'], { reason: 'Short break', until, setBy: 'test' });
+    expect(await pausedFor('ideation')).not.toBeNull();
+
+    expect(await pausedFor('ideation', new Date(until.getTime() + 1))).toBeNull();
+    const rows = await dbSelect('pipeline_pauses', { scope: 'ideation' });
+    expect(rows.at(-1)).toMatchObject({ paused: false, reason: 'Pause expired', set_by: 'auto' });
+    expect(readJsonl<{ text?: string }>('telegram-outbox.jsonl').at(-1)?.text).toContain('ideation resumed — pause expired (Short break)');
+
+    // Resumed for good — not paused again when read at the present time
+    expect(await pausedFor('ideation')).toBeNull();
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Outage
+// ---------------------------------------------------------------------------
+
+describe('Supabase outage', () => {
+  it('holds every stage when the SQLite cache cannot be read either', async () => {
+    vi.mocked(dbIsReachable).mockResolvedValueOnce(false);
+
+    const pauses = await getActivePauses();
+    expect(pauses.map((p) => p.scope)).toEqual(['generation', 'publishing', 'ideation']);
+    expect(pauses[0]).toMatchObject({ until: null, setBy: 'auto' });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Publisher
+// ---------------------------------------------------------------------------
+
+describe('publishing pause', () => {
+  it('posts nothing and schedules after the pause ends', async () => {
+    const until = new Date(Date.now() + 3 * 86_400_000);
+    await pausePipeline(['publishing'], { reason: 'Account review', until, setBy: 'test' });
+
+    expect(await publishVideo(video, ['youtube'])).toEqual({});
+
+    await schedulePublish(video);
+    const posts = await dbSelect('scheduled_posts', { video_id: video.id });
+    expect(posts).toHaveLength(4);
+    for (const post of posts) expect(new Date(String(post['scheduled_at'])).getTime()).toBeGreaterThan(until.getTime());
+
+    await resumePipeline(['publishing'], { setBy: 'test' });
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Ideation
+// ---------------------------------------------------------------------------
+
+describe('ideation pause', () => {
+  it('does not run the ideator when the pipeline finds no pending ideas', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2026-10-21T09:00:00Z')); // a Wednesday — ring cam
+    await pausePipeline(['ideation'], { reason: 'Prompt rework', setBy: 'test' });
+
+    await runDailyPipeline();
+    expect(vi.mocked(runRingCamIdeator)).not.toHaveBeenCalled();
+
+    await resumePipeline(['ideation'], { setBy: 'test' });
+    await runDailyPipeline();
+    vi.useRealTimers();
+    expect(vi.mocked(runRingCamIdeator)).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Unit tests for the sensitivity calendar: window matching, clear times,
+ * ideator weights, file validation, and Telegram edits. Edits go to the temp
+ * calendar file made by tests/setup.ts (SENSITIVITY_CALENDAR_PATH).
+ */
+import { describe, it, expect, beforeEach } from 'vitest';
+import * as fs from 'fs';
+import {
+  loadSensitivityCalendar,
+  getSensitivityCalendar,
+  checkSensitivity,
+  nextClearTime,
+  adjustCategoryWeights,
+  sensitivityPromptHint,
+  SensitivityCalendarError,
+} from '../../../src/monitoring/sensitivity-calendar.js';
+import { handleTelegramCommand } from '../../../src/monitoring/telegram.js';
+
+const CALENDAR_FILE = process.env['SENSITIVITY_CALENDAR_PATH']!;
+
+const CALENDAR = `# Test calendar
+version: 1
+
+windows:
+  - id: police-news
+    from: 2026-10-10
+    to: 2026-10-23
+    effect: block
+    subTypes: [police_security]
+    keywords: [shooting]
+    reason: Trial in the news
+
+  - id: police-news-extended
+    from: 2026-10-24
+    to: 2026-10-30T12:00:00Z
+    effect: block
+    subTypes: [police_security]
+    reason: Verdict expected
+
+  - id: storm-season
+    from: 2026-06-01
+    to: 2026-11-30
+    effect: deprioritize
+    categories: [weather, weather_nature]
+    reason: Hurricane season
+`;
+
+const at = (iso: string) => new Date(iso);
+
+beforeEach(() => {
+  fs.writeFileSync(CALENDAR_FILE, CALENDAR);
+});
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+describe('checkSensitivity', () => {
+  const calendar = () => loadSensitivityCalendar(CALENDAR_FILE);
+
+  it('matches sub-types, categories and whole-word keywords in open windows', () => {
+    const police = { category: 'encounter', subType: 'police_security' };
+    expect(checkSensitivity(police, at('2026-10-15T12:00:00Z'), calendar())).toMatchObject({ blocked: true, deprioritized: false });
+    expect(checkSensitivity({ text: 'A Shooting star over the porch' }, at('2026-10-15T12:00:00Z'), calendar()).blocked).toBe(true);
+    expect(checkSensitivity({ text: 'Sharpshooting practice' }, at('2026-10-15T12:00:00Z'), calendar()).blocked).toBe(false);
+    expect(checkSensitivity({ category: 'weather' }, at('2026-10-15T12:00:00Z'), calendar())).toMatchObject({ blocked: false, deprioritized: true });
+    expect(checkSensitivity({ category: 'animals', subType: null }, at('2026-10-15T12:00:00Z'), calendar()).windows).toEqual([]);
+  });
+
+  it('treats a date-only `to` as the whole of that day', () => {
+    const police = { subType: 'police_security' };
+    expect(checkSensitivity(police, at('2026-10-23T23:59:00Z'), calendar()).blocked).toBe(true);
+    expect(checkSensitivity(police, at('2026-10-24T00:00:00Z'), calendar()).windows.map((w) => w.id)).toEqual(['police-news-extended']);
+    expect(checkSensitivity(police, at('2026-10-09T23:59:00Z'), calendar()).blocked).toBe(false);
+  });
+});
+
+describe('nextClearTime', () => {
+  it('follows back-to-back block windows to the end of the last one', () => {
+    const calendar = loadSensitivityCalendar(CALENDAR_FILE);
+    expect(nextClearTime({ subType: 'police_security' }, at('2026-10-15T12:00:00Z'), calendar)).toEqual(at('2026-10-30T12:00:00Z'));
+    expect(nextClearTime({ text: 'shooting' }, at('2026-10-15T12:00:00Z'), calendar)).toEqual(at('2026-10-24T00:00:00Z'));
+    // Deprioritized subjects are never held back
+    expect(nextClearTime({ category: 'weather' }, at('2026-10-15T12:00:00Z'), calendar)).toEqual(at('2026-10-15T12:00:00Z'));
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Ideator guidance
+// ---------------------------------------------------------------------------
+
+describe('ideator guidance', () => {
+  const calendar = () => loadSensitivityCalendar(CALENDAR_FILE);
+
+  it('scales deprioritized categories down and renormalises', () => {
+    const weights = adjustCategoryWeights({ weather: 0.5, animals: 0.5 }, at('2026-10-15T12:00:00Z'), calendar());
+    expect(weights['weather']).toBeCloseTo(0.2);
+    expect(weights['animals']).toBeCloseTo(0.8);
+  });
+
+  it('names only what applies to the format', () => {
+    const ring = sensitivityPromptHint('ring_cam', at('2026-10-15T12:00:00Z'), calendar());
+    expect(ring).toContain('do NOT generate concepts involving:\n- "shooting" (Trial in the news)');
+    expect(ring).toContain('- the weather category (Hurricane season)');
+    expect(ring).not.toContain('police_security');
+    expect(sensitivityPromptHint('body_cam', at('2026-10-15T12:00:00Z'), calendar())).toContain('the police_security sub-type');
+    expect(sensitivityPromptHint('ring_cam', at('2027-01-01T00:00:00Z'), calendar())).toBe('');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// File
+// ---------------------------------------------------------------------------
+
+describe('loadSensitivityCalendar', () => {
+  it('reports every problem in an invalid file', () => {
+    fs.writeFileSync(CALENDAR_FILE, [
+      'version: 1',
+      'windows:',
+      '  - { id: a, from: 2026-10-10, to: 2026-10-01, effect: block, keywords: [x], reason: r }',
+      '  - { id: a, from: someday, to: 2026-10-01, effect: pause, reason: r }',
+    ].join('\n'));
+
+    expect(() => loadSensitivityCalendar(CALENDAR_FILE)).toThrow(SensitivityCalendarError);
+    expect(() => loadSensitivityCalendar(CALENDAR_FILE)).toThrow(/windows\.0: `to` must be after `from`/);
+    expect(() => loadSensitivityCalendar(CALENDAR_FILE)).toThrow(/windows\.1\.from: expected YYYY-MM-DD.*windows\.1\.effect:/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Telegram /calendar
+// ---------------------------------------------------------------------------
+
+describe('/calendar', () => {
+  it('adds a window, keeping the file\'s comments, and picks it up at once', async () => {
+    const reply = await handleTelegramCommand('/calendar add flood-news 2026-11-02 +7d block weather,dashcam,flash_flood Flooding in the news');
+    expect(reply).toContain('Window flood-news added');
+
+    const content = fs.readFileSync(CALENDAR_FILE, 'utf-8');
+    expect(content).toContain('# Test calendar');
+    expect(content).toContain('categories: [weather]');
+
+    const added = getSensitivityCalendar().windows.find((w) => w.id === 'flood-news');
+    expect(added).toMatchObject({
+      from:       at('2026-11-02T00:00:00Z'),
+      to:         at('2026-11-09T00:00:00Z'),
+      categories: ['weather'],
+      subTypes:   ['dashcam'],
+      keywords:   ['flash flood'],
+      reason:     'Flooding in the news',
+    });
+  });
+
+  it('removes a window and rejects bad edits without touching the file', async () => {
+    expect(await handleTelegramCommand('/calendar remove storm-season')).toContain('removed');
+    expect(getSensitivityCalendar().windows.map((w) => w.id)).toEqual(['police-news', 'police-news-extended']);
+    expect(await handleTelegramCommand('/calendar remove storm-season')).toBe('No window with id storm-season.');
+
+    const before = fs.readFileSync(CALENDAR_FILE, 'utf-8');
+    expect(await handleTelegramCommand('/calendar add police-news today +3d block police_security Again')).toMatch(/duplicate id police-news/);
+    expect(await handleTelegramCommand('/calendar add x today soon block pursuit Why')).toMatch(/windows\.2\.to: expected YYYY-MM-DD or an ISO 8601 time$/);
+    expect(fs.readFileSync(CALENDAR_FILE, 'utf-8')).toBe(before);
+    expect(await handleTelegramCommand('/calendar add x today +3d pause pursuit Why')).toMatch(/^Usage/);
+  });
+});
@@ -0,0 +1,122 @@
+/**
+ * Unit tests for review requests: uploading the clip and a keyframe contact
+ * sheet, the link fallback for large or missing clips, and the gate / cost /
+ * crop summary. The contact sheet builder is mocked (no ffmpeg); Telegram is
+ * the sandbox outbox.
+ */
+import { describe, it, expect, vi } from 'vitest';
+import * as fs from 'fs';
+import * as path from 'path';
+
+vi.mock('../../../src/media/frames.js', () => ({
+  buildContactSheet: vi.fn(async () => {
+    const sheet = path.join(process.env['TEMP_DIR']!, `sheet_${Date.now()}.jpg`);
+    fs.writeFileSync(sheet, 'jpeg');
+    return sheet;
+  }),
+}));
+
+import { buildContactSheet } from '../../../src/media/frames.js';
+import { readJsonl } from '../../../src/providers/sandbox/index.js';
+import { insertVideo } from '../../../src/db/videos.js';
+import { sendReviewRequest } from '../../../src/monitoring/telegram.js';
+
+interface OutboxCall {
+  method: string;
+  text?: string;
+  caption?: string;
+  parse_mode?: string;
+  photo?: string;
+  video?: string;
+}
+
+const calls = () => readJsonl<OutboxCall>('telegram-outbox.jsonl');
+
+function clipFile(name: string, bytes: number): string {
+  const file = path.join(process.env['TEMP_DIR']!, name);
+  fs.writeFileSync(file, 'clip');
+  fs.truncateSync(file, bytes); // sparse — cheap even past the upload limit
+  return file;
+}
+
+async function request(overrides: Partial<Parameters<typeof sendReviewRequest>[0]> = {}): Promise<OutboxCall[]> {
+  const video = await insertVideo({
+    idea_id: 'idea-1', idea_source: 'ring_cam', compilation_id: null, format: 'ring_cam', cam_sub_type: null,
+    master_16x9_url: 'https://cdn.example/master.mp4', vertical_9x16_url: null,
+    cloudinary_public_id: 'caught_on_camera/master/abc', vertical_public_id: null,
+    master_sha256: null, vertical_sha256: null, title: 'Raccoon rings the bell', caption: '', hashtags: [],
+    reject_reason: null, youtube_post_id: null, shorts_post_id: null, tiktok_post_id: null,
+    instagram_post_id: null, crop_safe: true, gate_results: {},
+  });
+  const before = calls().length;
+  await sendReviewRequest({
+    id:            video.id,
+    format:        'ring_cam',
+    title:         'Raccoon rings the bell',
+    cloudinaryUrl: 'https://cdn.example/master.mp4',
+    concept:       'A raccoon presses the doorbell.',
+    cost:          2.4,
+    ...overrides,
+  });
+  return calls().slice(before);
+}
+
+// ---------------------------------------------------------------------------
+// Uploads
+// ---------------------------------------------------------------------------
+
+describe('sendReviewRequest', () => {
+  it('uploads a contact sheet and the clip, then the summary with buttons', async () => {
+    const clip = clipFile('small.mp4', 2 * 1024 * 1024);
+    const sent = await request({
+      videoPath:   clip,
+      cropSafe:    false,
+      gateResults: {
+        attempts: 2,
+        gate1:    { pass: true, metrics: { avgMotion: 0.412, maxMotion: 1.9, frames: [1, 2] } },
+        gate4:    { pass: true, metrics: {} },
+      },
+    });
+
+    expect(sent.map((c) => c.method)).toEqual(['sendPhoto', 'sendVideo', 'sendMessage']);
+    expect(vi.mocked(buildContactSheet)).toHaveBeenCalledWith(clip, 3, 3);
+    expect(fs.existsSync(sent[0]!.photo!)).toBe(false);
+    expect(sent[1]).toMatchObject({ video: clip, caption: '🎬 Raccoon rings the bell', parse_mode: 'HTML' });
+
+    const text = sent[2]!.text!;
+    expect(text).toContain('<b>Cost:</b> $2.40');
+    expect(text).toContain('<b>Crop:</b> ⚠️ not crop-safe — 16:9 only');
+    expect(text).toContain('<b>Gates</b> (2 attempts):\n  G1 ✅ avgMotion 0.41 · maxMotion 1.90\n  G4 ✅');
+    expect(text).not.toContain('Preview');
+  });
+
+  it('escapes model-written text for HTML parse mode', async () => {
+    const sent = await request({
+      videoPath: clipFile('escaped.mp4', 1024),
+      title:     'Cat vs. <Roomba> & friends',
+      concept:   'A cat rides a robot vacuum <3',
+    });
+
+    expect(sent[1]!.caption).toBe('🎬 Cat vs. &lt;Roomba&gt; &amp; friends');
+    const text = sent[2]!.text!;
+    expect(text).toContain('<b>Title:</b> Cat vs. &lt;Roomba&gt; &amp; friends\n');
+    expect(text).toContain('<b>Concept:</b> A cat rides a robot vacuum &lt;3\n');
+  });
+
+  it('links the clip instead when it is over the upload limit', async () => {
+    const sent = await request({ videoPath: clipFile('large.mp4', 60 * 1024 * 1024) });
+
+    expect(sent.map((c) => c.method)).toEqual(['sendPhoto', 'sendMessage']);
+    expect(sent[1]!.text).toContain('<b>Preview:</b> <a href="https://cdn.example/master.mp4">Watch clip</a> (60 MB — too large to upload)');
+  });
+
+  it('still sends the request when the clip is missing or the sheet fails', async () => {
+    let sent = await request({ videoPath: '/nowhere/clip.mp4', cloudinaryUrl: '/tmp/storage/master.mp4' });
+    expect(sent.map((c) => c.method)).toEqual(['sendMessage']);
+    expect(sent[0]!.text).toContain('<b>Preview:</b> <code>/tmp/storage/master.mp4</code>');
+
+    vi.mocked(buildContactSheet).mockRejectedValueOnce(new Error('ffmpeg not found'));
+    sent = await request({ videoPath: clipFile('sheetless.mp4', 1024) });
+    expect(sent.map((c) => c.method)).toEqual(['sendVideo', 'sendMessage']);
+  });
+});
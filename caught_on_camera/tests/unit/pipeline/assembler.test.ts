@@ -0,0 +1,90 @@
+/**
+ * Unit tests for compilation assembly: which render of each scene goes into
+ * the concat. Only the gated clip (face blur and remediation applied) or the
+ * published copy may be used, never the pre-gate overlay render. ffmpeg,
+ * overlay and storage are mocked; the DB is the sandbox store.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fs from 'fs';
+
+const touch = (out: string) => fs.writeFileSync(out, `render ${out}`);
+
+vi.mock('../../../src/media/ffmpeg.js', () => ({
+  concatenateClips: vi.fn(async (_clips: string[], out: string) => touch(out)),
+  cropToVertical: vi.fn(),
+}));
+vi.mock('../../../src/media/overlay.js', () => ({
+  applyOverlay: vi.fn(async (_in: string, out: string) => touch(out)),
+  burnDisclosure: vi.fn(async (_in: string, out: string) => touch(out)),
+}));
+vi.mock('../../../src/media/storage.js', () => ({
+  downloadClip: vi.fn(async (url: string) => ({ path: `/downloads/${url.split('/').pop()}`, sha256: 'e'.repeat(64), bytes: 10 })),
+}));
+
+import { concatenateClips } from '../../../src/media/ffmpeg.js';
+import { downloadClip } from '../../../src/media/storage.js';
+import { dbInsert } from '../../../src/db/client.js';
+import { tempPath } from '../../../src/utils/temp.js';
+import { assembleCompilation } from '../../../src/pipeline/assembler.js';
+
+let seq = 0;
+
+/** A stored scene; `overlaid` and `gated` name local renders that are written to disk. */
+async function scene(renders: { overlaid?: boolean; gated?: boolean; published?: boolean }): Promise<{
+  id: string;
+  overlaid: string;
+  gated: string;
+}> {
+  seq++;
+  const overlaid = tempPath(`overlaid_${seq}`);
+  const gated = tempPath(`gated_${seq}`);
+  if (renders.overlaid) touch(overlaid);
+  if (renders.gated) touch(gated);
+  const row = await dbInsert('scenes', {
+    idea_id:            `idea-assemble-${seq}`,
+    idea_source:        'ring_cam',
+    format:             'ring_cam',
+    status:             'passed',
+    overlaid_video_url: overlaid,
+    gated_video_path:   renders.gated === undefined ? null : gated,
+    cloudinary_url:     renders.published ? `https://cdn.example/scene-${seq}.mp4` : null,
+  });
+  return { id: String(row['id']), overlaid, gated };
+}
+
+beforeEach(() => {
+  vi.mocked(concatenateClips).mockClear();
+  vi.mocked(downloadClip).mockClear();
+});
+
+describe('assembleCompilation', () => {
+  it('concatenates the gated clips, never the pre-gate overlay renders', async () => {
+    const first = await scene({ overlaid: true, gated: true });
+    const second = await scene({ overlaid: true, gated: true, published: true });
+
+    await assembleCompilation([first.id, second.id], 'Wildlife', 'ring_cam');
+
+    expect(vi.mocked(concatenateClips)).toHaveBeenCalledWith([first.gated, second.gated], expect.any(String));
+    expect(vi.mocked(downloadClip)).not.toHaveBeenCalled();
+  });
+
+  it('downloads the published copy once the gated clip is cleaned up', async () => {
+    const cleaned = await scene({ overlaid: true, gated: false, published: true });
+
+    await assembleCompilation([cleaned.id], 'Wildlife', 'ring_cam');
+
+    expect(vi.mocked(downloadClip)).toHaveBeenCalledWith(`https://cdn.example/scene-${seq}.mp4`);
+    const [clips] = vi.mocked(concatenateClips).mock.calls[0]!;
+    expect(clips).toEqual([`/downloads/scene-${seq}.mp4`]);
+    expect(clips).not.toContain(cleaned.overlaid);
+  });
+
+  it('skips a scene whose only render is the pre-gate overlay', async () => {
+    const ungated = await scene({ overlaid: true });
+
+    await expect(assembleCompilation([ungated.id], 'Wildlife', 'ring_cam')).rejects.toThrow(
+      'no local video files found',
+    );
+    expect(vi.mocked(concatenateClips)).not.toHaveBeenCalled();
+  });
+});
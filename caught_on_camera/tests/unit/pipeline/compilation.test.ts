@@ -0,0 +1,208 @@
+/**
+ * Unit tests for the compilation planner: grouping passed scenes by theme,
+ * the minimum-scene threshold, escalating-intensity order, producing the
+ * compilation, and the pipeline's single-clip fallback when no plan is ready.
+ * Assembly, storage and production are mocked; the DB is the sandbox store.
+ */
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../../src/pipeline/assembler.js', () => ({
+  assembleCompilation: vi.fn(async () => ({ videoPath: '/nowhere/compilation.mp4', duration: 24 })),
+  buildMultiFormat: vi.fn(async (videoPath: string) => ({ master16x9: videoPath })),
+}));
+vi.mock('../../../src/media/storage.js', () => ({
+  publishArtifact: vi.fn(async (_path: string, kind: string) => ({
+    url: `https://cdn.example/${kind}.mp4`,
+    publicId: `caught_on_camera/${kind}/abc`,
+    sha256: 'c'.repeat(64),
+    bytes: 10,
+  })),
+}));
+vi.mock('../../../src/pipeline/producer.js', () => ({
+  produceVideo: vi.fn(async () => ({
+    runId:       'run-fallback-1',
+    sceneId:     'scene-fallback-1',
+    videoPath:   '/nowhere/single.mp4',
+    master:      { url: 'https://cdn.example/single.mp4', publicId: 'caught_on_camera/master/single', sha256: 'd'.repeat(64), bytes: 10 },
+    vertical:    null,
+    cost:        2.4,
+    cropSafe:    false,
+    gateResults: { attempts: 1 },
+  })),
+  resumeProduction: vi.fn(),
+  ProductionRunError: class extends Error {},
+}));
+vi.mock('../../../src/pipeline/selection.js', () => ({ selectIdeaForSlot: vi.fn() }));
+
+import { assembleCompilation } from '../../../src/pipeline/assembler.js';
+import { produceVideo } from '../../../src/pipeline/producer.js';
+import { selectIdeaForSlot } from '../../../src/pipeline/selection.js';
+import { dbInsert, dbSelect } from '../../../src/db/client.js';
+import { insertPlan, getPlan } from '../../../src/db/plans.js';
+import { readJsonl } from '../../../src/providers/sandbox/index.js';
+import {
+  MAX_COMPILATION_SCENES,
+  orderForEscalation,
+  planCompilation,
+  runCompilationPipeline,
+  type PlannedScene,
+} from '../../../src/pipeline/compilation.js';
+import { runDailyPipeline } from '../../../src/pipeline/index.js';
+import type { RingCamIdea } from '../../../src/db/ideas.js';
+
+let seq = 0;
+
+/** A stored ring cam idea with one gate-passed scene. */
+async function passedScene(theme: string | null, virality: number, quality = 0): Promise<string> {
+  seq++;
+  const idea = await dbInsert('ring_cam_ideas', {
+    title:             `Clip ${seq}`,
+    hook:              'Look at the porch',
+    scenario:          `Scene ${seq} on the porch.`,
+    category:          'animals',
+    caption:           `Clip ${seq}`,
+    hashtags:          [`#clip${seq}`],
+    virality_score:    virality,
+    compilation_theme: theme,
+    status:            'produced',
+  });
+  const scene = await dbInsert('scenes', {
+    idea_id:       idea['id'],
+    idea_source:   'ring_cam',
+    format:        'ring_cam',
+    status:        'passed',
+    quality_score: quality,
+  });
+  return String(scene['id']);
+}
+
+/** Store the single-clip video of a scene's idea with a withdrawn status. */
+async function withdrawVideo(sceneId: string, status: 'rejected' | 'taken_down'): Promise<void> {
+  const [scene] = await dbSelect('scenes', { id: sceneId });
+  await dbInsert('videos', {
+    idea_id:         scene?.['idea_id'],
+    idea_source:     'ring_cam',
+    format:          'ring_cam',
+    title:           'Withdrawn clip',
+    approval_status: status,
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Ordering
+// ---------------------------------------------------------------------------
+
+describe('orderForEscalation', () => {
+  it('keeps the strongest scenes and plays them weakest first', () => {
+    const scenes = [70, 95, 60, 88, 75, 99, 50, 81].map((intensity, i) => ({
+      sceneId: `s${i}`,
+      idea:    {} as RingCamIdea,
+      intensity,
+    })) satisfies PlannedScene[];
+
+    const ordered = orderForEscalation(scenes);
+    expect(ordered).toHaveLength(MAX_COMPILATION_SCENES);
+    expect(ordered.map((s) => s.intensity)).toEqual([70, 75, 81, 88, 95, 99]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Planning + production
+// ---------------------------------------------------------------------------
+
+describe('planCompilation', () => {
+  it('waits until one theme has enough unused scenes', async () => {
+    await passedScene('Porch Pirates', 80);
+    await passedScene('Porch Pirates', 70);
+    await passedScene('Wildlife', 60);
+    await passedScene(null, 90);
+
+    expect(await planCompilation('ring_cam')).toBeNull();
+    expect(await runCompilationPipeline('ring_cam')).toBe(false);
+    expect(vi.mocked(assembleCompilation)).not.toHaveBeenCalled();
+  });
+
+  it('picks the largest theme, matching case-insensitively, in escalating order', async () => {
+    const strongest = await passedScene('wildlife ', 85, 40);
+    const weakest = await passedScene('WILDLIFE', 55);
+    const tied = await passedScene('Wildlife', 85, 10);
+
+    const plan = await planCompilation('ring_cam');
+    expect(plan?.theme.toLowerCase()).toBe('wildlife');
+    const order = plan!.scenes.map((s) => s.sceneId);
+    expect(order[0]).toBe(weakest);
+    // Equal virality: the higher gate quality score plays later
+    expect(order.slice(-2)).toEqual([tied, strongest]);
+    expect(plan!.scenes.map((s) => Math.floor(s.intensity))).toEqual([55, 60, 85, 85]);
+  });
+
+  it('assembles the plan, sends it for review and never reuses its scenes', async () => {
+    expect(await runCompilationPipeline('ring_cam')).toBe(true);
+
+    const [compilation] = await dbSelect('compilations', { format: 'ring_cam' });
+    expect(String(compilation?.['title']).toLowerCase()).toBe('4 wildlife moments caught on doorbell cam');
+    expect(compilation?.['scene_ids']).toHaveLength(4);
+    const [video] = await dbSelect('videos', { compilation_id: compilation?.['id'] });
+    expect(video).toMatchObject({ master_16x9_url: 'https://cdn.example/master.mp4', vertical_9x16_url: null });
+    expect(readJsonl<{ text?: string }>('telegram-outbox.jsonl').at(-1)?.text).toMatch(/Compilation \(wildlife ?\)/i);
+
+    // The Porch Pirates pair is all that is left
+    expect(await planCompilation('ring_cam')).toBeNull();
+  });
+
+  it('leaves out scenes whose own video was rejected or taken down', async () => {
+    const rejected = await passedScene('Porch Pirates', 65);
+    const takenDown = await passedScene('Porch Pirates', 75);
+    await withdrawVideo(rejected, 'rejected');
+    await withdrawVideo(takenDown, 'taken_down');
+    expect(await planCompilation('ring_cam')).toBeNull();
+
+    const fresh = await passedScene('Porch Pirates', 50);
+    const ids = (await planCompilation('ring_cam'))?.scenes.map((s) => s.sceneId);
+    expect(ids).toHaveLength(3);
+    expect(ids![0]).toBe(fresh);
+    expect(ids).not.toContain(rejected);
+    expect(ids).not.toContain(takenDown);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Pipeline fallback
+// ---------------------------------------------------------------------------
+
+describe('compilation slot without a plan', () => {
+  it('produces a single clip instead and marks the slot produced', async () => {
+    const idea = await dbInsert('body_cam_ideas', {
+      title:        'Traffic stop goose',
+      hook:         'Sir, is that your goose?',
+      scenario:     'A goose blocks a patrol car.',
+      category:     'animals',
+      cam_sub_type: 'police_traffic',
+      caption:      'Goose 1, officer 0',
+      hashtags:     [],
+      status:       'pending',
+    });
+    vi.mocked(selectIdeaForSlot).mockResolvedValueOnce({
+      idea:     idea as unknown as RingCamIdea,
+      match:    'exact',
+      category: 'animals',
+    });
+    const plan = await insertPlan({
+      plan_date:        new Date().toISOString().split('T')[0]!,
+      buffer_count:     0,
+      buffer_deficit:   3,
+      budget_available: 20,
+      est_cost_ring:    2.5,
+      est_cost_body:    3,
+      slots:            [{ format: 'body_cam', category: null, subType: null, compilation: true, estCost: 3, status: 'pending' }],
+    });
+    vi.mocked(assembleCompilation).mockClear();
+
+    await runDailyPipeline();
+
+    expect(vi.mocked(assembleCompilation)).not.toHaveBeenCalled();
+    expect(vi.mocked(produceVideo)).toHaveBeenCalledWith(expect.objectContaining({ id: idea['id'] }), 'body_cam');
+    expect((await getPlan(plan.plan_date))?.slots[0]?.status).toBe('produced');
+    expect(await dbSelect('videos', { idea_id: idea['id'] })).toHaveLength(1);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Unit tests for the daily production planner's slot maths.
+ */
+import { describe, it, expect } from 'vitest';
+import { computeDayPlan, slotsForTick, type PlanInput } from '../../../src/pipeline/planner.js';
+
+const base: PlanInput = {
+  schedule:      { format: 'ring_cam', category: 'animals', subType: null, compilation: false },
+  bufferCount:   9,
+  spent:         0,
+  costs:         { ring_cam: 2.5, body_cam: 3 },
+  videosPerDay:  3,
+  minBufferDays: 3,
+  budgetTarget:  25,
+  retryReserve:  5,
+};
+
+// ---------------------------------------------------------------------------
+// computeDayPlan
+// ---------------------------------------------------------------------------
+
+describe('computeDayPlan', () => {
+  it('replaces the day\'s posts when the buffer is at target', () => {
+    const plan = computeDayPlan(base);
+    expect(plan.bufferDeficit).toBe(0);
+    expect(plan.slots.map((s) => s.format)).toEqual(['ring_cam', 'body_cam', 'ring_cam']);
+    expect(plan.slots[0]).toMatchObject({ category: 'animals', status: 'pending', estCost: 2.5 });
+    expect(plan.slots[1]).toMatchObject({ category: null, subType: null });
+  });
+
+  it('adds the buffer deficit, capped at twice the daily rate', () => {
+    expect(computeDayPlan({ ...base, bufferCount: 7 }).slots).toHaveLength(5);
+    expect(computeDayPlan({ ...base, bufferCount: 0 }).slots).toHaveLength(6);
+  });
+
+  it('plans nothing when the buffer covers today and the target', () => {
+    expect(computeDayPlan({ ...base, bufferCount: 12 }).slots).toHaveLength(0);
+  });
+
+  it('stops when the budget minus the retry reserve runs out', () => {
+    const plan = computeDayPlan({ ...base, bufferCount: 0, spent: 12 });
+    expect(plan.budgetAvailable).toBe(8);
+    expect(plan.slots.map((s) => s.format)).toEqual(['ring_cam', 'body_cam', 'ring_cam']);
+  });
+
+  it('swaps to the cheaper format when the preferred one no longer fits', () => {
+    const plan = computeDayPlan({ ...base, spent: 15 });
+    expect(plan.slots.map((s) => s.format)).toEqual(['ring_cam', 'ring_cam']);
+  });
+
+  it('marks only the first scheduled slot as the compilation', () => {
+    const plan = computeDayPlan({
+      ...base,
+      schedule: { format: 'body_cam', category: null, subType: null, compilation: true },
+    });
+    expect(plan.slots.map((s) => s.compilation)).toEqual([true, false, false]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// slotsForTick
+// ---------------------------------------------------------------------------
+
+describe('slotsForTick', () => {
+  it('spreads pending slots over the remaining window', () => {
+    expect(slotsForTick(3, 8)).toBe(1);
+    expect(slotsForTick(6, 20)).toBe(2);
+  });
+
+  it('produces everything left on the last tick or after the window', () => {
+    expect(slotsForTick(4, 22)).toBe(4);
+    expect(slotsForTick(2, 23)).toBe(2);
+  });
+
+  it('treats ticks before the window as the first tick', () => {
+    expect(slotsForTick(15, 3)).toBe(1);
+  });
+
+  it('returns zero when nothing is pending', () => {
+    expect(slotsForTick(0, 12)).toBe(0);
+  });
+});
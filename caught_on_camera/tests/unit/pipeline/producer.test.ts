@@ -0,0 +1,223 @@
+/**
+ * Unit tests for the producer's scene audit trail and checkpoint resume.
+ * Media, generation and gate modules are mocked; the DB is the sandbox store.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import * as fs from 'fs';
+
+const touch = (out: string) => fs.writeFileSync(out, `render ${out}`);
+
+vi.mock('../../../src/ai/veo.js', () => ({
+  generateClip: vi.fn(async () => ({ videoUrl: 'https://cdn.example/clip.mp4', cost: 2.4, durationSeconds: 8 })),
+}));
+vi.mock('../../../src/media/storage.js', () => ({
+  downloadClip: vi.fn(async () => {
+    const raw = `${process.env['TEMP_DIR']}/raw.mp4`;
+    touch(raw);
+    return { sha256: 'a'.repeat(64), path: raw, bytes: 10 };
+  }),
+  publishArtifact: vi.fn(async (_path: string, kind: string) => ({
+    url: `https://cdn.example/${kind}.mp4`,
+    publicId: `caught_on_camera/${kind}/abc`,
+    sha256: 'b'.repeat(64),
+    bytes: 10,
+  })),
+}));
+vi.mock('../../../src/media/degradation.js', () => ({
+  degrade: vi.fn(async (_in: string, out: string) => touch(out)),
+  addBodyCamShake: vi.fn(async (_in: string, out: string) => touch(out)),
+}));
+vi.mock('../../../src/media/overlay.js', () => ({
+  applyOverlay: vi.fn(async (_in: string, out: string) => touch(out)),
+  burnDisclosure: vi.fn(async (_in: string, out: string) => touch(out)),
+}));
+vi.mock('../../../src/media/ffmpeg.js', () => ({
+  cropToVertical: vi.fn(async (_in: string, out: string) => touch(out)),
+  mixAudioBed: vi.fn(),
+  replaceAudio: vi.fn(),
+  getDuration: vi.fn(async () => 8),
+}));
+vi.mock('../../../src/media/ambient.js', () => ({ buildAmbientTrack: vi.fn() }));
+vi.mock('../../../src/media/analysis.js', () => ({
+  MediaAnalysis: class {
+    constructor(readonly videoPath: string) {}
+    async frames() {
+      return { sample: [], timed: [], keyframes: [], first: null, last: null };
+    }
+    dispose() {}
+  },
+}));
+vi.mock('../../../src/gates/gate1-motion.js', () => ({
+  runGate1: vi.fn(async () => ({ pass: true, avgMotion: 0, maxMotion: 0 })),
+}));
+vi.mock('../../../src/gates/gate2-face.js', () => ({
+  runGate2: vi.fn(async () => ({ pass: true, blurred: false, facesDetected: 0 })),
+}));
+vi.mock('../../../src/gates/gate3-audio.js', () => ({ runGate3: vi.fn(async () => ({ pass: true })) }));
+vi.mock('../../../src/gates/gate5-crop.js', () => ({
+  runGate5: vi.fn(async () => ({ pass: true, cropSafe: true, recommendation: 'all_platforms' })),
+}));
+vi.mock('../../../src/gates/gate6-overlay.js', () => ({
+  runGate6: vi.fn(async () => ({ pass: true, overlayDetected: true, timestampReadable: true, formatCorrect: true })),
+}));
+vi.mock('../../../src/gates/gate7-disclosure.js', () => ({
+  runGate7: vi.fn(async () => ({ pass: true, hardFail: false, watermarkDetected: true })),
+}));
+
+import { runGate1 } from '../../../src/gates/gate1-motion.js';
+import { runGate7 } from '../../../src/gates/gate7-disclosure.js';
+import { generateClip } from '../../../src/ai/veo.js';
+import { publishArtifact } from '../../../src/media/storage.js';
+import { degrade } from '../../../src/media/degradation.js';
+import { cropToVertical } from '../../../src/media/ffmpeg.js';
+import { dbInsert, dbSelect } from '../../../src/db/client.js';
+import { getCheckpoints, getRun } from '../../../src/db/runs.js';
+import { produceVideo, resumeProduction, ProductionRunError } from '../../../src/pipeline/producer.js';
+import type { RingCamIdea } from '../../../src/db/ideas.js';
+
+const idea: RingCamIdea = {
+  id:                'idea-scene-1',
+  title:             'Raccoon rings the bell',
+  hook:              'Who is at the door?',
+  scenario:          'A raccoon climbs the porch rail and presses the doorbell.',
+  category:          'animals',
+  camera_position:   'above front door',
+  time_of_day:       'night',
+  audio_notes:       null,
+  virality_score:    80,
+  virality_elements: [],
+  format_type:       'single',
+  compilation_theme: null,
+  caption:           'Ding dong 🦝',
+  hashtags:          [],
+  status:            'pending',
+  created_at:        new Date().toISOString(),
+};
+
+beforeEach(() => {
+  vi.mocked(runGate1).mockResolvedValue({ pass: true, avgMotion: 0, maxMotion: 0 });
+  vi.mocked(generateClip).mockClear();
+});
+
+/** Produce a stored idea until the upload fails; returns the run left behind. */
+async function failedAtUpload(id: string): Promise<ProductionRunError> {
+  await dbInsert('ring_cam_ideas', { ...idea, id });
+  vi.mocked(publishArtifact).mockRejectedValueOnce(new Error('Cloudinary 503'));
+  const err = await produceVideo({ ...idea, id }, 'ring_cam').catch((e: unknown) => e);
+  expect(err).toBeInstanceOf(ProductionRunError);
+  return err as ProductionRunError;
+}
+
+describe('produceVideo scene audit trail', () => {
+  it('records a passed scene with prompt, cost and media URLs', async () => {
+    const produced = await produceVideo(idea, 'ring_cam');
+    const [scene] = await dbSelect('scenes', { id: produced.sceneId });
+
+    expect(scene).toMatchObject({
+      run_id:          produced.runId,
+      idea_id:         idea.id,
+      status:          'passed',
+      gate_pass:       true,
+      retry_count:     0,
+      generation_cost: 2.4,
+      raw_video_url:   'https://cdn.example/clip.mp4',
+      cloudinary_url:  'https://cdn.example/master.mp4',
+    });
+    expect(scene?.['veo_prompt']).toContain('raccoon climbs the porch rail');
+    expect(scene?.['degraded_video_url']).toEqual(expect.any(String));
+    expect(scene?.['overlaid_video_url']).toEqual(expect.any(String));
+    expect(scene?.['gated_video_path']).toEqual(expect.any(String));
+
+    const costs = await dbSelect('cost_events', { scene_id: produced.sceneId });
+    expect(costs.length).toBeGreaterThan(0);
+
+    expect(produced.gateResults).toMatchObject({
+      attempts: 1,
+      gate1:    { pass: true, metrics: { avgMotion: 0, maxMotion: 0 } },
+      gate4:    { pass: true, hardFail: false },
+    });
+  });
+
+  it('records every gate failure and the retry count when the gates give up', async () => {
+    vi.mocked(runGate1).mockResolvedValue({
+      pass: false, action: 'regenerate', avgMotion: 3, maxMotion: 9, reason: 'camera moved',
+    });
+
+    const err = await produceVideo(idea, 'ring_cam').catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(ProductionRunError);
+
+    const [scene] = await dbSelect('scenes', { run_id: (err as ProductionRunError).runId });
+    expect(scene?.['status']).toBe('failed');
+    expect(scene?.['gate_pass']).toBe(false);
+    expect(scene?.['gate_failures']).toEqual(['gate1:camera moved', 'gate1:camera moved', 'gate1:camera moved']);
+    expect(scene?.['retry_count']).toBe(2);
+    // Each failed motion check regenerated the clip until the regenerate budget ran out
+    expect(vi.mocked(generateClip)).toHaveBeenCalledTimes(3);
+
+    const gateRuns = await dbSelect('gate_runs', { run_id: (err as ProductionRunError).runId });
+    // Face detection shares gate 1's stage, so it is evaluated (and recorded) on every attempt
+    expect(gateRuns.map((g) => [g['attempt'], g['gate'], g['pass']])).toEqual([
+      [1, 1, false],
+      [1, 2, true],
+      [2, 1, false],
+      [2, 2, true],
+      [3, 1, false],
+      [3, 2, true],
+    ]);
+    expect(gateRuns[0]).toMatchObject({
+      action:      'regenerate',
+      reason:      'camera moved',
+      metrics:     { avgMotion: 3, maxMotion: 9 },
+      format:      'ring_cam',
+      veo_variant: 'ring_cam_v1',
+    });
+  });
+});
+
+describe('resumeProduction', () => {
+  it('resumes after the last intact step without calling Veo again', async () => {
+    const err = await failedAtUpload('idea-resume-1');
+    expect(err.resumable).toBe(true);
+    expect(await getRun(err.runId)).toMatchObject({ status: 'failed', last_step: 'crop' });
+
+    vi.mocked(generateClip).mockClear();
+    vi.mocked(degrade).mockClear();
+    const { idea: resumed, scene } = await resumeProduction(err.runId);
+
+    expect(resumed.id).toBe('idea-resume-1');
+    expect(scene.master.url).toBe('https://cdn.example/master.mp4');
+    expect(scene.cost).toBeCloseTo(2.41);
+    expect(vi.mocked(generateClip)).not.toHaveBeenCalled();
+    expect(vi.mocked(degrade)).not.toHaveBeenCalled();
+    expect(await getRun(err.runId)).toMatchObject({ status: 'completed', last_step: 'upload' });
+  });
+
+  it('rewinds past a checkpoint whose artifact was modified', async () => {
+    const err = await failedAtUpload('idea-resume-2');
+    const crop = (await getCheckpoints(err.runId)).find((cp) => cp.step === 'crop')!;
+    fs.writeFileSync(crop.artifact_path!, 'tampered');
+
+    vi.mocked(cropToVertical).mockClear();
+    await resumeProduction(err.runId);
+
+    expect(vi.mocked(cropToVertical)).toHaveBeenCalledTimes(1);
+    expect(vi.mocked(generateClip)).toHaveBeenCalledTimes(1); // the original run only
+    const steps = (await getCheckpoints(err.runId)).map((cp) => cp.step);
+    expect(steps.filter((s) => s === 'crop')).toHaveLength(2);
+  });
+
+  it('does not resume a run rejected by a hard fail', async () => {
+    vi.mocked(runGate7).mockResolvedValueOnce({ pass: false, hardFail: true, watermarkDetected: false });
+
+    const err = await produceVideo(idea, 'ring_cam').catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(ProductionRunError);
+    expect((err as ProductionRunError).resumable).toBe(false);
+    expect((await getRun((err as ProductionRunError).runId))?.status).toBe('rejected');
+    await expect(resumeProduction((err as ProductionRunError).runId)).rejects.toThrow('is rejected and cannot be resumed');
+  });
+
+  it('refuses to resume a completed run', async () => {
+    const produced = await produceVideo(idea, 'ring_cam');
+    await expect(resumeProduction(produced.runId)).rejects.toThrow(`run ${produced.runId} is completed and cannot be resumed`);
+  });
+});
@@ -0,0 +1,203 @@
+/**
+ * Unit tests for operator review: the buttons on a review request, approving
+ * (which schedules publishing), rejecting with a fixed reason, regenerating,
+ * and the /approve and /reject commands. The DB and Telegram are the sandbox
+ * stores.
+ */
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../../src/pipeline/publisher.js', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../src/pipeline/publisher.js')>();
+  return { ...actual, schedulePublish: vi.fn(actual.schedulePublish) };
+});
+
+import { dbInsert, dbSelect } from '../../../src/db/client.js';
+import { insertVideo, getVideoById, type VideoRecord } from '../../../src/db/videos.js';
+import { readJsonl } from '../../../src/providers/sandbox/index.js';
+import { schedulePublish } from '../../../src/pipeline/publisher.js';
+import {
+  sendReviewRequest,
+  handleTelegramCallback,
+  handleTelegramCommand,
+} from '../../../src/monitoring/telegram.js';
+
+interface OutboxCall {
+  method: string;
+  message_id: number;
+  text?: string;
+  reply_markup?: { inline_keyboard: Array<Array<{ text: string; callback_data: string }>> };
+}
+
+const outbox = () => readJsonl<OutboxCall>('telegram-outbox.jsonl');
+
+async function videoForReview(title: string): Promise<{ video: VideoRecord; messageId: number }> {
+  const idea = await dbInsert('ring_cam_ideas', {
+    title,
+    hook:     'Who is at the door?',
+    scenario: 'A raccoon presses the doorbell.',
+    category: 'animals',
+    caption:  title,
+    hashtags: [],
+    status:   'produced',
+  });
+  const video = await insertVideo({
+    idea_id:              String(idea['id']),
+    idea_source:          'ring_cam',
+    compilation_id:       null,
+    format:               'ring_cam',
+    cam_sub_type:         null,
+    master_16x9_url:      'https://cdn.example/master.mp4',
+    vertical_9x16_url:    'https://cdn.example/vertical.mp4',
+    cloudinary_public_id: 'caught_on_camera/master/abc',
+    vertical_public_id:   'caught_on_camera/vertical/abc',
+    master_sha256:        null,
+    vertical_sha256:      null,
+    title,
+    caption:              title,
+    hashtags:             ['#ringcam'],
+    reject_reason:        null,
+    youtube_post_id:      null,
+    shorts_post_id:       null,
+    tiktok_post_id:       null,
+    instagram_post_id:    null,
+    crop_safe:            true,
+    gate_results:         {},
+  });
+  await sendReviewRequest({
+    id:            video.id,
+    format:        'ring_cam',
+    title,
+    cloudinaryUrl: video.master_16x9_url,
+    concept:       'A raccoon presses the doorbell.',
+    cost:          2.4,
+  });
+  const messageId = (await getVideoById(video.id))!.review_message_id!;
+  return { video, messageId };
+}
+
+function press(messageId: number, data: string, from = { id: 200, username: 'night_editor' }) {
+  return handleTelegramCallback({
+    id:      String(messageId),
+    from,
+    message: { message_id: messageId, chat: { id: Number(process.env['TELEGRAM_CHAT_ID']) } },
+    data,
+  });
+}
+
+const lastCall = (method: string) => outbox().filter((c) => c.method === method).at(-1);
+
+// ---------------------------------------------------------------------------
+// Buttons
+// ---------------------------------------------------------------------------
+
+describe('review buttons', () => {
+  it('sends Approve, Reject and Regenerate and stores the message id', async () => {
+    const { video, messageId } = await videoForReview('Raccoon rings the bell');
+    const sent = outbox().find((c) => c.message_id === messageId);
+    expect(sent?.reply_markup?.inline_keyboard[0]?.map((b) => [b.text, b.callback_data])).toEqual([
+      ['✅ Approve', `review:a:${video.id}`],
+      ['❌ Reject', `review:r:${video.id}`],
+      ['🔁 Regenerate', `review:g:${video.id}`],
+    ]);
+  });
+
+  it('approves, schedules every platform and shows who decided', async () => {
+    const { video, messageId } = await videoForReview('Fox steals a slipper');
+    await press(messageId, `review:a:${video.id}`);
+
+    expect(await getVideoById(video.id)).toMatchObject({ approval_status: 'approved', reviewed_by: '@night_editor' });
+    const posts = await dbSelect('scheduled_posts', { video_id: video.id });
+    expect(posts.map((p) => p['platform']).sort()).toEqual(['instagram', 'shorts', 'tiktok', 'youtube']);
+
+    const edit = lastCall('editMessageText');
+    expect(edit).toMatchObject({ message_id: messageId, reply_markup: { inline_keyboard: [] } });
+    expect(edit?.text).toContain('✅ Approved by @night_editor — publishing scheduled.');
+    expect(lastCall('answerCallbackQuery')).toMatchObject({ text: '✅ Approved — publishing scheduled.' });
+
+    // A second press (or a stale button) changes nothing
+    await press(messageId, `review:a:${video.id}`);
+    expect(lastCall('answerCallbackQuery')).toMatchObject({ text: `Video ${video.id} is already approved (by @night_editor).` });
+    expect(await dbSelect('scheduled_posts', { video_id: video.id })).toHaveLength(4);
+  });
+
+  it('leaves the video pending when scheduling fails, so Approve can be pressed again', async () => {
+    const { video, messageId } = await videoForReview('Bear tries the car door');
+    vi.mocked(schedulePublish).mockRejectedValueOnce(new Error('calendar lookup failed'));
+    await press(messageId, `review:a:${video.id}`);
+
+    expect(lastCall('answerCallbackQuery')).toMatchObject({ text: 'Something went wrong — check the logs.' });
+    expect((await getVideoById(video.id))?.approval_status).toBe('pending_review');
+
+    await press(messageId, `review:a:${video.id}`);
+    expect((await getVideoById(video.id))?.approval_status).toBe('approved');
+    expect(await dbSelect('scheduled_posts', { video_id: video.id })).toHaveLength(4);
+
+    // Scheduling again never doubles up a platform
+    await schedulePublish((await getVideoById(video.id))!);
+    expect(await dbSelect('scheduled_posts', { video_id: video.id })).toHaveLength(4);
+  });
+
+  it('only lets reviewers press them', async () => {
+    const { video, messageId } = await videoForReview('Skunk on the welcome mat');
+    await press(messageId, `review:a:${video.id}`, { id: 300, username: 'intern' });
+
+    expect(lastCall('answerCallbackQuery')).toMatchObject({ text: 'Not allowed — needs the reviewer role.' });
+    expect((await getVideoById(video.id))?.approval_status).toBe('pending_review');
+  });
+
+  it('asks for a reason before rejecting', async () => {
+    const { video, messageId } = await videoForReview('Cat ambushes the mail carrier');
+    await press(messageId, `review:r:${video.id}`);
+
+    const reasons = lastCall('editMessageReplyMarkup')?.reply_markup?.inline_keyboard.flat().map((b) => b.callback_data);
+    expect(reasons).toContain(`review:x:${video.id}:artifacts`);
+    expect(reasons?.at(-1)).toBe(`review:b:${video.id}`);
+    expect((await getVideoById(video.id))?.approval_status).toBe('pending_review');
+
+    await press(messageId, `review:x:${video.id}:artifacts`);
+    expect(await getVideoById(video.id)).toMatchObject({
+      approval_status: 'rejected',
+      reject_reason:   'Visual artifacts or glitches',
+      reviewed_by:     '@night_editor',
+    });
+    expect(lastCall('editMessageText')?.text).toContain('❌ Rejected by @night_editor — Visual artifacts or glitches.');
+    expect(await dbSelect('scheduled_posts', { video_id: video.id })).toEqual([]);
+  });
+
+  it('regenerates by rejecting the video and re-queueing its idea', async () => {
+    const { video, messageId } = await videoForReview('Deer checks the porch light');
+    await press(messageId, `review:g:${video.id}`);
+
+    expect(await getVideoById(video.id)).toMatchObject({ approval_status: 'rejected', reject_reason: 'Regenerate requested' });
+    const [idea] = await dbSelect('ring_cam_ideas', { id: video.idea_id });
+    expect(idea?.['status']).toBe('pending');
+    expect(lastCall('editMessageText')?.text).toContain('🔁 Regenerate requested by @night_editor');
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Commands
+// ---------------------------------------------------------------------------
+
+describe('/approve and /reject', () => {
+  it('decide through the same flow and edit the review message', async () => {
+    const { video, messageId } = await videoForReview('Owl lands on the camera');
+    expect(await handleTelegramCommand(`/reject ${video.id} hook Slow first two seconds`))
+      .toBe(`Video ${video.id}: ❌ Rejected by telegram — Weak hook or boring: Slow first two seconds.`);
+    expect(lastCall('editMessageText')).toMatchObject({ message_id: messageId });
+    expect(lastCall('editMessageText')?.text).toContain('<b>Owl lands on the camera</b>');
+    expect(await handleTelegramCommand(`/approve ${video.id}`)).toBe(`Video ${video.id} is already rejected (by telegram).`);
+  });
+
+  it('escape the title and note in the edited review message', async () => {
+    const { video } = await videoForReview('Fox & hound <at> the door');
+    await handleTelegramCommand(`/reject ${video.id} other Looks <fake> & odd`);
+    expect(lastCall('editMessageText')?.text).toContain('<b>Fox &amp; hound &lt;at&gt; the door</b>');
+    expect(lastCall('editMessageText')?.text).toContain('❌ Rejected by telegram — Other: Looks &lt;fake&gt; &amp; odd.');
+  });
+
+  it('require a reason from the fixed list and a known video', async () => {
+    expect(await handleTelegramCommand('/reject abc because')).toMatch(/^Usage: \/reject <videoId> <reason> \[note\]\nReasons: fake, artifacts/);
+    expect(await handleTelegramCommand('/approve no-such-video')).toBe('No video no-such-video.');
+  });
+});
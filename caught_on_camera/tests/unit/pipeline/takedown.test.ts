@@ -0,0 +1,76 @@
+/**
+ * Unit tests for emergency takedown: deleting live posts through Blotato,
+ * cancelling scheduled posts, the takedown log, and the admin-only /takedown
+ * command. The DB, Blotato and Telegram are the sandbox stores.
+ */
+import { describe, it, expect } from 'vitest';
+import { dbInsert, dbSelect } from '../../../src/db/client.js';
+import { insertVideo, getVideoById } from '../../../src/db/videos.js';
+import { readJsonl } from '../../../src/providers/sandbox/index.js';
+import { handleOperatorMessage } from '../../../src/monitoring/telegram.js';
+import { takedownVideo, getTakedownCandidates } from '../../../src/pipeline/takedown.js';
+
+const chat = { id: Number(process.env['TELEGRAM_CHAT_ID']) };
+
+async function publishedVideo(title: string): Promise<string> {
+  const video = await insertVideo({
+    idea_id: 'idea-takedown', idea_source: 'body_cam', compilation_id: null, format: 'body_cam', cam_sub_type: null,
+    master_16x9_url: 'https://cdn.example/master.mp4', vertical_9x16_url: null,
+    cloudinary_public_id: 'caught_on_camera/master/td', vertical_public_id: null,
+    master_sha256: null, vertical_sha256: null, title, caption: '', hashtags: [],
+    reject_reason: null, youtube_post_id: null, shorts_post_id: null, tiktok_post_id: null,
+    instagram_post_id: null, crop_safe: true, gate_results: {},
+  });
+  await dbInsert('platform_publishes', { video_id: video.id, platform: 'youtube', post_id: 'post-yt', status: 'published' });
+  await dbInsert('platform_publishes', { video_id: video.id, platform: 'tiktok', post_id: 'MANUAL_QUEUE:x:tiktok', status: 'published' });
+  await dbInsert('platform_publishes', { video_id: video.id, platform: 'instagram', status: 'failed' });
+  await dbInsert('scheduled_posts', { video_id: video.id, platform: 'shorts', status: 'pending' });
+  return video.id;
+}
+
+// ---------------------------------------------------------------------------
+// takedownVideo
+// ---------------------------------------------------------------------------
+
+describe('takedownVideo', () => {
+  it('deletes live posts, cancels scheduled ones and logs the takedown', async () => {
+    const videoId = await publishedVideo('Suspect hides in a hedge');
+    expect((await getTakedownCandidates()).map((v) => v.id)).not.toContain(videoId); // still pending review
+
+    const result = await takedownVideo(videoId, { reason: 'Complaint', by: 'cli' });
+    expect(result).toEqual({ videoId, removed: ['youtube'], failed: [], cancelled: 1 });
+
+    expect(readJsonl<{ method?: string; endpoint?: string }>('blotato-posts.jsonl').at(-1))
+      .toMatchObject({ method: 'DELETE', endpoint: '/posts/post-yt' });
+    expect((await dbSelect('platform_publishes', { video_id: videoId, platform: 'youtube' }))[0]?.['status']).toBe('taken_down');
+    expect((await dbSelect('scheduled_posts', { video_id: videoId }))[0]?.['status']).toBe('cancelled');
+    expect(await getVideoById(videoId)).toMatchObject({ approval_status: 'taken_down', reject_reason: 'Complaint', reviewed_by: 'cli' });
+    expect(await dbSelect('takedown_log', { video_id: videoId })).toEqual([
+      expect.objectContaining({ platforms_removed: ['youtube'], platforms_failed: [], reason: 'Complaint', requested_by: 'cli' }),
+    ]);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// /takedown
+// ---------------------------------------------------------------------------
+
+describe('/takedown', () => {
+  it('is admin-only, audited, and refuses a video that is already down', async () => {
+    const videoId = await publishedVideo('Dog steals the radio');
+
+    expect(await handleOperatorMessage({ text: `/takedown ${videoId}`, chat, from: { id: 200, username: 'rev' } }))
+      .toBe('⛔ Not allowed — /takedown needs the admin role (you are reviewer).');
+    expect((await getVideoById(videoId))?.approval_status).toBe('pending_review');
+
+    expect(await handleOperatorMessage({ text: `/takedown ${videoId} Legal request`, chat, from: { id: 100, username: 'boss' } }))
+      .toBe(`🛑 Video ${videoId} taken down — removed from youtube · 1 scheduled post(s) cancelled.`);
+    expect(await getVideoById(videoId)).toMatchObject({ approval_status: 'taken_down', reject_reason: 'Legal request', reviewed_by: '@boss' });
+
+    expect(await handleOperatorMessage({ text: `/takedown ${videoId}`, chat, from: { id: 100, username: 'boss' } }))
+      .toBe(`Video ${videoId} is already taken down.`);
+
+    const audit = await dbSelect('operator_audit_log', {});
+    expect(audit.map((a) => [a['telegram_user_id'], a['result']])).toEqual([[200, 'denied'], [100, 'ok'], [100, 'ok']]);
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Unit tests for the sandbox provider stand-ins: the JSON table store behind
+ * the db client helpers, and the rule-based Claude replies.
+ */
+import { describe, it, expect } from 'vitest';
+import { dbInsert, dbSelect, dbSelectFiltered, dbUpdate } from '../../../src/db/client.js';
+import { sandboxReply } from '../../../src/providers/sandbox/claude.js';
+
+// ---------------------------------------------------------------------------
+// Sandbox DB
+// ---------------------------------------------------------------------------
+
+describe('sandbox db', () => {
+  it('fills column defaults from the migrations', async () => {
+    const row = await dbInsert('videos', { title: 'Porch raccoon', format: 'ring_cam' });
+    expect(row['id']).toEqual(expect.any(String));
+    expect(row).toMatchObject({
+      approval_status: 'pending_review',
+      hashtags: [],
+      crop_safe: true,
+      gate_results: {},
+      reject_reason: null,
+    });
+  });
+
+  it('supports the filter, order and limit subset used by the codebase', async () => {
+    for (const [idea, score] of [['a', 40], ['b', 90], ['c', 70]] as const) {
+      await dbInsert('ring_cam_ideas', { title: idea, virality_score: score, category: 'animals' });
+    }
+
+    const top = await dbSelectFiltered('ring_cam_ideas', (q) =>
+      q.eq('status', 'pending').gte('virality_score', 50).order('virality_score', { ascending: false }).limit(1),
+    );
+    expect(top.map((r) => r['title'])).toEqual(['b']);
+
+    const picked = await dbSelectFiltered('ring_cam_ideas', (q) => q.in('title', ['a', 'c']));
+    expect(picked).toHaveLength(2);
+    expect(await dbSelect('ring_cam_ideas', { title: 'c' })).toHaveLength(1);
+  });
+
+  it('updates rows by id and rejects unknown ids', async () => {
+    const row = await dbInsert('production_runs', { idea_id: 'x', idea_source: 'ring_cam' });
+    const updated = await dbUpdate('production_runs', String(row['id']), { status: 'completed' });
+    expect(updated).toMatchObject({ status: 'completed', updated_at: expect.any(String) });
+    await expect(dbUpdate('production_runs', 'missing', { status: 'failed' })).rejects.toThrow(/no\) rows/);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Sandbox Claude
+// ---------------------------------------------------------------------------
+
+describe('sandboxReply', () => {
+  it('returns the requested number of ideator concepts', () => {
+    const { text, rule } = sandboxReply({
+      prompt: 'Generate exactly 4 body camera video concepts.',
+      frameCount: 0,
+    });
+    expect(rule).toBe('body_ideator');
+    const ideas = JSON.parse(text) as Array<Record<string, unknown>>;
+    expect(ideas).toHaveLength(4);
+    expect(ideas[0]).toHaveProperty('cam_sub_type');
+  });
+
+  it('answers vision gates with a clean result', () => {
+    const faces = sandboxReply({ prompt: 'one line: {"frame": 0, "facesFound": 0}', frameCount: 3 });
+    expect(faces.text.split('\n')).toHaveLength(3);
+    const policy = sandboxReply({ prompt: '{ "severity": "<none|low>" }', frameCount: 5 });
+    expect(JSON.parse(policy.text)).toMatchObject({ severity: 'none', flags: [] });
+  });
+
+  it('falls back to plain text for unknown prompts', () => {
+    expect(sandboxReply({ prompt: 'hello', frameCount: 0 }).rule).toBe('fallback');
+  });
+});